@@ -0,0 +1,258 @@
+/**
+ * /api/v1/ai/intake - Conversational family intake
+ *
+ * WHY: Multi-turn intake because:
+ * - parse-family turns one block of text into a profile and has to guess whatever the
+ *   parent left out; intake asks instead
+ * - Recommendations need each child's age and a location we can place, and parents
+ *   often leave one of them out of their opening description
+ * - Follow-up questions for budget and schedule improve ranking without making the
+ *   parent fill in a form
+ *
+ * DESIGN DECISIONS:
+ * - One endpoint: POST without a sessionId starts a session, with one continues it;
+ *   GET reads a session back
+ * - The opening description is parsed by the model (or by the rule-based family parser
+ *   in demo mode or when the model fails); replies are parsed deterministically
+ * - Every response carries the open questions, and `familyProfile` once the session
+ *   is ready, so the client can call recommendations directly
+ * - Sessions expire after INTAKE_SESSION_TTL seconds (default 24 hours)
+ *
+ * SECURITY CONSIDERATIONS:
+ * - Session IDs are random UUIDs; POC bypasses auth, production should bind sessions
+ *   to users
+ * - No logging of personal information
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIClient } from '@/lib/ai/openai-client';
+import { createFamilyParsingPrompt } from '@/lib/ai/prompts';
+import { getKnownNeighborhoods, parseFamilyDescription } from '@/lib/ai/family-parser';
+import {
+  applyIntakeAnswers,
+  applyIntakeMessage,
+  createIntakeSession,
+  intakeProfileFromModel,
+  loadIntakeSession,
+  saveIntakeSession,
+  toFamilyProfile,
+} from '@/lib/ai/family-intake';
+import type { FamilyProfile, IntakeSession } from '@/types/ai';
+import { z } from 'zod';
+
+const IntakeRequestSchema = z.object({
+  sessionId: z.string().uuid().optional(),
+  message: z.string()
+    .max(5000, 'Message must be less than 5000 characters')
+    .refine(text => text.trim().length > 0, 'Message cannot be empty or only whitespace')
+    .optional(),
+  answers: z.record(z.string(), z.union([z.string().max(500), z.number(), z.null()])).optional(),
+  options: z.object({
+    model: z.enum([
+      'gpt-4o-mini',
+      'gpt-4o',
+      'mistralai/mistral-7b-instruct:free',
+      'google/gemma-2-9b-it:free',
+      'microsoft/phi-3-mini-128k-instruct:free'
+    ]).optional().default('mistralai/mistral-7b-instruct:free'),
+  }).optional().default({
+    model: 'mistralai/mistral-7b-instruct:free',
+  }),
+}).refine(
+  request => request.sessionId || !request.answers,
+  { message: 'answers require a sessionId', path: ['answers'] }
+);
+
+interface IntakeResponse {
+  success: boolean;
+  session?: Pick<IntakeSession, 'id' | 'status' | 'questions' | 'profile' | 'turns'>;
+  readyToRecommend?: boolean;
+  familyProfile?: FamilyProfile; // Set once every required question is answered
+  understood?: string[]; // Question IDs this turn answered, confirmed or skipped
+  warnings?: string[];
+  error?: string;
+}
+
+/**
+ * POST /api/v1/ai/intake
+ *
+ * Start a session from an opening description:
+ * ```json
+ * { "message": "I'm Sarah. Emma loves art and Jake plays soccer. We're in Hyde Park." }
+ * ```
+ *
+ * Continue it with a free-text reply, answers keyed by question ID, or both:
+ * ```json
+ * {
+ *   "sessionId": "6f1c...",
+ *   "message": "Emma is 7 and Jake is 10",
+ *   "answers": { "budget": "$250 a month", "schedule": null }
+ * }
+ * ```
+ *
+ * `session.status` is `collecting` while required questions are open, `ready` when
+ * only optional ones (budget, schedule) remain, and `complete` when none do. A null
+ * answer skips an optional question; "yes" confirms a suggested value.
+ *
+ * Add ?demo (or set DEMO_MODE=true) to parse the opening description without the model.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId, message, answers, options } = IntakeRequestSchema.parse(body);
+    const warnings: string[] = [];
+
+    let session: IntakeSession;
+    let understood: string[] = [];
+
+    if (!sessionId) {
+      const searchParams = new URL(request.url).searchParams;
+      const isDemoMode = process.env.DEMO_MODE === 'true' || searchParams.has('demo');
+      session = createIntakeSession();
+      let parsedByModel = false;
+
+      if (message && !isDemoMode) {
+        try {
+          const parsed = await parseOpeningDescription(message, options.model);
+          session = createIntakeSession(parsed.profile, parsed.unconfirmed);
+          parsedByModel = true;
+        } catch (error) {
+          console.warn('Intake: model parsing failed, reading the description directly:', error instanceof Error ? error.message : error);
+          warnings.push('We read your description without AI assistance; please check the questions below.');
+        }
+      }
+
+      // Demo mode and model failures read the description with the rule-based parser
+      if (message && !parsedByModel) {
+        const parsed = parseFamilyDescription(message, { neighborhoods: await getKnownNeighborhoods() });
+        session = createIntakeSession(parsed.profile);
+      }
+    } else {
+      const stored = await loadIntakeSession(sessionId);
+      if (!stored) {
+        return NextResponse.json({
+          success: false,
+          error: 'Intake session not found',
+          details: 'The session does not exist or has expired. Start a new one.',
+        }, { status: 404 });
+      }
+      session = stored;
+
+      if (answers) {
+        const result = applyIntakeAnswers(session, answers);
+        session = result.session;
+        understood.push(...result.understood);
+        result.notUnderstood.forEach(id => warnings.push(`We couldn't understand the answer for "${id}"`));
+      }
+      if (message) {
+        const result = applyIntakeMessage(session, message);
+        session = result.session;
+        understood.push(...result.understood);
+        if (result.understood.length === 0) {
+          warnings.push('We couldn\'t find an answer in that message; please answer one of the questions below.');
+        }
+      }
+    }
+
+    await saveIntakeSession(session);
+    console.log(`Intake session ${session.id}: turn ${session.turns}, ${session.status}, ${session.questions.length} open questions`);
+
+    return NextResponse.json(
+      toResponse(session, [...new Set(understood)], warnings),
+      { status: sessionId ? 200 : 201 }
+    );
+
+  } catch (error) {
+    console.error('Family intake error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request parameters',
+        details: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process intake. Please try again.',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/v1/ai/intake?sessionId=...
+ *
+ * Read a session's profile and open questions.
+ */
+export async function GET(request: NextRequest) {
+  const sessionId = new URL(request.url).searchParams.get('sessionId');
+  if (!sessionId || !z.string().uuid().safeParse(sessionId).success) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid request parameters',
+      details: [{ field: 'sessionId', message: 'A valid sessionId is required' }],
+    }, { status: 400 });
+  }
+
+  const session = await loadIntakeSession(sessionId);
+  if (!session) {
+    return NextResponse.json({
+      success: false,
+      error: 'Intake session not found',
+      details: 'The session does not exist or has expired. Start a new one.',
+    }, { status: 404 });
+  }
+
+  return NextResponse.json(toResponse(session, [], []), { status: 200 });
+}
+
+/**
+ * Parse the opening description with the model, keeping only what validates.
+ */
+async function parseOpeningDescription(description: string, model: string) {
+  const prompts = createFamilyParsingPrompt(description);
+  const aiResponse = await getAIClient().createChatCompletion({
+    messages: [
+      { role: 'system', content: prompts.system },
+      { role: 'user', content: prompts.user },
+    ],
+    model,
+    temperature: 0.1, // Low temperature for consistent parsing
+    max_tokens: 2000,
+    stream: false,
+  }, {
+    retries: 2,
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(aiResponse.content);
+  } catch {
+    throw new Error('AI returned invalid JSON response');
+  }
+
+  console.log(`Intake parsing: ${aiResponse.usage.totalTokens} tokens, $${aiResponse.usage.estimatedCost.toFixed(4)} cost`);
+  return intakeProfileFromModel(parsed, description);
+}
+
+function toResponse(session: IntakeSession, understood: string[], warnings: string[]): IntakeResponse {
+  const familyProfile = toFamilyProfile(session) ?? undefined;
+  return {
+    success: true,
+    session: {
+      id: session.id,
+      status: session.status,
+      questions: session.questions,
+      profile: session.profile,
+      turns: session.turns,
+    },
+    readyToRecommend: Boolean(familyProfile),
+    familyProfile,
+    understood: understood.length > 0 ? understood : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
@@ -14,6 +14,9 @@
  * - Cost optimization: Use efficient model (gpt-4o-mini) for parsing tasks
  * - Fresh processing: Each request is processed fresh without caching
  * - Error handling: Graceful fallbacks for unparseable inputs
+ * - Rule-based pre-pass: A deterministic parser drafts the profile, the model only
+ *   refines it (a much shorter prompt), and the draft is returned as-is in demo mode
+ *   or when the model is unavailable
  * - Usage tracking: Monitor AI costs and performance for optimization
  *
  * SECURITY CONSIDERATIONS:
@@ -31,8 +34,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAIClient } from '@/lib/ai/openai-client';
-import { createFamilyParsingPrompt } from '@/lib/ai/prompts';
-import { FamilyProfileSchema, type FamilyProfile } from '@/types/ai';
+import { createFamilyRefinementPrompt } from '@/lib/ai/prompts';
+import {
+  completeParsedProfile,
+  getKnownNeighborhoods,
+  parseFamilyDescription,
+  type ParsedFamilyDescription,
+} from '@/lib/ai/family-parser';
+import { fieldsNeedingReview, traceProfileProvenance, type FieldCorrection } from '@/lib/ai/profile-provenance';
+import {
+  FamilyProfileSchema,
+  type FamilyProfile,
+  type IntakeProfile,
+  type ProfileProvenance,
+} from '@/types/ai';
 import { z } from 'zod';
 
 // Request validation schema
@@ -66,6 +81,7 @@ interface ParseFamilyResponse {
   success: boolean;
   familyProfile?: FamilyProfile;
   confidence?: number; // 0-1 score indicating parsing confidence
+  provenance?: ProfileProvenance; // Per-field confidence, origin and source span, keyed by path
   warnings?: string[]; // Non-critical issues that were handled
   error?: string;
   usage?: {
@@ -81,8 +97,11 @@ interface ParseFamilyResponse {
  * 
  * Parse natural language family description into structured profile.
  * 
+ * The description is first read by the rule-based parser; the model refines that
+ * draft. If the model fails, the rule-based profile is returned with a warning.
+ * 
  * DEMO MODE:
- * To test without OpenRouter API, either:
+ * To parse with the rule-based parser only (no OpenRouter API), either:
  * 1. Set DEMO_MODE=true in environment variables, OR
  * 2. Add ?demo query parameter to request URL
  * 
@@ -102,8 +121,6 @@ interface ParseFamilyResponse {
  * ```
  */
 export async function POST(request: NextRequest) {
-  let aiClient;
-  
   // Log environment status for debugging
   console.log('Parse-family API called');
   console.log('Environment:', {
@@ -120,87 +137,37 @@ export async function POST(request: NextRequest) {
     
     const { description, options } = validatedRequest;
 
+    // Rule-based pass: the whole result in demo mode, otherwise the model's draft
+    const neighborhoods = await getKnownNeighborhoods();
+    const draft = parseFamilyDescription(description, { neighborhoods });
+
     // Check for demo mode
     const searchParams = new URL(request.url).searchParams;
     const isDemoMode = process.env.DEMO_MODE === 'true' || searchParams.has('demo');
 
     if (isDemoMode) {
-      // Parse actual user input in demo mode instead of returning hardcoded data
-      const mockProfile = createMockFamilyProfile(description);
-      
-      console.log('Demo mode: Returning parsed family profile from description');
-      
-      return NextResponse.json({
-        success: true,
-        familyProfile: mockProfile,
-        confidence: 0.95,
-        warnings: ['Demo mode: Parsed using simple string matching (not AI)'],
-        usage: {
-          tokensUsed: 0,
-          estimatedCost: 0,
-          model: 'demo-parser',
-          cached: false,
-        },
-      } satisfies ParseFamilyResponse, { status: 200 });
+      console.log('Demo mode: Returning rule-based family profile from description');
+      return NextResponse.json(
+        createRuleBasedResponse(description, draft, ['Demo mode: Parsed with the rule-based parser (not AI)']),
+        { status: 200 }
+      );
     }
 
-    // Get AI client instance
-    aiClient = getAIClient();
-
-    // Generate parsing prompts
-    const prompts = createFamilyParsingPrompt(description);
-
-    // Call OpenAI API with cost tracking
-    const aiResponse = await aiClient.createChatCompletion({
-      messages: [
-        { role: 'system', content: prompts.system },
-        { role: 'user', content: prompts.user },
-      ],
-      model: options.model,
-      temperature: 0.1, // Low temperature for consistent parsing
-      max_tokens: 2000, // Reasonable limit for family profiles
-      stream: false,
-    }, {
-      retries: 2,
-    });
-
-    // Parse the AI response as JSON
-    let parsedProfile: any;
+    let refined: Awaited<ReturnType<typeof refineWithModel>>;
     try {
-      parsedProfile = JSON.parse(aiResponse.content);
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', aiResponse.content);
-      throw new Error('AI returned invalid JSON response. Please try again.');
+      refined = await refineWithModel(description, draft.profile, options.model);
+    } catch (modelError) {
+      // Without any children the rule-based profile isn't worth returning
+      if (!draft.found.includes('children')) throw modelError;
+
+      console.warn('Family parsing: model refinement failed, returning the rule-based profile:', modelError instanceof Error ? modelError.message : modelError);
+      return NextResponse.json(
+        createRuleBasedResponse(description, draft, ['AI parsing is unavailable, so your description was read with simple rules. Please check it carefully.']),
+        { status: 200 }
+      );
     }
 
-    // Validate the parsed profile against our schema
-    let familyProfile: FamilyProfile;
-    let warnings: string[] = [];
-    
-    try {
-      familyProfile = FamilyProfileSchema.parse(parsedProfile);
-    } catch (validationError) {
-      if (validationError instanceof z.ZodError) {
-        // Try to extract partial data and provide helpful warnings
-        const issues = validationError.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        );
-        
-        console.warn('Family profile validation issues:', issues);
-        
-        // For POC, we'll be more lenient and try to fix common issues
-        try {
-          // Attempt basic fixes for common validation issues
-          const fixedProfile = attemptProfileFixes(parsedProfile);
-          familyProfile = FamilyProfileSchema.parse(fixedProfile);
-          warnings.push('Some profile data was automatically corrected for consistency');
-        } catch (secondValidationError) {
-          throw new Error(`Unable to parse family profile: ${issues.slice(0, 3).join('; ')}`);
-        }
-      } else {
-        throw validationError;
-      }
-    }
+    const { familyProfile, parsedProfile, corrections, warnings, usage } = refined;
 
     // Calculate confidence score based on completeness and quality
     const confidence = calculateParsingConfidence(familyProfile, description);
@@ -210,26 +177,31 @@ export async function POST(request: NextRequest) {
       warnings.push('Parsing confidence is low. Please review and edit the extracted information.');
     }
 
+    // Per-field provenance so the review screen can point at what to check
+    const provenance = traceProfileProvenance(familyProfile, description, { modelOutput: parsedProfile, corrections });
+    warnings.push(...reviewWarnings(provenance));
+
     // Prepare response
     const response: ParseFamilyResponse = {
       success: true,
       familyProfile,
       confidence,
+      provenance,
       warnings: warnings.length > 0 ? warnings : undefined,
     };
 
     // Include usage metrics if requested
     if (options.includeMetrics) {
       response.usage = {
-        tokensUsed: aiResponse.usage.totalTokens,
-        estimatedCost: aiResponse.usage.estimatedCost,
+        tokensUsed: usage.totalTokens,
+        estimatedCost: usage.estimatedCost,
         model: options.model,
         cached: false
       };
     }
 
     // Log success metrics (no personal data)
-    console.log(`Family parsing successful: ${aiResponse.usage.totalTokens} tokens, $${aiResponse.usage.estimatedCost.toFixed(4)} cost, ${confidence.toFixed(2)} confidence`);
+    console.log(`Family parsing successful: ${usage.totalTokens} tokens, $${usage.estimatedCost.toFixed(4)} cost, ${confidence.toFixed(2)} confidence`);
 
     return NextResponse.json(response, { status: 200 });
 
@@ -288,347 +260,103 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Create a family profile by parsing actual user description for demo purposes.
- * 
- * WHY: Demo mode parsing allows local testing without AI API dependencies:
- * - Enables UI development and testing without OpenRouter API key
- * - Parses real user input using regex and string matching
- * - Allows demonstration of features without incurring API costs
- * - Facilitates onboarding new developers to the project
- * - Tests actual user input patterns without AI costs
- * 
- * PARSING STRATEGY:
- * - Uses regex patterns to extract parent names, child info, locations, interests
- * - Handles various input formats: "I'm Maria", "My name is John", "Emma (7)", "Jake age 10"
- * - Falls back to reasonable defaults when specific data isn't found
- * - Simple but effective for demo and testing purposes
+ * Refine the rule-based draft with the model, validating its output and fixing
+ * common issues.
  */
-function createMockFamilyProfile(description: string): FamilyProfile {
-  const text = description.toLowerCase();
-  
-  // Parse parent names
-  const parentNamePatterns = [
-    /(?:i'm|i am|my name is|i'm called)\s+([a-zA-Z]+)/i,
-    /^([a-zA-Z]+)\s+(?:here|with|and)/i,
-    /^hi,?\s*i'm\s+([a-zA-Z]+)/i,
-  ];
-  
-  let parentName = 'Parent';
-  for (const pattern of parentNamePatterns) {
-    const match = description.match(pattern);
-    if (match) {
-      parentName = match[1].charAt(0).toUpperCase() + match[1].slice(1);
-      break;
-    }
-  }
-  
-  // Parse children information
-  const children: Array<{ name: string; age: number; interests: string[]; allergies: string[]; specialNeeds?: string }> = [];
-  
-  // Pattern 1: "Emma (7)", "Jake (10 years old)"
-  const childPatternParens = /([a-zA-Z]+)\s*\((\d+)(?:\s*years?\s*old)?\)/gi;
-  let match;
-  while ((match = childPatternParens.exec(description)) !== null) {
-    const name = match[1].charAt(0).toUpperCase() + match[1].slice(1);
-    const age = parseInt(match[2]);
-    if (age >= 0 && age <= 18) {
-      children.push({
-        name,
-        age,
-        interests: [],
-        allergies: [],
-      });
-    }
-  }
-  
-  // Pattern 2: "Emma age 7", "Jake is 10"
-  const childPatternAge = /([a-zA-Z]+)(?:\s+(?:age|is|who is|who's))\s+(\d+)/gi;
-  while ((match = childPatternAge.exec(description)) !== null) {
-    const name = match[1].charAt(0).toUpperCase() + match[1].slice(1);
-    const age = parseInt(match[2]);
-    if (age >= 0 && age <= 18) {
-      // Check if child already exists before adding
-      const existingChild = children.find(child => child.name.toLowerCase() === name.toLowerCase());
-      if (!existingChild) {
-        children.push({
-          name,
-          age,
-          interests: [],
-          allergies: [],
-        });
-      }
-    }
-  }
-  
-  // Pattern 3: "my 7 year old Emma", "our 10-year-old Jake"
-  const childPatternMyChild = /(?:my|our)\s+(\d+)[-\s]*year[-\s]*old\s+([a-zA-Z]+)/gi;
-  while ((match = childPatternMyChild.exec(description)) !== null) {
-    const age = parseInt(match[1]);
-    const name = match[2].charAt(0).toUpperCase() + match[2].slice(1);
-    if (age >= 0 && age <= 18) {
-      // Check if child already exists before adding
-      const existingChild = children.find(child => child.name.toLowerCase() === name.toLowerCase());
-      if (!existingChild) {
-        children.push({
-          name,
-          age,
-          interests: [],
-          allergies: [],
-        });
-      }
-    }
-  }
-  
-  // If no specific children found, create a default child
-  if (children.length === 0) {
-    children.push({
-      name: 'Child',
-      age: 8,
-      interests: [],
-      allergies: [],
-    });
-  }
-  
-  // Parse interests for each child
-  const interestKeywords = [
-    'loves', 'likes', 'enjoys', 'plays', 'does', 'interested in', 'passionate about'
-  ];
-  
-  children.forEach(child => {
-    const childNameLower = child.name.toLowerCase();
-    
-    // Look for interest patterns mentioning the child's name
-    for (const keyword of interestKeywords) {
-      // Match pattern: "Emma ... loves art" but stop at sentence boundaries
-      const pattern = new RegExp(`${childNameLower}[^.!?]*?\\b${keyword}\\s+([^.!?]*?)(?:\\s+(?:and|we|my|our|\\.|!|\\?)|$)`, 'i');
-      const interestMatch = description.match(pattern);
-      if (interestMatch) {
-        const rawInterests = interestMatch[1].trim();
-        // Filter out obvious non-interests (other children's names, ages, etc.)
-        const filteredInterests = rawInterests
-          .split(/\s+(?:and|,)\s+/)
-          .map(interest => interest.trim())
-          .filter(interest => {
-            return interest.length > 0 && 
-                   interest.length < 20 && 
-                   !interest.match(/\d+\s+years?\s+old/) && // Not "10 years old"
-                   !interest.match(/\bis\s+\d+/) &&         // Not "is 10"  
-                   !interest.match(/age\s+\d+/) &&          // Not "age 10"
-                   !interest.match(/^\d+$/) &&              // Not just a number
-                   !children.some(otherChild => otherChild.name.toLowerCase() === interest.toLowerCase());
-          });
-        child.interests.push(...filteredInterests);
-      }
-    }
-    
-    // Also check patterns like "daughter Sofia (8) who loves dance"
-    const whoPattern = new RegExp(`${childNameLower}[^.!?]*?who\\s+(loves|likes|enjoys|plays)\\s+([^.!?]*?)(?:\\s+(?:and|we|my|our|\\.|!|\\?)|$)`, 'i');
-    const whoMatch = description.match(whoPattern);
-    if (whoMatch) {
-      const rawInterests = whoMatch[2].trim();
-      const filteredInterests = rawInterests
-        .split(/\s+(?:and|,)\s+/)
-        .map(interest => interest.trim())
-        .filter(interest => {
-          return interest.length > 0 && 
-                 interest.length < 20 && 
-                 !interest.match(/\d+\s+years?\s+old/) && 
-                 !interest.match(/\bis\s+\d+/) &&         
-                 !interest.match(/age\s+\d+/) &&          
-                 !interest.match(/^\d+$/) &&              
-                 !children.some(otherChild => otherChild.name.toLowerCase() === interest.toLowerCase());
-        });
-      child.interests.push(...filteredInterests);
-    }
-    
-    // Remove duplicates
-    child.interests = Array.from(new Set(child.interests));
-    
-    // If child has no specific interests, look for general patterns but be much more conservative
-    if (child.interests.length === 0) {
-      const generalInterests = [];
-      
-      // Only assign interests if this child is specifically mentioned in the same sentence/clause with the activity
-      const sentences = description.toLowerCase().split(/[.!?]/)
-        .filter(sentence => sentence.includes(childNameLower));
-      
-      for (const sentence of sentences) {
-        // Only look for activities mentioned in the same sentence as this specific child
-        const beforeChild = sentence.substring(0, sentence.indexOf(childNameLower));
-        const afterChild = sentence.substring(sentence.indexOf(childNameLower));
-        
-        // Check if activities are mentioned close to this child's name (within same sentence)
-        if (afterChild.includes('soccer') || afterChild.includes('football')) generalInterests.push('soccer');
-        else if (beforeChild.includes('soccer') || beforeChild.includes('football')) {
-          // Only if it's directly related to this child, not another child mentioned earlier
-          if (!beforeChild.match(/\w+\s+(?:who|loves|likes|plays|enjoys)\s.*?(?:soccer|football)/)) {
-            generalInterests.push('soccer');
-          }
-        }
-        
-        if (afterChild.includes('art') || afterChild.includes('drawing') || afterChild.includes('paint')) generalInterests.push('art');
-        if (afterChild.includes('music') || afterChild.includes('piano') || afterChild.includes('guitar')) generalInterests.push('music');
-        if (afterChild.includes('dance') || afterChild.includes('ballet')) generalInterests.push('dance');
-        if (afterChild.includes('swim')) generalInterests.push('swimming');
-        if (afterChild.includes('basketball')) generalInterests.push('basketball');
-        if (afterChild.includes('tennis')) generalInterests.push('tennis');
-        if (afterChild.includes('reading') || afterChild.includes('books')) generalInterests.push('reading');
-        if (afterChild.includes('science') || afterChild.includes('stem')) generalInterests.push('science');
-        if (afterChild.includes('math')) generalInterests.push('math');
-      }
-      
-      // Remove duplicates and limit
-      child.interests = Array.from(new Set(generalInterests)).slice(0, 3);
-    }
+async function refineWithModel(description: string, draft: IntakeProfile, model: string) {
+  const aiClient = getAIClient();
+
+  // Generate refinement prompts from the description and the draft
+  const prompts = createFamilyRefinementPrompt(description, draft);
+
+  // Call OpenAI API with cost tracking
+  const aiResponse = await aiClient.createChatCompletion({
+    messages: [
+      { role: 'system', content: prompts.system },
+      { role: 'user', content: prompts.user },
+    ],
+    model,
+    temperature: 0.1, // Low temperature for consistent parsing
+    max_tokens: 2000, // Reasonable limit for family profiles
+    stream: false,
+  }, {
+    retries: 2,
   });
-  
-  // Parse location information
-  const location: any = {
-    transportationNeeds: false,
-  };
-  
-  // Common city patterns
-  const cityPatterns = [
-    /(?:we live in|in|from|live in|located in)\s+([a-zA-Z\s]+?)(?:\s*(?:and|,|$|\.|!|\?))/i,
-    /([a-zA-Z\s]+)\s+area/i,
-  ];
-  
-  for (const pattern of cityPatterns) {
-    const locationMatch = description.match(pattern);
-    if (locationMatch) {
-      const locationText = locationMatch[1].trim();
-      // Common city/neighborhood names
-      const commonCities = ['austin', 'brooklyn', 'manhattan', 'seattle', 'portland', 'denver', 'chicago', 'boston', 'atlanta', 'dallas', 'houston'];
-      const commonNeighborhoods = ['heights', 'downtown', 'midtown', 'uptown', 'westside', 'eastside', 'north', 'south'];
-      
-      const locationLower = locationText.toLowerCase();
-      
-      // Check if it's a known city
-      const cityMatch = commonCities.find(city => locationLower.includes(city));
-      if (cityMatch) {
-        location.city = cityMatch.charAt(0).toUpperCase() + cityMatch.slice(1);
-        // If it's "Brooklyn Heights", set the neighborhood too
-        if (locationLower.includes('heights') && cityMatch === 'brooklyn') {
-          location.neighborhood = locationText;
-        }
-      }
-      
-      // Check if it mentions a neighborhood
-      const neighborhoodMatch = commonNeighborhoods.find(neighborhood => locationLower.includes(neighborhood));
-      if (neighborhoodMatch && !location.neighborhood) {
-        location.neighborhood = locationText;
-      }
-      
-      // If no specific match, use as neighborhood
-      if (!location.city && !location.neighborhood) {
-        location.neighborhood = locationText;
-      }
-      break;
-    }
+
+  // Parse the AI response as JSON
+  let parsedProfile: any;
+  try {
+    parsedProfile = JSON.parse(aiResponse.content);
+  } catch (parseError) {
+    console.error('Failed to parse AI response as JSON:', aiResponse.content);
+    throw new Error('AI returned invalid JSON response. Please try again.');
   }
-  
-  // Parse budget information
-  let budget: any = undefined;
-  // Look for budget patterns with or without dollar signs
-  const budgetPatterns = [
-    /\$(\d+)(?:\s*[-to]+\s*\$?(\d+))?/i,                          // $150-$250 or $150-250
-    /budget\s+of\s+\$?(\d+)(?:\s*[-to]+\s*\$?(\d+))?/i,          // budget of 150-250
-    /(\d+)[-to]+(\d+)(?:\s+(?:dollars?|per month|monthly))/i,    // 150-250 per month
-    /\$?(\d+)\s*[-to]+\s*\$?(\d+)/i                              // 150-250 or $150-$250
-  ];
-  
-  for (const pattern of budgetPatterns) {
-    const budgetMatch = description.match(pattern);
-    if (budgetMatch) {
-      const min = parseInt(budgetMatch[1]);
-      const max = budgetMatch[2] ? parseInt(budgetMatch[2]) : undefined;
-      budget = {
-        min,
-        max,
-        currency: 'USD',
-      };
-      break;
+
+  // Validate the parsed profile against our schema
+  let familyProfile: FamilyProfile;
+  const warnings: string[] = [];
+  let corrections: Record<string, FieldCorrection> = {};
+
+  try {
+    familyProfile = FamilyProfileSchema.parse(parsedProfile);
+  } catch (validationError) {
+    if (!(validationError instanceof z.ZodError)) throw validationError;
+
+    // Try to extract partial data and provide helpful warnings
+    const issues = validationError.issues.map(issue =>
+      `${issue.path.join('.')}: ${issue.message}`
+    );
+
+    console.warn('Family profile validation issues:', issues);
+
+    // For POC, we'll be more lenient and try to fix common issues
+    try {
+      const fixed = attemptProfileFixes(parsedProfile);
+      familyProfile = FamilyProfileSchema.parse(fixed.profile);
+      corrections = fixed.corrections;
+      warnings.push('Some profile data was automatically corrected for consistency');
+    } catch (secondValidationError) {
+      throw new Error(`Unable to parse family profile: ${issues.slice(0, 3).join('; ')}`);
     }
   }
-  
-  // Parse schedule preferences
-  const schedule: Array<'weekday_morning' | 'weekday_afternoon' | 'weekday_evening' | 'weekend_morning' | 'weekend_afternoon' | 'weekend_evening'> = [];
-  const scheduleConstraints: any = {
-    timeSlots: [] as Array<'weekday_morning' | 'weekday_afternoon' | 'weekday_evening' | 'weekend_morning' | 'weekend_afternoon' | 'weekend_evening'>,
-    flexibility: 'somewhat_flexible' as const,
-  };
-  
-  if (text.includes('after school') || text.includes('afternoon')) {
-    schedule.push('weekday_afternoon');
-    scheduleConstraints.timeSlots.push('weekday_afternoon');
-  }
-  if (text.includes('weekend') || text.includes('saturday') || text.includes('sunday')) {
-    schedule.push('weekend_morning');
-    scheduleConstraints.timeSlots.push('weekend_morning');
-  }
-  if (text.includes('morning')) {
-    schedule.push('weekday_morning');
-    scheduleConstraints.timeSlots.push('weekday_morning');
-  }
-  if (text.includes('evening')) {
-    schedule.push('weekday_evening');
-    scheduleConstraints.timeSlots.push('weekday_evening');
-  }
-  
-  // Default schedule if none specified
-  if (schedule.length === 0) {
-    schedule.push('weekday_afternoon');
-    scheduleConstraints.timeSlots.push('weekday_afternoon');
-  }
-  
-  // Activity types based on interests
-  const activityTypes = new Set<string>();
-  children.forEach(child => {
-    child.interests.forEach(interest => {
-      if (['soccer', 'basketball', 'tennis', 'swimming'].includes(interest)) {
-        activityTypes.add('sports');
-      }
-      if (['art', 'drawing', 'painting'].includes(interest)) {
-        activityTypes.add('arts');
-      }
-      if (['music', 'piano', 'guitar'].includes(interest)) {
-        activityTypes.add('music');
-      }
-      if (['dance', 'ballet'].includes(interest)) {
-        activityTypes.add('dance');
-      }
-      if (['science', 'math', 'reading'].includes(interest)) {
-        activityTypes.add('educational');
-      }
-    });
-  });
-  
-  // Add some default activity types
-  if (activityTypes.size === 0) {
-    activityTypes.add('educational');
-    activityTypes.add('recreational');
-  }
-  
+
+  return { familyProfile, parsedProfile, corrections, warnings, usage: aiResponse.usage };
+}
+
+/**
+ * Response for a profile read by the rule-based parser alone (demo mode, or when the
+ * model is unavailable). Defaults it had to fill are flagged in the provenance.
+ */
+function createRuleBasedResponse(
+  description: string,
+  draft: ParsedFamilyDescription,
+  warnings: string[]
+): ParseFamilyResponse {
+  const { profile, corrections } = completeParsedProfile(draft.profile);
+  const provenance = traceProfileProvenance(profile, description, { corrections });
+
   return {
-    adults: [
-      {
-        name: parentName,
-        role: 'parent',
-      }
-    ],
-    children,
-    location,
-    preferences: {
-      budget,
-      schedule,
-      scheduleConstraints,
-      activityTypes: Array.from(activityTypes),
-      languages: ['English'],
+    success: true,
+    familyProfile: profile,
+    confidence: calculateParsingConfidence(profile, description),
+    provenance,
+    warnings: [...warnings, ...reviewWarnings(provenance)],
+    usage: {
+      tokensUsed: 0,
+      estimatedCost: 0,
+      model: 'rule-based-parser',
+      cached: false,
     },
-    notes: `Parsed from description: "${description.slice(0, 100)}${description.length > 100 ? '...' : ''}"`
   };
 }
 
+function reviewWarnings(provenance: ProfileProvenance): string[] {
+  const needsReview = fieldsNeedingReview(provenance).length;
+  return needsReview > 0
+    ? [`${needsReview} field${needsReview === 1 ? '' : 's'} may be guessed or defaulted; please review the highlighted fields.`]
+    : [];
+}
+
 /**
  * Attempt to fix common validation issues in parsed family profiles.
  * 
@@ -636,21 +364,30 @@ function createMockFamilyProfile(description: string): FamilyProfile {
  * - Missing required fields can be filled with defaults
  * - Invalid enums can be mapped to valid values
  * - Empty arrays can be populated with reasonable defaults
+ *
+ * Every default and correction is returned by field path so the review screen can
+ * flag it instead of presenting it as something the parent said.
  */
-function attemptProfileFixes(profile: any): any {
+function attemptProfileFixes(profile: any): { profile: any; corrections: Record<string, FieldCorrection> } {
   const fixed = JSON.parse(JSON.stringify(profile)); // Deep copy
+  const corrections: Record<string, FieldCorrection> = {};
 
   // Ensure adults array exists and has at least one entry
   if (!fixed.adults || !Array.isArray(fixed.adults) || fixed.adults.length === 0) {
     fixed.adults = [{ name: 'Parent', role: 'parent' }];
+    corrections['adults.0.name'] = { origin: 'defaulted', note: 'No parent found; added a placeholder' };
+    corrections['adults.0.role'] = { origin: 'defaulted', note: 'Assumed parent' };
   }
 
   // Fix adult roles
   if (fixed.adults) {
-    fixed.adults = fixed.adults.map((adult: any) => ({
-      ...adult,
-      role: adult.role && ['parent', 'guardian', 'caregiver'].includes(adult.role) ? adult.role : 'parent',
-    }));
+    fixed.adults = fixed.adults.map((adult: any, index: number) => {
+      if (adult.role && ['parent', 'guardian', 'caregiver'].includes(adult.role)) return adult;
+      corrections[`adults.${index}.role`] ??= adult.role
+        ? { origin: 'corrected', note: `Changed "${adult.role}" to parent` }
+        : { origin: 'defaulted', note: 'Assumed parent' };
+      return { ...adult, role: 'parent' };
+    });
   }
 
   // Ensure children array exists
@@ -660,12 +397,22 @@ function attemptProfileFixes(profile: any): any {
 
   // Fix children data
   if (fixed.children) {
-    fixed.children = fixed.children.map((child: any) => ({
-      ...child,
-      age: typeof child.age === 'number' ? child.age : 5, // Default age
-      interests: Array.isArray(child.interests) ? child.interests : [],
-      allergies: Array.isArray(child.allergies) ? child.allergies : [],
-    }));
+    fixed.children = fixed.children.map((child: any, index: number) => {
+      let age = child.age;
+      if (typeof age !== 'number') {
+        const stated = typeof age === 'string' ? Number.parseFloat(age) : NaN;
+        age = Number.isFinite(stated) ? stated : 5; // Default age
+        corrections[`children.${index}.age`] = Number.isFinite(stated)
+          ? { origin: 'corrected', note: `Read "${child.age}" as ${stated}` }
+          : { origin: 'defaulted', note: 'Age unknown; assumed 5' };
+      }
+      return {
+        ...child,
+        age,
+        interests: Array.isArray(child.interests) ? child.interests : [],
+        allergies: Array.isArray(child.allergies) ? child.allergies : [],
+      };
+    });
   }
 
   // Ensure location object exists
@@ -691,7 +438,7 @@ function attemptProfileFixes(profile: any): any {
     }
   }
 
-  return fixed;
+  return { profile: fixed, corrections };
 }
 
 /**
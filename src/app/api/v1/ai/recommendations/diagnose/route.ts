@@ -0,0 +1,141 @@
+/**
+ * POST /api/v1/ai/recommendations/diagnose - Explain why a provider was or was not recommended
+ *
+ * WHY: Provider diagnosis because:
+ * - "Why isn't my provider showing up?" is the most common question from providers
+ * - Parents ask why a place they already know about is missing from their results
+ * - Answering it otherwise means reproducing the search by hand and reading logs
+ *
+ * DESIGN DECISIONS:
+ * - Same inputs as a recommendation request plus a provider ID, so a support tool can
+ *   replay exactly what the family saw
+ * - The engine runs the real pipeline (filters, retrieval, thresholds, diverse selection)
+ *   and reports the stage that dropped the provider
+ * - The smallest change is verified by re-running the pipeline, never guessed
+ * - Facts about the family (ages, home location) are reported as blockers, not changes
+ *
+ * PERFORMANCE:
+ * - Each counterfactual is a full pipeline run; `maxCounterfactuals` caps them
+ * - Search embeddings are reused across runs when the query text is unchanged
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { RecommendationEngine } from '@/lib/ai/recommendation-engine';
+import {
+  FamilyProfileSchema,
+  RecommendationFiltersSchema,
+  RankingProfileNameSchema,
+  RankingWeightsSchema,
+  RetrievalModeSchema,
+} from '@/types/ai';
+import { z } from 'zod';
+
+const DiagnoseRequestSchema = z.object({
+  familyProfile: FamilyProfileSchema,
+  providerId: z.string().min(1),
+  recommendationType: z.enum(['family', 'all_kids']).or(z.string()).optional(),
+  filters: RecommendationFiltersSchema.optional().default({}),
+  options: z.object({
+    limit: z.number().int().min(1).max(50).optional().default(10),
+    diversityWeight: z.number().min(0).max(1).optional().default(0.3),
+    rankingProfile: RankingProfileNameSchema.optional(),
+    rankingWeights: RankingWeightsSchema.partial().optional(),
+    retrievalMode: RetrievalModeSchema.optional(),
+    maxCounterfactuals: z.number().int().min(0).max(12).optional().default(8),
+  }).optional().default({
+    limit: 10,
+    diversityWeight: 0.3,
+    maxCounterfactuals: 8,
+  }),
+});
+
+// Global recommendation engine instance
+let globalRecommendationEngine: RecommendationEngine | null = null;
+
+function getRecommendationEngine(): RecommendationEngine {
+  if (!globalRecommendationEngine) {
+    globalRecommendationEngine = new RecommendationEngine();
+  }
+  return globalRecommendationEngine;
+}
+
+/**
+ * POST /api/v1/ai/recommendations/diagnose
+ *
+ * Example request:
+ * ```json
+ * {
+ *   "familyProfile": {
+ *     "children": [{"name": "Emma", "age": 7, "interests": ["art"]}],
+ *     "location": {"city": "Austin", "zipCode": "78756"},
+ *     "preferences": {"budget": {"max": 150}}
+ *   },
+ *   "providerId": "3f2c...",
+ *   "options": {"limit": 10}
+ * }
+ * ```
+ *
+ * `diagnosis.stage` is one of `not_found`, `filtered`, `not_retrieved`,
+ * `below_threshold`, `outranked` or `included`. `diagnosis.trace` holds what happened
+ * at each stage, `diagnosis.smallestChange` the first tried change that included the
+ * provider (with the exact request edits), and `diagnosis.counterfactuals` every
+ * change tried, in order.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const body = await request.json();
+    const { familyProfile, providerId, recommendationType, filters, options } = DiagnoseRequestSchema.parse(body);
+
+    const diagnosis = await getRecommendationEngine().diagnoseProvider(familyProfile, providerId, {
+      ...options,
+      filters,
+      recommendationType,
+    });
+
+    if (diagnosis.stage === 'not_found') {
+      return NextResponse.json({
+        success: false,
+        error: 'Provider not found',
+        details: `No active provider with ID ${providerId}`,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      diagnosis,
+      performance: {
+        totalMs: Date.now() - startTime,
+      },
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Provider diagnosis error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request parameters',
+        details: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      }, { status: 400 });
+    }
+
+    if (error instanceof Error && error.message.includes('unavailable')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Recommendation service is temporarily unavailable',
+        details: 'Vector search database is not responding. Please try again later.',
+      }, { status: 503 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to diagnose provider',
+      details: 'Internal service error. Please try again later.',
+    }, { status: 500 });
+  }
+}
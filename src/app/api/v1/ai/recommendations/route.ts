@@ -35,9 +35,35 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAIClient } from '@/lib/ai/openai-client';
-import { RecommendationEngine, type RecommendationFilters, type ScoredRecommendation } from '@/lib/ai/recommendation-engine';
+import { RecommendationEngine, type ActivityMetadata, type RecommendationFilters, type ScoredRecommendation, type SiblingPlanResult, type WeeklyScheduleRecommendationResult } from '@/lib/ai/recommendation-engine';
 import { createRecommendationPrompt, ActivityRecommendationSchema, type ActivityRecommendation } from '@/lib/ai/prompts';
-import { FamilyProfileSchema, type FamilyProfile, type LightweightRecommendationResult } from '@/types/ai';
+import { resolveDateWindow, seasonForDate } from '@/lib/ai/date-window';
+import { scheduleFromEvent } from '@/lib/ai/schedule-parser';
+import { parseAccommodations } from '@/lib/ai/accommodations';
+import { computeAvailability, availabilityMultiplier, isAvailable, describeAvailability } from '@/lib/ai/availability';
+import { parsePrice, toActivityPricing, formatActivityPricing } from '@/lib/ai/price-parser';
+import { matchEventAgeRange, matchProviderAgeRange } from '@/lib/ai/age-range-parser';
+import {
+  FamilyProfileSchema,
+  NeighborhoodFilterSchema,
+  DateWindowFilterSchema,
+  TravelModeSchema,
+  RankingProfileNameSchema,
+  RankingWeightsSchema,
+  RetrievalModeSchema,
+  RerankOptionsSchema,
+  RecommendationBundleOptionsSchema,
+  SiblingPlanOptionsSchema,
+  WeeklyScheduleOptionsSchema,
+  BudgetPeriodSchema,
+  type FamilyProfile,
+  type LightweightRecommendation,
+  type LightweightRecommendationResult,
+  type LightweightRecommendationBundlesResult,
+  type HouseholdSpend,
+  type ScoringExplanation,
+  type Availability,
+} from '@/types/ai';
 import { getRecommendationProviders, type RecommendationProvider } from '@/lib/db/queries/providers';
 import { db } from '@/lib/db/client';
 import { providerTable } from '@/lib/db/schema/providers';
@@ -61,7 +87,7 @@ const LocationRequestSchema = z.object({
 
 const BudgetRequestSchema = z.object({
   amount: z.number(),
-  period: z.enum(['month', 'week', 'session'])
+  period: BudgetPeriodSchema
 });
 
 const ScheduleRequestSchema = z.object({
@@ -92,6 +118,14 @@ const RecommendationRequestSchema = z.union([
         'microsoft/phi-3-mini-128k-instruct:free'
       ]).optional().default('mistralai/mistral-7b-instruct:free'),
       includeMetrics: z.boolean().optional().default(false),
+      rankingProfile: RankingProfileNameSchema.optional(),
+      rankingWeights: RankingWeightsSchema.partial().optional(),
+      retrievalMode: RetrievalModeSchema.optional(),
+      rerank: RerankOptionsSchema.partial().optional(), // Rerank the top candidates within a latency budget
+      bundles: RecommendationBundleOptionsSchema.optional(), // Group results per child + whole family
+      siblingPlans: SiblingPlanOptionsSchema.optional(), // Combine one activity per child into drop-off plans
+      weeklySchedule: WeeklyScheduleOptionsSchema.optional(), // Build conflict-free weekly calendars
+      explain: z.boolean().optional().default(false), // Attach raw scorer inputs under `scoring`
     }).optional().default({
       limit: 10,
       includeExplanations: true,
@@ -116,6 +150,8 @@ const RecommendationRequestSchema = z.union([
     // Filtering options
     filters: z.object({
       maxDistance: z.number().positive().max(50).optional(),
+      maxTravelMinutes: z.number().int().positive().max(120).optional(),
+      travelMode: TravelModeSchema.optional(),
       budgetRange: z.object({
         min: z.number().min(0).optional(),
         max: z.number().min(0).optional(),
@@ -133,6 +169,10 @@ const RecommendationRequestSchema = z.union([
       languages: z.array(z.string()).max(5).optional(),
       specialNeeds: z.array(z.string()).max(10).optional(),
       transportationRequired: z.boolean().optional(),
+      keywords: z.array(z.string()).max(10).optional(),
+      neighborhood: NeighborhoodFilterSchema.optional(), // Inside (or next to) a neighborhood's boundary
+      onlyAvailable: z.boolean().optional(), // Hide full and waitlisted programs
+      dateWindow: DateWindowFilterSchema.optional(), // When the family needs activities
     }).optional().default({}),
     
     // Request options
@@ -150,6 +190,14 @@ const RecommendationRequestSchema = z.union([
         'microsoft/phi-3-mini-128k-instruct:free'
       ]).optional().default('mistralai/mistral-7b-instruct:free'),
       includeMetrics: z.boolean().optional().default(false),
+      rankingProfile: RankingProfileNameSchema.optional(),
+      rankingWeights: RankingWeightsSchema.partial().optional(),
+      retrievalMode: RetrievalModeSchema.optional(),
+      rerank: RerankOptionsSchema.partial().optional(), // Rerank the top candidates within a latency budget
+      bundles: RecommendationBundleOptionsSchema.optional(), // Group results per child + whole family
+      siblingPlans: SiblingPlanOptionsSchema.optional(), // Combine one activity per child into drop-off plans
+      weeklySchedule: WeeklyScheduleOptionsSchema.optional(), // Build conflict-free weekly calendars
+      explain: z.boolean().optional().default(false), // Attach raw scorer inputs under `scoring`
     }).optional().default({
       limit: 10,
       includeExplanations: true,
@@ -204,7 +252,7 @@ function extractInterestsFromProvider(provider: RecommendationProvider, event: a
   return [...new Set(interests)]; // Remove duplicates
 }
 
-function createMetadataFromProvider(provider: RecommendationProvider, event: any): any {
+function createMetadataFromProvider(provider: RecommendationProvider, event: any, availability?: Availability): any {
   return {
     providerId: provider.id,
     programId: event?.id,
@@ -213,7 +261,7 @@ function createMetadataFromProvider(provider: RecommendationProvider, event: any
     category: event?.category || 'General',
     subcategory: undefined,
     interests: extractInterestsFromProvider(provider, event),
-    ageRange: extractAgeRangeFromEvent(event) || extractAgeRangeFromProvider(provider) || { min: 3, max: 18 },
+    ageRange: (matchEventAgeRange(event) || matchProviderAgeRange(provider))?.range || { min: 3, max: 18 },
     location: {
       neighborhood: undefined,
       city: event?.city || provider.city || undefined,
@@ -227,8 +275,9 @@ function createMetadataFromProvider(provider: RecommendationProvider, event: any
         lng: parseFloat(provider.longitude.toString())
       } : undefined,
     },
-    schedule: extractScheduleFromEvent(event) || getDefaultSchedule(),
-    pricing: extractPricingFromEvent(event, provider),
+    schedule: scheduleFromEvent(event) || getDefaultSchedule(),
+    accommodations: parseAccommodations(event?.title, event?.description, provider.description),
+    pricing: extractPricingFromEvent(event),
     provider: {
       name: provider.name,
       rating: undefined, // Rating not available in current schema
@@ -237,9 +286,9 @@ function createMetadataFromProvider(provider: RecommendationProvider, event: any
       experience: undefined, // Experience not available in current schema
     },
     capacity: {
-      maxStudents: event?.maxCapacity || undefined,
-      currentEnrollment: event?.currentCapacity || undefined,
-      waitlist: false,
+      maxStudents: event?.capacity || undefined,
+      currentEnrollment: event?.enrolled ?? undefined,
+      waitlist: availability?.status === 'waitlist',
     },
     requirements: {
       experience: undefined,
@@ -252,148 +301,53 @@ function createMetadataFromProvider(provider: RecommendationProvider, event: any
   };
 }
 
-// Helper function to parse age information from text using patterns
-function parseAgesFromText(text: string): { min: number; max: number } | null {
-  if (!text) return null;
-  
-  const textLower = text.toLowerCase();
-  
-  // Look for age patterns in the text
-  const patterns = [
-    /ages?\s+(\d+)\s*-\s*(\d+)/g,
-    /(\d+)\s*-\s*(\d+)\s*years?\s*old/g,
-    /ages?\s+(\d+)\s*to\s*(\d+)/g,
-    /(\d+)\s*to\s*(\d+)\s*years?\s*old/g
-  ];
+// Merge a lightweight recommendation with its provider's database record; null when
+// the live event is full or waitlisted and the request asks for open programs only
+function mergeLightweightRecommendation(
+  lightweightRec: LightweightRecommendation,
+  provider: RecommendationProvider,
+  filters: RecommendationFilters
+): (ActivityRecommendation['recommendations'][number] & { householdSpend?: HouseholdSpend; scoring?: ScoringExplanation }) | null {
+  // Find the relevant event if specified
+  const event = lightweightRec.eventId ? 
+    provider.events.find(e => String(e.id) === String(lightweightRec.eventId)) : 
+    (provider.events.length > 0 ? provider.events[0] : null);
 
-  for (const pattern of patterns) {
-    const matches = Array.from(textLower.matchAll(pattern));
-    for (const match of matches) {
-      const min = parseInt(match[1]);
-      const max = parseInt(match[2]);
-      if (!isNaN(min) && !isNaN(max) && min >= 0 && max <= 25 && min <= max) {
-        return { min, max };
-      }
-    }
-  }
+  // Spots left in the vector payload date from embedding time; the event row is current
+  const embedded = lightweightRec.availability || { status: 'unknown' as const };
+  const live = lightweightRec.eventId && event ? computeAvailability({ capacity: event.capacity, enrolled: event.enrolled }) : undefined;
+  const availability = live && live.status !== 'unknown' ? live : embedded;
+  if (filters.onlyAvailable && !isAvailable(availability)) return null;
 
-  return null;
-}
-
-// Helper function to infer age from category keywords or text
-function inferAgeFromCategory(categoryOrText: string): { min: number; max: number } | null {
-  if (!categoryOrText) return null;
-  
-  const text = categoryOrText.toLowerCase();
-  
-  // Infant/Baby programs
-  if (text.includes('infant') || text.includes('baby') || text.includes('newborn')) {
-    return { min: 0, max: 2 };
-  }
-  
-  // Toddler programs
-  if (text.includes('toddler')) {
-    return { min: 1, max: 3 };
-  }
-  
-  // Preschool programs
-  if (text.includes('preschool') || text.includes('pre-school') || text.includes('pre school')) {
-    return { min: 3, max: 5 };
-  }
-  
-  // Elementary/School age programs
-  if (text.includes('elementary') || text.includes('school age') || text.includes('after school')) {
-    return { min: 5, max: 12 };
-  }
-  
-  // Teen/Youth programs
-  if (text.includes('teen') || text.includes('teenager') || text.includes('youth') || text.includes('adolescent')) {
-    return { min: 13, max: 17 };
-  }
-  
-  // Adult programs
-  if (text.includes('adult') || text.includes('grown up') || text.includes('18+') || text.includes('parent')) {
-    return { min: 18, max: 99 };
-  }
-  
-  // Family programs (assume suitable for school age kids with parents)
-  if (text.includes('family') || text.includes('parent and child') || text.includes('all ages')) {
-    return { min: 5, max: 99 };
-  }
-  
-  return null;
-}
-
-function extractAgeRangeFromEvent(event: any): { min: number; max: number } | null {
-  if (!event) return null;
-  
-  // 1. First check explicit database fields (most reliable when available)
-  if (event.minAge !== null && event.maxAge !== null && event.minAge !== undefined && event.maxAge !== undefined) {
-    return { min: event.minAge, max: event.maxAge };
-  }
-  
-  // 2. Parse age from event title using text analysis
-  if (event.title) {
-    const titleAge = parseAgesFromText(event.title);
-    if (titleAge) {
-      return titleAge;
-    }
-  }
-  
-  // 3. Parse age from event description
-  if (event.description) {
-    const descriptionAge = parseAgesFromText(event.description);
-    if (descriptionAge) {
-      return descriptionAge;
-    }
-  }
-  
-  // 4. Category-based inference for common age patterns
-  if (event.category) {
-    const categoryAge = inferAgeFromCategory(event.category);
-    if (categoryAge) {
-      return categoryAge;
-    }
-  }
-  
-  // 5. Check title and description for category keywords if explicit category didn't match
-  const combinedText = `${event.title || ''} ${event.description || ''}`.toLowerCase();
-  const textCategoryAge = inferAgeFromCategory(combinedText);
-  if (textCategoryAge) {
-    return textCategoryAge;
-  }
-  
-  return null;
-}
-
-function extractAgeRangeFromProvider(provider: RecommendationProvider): { min: number; max: number } | null {
-  // Default age range if none specified
-  return { min: 3, max: 18 };
-}
+  const multiplier = availabilityMultiplier(availability);
+  const matchScore = Math.min(1, lightweightRec.matchScore * multiplier / availabilityMultiplier(embedded));
+  const staleReason = describeAvailability(embedded).matchReason;
+  const liveReason = describeAvailability(availability).matchReason;
+  const matchReasons = [
+    ...lightweightRec.matchReasons.filter(reason => reason !== staleReason),
+    ...(liveReason ? [liveReason] : []),
+  ];
 
-function extractScheduleFromEvent(event: any): any | null {
-  if (!event) return null;
-  
-  const schedule = {
-    days: [] as string[],
-    times: [] as string[],
-    recurring: event.recurring || false,
-    flexibility: 'fixed' as const
+  return {
+    providerId: lightweightRec.providerId,
+    programId: lightweightRec.programId,
+    matchScore,
+    matchReasons,
+    recommendationType: matchScore >= 0.8 ? 'perfect_match' as const :
+                      matchScore >= 0.65 ? 'good_fit' as const :
+                      matchScore >= 0.45 ? 'worth_exploring' as const : 'backup_option' as const,
+    ageAppropriate: lightweightRec.ranking.age >= 0.7,
+    interests: extractInterestsFromProvider(provider, event),
+    logisticalFit: {
+      location: lightweightRec.ranking.location >= 0.6,
+      schedule: lightweightRec.ranking.schedule >= 0.6,
+      budget: lightweightRec.ranking.budget >= 0.6 && !lightweightRec.householdSpend?.overBudget,
+      transportation: !filters.transportationRequired || lightweightRec.ranking.location >= 0.8,
+    },
+    metadata: createMetadataFromProvider(provider, event, availability),
+    householdSpend: lightweightRec.householdSpend,
+    scoring: lightweightRec.scoring && { ...lightweightRec.scoring, availability: { ...availability, multiplier } },
   };
-  
-  // Infer days from event dates
-  if (event.startDate) {
-    const startDate = new Date(event.startDate);
-    const dayOfWeek = startDate.getDay();
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    schedule.days = [dayNames[dayOfWeek]];
-  }
-  
-  // Extract time info if available in title or description  
-  const timeText = event.title + ' ' + (event.description || '');
-  schedule.times = inferTimesFromText(timeText);
-  
-  return schedule;
 }
 
 function getDefaultSchedule(): any {
@@ -405,29 +359,25 @@ function getDefaultSchedule(): any {
   };
 }
 
-function extractPricingFromEvent(event: any, provider: RecommendationProvider): any {
-  if (event?.price !== null && event?.price !== undefined) {
-    if (event.price === 0) {
-      return { type: 'free' };
-    }
-    return {
-      type: 'per_session',
-      amount: event.price,
-      currency: 'USD'
-    };
-  }
-  
-  return { type: 'per_session' };
+function extractPricingFromEvent(event: any): ActivityMetadata['pricing'] {
+  return toActivityPricing(parsePrice(event?.price), { unit: 'session' });
 }
 
-function inferTimesFromText(text: string): string[] {
-  // Simple time extraction - could be enhanced
-  const timeRegex = /(\d{1,2}):?(\d{2})?\s*(am|pm)/gi;
-  const matches = text.match(timeRegex);
-  return matches || [];
+// Response interfaces
+interface RecommendationBundlesResponse {
+  children: Array<{
+    childName: string;
+    recommendations: ActivityRecommendation['recommendations'];
+    totalMatches: number;
+  }>;
+  family: {
+    recommendations: Array<ActivityRecommendation['recommendations'][number] & { fitsChildren: string[] }>;
+    totalMatches: number;
+    minChildren: number;
+  };
+  dedupe: LightweightRecommendationBundlesResult['searchMetadata']['dedupe'];
 }
 
-// Response interfaces
 interface RecommendationResponse {
   success: boolean;
   activities?: ActivityRecommendation['recommendations'];
@@ -437,6 +387,12 @@ interface RecommendationResponse {
   searchCriteria?: any;
   searchSummary?: string;
   totalMatches?: number;
+  ranking?: LightweightRecommendationResult['searchMetadata']['ranking'];
+  retrieval?: LightweightRecommendationResult['searchMetadata']['retrieval'];
+  rerank?: LightweightRecommendationResult['searchMetadata']['rerank'];
+  bundles?: RecommendationBundlesResponse;
+  plans?: SiblingPlanResult['plans'];
+  schedule?: WeeklyScheduleRecommendationResult['schedule'];
   performance?: {
     vectorSearchMs: number;
     aiProcessingMs: number;
@@ -489,7 +445,8 @@ function transformNewFormatToFamilyProfile(request: any): FamilyProfile {
   const preferences = {
     budget: {
       max: budget.amount,
-      currency: 'USD'
+      currency: 'USD',
+      period: budget.period
     },
     schedule: schedule?.preferences || [],
     activityTypes: [] as string[],
@@ -520,6 +477,109 @@ function determineRecommendationType(people: Person[]): string {
   }
 }
 
+/**
+ * Generate the grouped response: one list per child plus a whole-family list.
+ *
+ * All lists come from a single engine call (one embedding, one retrieval) and a
+ * single database fetch. AI explanations are skipped here; they would need one
+ * completion per list.
+ */
+async function generateBundledResponse(
+  recommendationEngine: RecommendationEngine,
+  familyProfile: FamilyProfile,
+  filters: RecommendationFilters,
+  options: any,
+  startTime: number
+): Promise<RecommendationResponse> {
+  const bundleSearchTimeout = new Promise<never>((_, reject) => 
+    setTimeout(() => reject(new Error('Recommendation bundle search timeout')), 10000)
+  );
+
+  let bundlesResult: LightweightRecommendationBundlesResult;
+  try {
+    bundlesResult = await Promise.race([
+      recommendationEngine.generateLightweightRecommendationBundles(familyProfile, {
+        limit: options.limit,
+        includeScore: options.includeScores,
+        diversityWeight: options.diversityWeight,
+        filters,
+        cacheResults: options.useCache,
+        rankingProfile: options.rankingProfile,
+        rankingWeights: options.rankingWeights,
+        retrievalMode: options.retrievalMode,
+        bundles: options.bundles,
+      }),
+      bundleSearchTimeout,
+    ]);
+  } catch (error) {
+    console.error('Recommendation bundle search failed or timed out:', error);
+    throw new Error('Recommendation search is taking too long. Please try again.');
+  }
+  const vectorSearchMs = Date.now() - startTime;
+
+  // Fetch every provider referenced by any list in one query
+  const allLightweightRecs = [
+    ...bundlesResult.family.recommendations,
+    ...bundlesResult.children.flatMap(child => child.recommendations),
+  ];
+  const providerIds = [...new Set(allLightweightRecs.map(rec => rec.providerId))];
+  const eventIds = [...new Set(allLightweightRecs.map(rec => rec.eventId).filter((id): id is string => Boolean(id)))];
+
+  const databaseProviders = providerIds.length > 0
+    ? await getRecommendationProviders(providerIds, eventIds.length > 0 ? eventIds : undefined)
+    : [];
+  const providerMap = new Map(databaseProviders.map(provider => [provider.id, provider]));
+
+  const mergeList = (recs: LightweightRecommendation[]) => recs.flatMap(rec => {
+    const provider = providerMap.get(rec.providerId);
+    if (!provider) {
+      console.warn(`Provider ${rec.providerId} not found in database, skipping`);
+      return [];
+    }
+    const merged = mergeLightweightRecommendation(rec, provider, filters);
+    return merged ? [{ ...merged, fitsChildren: rec.fitsChildren || [] }] : [];
+  });
+
+  const bundles: RecommendationBundlesResponse = {
+    children: bundlesResult.children.map(child => ({
+      childName: child.childName,
+      recommendations: mergeList(child.recommendations).map(({ fitsChildren, ...rec }) => rec),
+      totalMatches: child.totalMatches,
+    })),
+    family: {
+      recommendations: mergeList(bundlesResult.family.recommendations),
+      totalMatches: bundlesResult.family.totalMatches,
+      minChildren: bundlesResult.family.minChildren,
+    },
+    dedupe: bundlesResult.searchMetadata.dedupe,
+  };
+
+  const totalCount = new Set([
+    ...bundles.family.recommendations,
+    ...bundles.children.flatMap(child => child.recommendations),
+  ].map(rec => rec.providerId)).size;
+
+  console.log(`Recommendation bundles generated: ${bundles.children.length} child lists + family list, ${totalCount} unique providers, ${Date.now() - startTime}ms total`);
+
+  return {
+    success: true,
+    bundles,
+    totalCount,
+    searchSummary: totalCount > 0
+      ? `Recommendations grouped for ${bundles.children.map(child => child.childName).join(', ')} and the whole family`
+      : 'No activities found matching your criteria. Try expanding your search filters or location range.',
+    totalMatches: bundles.family.totalMatches + bundles.children.reduce((sum, child) => sum + child.totalMatches, 0),
+    ranking: bundlesResult.searchMetadata.ranking,
+    retrieval: bundlesResult.searchMetadata.retrieval,
+    performance: {
+      vectorSearchMs,
+      aiProcessingMs: 0,
+      totalMs: Date.now() - startTime,
+      cacheHit: bundlesResult.performance.cacheHit,
+    },
+  };
+}
+
 // Global recommendation engine instance
 let globalRecommendationEngine: RecommendationEngine | null = null;
 
@@ -550,11 +610,75 @@ function getRecommendationEngine(): RecommendationEngine {
  *   },
  *   "options": {
  *     "limit": 10,
- *     "includeExplanations": true
+ *     "includeExplanations": true,
+ *     "rankingProfile": "closest-first",
+ *     "rankingWeights": {"budget": 0.1},
+ *     "retrievalMode": "hybrid"
  *   }
  * }
  * ```
  * 
+ * Set `options.bundles` to get one list per child plus a whole-family list
+ * (returned under `bundles`) from a single search:
+ * ```json
+ * {
+ *   "familyProfile": { ... },
+ *   "options": {
+ *     "limit": 5,
+ *     "bundles": {"dedupe": "family-first", "familyMinChildren": 2}
+ *   }
+ * }
+ * ```
+ * 
+ * Set `options.rerank` (e.g. `{"method": "cross-encoder", "topN": 10, "timeoutMs": 1500}`)
+ * to rerank the top candidates against the search query and blend the result into
+ * their scores. Over the latency budget, or on error, the original order is kept;
+ * `rerank` in the response says which happened.
+ * 
+ * Set `options.explain` to attach the raw inputs behind each recommendation's scores
+ * under `scoring`: the age range used and where it came from, the location comparison
+ * (distance and coordinate source when known), matched interests, time slots, and
+ * the price and budget compared. `scoring.scorer` names the scoring path that ran.
+ * 
+ * Set `filters.neighborhood` (e.g. `{"includeAdjacent": true}`) to keep only activities
+ * inside the family's neighborhood or one that borders it; `name` picks another
+ * neighborhood. Neighborhoods without a surveyed boundary (the bundled Austin shapes are
+ * approximate) leave results unfiltered and only rank nearby activities higher.
+ * 
+ * Location is scored by estimated one-way travel time when the family's location is
+ * known: by car unless `familyProfile.location.travelMode` says otherwise, or transit
+ * when `transportationNeeds` is set; `filters.travelMode` overrides both. Weekday
+ * activities starting in commute hours are estimated with rush-hour traffic.
+ * `filters.maxTravelMinutes` and `filters.maxDistance` (straight-line miles) drop
+ * activities beyond the limit; activities that can't be placed are kept.
+ * 
+ * Programs with a known capacity are ranked by availability: full programs are
+ * demoted, waitlisted ones less so, and a few remaining spots are flagged ("Only 2
+ * spots left"). Set `filters.onlyAvailable` to hide full and waitlisted programs.
+ * Availability is re-checked against live event enrollment before responding.
+ * 
+ * Set `filters.dateWindow` to say when activities are needed, either as dates
+ * (`{"start": "2027-06-01", "end": "2027-08-15"}`) or a phrase (`{"description":
+ * "summer break 2027"}`, "next two weeks", "this weekend"). Activities running outside
+ * the window are demoted, or dropped with `"strict": true`; events that have already
+ * ended are never recommended. The window also sets the season used for AI explanations.
+ * 
+ * Budgets are for the whole household. Prices are converted to the budget's `period`
+ * (per session, week or month; `preferences.budget.period` in a family profile) from
+ * how the provider charges, and an activity for some of the children is compared to
+ * their share of the budget, less any sibling discount the provider publishes.
+ * Household cost is then added down the returned list, one pick per child, and each
+ * pick's `householdSpend.runningTotal` says what the family would spend taking it with
+ * the higher-ranked ones; picks that take it over budget keep their place but get
+ * `householdSpend.overBudget` and `logisticalFit.budget: false`.
+ * Sibling plans total the plan's cost and are demoted when it exceeds the budget.
+ * 
+ * Set `options.siblingPlans` (e.g. `{"limit": 5, "nearbyMiles": 1}`) to get combined
+ * plans under `plans`, one activity per child, favoring shared drop-off place and time.
+ * Set `options.weeklySchedule` (e.g. `{"calendars": 3, "maxActivities": 5}`) to get
+ * conflict-free weekly calendars under `schedule`, built within the family's
+ * `preferences.scheduleConstraints`, with every left-out activity explained.
+ * 
  * Example request with natural language query:
  * ```json
  * {
@@ -679,8 +803,156 @@ export async function POST(request: NextRequest) {
       languages: filters.languages,
       specialNeeds: filters.specialNeeds,
       transportationRequired: filters.transportationRequired,
+      keywords: filters.keywords,
+      neighborhood: filters.neighborhood,
+      maxTravelMinutes: filters.maxTravelMinutes,
+      travelMode: filters.travelMode,
+      onlyAvailable: filters.onlyAvailable,
+      dateWindow: filters.dateWindow,
     };
 
+    // Weekly calendars replace the single ranked list
+    if (options.weeklySchedule) {
+      const scheduleResult = await Promise.race([
+        recommendationEngine.generateWeeklySchedule(workingFamilyProfile, {
+          filters: recommendationFilters,
+          cacheResults: options.useCache,
+          rankingProfile: options.rankingProfile,
+          rankingWeights: options.rankingWeights,
+          retrievalMode: options.retrievalMode,
+          schedule: options.weeklySchedule,
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Weekly schedule search timeout')), 10000)
+        ),
+      ]);
+
+      const { calendars, unschedulable } = scheduleResult.schedule;
+      const scheduleResponse: RecommendationResponse = {
+        success: true,
+        schedule: scheduleResult.schedule,
+        totalCount: calendars.length,
+        searchSummary: calendars.length > 0
+          ? `Built ${calendars.length} weekly calendar${calendars.length === 1 ? '' : 's'}; ${unschedulable.length} activities could not be scheduled`
+          : 'No activities with known schedules fit your week. Try relaxing your schedule constraints.',
+        ranking: scheduleResult.searchMetadata.ranking,
+        retrieval: scheduleResult.searchMetadata.retrieval,
+        performance: {
+          vectorSearchMs: scheduleResult.performance.vectorSearchMs,
+          aiProcessingMs: 0,
+          totalMs: Date.now() - startTime,
+          cacheHit: false,
+        },
+      };
+
+      if (isNewFormat) {
+        scheduleResponse.searchCriteria = {
+          people: (validatedRequest as any).people,
+          location: (validatedRequest as any).location,
+          budget: (validatedRequest as any).budget,
+          schedule: (validatedRequest as any).schedule
+        };
+      }
+      if (options.includeMetrics) {
+        scheduleResponse.usage = {
+          tokensUsed: totalTokens,
+          estimatedCost: totalCost,
+          model: options.model,
+        };
+      }
+
+      return NextResponse.json(scheduleResponse, { status: 200 });
+    }
+
+    // Sibling co-scheduling plans replace the single ranked list
+    if (options.siblingPlans) {
+      if (workingFamilyProfile.children.length < 2) {
+        return NextResponse.json({
+          success: false,
+          error: 'Sibling plans require at least two children',
+        }, { status: 400 });
+      }
+
+      const planResult = await Promise.race([
+        recommendationEngine.generateSiblingPlans(workingFamilyProfile, {
+          filters: recommendationFilters,
+          cacheResults: options.useCache,
+          rankingProfile: options.rankingProfile,
+          rankingWeights: options.rankingWeights,
+          retrievalMode: options.retrievalMode,
+          plans: options.siblingPlans,
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Sibling plan search timeout')), 10000)
+        ),
+      ]);
+
+      const planResponse: RecommendationResponse = {
+        success: true,
+        plans: planResult.plans,
+        totalCount: planResult.plans.length,
+        searchSummary: planResult.plans.length > 0
+          ? `Found ${planResult.plans.length} plans that combine one activity for each child`
+          : 'No combinations of age-appropriate activities found for all children. Try expanding your search filters or location range.',
+        ranking: planResult.searchMetadata.ranking,
+        retrieval: planResult.searchMetadata.retrieval,
+        performance: {
+          vectorSearchMs: planResult.performance.vectorSearchMs,
+          aiProcessingMs: 0,
+          totalMs: Date.now() - startTime,
+          cacheHit: planResult.performance.cacheHit,
+        },
+      };
+
+      if (isNewFormat) {
+        planResponse.searchCriteria = {
+          people: (validatedRequest as any).people,
+          location: (validatedRequest as any).location,
+          budget: (validatedRequest as any).budget,
+          schedule: (validatedRequest as any).schedule
+        };
+      }
+
+      if (options.includeMetrics) {
+        planResponse.usage = {
+          tokensUsed: totalTokens,
+          estimatedCost: totalCost,
+          model: options.model,
+        };
+      }
+
+      return NextResponse.json(planResponse, { status: 200 });
+    }
+
+    // Grouped per-child + whole-family lists replace the single ranked list
+    if (options.bundles) {
+      const bundledResponse = await generateBundledResponse(
+        recommendationEngine,
+        workingFamilyProfile,
+        recommendationFilters,
+        options,
+        startTime
+      );
+
+      if (isNewFormat) {
+        bundledResponse.searchCriteria = {
+          people: (validatedRequest as any).people,
+          location: (validatedRequest as any).location,
+          budget: (validatedRequest as any).budget,
+          schedule: (validatedRequest as any).schedule
+        };
+      }
+      if (options.includeMetrics) {
+        bundledResponse.usage = {
+          tokensUsed: totalTokens,
+          estimatedCost: totalCost,
+          model: options.model,
+        };
+      }
+
+      return NextResponse.json(bundledResponse, { status: 200 });
+    }
+
     // 1. Generate lightweight recommendations (IDs and scores only)
     console.log('Starting lightweight recommendation generation...');
     const lightweightStartTime = Date.now();
@@ -699,6 +971,11 @@ export async function POST(request: NextRequest) {
         filters: recommendationFilters,
         cacheResults: options.useCache,
         recommendationType, // Pass the recommendation type to the engine
+        rankingProfile: options.rankingProfile,
+        rankingWeights: options.rankingWeights,
+        retrievalMode: options.retrievalMode,
+        rerank: options.rerank,
+        explain: options.explain,
       }
     );
 
@@ -732,6 +1009,9 @@ export async function POST(request: NextRequest) {
         }),
         searchSummary: 'No activities found matching your criteria. Try expanding your search filters or location range.',
         totalMatches: 0,
+        ranking: lightweightResult.searchMetadata.ranking,
+        retrieval: lightweightResult.searchMetadata.retrieval,
+        rerank: lightweightResult.searchMetadata.rerank,
         performance: {
           vectorSearchMs: lightweightMs,
           aiProcessingMs: 0,
@@ -844,32 +1124,8 @@ export async function POST(request: NextRequest) {
         continue;
       }
       
-      // Find the relevant event if specified
-      const event = lightweightRec.eventId ? 
-        provider.events.find(e => String(e.id) === String(lightweightRec.eventId)) : 
-        (provider.events.length > 0 ? provider.events[0] : null);
-      
-      // Create full recommendation object
-      const fullRecommendation = {
-        providerId: lightweightRec.providerId,
-        programId: lightweightRec.programId,
-        matchScore: lightweightRec.matchScore,
-        matchReasons: lightweightRec.matchReasons,
-        recommendationType: lightweightRec.matchScore >= 0.8 ? 'perfect_match' as const :
-                          lightweightRec.matchScore >= 0.65 ? 'good_fit' as const :
-                          lightweightRec.matchScore >= 0.45 ? 'worth_exploring' as const : 'backup_option' as const,
-        ageAppropriate: lightweightRec.ranking.age >= 0.7,
-        interests: extractInterestsFromProvider(provider, event),
-        logisticalFit: {
-          location: lightweightRec.ranking.location >= 0.6,
-          schedule: lightweightRec.ranking.schedule >= 0.6,
-          budget: lightweightRec.ranking.budget >= 0.6,
-          transportation: !filters.transportationRequired || lightweightRec.ranking.location >= 0.8,
-        },
-        metadata: createMetadataFromProvider(provider, event),
-      };
-      
-      finalRecommendations.push(fullRecommendation);
+      const merged = mergeLightweightRecommendation(lightweightRec, provider, filters);
+      if (merged) finalRecommendations.push(merged);
     }
     
     const deduplicationMs = Date.now() - deduplicationStartTime;
@@ -896,9 +1152,7 @@ export async function POST(request: NextRequest) {
               description: truncatedDescription,
               ageRange: `${rec.metadata.ageRange.min}-${rec.metadata.ageRange.max}`,
               location: `${rec.metadata.location.neighborhood || ''} ${rec.metadata.location.city || ''}`.trim(),
-              priceRange: rec.metadata.pricing.amount ? 
-                `$${rec.metadata.pricing.amount}/${rec.metadata.pricing.type.replace('_', ' ')}` :
-                rec.metadata.pricing.type === 'free' ? 'Free' : 'Price varies',
+              priceRange: formatActivityPricing(rec.metadata.pricing),
               schedule: rec.metadata.schedule.days.join(', '),
               interests: rec.metadata.interests.slice(0, 5), // Limit interests to top 5
             },
@@ -906,7 +1160,11 @@ export async function POST(request: NextRequest) {
         });
 
         // Generate AI-enhanced recommendations with timeout
-        const prompts = createRecommendationPrompt(workingFamilyProfile, searchResults, options.limit);
+        const dateWindow = resolveDateWindow(filters.dateWindow);
+        const prompts = createRecommendationPrompt(workingFamilyProfile, searchResults, options.limit, undefined, {
+          season: dateWindow?.season ?? seasonForDate(new Date()),
+          window: dateWindow?.label,
+        });
         
         // Check message size to avoid 32k character limit
         const totalPromptSize = prompts.system.length + prompts.user.length;
@@ -1019,6 +1277,9 @@ export async function POST(request: NextRequest) {
       }),
       searchSummary,
       totalMatches: lightweightResult.searchMetadata.totalMatches,
+      ranking: lightweightResult.searchMetadata.ranking,
+      retrieval: lightweightResult.searchMetadata.retrieval,
+      rerank: lightweightResult.searchMetadata.rerank,
       performance: {
         vectorSearchMs: lightweightMs,
         aiProcessingMs,
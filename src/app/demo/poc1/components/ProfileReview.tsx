@@ -9,6 +9,8 @@
  * - Creates trust through transparency and control over their data
  * - Enables perspective switching to view profile from different family member viewpoints
  * - Highlights relevant sections based on selected family member (All, Family, All Kids, Individual)
+ * - Highlights fields the parser guessed, defaulted or corrected, using its per-field
+ *   provenance, so parents check those instead of rereading everything
  */
 
 'use client';
@@ -27,13 +29,16 @@ import {
   ClockIcon
 } from '@heroicons/react/24/solid';
 import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
-import type { FamilyProfile } from '@/types/ai';
+import type { FamilyProfile, FieldProvenance, ProfileProvenance } from '@/types/ai';
 
 export type RecommendationType = 'family' | 'all_kids' | string; // string for individual child names
 
 interface ProfileReviewProps {
   familyProfile: FamilyProfile;
   originalDescription: string;
+  confidence?: number; // Parser's overall confidence
+  warnings?: string[]; // Parser warnings
+  provenance?: ProfileProvenance; // Per-field confidence and origin, keyed by field path
   onComplete: (profile: FamilyProfile, recommendationType: RecommendationType, requestData?: any) => void;
   loading?: boolean;
   className?: string;
@@ -42,13 +47,16 @@ interface ProfileReviewProps {
 export default function ProfileReview({
   familyProfile,
   originalDescription,
+  confidence = 0.85, // Simulated when the parser doesn't report one
+  warnings = [],
+  provenance = {},
   onComplete,
   loading = false,
   className = ''
 }: ProfileReviewProps) {
   const [editingProfile, setEditingProfile] = useState<FamilyProfile>(familyProfile);
-  const [confidence] = useState(0.85); // Simulated confidence score
-  const [warnings] = useState<string[]>([]);
+  // Provenance for fields not yet edited; editing a field counts as reviewing it
+  const [fieldProvenance, setFieldProvenance] = useState<ProfileProvenance>(provenance);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [tempValue, setTempValue] = useState<any>(null);
 
@@ -134,6 +142,7 @@ export default function ProfileReview({
     setEditingProfile(updatedProfile);
     setEditingField(null);
     setTempValue(null);
+    markReviewed(fieldPath);
   };
 
   const handleFieldCancel = () => {
@@ -159,6 +168,7 @@ export default function ProfileReview({
       ...prev,
       children: prev.children.filter((_, i) => i !== index)
     }));
+    setFieldProvenance(prev => removeArrayItem(prev, 'children', index));
   };
 
   const addInterest = (childIndex: number) => {
@@ -180,8 +190,22 @@ export default function ProfileReview({
       ...prev,
       children: updatedChildren
     }));
+    setFieldProvenance(prev => removeArrayItem(prev, `children.${childIndex}.interests`, interestIndex));
   };
 
+  const markReviewed = (fieldPath: string) => {
+    setFieldProvenance(prev => {
+      const { [fieldPath]: _reviewed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Provenance for a field that still needs review
+  const reviewFlag = (fieldPath: string): FieldProvenance | undefined =>
+    fieldProvenance[fieldPath]?.needsReview ? fieldProvenance[fieldPath] : undefined;
+
+  const fieldsToReview = Object.values(fieldProvenance).filter(field => field.needsReview).length;
+
   const EditableField = ({ 
     value, 
     fieldPath, 
@@ -231,8 +255,14 @@ export default function ProfileReview({
       );
     }
 
+    const flag = reviewFlag(fieldPath);
+
     return (
-      <div className="group flex items-center space-x-2">
+      <div
+        className={`group flex items-center space-x-2 ${flag ? 'ring-1 ring-yellow-400 bg-yellow-50 rounded px-1' : ''}`}
+        title={describeProvenance(fieldProvenance[fieldPath])}
+      >
+        {flag && <ExclamationTriangleIcon className="w-4 h-4 text-yellow-600 flex-shrink-0" />}
         <span className="flex-1 text-neutral-100">
           {value || <span className="text-neutral-40 italic">{placeholder}</span>}
         </span>
@@ -273,6 +303,12 @@ export default function ProfileReview({
           <p className="text-neutral-60">
             Review and edit your profile below
           </p>
+          {fieldsToReview > 0 && (
+            <div className="flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium text-yellow-700 bg-yellow-100">
+              <ExclamationTriangleIcon className="w-4 h-4" />
+              <span>{fieldsToReview} {fieldsToReview === 1 ? 'field needs' : 'fields need'} attention</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -445,7 +481,10 @@ export default function ProfileReview({
                     {child.interests.map((interest, interestIndex) => (
                       <div 
                         key={interestIndex}
-                        className="group flex items-center space-x-1 bg-secondary/10 text-secondary px-2 py-1 rounded-full text-sm"
+                        className={`group flex items-center space-x-1 bg-secondary/10 text-secondary px-2 py-1 rounded-full text-sm ${
+                          reviewFlag(`children.${index}.interests.${interestIndex}`) ? 'ring-1 ring-yellow-400' : ''
+                        }`}
+                        title={describeProvenance(fieldProvenance[`children.${index}.interests.${interestIndex}`])}
                       >
                         <span>{interest}</span>
                         <button
@@ -522,7 +561,13 @@ export default function ProfileReview({
               {editingProfile.preferences?.schedule?.length ? (
                 <div className="flex flex-wrap gap-1">
                   {editingProfile.preferences.schedule.map((time, index) => (
-                    <span key={index} className="bg-tertiary-orange/10 text-tertiary-orange px-2 py-1 rounded text-xs">
+                    <span
+                      key={index}
+                      className={`bg-tertiary-orange/10 text-tertiary-orange px-2 py-1 rounded text-xs ${
+                        reviewFlag(`preferences.schedule.${index}`) ? 'ring-1 ring-yellow-400' : ''
+                      }`}
+                      title={describeProvenance(fieldProvenance[`preferences.schedule.${index}`])}
+                    >
                       {time.replace('_', ' ')}
                     </span>
                   ))}
@@ -702,4 +747,37 @@ export default function ProfileReview({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Tooltip text for a field: why it needs review and the words it came from.
+ */
+function describeProvenance(field?: FieldProvenance): string | undefined {
+  if (!field) return undefined;
+  const parts = [
+    field.note,
+    field.span ? `From "${field.span.text}"` : undefined,
+    `${field.origin}, ${Math.round(field.confidence * 100)}% confidence`,
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+/**
+ * Drop an array item's provenance and shift later items' paths down by one.
+ */
+function removeArrayItem(provenance: ProfileProvenance, arrayPath: string, removedIndex: number): ProfileProvenance {
+  const prefix = `${arrayPath}.`;
+  const shifted: ProfileProvenance = {};
+  for (const [path, field] of Object.entries(provenance)) {
+    if (!path.startsWith(prefix)) {
+      shifted[path] = field;
+      continue;
+    }
+    const [index, ...rest] = path.slice(prefix.length).split('.');
+    const itemIndex = Number(index);
+    if (itemIndex === removedIndex) continue;
+    const newIndex = itemIndex > removedIndex ? itemIndex - 1 : itemIndex;
+    shifted[[`${arrayPath}.${newIndex}`, ...rest].join('.')] = field;
+  }
+  return shifted;
+}
@@ -15,12 +15,14 @@
  * - Centers map on Austin, TX with zoom level optimized for city viewing
  * - Shows different marker colors based on recommendation match type
  * - Includes popups with key recommendation details for quick reference
+ * - Outlines the family's neighborhood when its boundary is known, dashed when the
+ *   boundary is only approximate
  */
 
 'use client';
 
 import { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Polygon, Popup, useMap } from 'react-leaflet';
 import L, { LatLngExpression } from 'leaflet';
 import { 
   SparklesIcon, 
@@ -35,6 +37,8 @@ import {
 import { HeartIcon as HeartSolid } from '@heroicons/react/24/solid';
 
 import type { FamilyProfile, Recommendation } from '@/types/ai';
+import { lookupPostalCentroid } from '@/lib/geo/geocoder';
+import { getNeighborhoodIndex, type Neighborhood } from '@/lib/geo/neighborhoods';
 
 // Import Leaflet CSS
 import 'leaflet/dist/leaflet.css';
@@ -137,9 +141,19 @@ function getRecommendationCoordinates(rec: Recommendation): LatLngExpression | n
 
 // Helper function to get family coordinates
 function getFamilyCoordinates(familyProfile: FamilyProfile): LatLngExpression | null {
-  // For now, return null - could implement geocoding based on neighborhood/zipcode
-  // This would require a geocoding service integration
-  return null;
+  // Offline postal-code centroid, then the center of the family's neighborhood
+  const centroid = lookupPostalCentroid(familyProfile.location?.zipCode) || getFamilyNeighborhood(familyProfile)?.centroid;
+  return centroid ? [centroid.lat, centroid.lng] : null;
+}
+
+// Helper function to get the family's neighborhood boundary
+function getFamilyNeighborhood(familyProfile: FamilyProfile): Neighborhood | undefined {
+  return getNeighborhoodIndex().find(familyProfile.location?.neighborhood, familyProfile.location?.city);
+}
+
+// Leaflet positions for a neighborhood: one [lat, lng] list per ring
+function getNeighborhoodPositions(neighborhood: Neighborhood): LatLngExpression[][][] {
+  return neighborhood.polygons.map(polygon => polygon.map(ring => ring.map(({ lat, lng }): LatLngExpression => [lat, lng])));
 }
 
 // Helper functions from Recommendations component
@@ -309,11 +323,12 @@ export default function RecommendationsMapInner({
   );
 
   const familyCoords = getFamilyCoordinates(familyProfile);
+  const familyNeighborhood = getFamilyNeighborhood(familyProfile);
 
   return (
     <div className={`h-96 rounded-xl overflow-hidden border border-neutral-20 ${className}`}>
       <MapContainer
-        center={AUSTIN_CENTER}
+        center={familyCoords || AUSTIN_CENTER}
         zoom={DEFAULT_ZOOM}
         style={{ height: '100%', width: '100%' }}
         zoomControl={true}
@@ -326,6 +341,29 @@ export default function RecommendationsMapInner({
         
         <MapBounds recommendations={mappableRecommendations} />
 
+        {/* Family neighborhood outline */}
+        {familyNeighborhood && (
+          <Polygon
+            positions={getNeighborhoodPositions(familyNeighborhood)}
+            pathOptions={{
+              color: '#7C3AED',
+              weight: 2,
+              dashArray: familyNeighborhood.approximate ? '6 6' : undefined,
+              fillColor: '#7C3AED',
+              fillOpacity: 0.08,
+            }}
+          >
+            <Popup>
+              <div className="p-2">
+                <div className="font-semibold text-purple-800">{familyNeighborhood.name}</div>
+                <div className="text-sm text-neutral-60">
+                  {familyNeighborhood.approximate ? 'Your neighborhood (approximate area)' : 'Your neighborhood'}
+                </div>
+              </div>
+            </Popup>
+          </Polygon>
+        )}
+
         {/* Family location marker */}
         {familyCoords && (
           <Marker
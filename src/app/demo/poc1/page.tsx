@@ -38,7 +38,7 @@ import PhaseIndicator, { type Phase } from './components/PhaseIndicator';
 import RecessHeader from '@/components/RecessHeader';
 
 // Import types
-import type { FamilyProfile, Recommendation, GeneratedEmail } from '@/types/ai';
+import type { FamilyProfile, Recommendation, GeneratedEmail, ProfileProvenance } from '@/types/ai';
 
 // Mock recommendations for demo continuity when API fails
 function createMockRecommendations(familyProfile: FamilyProfile): Recommendation[] {
@@ -179,6 +179,9 @@ interface DemoState {
   phases: Phase[];
   familyDescription: string;
   familyProfile: FamilyProfile | null;
+  parsingConfidence?: number; // Reported by the parser, with its warnings and per-field provenance
+  parsingWarnings?: string[];
+  profileProvenance?: ProfileProvenance;
   recommendations: Recommendation[];
   selectedRecommendations: Recommendation[];
   generatedEmails: GeneratedEmail[];
@@ -262,6 +265,9 @@ export default function POC1DemoPage() {
       setState(prev => ({
         ...prev,
         familyProfile: data.familyProfile,
+        parsingConfidence: data.confidence,
+        parsingWarnings: data.warnings,
+        profileProvenance: data.provenance,
         totalCost: prev.totalCost + (data.usage?.estimatedCost || 0),
         currentPhase: 'review',
         isLoading: false
@@ -426,6 +432,9 @@ export default function POC1DemoPage() {
           <ProfileReview
             familyProfile={familyProfile}
             originalDescription={state.familyDescription}
+            confidence={state.parsingConfidence}
+            warnings={state.parsingWarnings}
+            provenance={state.profileProvenance}
             onComplete={handleProfileReview}
             loading={isLoading}
           />
@@ -0,0 +1,264 @@
+/**
+ * Accessibility, special-needs and allergy accommodations for activities.
+ *
+ * WHY: Accommodation matching because:
+ * - Parents state a child's special needs and allergies, but nothing compared them
+ *   to what activities offer, so a nut-allergic child saw bakeries first
+ * - Providers and events have no accommodation fields; what they offer is written
+ *   into titles and descriptions ("sensory-friendly", "wheelchair accessible",
+ *   "nut-free snacks", "taught in Spanish")
+ * - A wheelchair user can't attend an inaccessible program however well it scores
+ *
+ * DESIGN DECISIONS:
+ * - One model for providers, events and vector payloads: accommodation features
+ *   plus languages of instruction (see instruction-languages), parsed from listing
+ *   text at indexing time; an offer negated earlier in its clause ("not wheelchair
+ *   accessible") doesn't count
+ * - Children's needs come from their free-text special needs and allergies; needs
+ *   that name nothing specific ("IEP", "speech delay") ask for an inclusive program
+ * - Needs from the profile demote listings that don't mention them rather than
+ *   dropping them, since most listings say nothing either way; `specialNeeds`
+ *   filters are hard requirements
+ * - Unmet needs become concerns naming the child, so parents know what to ask
+ */
+
+import type { Accommodation, ActivityAccommodations, FamilyProfile } from '@/types/ai';
+import { parseInstructionLanguages } from './instruction-languages';
+
+/**
+ * A need one or more children have, with what prompted it.
+ */
+export interface AccommodationNeed {
+  accommodation: Accommodation;
+  children: string[]; // Names; empty for needs from request filters
+  reason: string; // "peanut allergy", "autism"
+}
+
+export interface AccommodationMatch {
+  needs: AccommodationNeed[];
+  met: Accommodation[];
+  missing: Accommodation[];
+  multiplier: number;
+}
+
+// Listing text that shows an activity offers an accommodation
+const OFFERED_PATTERNS: Record<Accommodation, RegExp> = {
+  sensory_friendly: /\bsensory[-\s]?(?:friendly|inclusive|sensitive|smart|room|breaks?|kits?)\b|\bquiet (?:room|space|area)s?\b|\blow[-\s]stimulation\b|\bautism[-\s](?:friendly|inclusive)\b|\bneurodiver(?:se|gent)[-\s](?:friendly|affirming|inclusive)\b/,
+  wheelchair_accessible: /\bwheelchair[-\s](?:accessible|friendly)\b|\bwheelchair access\b|\bada[-\s](?:accessible|compliant)\b|\b(?:fully )?accessible (?:facility|entrance|building|venue|restrooms?)\b|\bstep[-\s]free\b/,
+  one_on_one_aide: /\b(?:1\s*:\s*1|one[-\s]on[-\s]one|one[-\s]to[-\s]one)\s+(?:aides?|support|assistants?|shadows?|buddies)\b|\b(?:inclusion|shadow|personal|support)\s+aides?\b|\baides?\s+(?:are\s+)?(?:available|welcome|provided)\b/,
+  nut_free: /\b(?:tree[-\s])?(?:nut|peanut)[-\s]free\b|\bno (?:peanuts|nuts|nut products)\b/,
+  allergy_aware: /\ballerg(?:y|ies|en)[-\s](?:friendly|aware|safe|free)\b|\bepi[-\s]?pen\b|\bfood allergies (?:are )?(?:accommodated|welcome)\b|\bgluten[-\s]free\b|\bdairy[-\s]free\b/,
+  inclusive: /\badaptive\b|\bspecial[-\s]needs\b|\ball abilities\b|\binclusive (?:program|class|camp|classroom|sports?)\b|\bdisabilit(?:y|ies)\b|\bdifferently[-\s]abled\b/,
+};
+
+// Special-needs text that asks for an accommodation
+const NEED_PATTERNS: Array<{ accommodation: Accommodation; pattern: RegExp }> = [
+  { accommodation: 'sensory_friendly', pattern: /\bautis|\basd\b|\bsensory\b|\bspd\b|\baudhd\b|\bnoise\b/ },
+  { accommodation: 'wheelchair_accessible', pattern: /\bwheelchair|\bmobility\b|\bcerebral palsy\b|\bspina bifida\b|\bwalker\b|\bcrutches\b/ },
+  { accommodation: 'one_on_one_aide', pattern: /\baide\b|\b1\s*:\s*1\b|\bone[-\s]on[-\s]one\b|\bshadow\b|\bpara(?:professional)?\b/ },
+  // ADHD asks for a program used to different needs, not a low-stimulation one
+  { accommodation: 'inclusive', pattern: /\badhd\b/ },
+];
+
+// Whole words, so "eggplant" and "nutmeg" aren't read as egg and nut allergies
+const NUT_ALLERGY = /\b(?:tree[-\s])?nuts?\b|\b(?:peanut|almond|cashew|walnut|pecan|pistachio|hazelnut)s?\b/;
+const FOOD_ALLERGY = /\b(?:dairy|milk|lactose|eggs?|gluten|wheat|celiac|soy|soybeans?|shellfish|fish|sesame|foods?)\b/;
+
+// A negation just before an offer in the same clause: "not wheelchair accessible",
+// "we can't guarantee a nut-free space"
+const NEGATION = /\b(?:not|no|never|cannot|without|(?:isn|aren|can|don|doesn|won)['’]?t)\b/;
+const NEGATION_WORDS = 5;
+
+// Filter values accepted besides accommodation names ("wheelchair_accessible")
+const FILTER_ALIASES: Record<string, Accommodation> = {
+  wheelchair: 'wheelchair_accessible',
+  accessible: 'wheelchair_accessible',
+  sensory: 'sensory_friendly',
+  aide: 'one_on_one_aide',
+  'nut-free': 'nut_free',
+  'nut free': 'nut_free',
+  'allergy friendly': 'allergy_aware',
+  'special needs': 'inclusive',
+  adaptive: 'inclusive',
+};
+
+// Which offered accommodations satisfy a need
+const SATISFIED_BY: Record<Accommodation, Accommodation[]> = {
+  sensory_friendly: ['sensory_friendly'],
+  wheelchair_accessible: ['wheelchair_accessible'],
+  one_on_one_aide: ['one_on_one_aide'],
+  nut_free: ['nut_free'],
+  allergy_aware: ['allergy_aware'],
+  inclusive: ['inclusive', 'sensory_friendly', 'one_on_one_aide'],
+};
+
+// How listings describe an accommodation, for embedding text
+const LABELS: Record<Accommodation, string> = {
+  sensory_friendly: 'sensory-friendly',
+  wheelchair_accessible: 'wheelchair accessible',
+  one_on_one_aide: '1:1 aides available',
+  nut_free: 'nut-free',
+  allergy_aware: 'allergy-aware',
+  inclusive: 'special-needs inclusive',
+};
+
+// How parents read an accommodation in reasons and concerns
+const NEED_LABELS: Record<Accommodation, string> = {
+  sensory_friendly: 'sensory-friendly setting',
+  wheelchair_accessible: 'wheelchair access',
+  one_on_one_aide: '1:1 aide support',
+  nut_free: 'nut-free policy',
+  allergy_aware: 'allergy accommodations',
+  inclusive: 'special-needs inclusion',
+};
+
+// Match-score multiplier per need the listing doesn't mention, and its floor
+const MISSING_NEED_MULTIPLIER = 0.9;
+const MIN_MULTIPLIER = 0.7;
+
+/**
+ * Read the accommodations and instruction languages a listing mentions.
+ */
+export function parseAccommodations(...texts: Array<string | null | undefined>): ActivityAccommodations {
+  const text = texts.filter(Boolean).join(' \n ').toLowerCase();
+  const features = (Object.keys(OFFERED_PATTERNS) as Accommodation[]).filter(feature =>
+    [...text.matchAll(new RegExp(OFFERED_PATTERNS[feature].source, 'g'))].some(match => !isNegated(text, match.index!))
+  );
+  const { languages, program } = parseInstructionLanguages(text);
+  return { features, languages, languageProgram: program };
+}
+
+/**
+ * Accommodations from a vector payload: indexed fields when present, else parsed
+ * from the payload's text.
+ */
+export function accommodationsFromPayload(metadata: Record<string, any>): ActivityAccommodations {
+  if (Array.isArray(metadata.accommodations)) {
+    return {
+      features: metadata.accommodations,
+      languages: Array.isArray(metadata.languages) ? metadata.languages : [],
+      languageProgram: metadata.language_program || undefined,
+    };
+  }
+  return parseAccommodations(metadata.title, metadata.description, metadata.text);
+}
+
+/**
+ * The accommodations children need, from their special needs and allergies.
+ */
+export function childAccommodationNeeds(children: FamilyProfile['children']): AccommodationNeed[] {
+  const needs: AccommodationNeed[] = [];
+  const add = (accommodation: Accommodation, child: string, reason: string) => {
+    const existing = needs.find(need => need.accommodation === accommodation);
+    if (!existing) {
+      needs.push({ accommodation, children: [child], reason });
+    } else if (!existing.children.includes(child)) {
+      existing.children.push(child);
+    }
+  };
+
+  for (const child of children) {
+    const specialNeeds = child.specialNeeds?.trim().toLowerCase();
+    if (specialNeeds && !/^(?:none|n\/a|no)$/.test(specialNeeds)) {
+      const matched = NEED_PATTERNS.filter(({ pattern }) => pattern.test(specialNeeds));
+      matched.forEach(({ accommodation }) => add(accommodation, child.name, child.specialNeeds!.trim()));
+      if (matched.length === 0) add('inclusive', child.name, child.specialNeeds!.trim());
+    }
+
+    for (const allergy of child.allergies || []) {
+      const normalized = allergy.toLowerCase();
+      const reason = /allerg/.test(normalized) ? allergy : `${allergy.trim().replace(/s$/i, '')} allergy`;
+      if (NUT_ALLERGY.test(normalized)) add('nut_free', child.name, reason);
+      else if (FOOD_ALLERGY.test(normalized)) add('allergy_aware', child.name, reason);
+    }
+  }
+
+  return needs;
+}
+
+/**
+ * Accommodations named by `specialNeeds` filter values ("wheelchair", "nut_free");
+ * values that name nothing specific require an inclusive program.
+ */
+export function requiredAccommodations(specialNeeds?: string[]): Accommodation[] {
+  const required = new Set<Accommodation>();
+  for (const value of specialNeeds || []) {
+    const normalized = value.trim().toLowerCase();
+    if (!normalized) continue;
+    if (normalized in OFFERED_PATTERNS) {
+      required.add(normalized as Accommodation);
+    } else if (FILTER_ALIASES[normalized]) {
+      required.add(FILTER_ALIASES[normalized]);
+    } else {
+      const matched = NEED_PATTERNS.filter(({ pattern }) => pattern.test(normalized));
+      if (NUT_ALLERGY.test(normalized)) required.add('nut_free');
+      matched.forEach(({ accommodation }) => required.add(accommodation));
+      if (matched.length === 0 && !NUT_ALLERGY.test(normalized)) required.add('inclusive');
+    }
+  }
+  return [...required];
+}
+
+/**
+ * Offered accommodations that satisfy a need, e.g. for payload filters.
+ */
+export function satisfiedBy(accommodation: Accommodation): Accommodation[] {
+  return SATISFIED_BY[accommodation];
+}
+
+/**
+ * Whether an activity offers every required accommodation.
+ */
+export function meetsRequirements(offered: ActivityAccommodations | undefined, required: Accommodation[]): boolean {
+  return required.every(accommodation => isMet(accommodation, offered));
+}
+
+/**
+ * Compare children's needs to what an activity offers.
+ */
+export function matchAccommodations(offered: ActivityAccommodations | undefined, needs: AccommodationNeed[]): AccommodationMatch {
+  const met = needs.filter(need => isMet(need.accommodation, offered)).map(need => need.accommodation);
+  const missing = needs.filter(need => !met.includes(need.accommodation)).map(need => need.accommodation);
+  const multiplier = Math.max(MIN_MULTIPLIER, MISSING_NEED_MULTIPLIER ** missing.length);
+  return { needs, met, missing, multiplier: missing.length > 0 ? multiplier : 1 };
+}
+
+/**
+ * Parent-facing notes for an accommodation match, naming the children concerned.
+ */
+export function describeAccommodations(match: AccommodationMatch): { matchReasons: string[]; concerns: string[] } {
+  const describe = (need: AccommodationNeed) =>
+    need.children.length > 0 ? `${need.children.join(' and ')} (${need.reason})` : need.reason;
+
+  return {
+    matchReasons: match.needs
+      .filter(need => match.met.includes(need.accommodation))
+      .map(need => `${capitalize(NEED_LABELS[need.accommodation])} for ${describe(need)}`),
+    concerns: match.needs
+      .filter(need => match.missing.includes(need.accommodation))
+      .map(need => `No mention of ${NEED_LABELS[need.accommodation]}; confirm for ${describe(need)}`),
+  };
+}
+
+/**
+ * Format offered accommodations for embedding text, e.g. "sensory-friendly, nut-free".
+ */
+export function formatAccommodations(accommodations: ActivityAccommodations): string {
+  return accommodations.features.map(feature => LABELS[feature]).join(', ');
+}
+
+/**
+ * Whether the words just before `index`, in the same clause, negate what follows.
+ */
+function isNegated(text: string, index: number): boolean {
+  const clause = text.slice(0, index).split(/[.,;:!?\n]|\bbut\b/).pop() || '';
+  return NEGATION.test(clause.trim().split(/\s+/).slice(-NEGATION_WORDS).join(' '));
+}
+
+function isMet(accommodation: Accommodation, offered: ActivityAccommodations | undefined): boolean {
+  return SATISFIED_BY[accommodation].some(feature => offered?.features.includes(feature));
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
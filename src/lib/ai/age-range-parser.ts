@@ -0,0 +1,333 @@
+/**
+ * Age and grade range parsing.
+ *
+ * WHY: One age-range parser because:
+ * - Ages arrive as fields (min/max age), as age or grade strings ("6-12", "K-5",
+ *   "PreK-2") and inside titles and descriptions ("Ages 6-10", "rising 3rd graders",
+ *   "18mo–3y", "adults & kids", "8+")
+ * - The engine, the API route and the embedding generator each had a partial copy, so
+ *   the same listing got different ranges depending on the path that scored it
+ * - Age fit is a large part of every score, so a range guessed from a keyword should
+ *   be told apart from one the provider stated
+ *
+ * DESIGN DECISIONS:
+ * - Ranges are in years; months become fractions ("18mo" is 1.5)
+ * - Grade G covers ages G+5 to G+6, kindergarten is grade 0 and Pre-K is ages 3-5;
+ *   a rising grader has just finished the grade before, so is a year younger
+ * - Open ranges ("8+", "ages 5 and up") run to MAX_AGE; "5 and under" starts at 0
+ * - Bare numbers ("6-12") are only read from an age or grade field, where the field
+ *   says what they count; in free text they could be times, prices or grades
+ * - Explicit ages win over grades, grades over open ranges, and keyword inference
+ *   ("teen", "preschool") is a separate step so callers try every explicit source first
+ * - Confidence reflects how directly the range was stated: explicit ages 0.9,
+ *   grades 0.8, open ranges 0.7, a single age 0.6, keywords 0.4
+ * - Accuracy is tracked by the age fixtures in the evaluation harness
+ */
+
+import type { AgeRangeSource } from '@/types/ai';
+
+export const MAX_AGE = 99;
+
+export interface AgeRange {
+  min: number;
+  max: number;
+}
+
+export type AgeRangeBasis = 'ages' | 'months' | 'grades' | 'keyword';
+
+export interface ParsedAgeRange {
+  range: AgeRange;
+  basis: AgeRangeBasis; // How the text stated it
+  confidence: number; // 0-1
+}
+
+/**
+ * Age range together with the layer of event/provider data it came from.
+ */
+export interface AgeRangeMatch {
+  range: AgeRange;
+  source: AgeRangeSource;
+  confidence: number; // 0-1; 1 for explicit min/max fields
+}
+
+export interface ParseAgeRangeOptions {
+  field?: 'ages' | 'grades'; // The text is a dedicated age or grade field, so bare numbers count
+}
+
+type Matcher = (text: string, field?: ParseAgeRangeOptions['field']) => ParsedAgeRange | null;
+
+const AGE = String.raw`(\d{1,2}(?:\.\d)?)`;
+const UNIT = String.raw`(months?|mos?|years?|yrs?|y)`;
+const SPAN = String.raw`\s*(?:-|to|through|thru)\s*`;
+const NOT_AMOUNT = String.raw`(?<![$\d.:])`;
+
+// "ages 6-10", "6-10 years old", "18mo-3y", "6 to 18 months"
+const AGE_SPAN = new RegExp(String.raw`${NOT_AMOUNT}(\bages?\s*:?\s*)?${AGE}\s*${UNIT}?${SPAN}${AGE}\s*${UNIT}?\b(?:[\s-]*olds?)?`, 'g');
+// "ages 8+", "8+"; not "10+ years of experience" or "20+ students"
+const AGE_PLUS = new RegExp(String.raw`${NOT_AMOUNT}(?:\bages?\s*:?\s*)?(\d{1,2})\s*\+(?!\s*(?:years? of|yrs? of|hours?|hrs?|minutes?|mins?|weeks?|sessions?|classes|lessons|students|participants|kids|children|people|spots|locations))`);
+// "8 and up", "18 and over", "5 years and older"
+const AGE_AND_UP = new RegExp(String.raw`${NOT_AMOUNT}(?:\bages?\s*:?\s*)?${AGE}\s*${UNIT}?(?:[\s-]*olds?)?\s*(?:and|or)\s*(?:up|older|over|above)\b`);
+// "5 and under", "under 5", "younger than 3"
+const AGE_AND_UNDER = new RegExp(String.raw`${NOT_AMOUNT}(?:\bages?\s*:?\s*)?${AGE}\s*${UNIT}?\s*(?:and|or)\s*(?:under|younger|below)\b`);
+const AGE_UNDER = new RegExp(String.raw`\b(?:under|younger than)\s+(?:age\s+)?${AGE}\s*${UNIT}?\b`);
+// "age 5", "5 year olds", "5-year-olds"
+const SINGLE_AGE = new RegExp(String.raw`${NOT_AMOUNT}(?:\bage\s*:?\s*(\d{1,2})\b|\b(\d{1,2})[\s-]*(?:years?|yrs?)[\s-]*olds?\b)`);
+
+const GRADE = String.raw`(pre-?k|pk|tk|kindergarten|k|\d{1,2})(st|nd|rd|th)?`;
+const RISING = String.raw`(?:\b(rising|entering|incoming)\s+)?`;
+// "K-5", "grades 6-12", "3rd-5th grade", "rising 3rd-5th graders"
+const GRADE_SPAN = new RegExp(String.raw`${RISING}(\bgrades?\s*:?\s*)?\b${GRADE}${SPAN}${GRADE}\b(\s*grade(?:rs?|s)?\b)?`, 'g');
+// "grade 3", "3rd grade", "rising 3rd graders"
+const GRADE_AFTER = new RegExp(String.raw`${RISING}\bgrades?\s*:?\s*${GRADE}\b`);
+const GRADE_BEFORE = new RegExp(String.raw`${RISING}\b${GRADE}\s*grade(?:rs?|s)?\b`);
+// "Pre-K", "kindergarten", "rising kindergartners"
+const GRADE_WORD = new RegExp(String.raw`${RISING}\b(pre-?k|pre-?kindergarten|kindergarten|kindergartners|kindergarteners)\b`);
+
+const ALL_AGES = /\b(?:all ages|any age|(?:adults?|parents?|grown-?ups?|caregivers?) and (?:kids|children|child|youth|teens?)|(?:kids|children|child|youth|teens?) and (?:adults?|parents?|grown-?ups?|caregivers?))\b/;
+const ADULTS_ONLY = /\badults? only\b/;
+
+const KEYWORDS: Array<{ pattern: RegExp; range: AgeRange }> = [
+  { pattern: /\b(?:infants?|bab(?:y|ies)|newborns?)\b/, range: { min: 0, max: 2 } },
+  { pattern: /\btoddlers?\b/, range: { min: 1, max: 3 } },
+  { pattern: /\b(?:preschool(?:ers?)?|pre-school|pre school)\b/, range: { min: 3, max: 5 } },
+  { pattern: /\b(?:elementary|school[\s-]age|after[\s-]school)\b/, range: { min: 5, max: 12 } },
+  { pattern: /\btweens?\b/, range: { min: 9, max: 12 } },
+  { pattern: /\bmiddle school\b/, range: { min: 11, max: 14 } },
+  { pattern: /\bhigh school\b/, range: { min: 14, max: 18 } },
+  { pattern: /\b(?:teens?|teenagers?|adolescents?)\b/, range: { min: 13, max: 17 } },
+  { pattern: /\byouth\b/, range: { min: 5, max: 17 } },
+  { pattern: /\b(?:adults?|grown[\s-]?ups?)\b/, range: { min: 18, max: MAX_AGE } },
+];
+const MIXED_KEYWORDS = /\b(?:famil(?:y|ies)|parent and child|parent-child|all ages|(?:adults?|parents?|grown-?ups?|caregivers?) and (?:kids|children|child|youth|teens?)|(?:kids|children|child|youth|teens?) and (?:adults?|parents?|grown-?ups?|caregivers?))\b/;
+
+/**
+ * Parse an age or grade range from an age field, a grade field or free text.
+ *
+ * @returns null when the text states no ages
+ */
+export function parseAgeRange(input: string | null | undefined, options: ParseAgeRangeOptions = {}): ParsedAgeRange | null {
+  if (!input) return null;
+  const text = normalize(input);
+
+  for (const matcher of MATCHERS) {
+    const parsed = matcher(text, options.field);
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Infer an age range from keywords ("teen", "toddler", "family") when no ages are stated.
+ * Several keywords widen the range: "toddlers and preschoolers" is 1-5.
+ */
+export function inferAgeRange(input: string | null | undefined): ParsedAgeRange | null {
+  if (!input) return null;
+  const text = normalize(input);
+
+  if (MIXED_KEYWORDS.test(text)) return { range: { min: 0, max: MAX_AGE }, basis: 'keyword', confidence: 0.4 };
+
+  const ranges = KEYWORDS.filter(({ pattern }) => pattern.test(text)).map(({ range }) => range);
+  if (ranges.length === 0) return null;
+  return {
+    range: { min: Math.min(...ranges.map(range => range.min)), max: Math.max(...ranges.map(range => range.max)) },
+    basis: 'keyword',
+    confidence: 0.4,
+  };
+}
+
+/**
+ * Validate explicit min/max age fields, which may arrive as strings.
+ */
+export function ageRangeFromFields(min: unknown, max: unknown): AgeRange | null {
+  if (min === null || min === undefined || max === null || max === undefined || min === '' || max === '') return null;
+  const low = Number(min);
+  const high = Number(max);
+  if (isNaN(low) || isNaN(high) || low < 0 || high > MAX_AGE || low > high) return null;
+  return { min: low, max: high };
+}
+
+/**
+ * Find an event's age range: its fields, then its title and description, then keywords.
+ */
+export function matchEventAgeRange(event: {
+  minAge?: number | null;
+  maxAge?: number | null;
+  title?: string | null;
+  description?: string | null;
+  category?: string | null;
+} | null | undefined): AgeRangeMatch | null {
+  if (!event) return null;
+
+  const fields = ageRangeFromFields(event.minAge, event.maxAge);
+  if (fields) return { range: fields, source: 'event_fields', confidence: 1 };
+
+  const stated = parseAgeRange(event.title) || parseAgeRange(event.description);
+  if (stated) return { range: stated.range, source: 'event_text', confidence: stated.confidence };
+
+  const inferred = inferAgeRange(event.category) || inferAgeRange(`${event.title || ''} ${event.description || ''}`);
+  if (inferred) return { range: inferred.range, source: 'event_category', confidence: inferred.confidence };
+
+  return null;
+}
+
+/**
+ * Find a provider's age range from its name and description, for events without one.
+ */
+export function matchProviderAgeRange(provider: {
+  name?: string | null;
+  description?: string | null;
+} | null | undefined): AgeRangeMatch | null {
+  if (!provider) return null;
+
+  const stated = parseAgeRange(provider.name) || parseAgeRange(provider.description);
+  if (stated) return { range: stated.range, source: 'provider_text', confidence: stated.confidence };
+
+  const inferred = inferAgeRange(`${provider.name || ''} ${provider.description || ''}`);
+  if (inferred) return { range: inferred.range, source: 'provider_category', confidence: inferred.confidence };
+
+  return null;
+}
+
+/**
+ * Format an age range for parents, e.g. "Ages 6-10", "Ages 8+", "Ages 18mo-3".
+ */
+export function formatAgeRange(range: AgeRange): string {
+  if (range.min <= 0 && range.max >= MAX_AGE) return 'All ages';
+  if (range.max >= MAX_AGE) return `Ages ${formatAge(range.min)}+`;
+  return `Ages ${formatAge(range.min)}-${formatAge(range.max)}`;
+}
+
+const MATCHERS: Matcher[] = [
+  matchAgeSpan,
+  matchGrades,
+  matchOpenRange,
+  matchAllAges,
+  matchSingleAge,
+  matchBareField,
+];
+
+function matchAgeSpan(text: string, field?: ParseAgeRangeOptions['field']): ParsedAgeRange | null {
+  for (const match of text.matchAll(AGE_SPAN)) {
+    const [, prefix, low, lowUnit, high, highUnit] = match;
+    // Bare spans are only ages in an age field, and never inside a grade span ("grades 6-12")
+    if (!prefix && !lowUnit && !highUnit && field !== 'ages') continue;
+    if (/\bgrades?\s*:?\s*$/.test(text.slice(0, match.index))) continue;
+
+    const min = toYears(parseFloat(low), lowUnit || highUnit);
+    const max = toYears(parseFloat(high), highUnit || lowUnit);
+    if (min > max || max > MAX_AGE) continue;
+    const months = isMonths(lowUnit) || isMonths(highUnit);
+    return { range: { min, max }, basis: months ? 'months' : 'ages', confidence: prefix || lowUnit || highUnit ? 0.9 : 0.8 };
+  }
+  return null;
+}
+
+function matchGrades(text: string, field?: ParseAgeRangeOptions['field']): ParsedAgeRange | null {
+  for (const [, rising, prefix, low, lowOrdinal, high, highOrdinal, suffix] of text.matchAll(GRADE_SPAN)) {
+    // Numbers alone could be ages; a grade word, ordinal, K/Pre-K or a grade field says grades
+    const stated = prefix || suffix || lowOrdinal || highOrdinal || !/^\d/.test(low) || !/^\d/.test(high) || field === 'grades';
+    const from = gradeNumber(low);
+    const to = gradeNumber(high);
+    if (stated && from <= to && to <= 12) return gradeRange(from, to, Boolean(rising));
+  }
+
+  for (const pattern of [GRADE_AFTER, GRADE_BEFORE, GRADE_WORD]) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const grade = gradeNumber(match[2]);
+    if (grade <= 12) return gradeRange(grade, grade, Boolean(match[1]));
+  }
+
+  return null;
+}
+
+function matchOpenRange(text: string): ParsedAgeRange | null {
+  const plus = text.match(AGE_PLUS);
+  if (plus) return { range: { min: parseInt(plus[1]), max: MAX_AGE }, basis: 'ages', confidence: 0.7 };
+
+  const andUp = text.match(AGE_AND_UP);
+  if (andUp) {
+    return { range: { min: toYears(parseFloat(andUp[1]), andUp[2]), max: MAX_AGE }, basis: isMonths(andUp[2]) ? 'months' : 'ages', confidence: 0.7 };
+  }
+
+  const andUnder = text.match(AGE_AND_UNDER);
+  if (andUnder) {
+    return { range: { min: 0, max: toYears(parseFloat(andUnder[1]), andUnder[2]) }, basis: isMonths(andUnder[2]) ? 'months' : 'ages', confidence: 0.7 };
+  }
+
+  const under = text.match(AGE_UNDER);
+  if (under) {
+    // "Under 5" excludes five-year-olds; "under 18 months" is as close as months allow
+    const max = isMonths(under[2]) ? toYears(parseFloat(under[1]), under[2]) : parseFloat(under[1]) - 1;
+    if (max >= 0) return { range: { min: 0, max }, basis: isMonths(under[2]) ? 'months' : 'ages', confidence: 0.7 };
+  }
+
+  return null;
+}
+
+function matchAllAges(text: string, field?: ParseAgeRangeOptions['field']): ParsedAgeRange | null {
+  if (ALL_AGES.test(text)) return { range: { min: 0, max: MAX_AGE }, basis: 'ages', confidence: 0.7 };
+  // In an age field "Adults" alone is a statement; in free text it is only a keyword
+  if (ADULTS_ONLY.test(text) || (field && /^adults?$/.test(text))) {
+    return { range: { min: 18, max: MAX_AGE }, basis: 'ages', confidence: 0.7 };
+  }
+  return null;
+}
+
+function matchSingleAge(text: string): ParsedAgeRange | null {
+  const match = text.match(SINGLE_AGE);
+  if (!match) return null;
+  // A single age gets a year either side
+  const age = parseInt(match[1] || match[2]);
+  return { range: { min: Math.max(0, age - 1), max: age + 1 }, basis: 'ages', confidence: 0.6 };
+}
+
+function matchBareField(text: string, field?: ParseAgeRangeOptions['field']): ParsedAgeRange | null {
+  if (field === 'ages') {
+    const match = text.match(/^(\d{1,2})$/);
+    return match ? matchSingleAge(`age ${match[1]}`) : null;
+  }
+  if (field === 'grades') {
+    const match = text.match(new RegExp(String.raw`^${GRADE}$`));
+    const grade = match ? gradeNumber(match[1]) : NaN;
+    return grade <= 12 ? gradeRange(grade, grade, false) : null;
+  }
+  return null;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[–—−]/g, '-')
+    .replace(/&/g, ' and ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isMonths(unit?: string): boolean {
+  return Boolean(unit?.startsWith('mo'));
+}
+
+function toYears(value: number, unit?: string): number {
+  return isMonths(unit) ? Math.round((value / 12) * 100) / 100 : value;
+}
+
+/**
+ * Grade number: Pre-K is -1, kindergarten 0.
+ */
+function gradeNumber(token: string): number {
+  if (/^(?:pre|pk|tk)/.test(token)) return -1;
+  if (token.startsWith('k')) return 0;
+  return parseInt(token);
+}
+
+function gradeRange(from: number, to: number, rising: boolean): ParsedAgeRange {
+  const shift = rising ? 1 : 0;
+  const min = (from < 0 ? 3 : from + 5) - shift;
+  const max = (to < 0 ? 5 : to + 6) - shift;
+  return { range: { min, max }, basis: 'grades', confidence: 0.8 };
+}
+
+function formatAge(age: number): string {
+  return Number.isInteger(age) ? String(age) : `${Math.round(age * 12)}mo`;
+}
@@ -0,0 +1,105 @@
+/**
+ * Enrollment availability for activities.
+ *
+ * WHY: Availability-aware ranking because:
+ * - A perfect match that is sold out is a dead end for parents
+ * - "Only 2 spots left" is worth knowing before the family reads the rest of the list
+ * - Events store capacity and enrollment, and camp/session embeddings carry spots
+ *   left and total, but nothing looked at either
+ *
+ * DESIGN DECISIONS:
+ * - One status from whatever the source has: explicit spots left, capacity minus
+ *   enrollment, then status text ("Sold out", "Waitlist"); no data is `unknown`,
+ *   never assumed full
+ * - Full and waitlisted programs are demoted by a match-score multiplier rather than
+ *   dropped, since a waitlist is still an option; `onlyAvailable` hides them
+ * - A few spots left is flagged as a concern but not penalized: the program is open
+ */
+
+import type { Availability, AvailabilityStatus } from '@/types/ai';
+
+export interface AvailabilityInput {
+  capacity?: number | string | null; // Total seats
+  enrolled?: number | string | null; // Seats taken
+  spotsLeft?: number | string | null;
+  spotsTotal?: number | string | null;
+  status?: string | null; // Free-text status, e.g. "Sold out", "Waitlist only"
+  waitlist?: boolean | null;
+}
+
+// At or below this many open seats a program is `limited`
+const LIMITED_SPOTS = 3;
+
+// Match-score multipliers by status
+const AVAILABILITY_MULTIPLIERS: Record<AvailabilityStatus, number> = {
+  open: 1,
+  limited: 1,
+  waitlist: 0.75,
+  full: 0.5,
+  unknown: 1,
+};
+
+/**
+ * Work out an activity's enrollment status from the data at hand.
+ */
+export function computeAvailability(input: AvailabilityInput): Availability {
+  // A capacity of 0 means "not recorded", not "no seats"
+  const spotsTotal = toCount(input.spotsTotal) || toCount(input.capacity) || undefined;
+  const enrolled = toCount(input.enrolled);
+  const spotsLeft = toCount(input.spotsLeft) ??
+    (spotsTotal !== undefined && enrolled !== undefined ? Math.max(0, spotsTotal - enrolled) : undefined);
+
+  const status = (input.status || '').toLowerCase();
+  const waitlist = Boolean(input.waitlist) || /wait\s*-?\s*list/.test(status);
+  const soldOut = /sold\s*out|\bfull\b|\bclosed\b/.test(status);
+
+  let availability: AvailabilityStatus = 'unknown';
+  if (spotsLeft !== undefined) {
+    availability = spotsLeft === 0 ? (waitlist ? 'waitlist' : 'full') : spotsLeft <= LIMITED_SPOTS ? 'limited' : 'open';
+  } else if (waitlist) {
+    availability = 'waitlist';
+  } else if (soldOut) {
+    availability = 'full';
+  }
+
+  return { status: availability, spotsLeft, spotsTotal };
+}
+
+/**
+ * Match-score multiplier for an availability status.
+ */
+export function availabilityMultiplier(availability: Availability): number {
+  return AVAILABILITY_MULTIPLIERS[availability.status];
+}
+
+/**
+ * Whether an activity can be enrolled in right now; unknown counts as available.
+ */
+export function isAvailable(availability: Availability): boolean {
+  return availability.status !== 'full' && availability.status !== 'waitlist';
+}
+
+/**
+ * Parent-facing notes for an availability status.
+ */
+export function describeAvailability(availability: Availability): { matchReason?: string; concern?: string } {
+  const { status, spotsLeft } = availability;
+  switch (status) {
+    case 'open':
+      return { matchReason: spotsLeft !== undefined ? `Open enrollment (${spotsLeft} spots left)` : 'Open enrollment' };
+    case 'limited':
+      return { concern: `Only ${spotsLeft} spot${spotsLeft === 1 ? '' : 's'} left` };
+    case 'waitlist':
+      return { concern: 'Currently full, waitlist available' };
+    case 'full':
+      return { concern: 'Currently full' };
+    case 'unknown':
+      return {};
+  }
+}
+
+function toCount(value: number | string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const count = typeof value === 'number' ? value : parseInt(value, 10);
+  return Number.isFinite(count) && count >= 0 ? Math.floor(count) : undefined;
+}
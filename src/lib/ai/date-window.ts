@@ -0,0 +1,317 @@
+/**
+ * Date windows: when a family needs activities, and whether an activity runs then.
+ *
+ * WHY: Date-window-aware recommendations because:
+ * - Parents search for a stretch of time ("summer break 2027", "next two weeks"),
+ *   not for activities in general
+ * - Events store start and end dates, but nothing compared them to anything, so
+ *   camps that ended months ago were still recommended
+ * - The seasonal context in prompts was hard-coded to summer instead of following
+ *   the dates the family asked about
+ *
+ * DESIGN DECISIONS:
+ * - Windows are whole local days; explicit start/end dates win over a description,
+ *   and a description is parsed with a small phrase grammar (school breaks, seasons,
+ *   months, "this weekend", "next N weeks")
+ * - A phrase without a year means the next occurrence that hasn't ended yet
+ * - Activities without an end date last a single day when they are known to be
+ *   one-offs, and otherwise run indefinitely from their start (vector payloads don't
+ *   say whether a program recurs)
+ * - An activity is `inside` when it fits in the window or spans all of it, and
+ *   `overlaps` when it covers only part; activities without dates are `unknown`
+ *   and never penalized
+ * - Outside the window is demoted by a match-score multiplier unless the window is
+ *   strict, in which case it is dropped; expired activities are always dropped
+ * - School-break dates are typical Central Texas district calendars; districts differ
+ *   by a few days, so overlap rather than containment is what matters
+ */
+
+import type { DateWindowFilter, Season } from '@/types/ai';
+
+export interface DateWindow {
+  start: Date; // Start of the first day
+  end?: Date; // End of the last day; open-ended when missing
+  label: string; // e.g. "summer break 2027", "2027-06-01 to 2027-06-30"
+  season: Season;
+}
+
+export interface ActivityDates {
+  start?: Date;
+  end?: Date;
+  recurring?: boolean; // Unknown for vector payloads
+}
+
+export type DateWindowRelation = 'inside' | 'overlaps' | 'outside' | 'unknown';
+
+// Match-score multipliers by relation
+const DATE_WINDOW_MULTIPLIERS: Record<DateWindowRelation, number> = {
+  inside: 1,
+  overlaps: 0.9,
+  outside: 0.4,
+  unknown: 1,
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// [month, day] bounds (months 0-based); a window whose end month is before its start month ends the next year
+const SCHOOL_BREAKS: Record<string, { start: [number, number]; end: [number, number] }> = {
+  summer: { start: [5, 1], end: [7, 15] },
+  winter: { start: [11, 20], end: [0, 5] },
+  spring: { start: [2, 9], end: [2, 20] },
+  thanksgiving: { start: [10, 21], end: [10, 29] },
+};
+
+const SEASONS: Record<Season, { start: [number, number]; end: [number, number] }> = {
+  spring: { start: [2, 1], end: [4, 31] },
+  summer: { start: [5, 1], end: [7, 31] },
+  fall: { start: [8, 1], end: [10, 30] },
+  winter: { start: [11, 1], end: [1, 29] },
+};
+
+// "may" is usually the verb ("we may travel"); it's the month on its own or next to a
+// date word: "in May", "early May", "May 3", "May 2027", "May-June", "April to May"
+const OTHER_MONTHS = `(?:${MONTHS.filter(name => name !== 'may').flatMap(name => [name, name.slice(0, 3)]).join('|')}|sept)`;
+const MAY_MONTH = new RegExp(String.raw`^may$|\b(?:in|during|for|of|by|from|since|until|till|through|thru|before|after|early|mid|late|end|next)\s+may\b|\bmay\s+(?:\d{1,2}(?:st|nd|rd|th)?|20\d{2})\b|\bmay\s+(?:(?:to|through|thru|and|or)\s+)?${OTHER_MONTHS}\b|\b${OTHER_MONTHS}\s+(?:(?:to|through|thru|and|or)\s+)?may\b`);
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, couple: 2, few: 3,
+};
+
+/**
+ * Northern-hemisphere meteorological season of a date.
+ */
+export function seasonForDate(date: Date): Season {
+  const month = date.getMonth();
+  if (month >= 2 && month <= 4) return 'spring';
+  if (month >= 5 && month <= 7) return 'summer';
+  if (month >= 8 && month <= 10) return 'fall';
+  return 'winter';
+}
+
+/**
+ * Turn a request's date window into concrete dates.
+ *
+ * @returns undefined when there is no window or its description can't be parsed
+ */
+export function resolveDateWindow(filter: DateWindowFilter | undefined, now: Date = new Date()): DateWindow | undefined {
+  if (!filter) return undefined;
+
+  if (filter.start || filter.end) {
+    const start = filter.start ? parseLocalDate(filter.start) : startOfDay(now);
+    const end = filter.end ? endOfDay(parseLocalDate(filter.end)) : undefined;
+    const label = filter.description ||
+      (filter.end ? `${filter.start ? `${filter.start} to ` : 'until '}${filter.end}` : `from ${filter.start}`);
+    return withSeason({ start, end, label });
+  }
+
+  const parsed = filter.description ? parseDateWindowPhrase(filter.description, now) : null;
+  if (!parsed) {
+    console.warn(`Could not understand date window "${filter.description}", ignoring it`);
+    return undefined;
+  }
+  return withSeason(parsed);
+}
+
+/**
+ * Parse a phrase such as "summer break 2027", "next two weeks", "this weekend" or "July".
+ */
+export function parseDateWindowPhrase(text: string, now: Date = new Date()): Omit<DateWindow, 'season'> | null {
+  const phrase = text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  const yearMatch = phrase.match(/\b(20\d{2})\b/);
+  const year = yearMatch ? parseInt(yearMatch[1], 10) : undefined;
+  const today = startOfDay(now);
+
+  if (/\b(today|tonight)\b/.test(phrase)) {
+    return { start: today, end: endOfDay(today), label: 'today' };
+  }
+
+  if (/\bweekend\b/.test(phrase)) {
+    const day = today.getDay();
+    const saturday = addDays(today, (day === 0 ? -1 : 6 - day) + (/\bnext\b/.test(phrase) ? 7 : 0)); // On Sunday, this weekend began yesterday
+    return { start: saturday < today ? today : saturday, end: endOfDay(addDays(saturday, 1)), label: phrase };
+  }
+
+  const relative = phrase.match(/\b(?:next|coming|upcoming|following)\s+(?:(\d+|[a-z]+)\s+(?:of\s+)?)?(day|week|month)s?\b/);
+  if (relative) {
+    const [, amount, unit] = relative;
+    const count = amount ? (/^\d+$/.test(amount) ? parseInt(amount, 10) : NUMBER_WORDS[amount]) : undefined;
+    if (amount && !count) return null;
+
+    if (!count && unit === 'week') { // "next week": the following Monday to Sunday
+      const monday = addDays(today, ((8 - today.getDay()) % 7) || 7);
+      return { start: monday, end: endOfDay(addDays(monday, 6)), label: 'next week' };
+    }
+    if (!count && unit === 'month') { // "next month": the whole calendar month
+      const first = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+      return { start: first, end: endOfDay(new Date(first.getFullYear(), first.getMonth() + 1, 0)), label: 'next month' };
+    }
+
+    const days = unit === 'day' ? (count || 1) : unit === 'week' ? (count || 1) * 7 : 0;
+    const end = unit === 'month'
+      ? new Date(today.getFullYear(), today.getMonth() + count!, today.getDate() - 1)
+      : addDays(today, days - 1);
+    return { start: today, end: endOfDay(end), label: phrase };
+  }
+
+  if (/\bthis week\b/.test(phrase)) {
+    return { start: today, end: endOfDay(addDays(today, (7 - today.getDay()) % 7)), label: 'this week' };
+  }
+  if (/\bthis month\b/.test(phrase)) {
+    return { start: today, end: endOfDay(new Date(today.getFullYear(), today.getMonth() + 1, 0)), label: 'this month' };
+  }
+
+  const schoolBreak = phrase.match(/\b(summer|winter|spring|thanksgiving|christmas|holiday)\s+(?:break|vacation|holidays?)\b/) ||
+    phrase.match(/\b(thanksgiving)\b/);
+  if (schoolBreak) {
+    const key = schoolBreak[1] === 'christmas' || schoolBreak[1] === 'holiday' ? 'winter' : schoolBreak[1];
+    return annualWindow(SCHOOL_BREAKS[key], `${key} break`, year, today);
+  }
+
+  const season = phrase.match(/\b(spring|summer|fall|autumn|winter)\b/);
+  if (season) {
+    const name: Season = season[1] === 'autumn' ? 'fall' : season[1] as Season;
+    return annualWindow(SEASONS[name], name, year, today);
+  }
+
+  const month = MONTHS.findIndex(name => name === 'may'
+    ? MAY_MONTH.test(phrase)
+    : new RegExp(`\\b${name}|\\b${name.slice(0, 3)}\\b`).test(phrase));
+  if (month >= 0) {
+    const name = MONTHS[month].charAt(0).toUpperCase() + MONTHS[month].slice(1);
+    return annualWindow({ start: [month, 1], end: [month, 31] }, name, year, today); // Clamped to the month's length
+  }
+
+  return null;
+}
+
+/**
+ * Read an activity's dates from database fields or vector payload text.
+ */
+export function parseActivityDates(input: {
+  start?: Date | string | null;
+  end?: Date | string | null;
+  dateRange?: string | null; // "<start> to <end>", as written by the embedding generator
+  recurring?: boolean | null;
+}): ActivityDates {
+  const [rangeStart, rangeEnd] = (input.dateRange || '').split(/\s+to\s+/);
+  return {
+    start: toDate(input.start) || toDate(rangeStart),
+    end: toDate(input.end) || toDate(rangeEnd),
+    recurring: input.recurring ?? undefined,
+  };
+}
+
+/**
+ * Whether an activity is over: its end date has passed, or it was a one-off day that has.
+ */
+export function isExpired(dates: ActivityDates, now: Date = new Date()): boolean {
+  const today = startOfDay(now).getTime();
+  if (dates.end) return dates.end.getTime() < today;
+  return dates.recurring === false && dates.start !== undefined && dates.start.getTime() < today;
+}
+
+/**
+ * Relate an activity's dates to a window.
+ */
+export function relateToWindow(dates: ActivityDates, window: DateWindow): DateWindowRelation {
+  if (!dates.start && !dates.end) return 'unknown';
+
+  const activityStart = dates.start?.getTime() ?? -Infinity;
+  const activityEnd = dates.end?.getTime() ??
+    (dates.recurring === false ? endOfDay(dates.start!).getTime() : Infinity); // One-offs last a day
+  const windowStart = window.start.getTime();
+  const windowEnd = window.end?.getTime() ?? Infinity;
+
+  if (activityEnd < windowStart || activityStart > windowEnd) return 'outside';
+  const fitsInWindow = activityStart >= windowStart && activityEnd <= windowEnd;
+  const spansWindow = activityStart <= windowStart && activityEnd >= windowEnd;
+  return fitsInWindow || spansWindow ? 'inside' : 'overlaps';
+}
+
+/**
+ * Match-score multiplier for a window relation.
+ */
+export function dateWindowMultiplier(relation: DateWindowRelation): number {
+  return DATE_WINDOW_MULTIPLIERS[relation];
+}
+
+/**
+ * Parent-facing notes for a window relation.
+ */
+export function describeDateWindow(relation: DateWindowRelation, window: DateWindow): { matchReason?: string; concern?: string } {
+  switch (relation) {
+    case 'inside':
+      return { matchReason: `Runs during ${window.label}` };
+    case 'overlaps':
+      return { concern: `Only partly during ${window.label}` };
+    case 'outside':
+      return { concern: `Not running during ${window.label}` };
+    case 'unknown':
+      return {};
+  }
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time.
+ */
+export function formatLocalDate(date: Date): string {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0'))
+    .join('-');
+}
+
+function withSeason(window: Omit<DateWindow, 'season'>): DateWindow {
+  // The midpoint decides; open-ended windows take the season they start in
+  const middle = window.end ? new Date((window.start.getTime() + window.end.getTime()) / 2) : window.start;
+  return { ...window, season: seasonForDate(middle) };
+}
+
+function annualWindow(
+  bounds: { start: [number, number]; end: [number, number] },
+  name: string,
+  year: number | undefined,
+  today: Date
+): Omit<DateWindow, 'season'> {
+  const build = (startYear: number) => {
+    const endYear = bounds.end[0] < bounds.start[0] ? startYear + 1 : startYear;
+    return {
+      start: new Date(startYear, bounds.start[0], bounds.start[1]),
+      // Clamp to the month's length (February in leap years)
+      end: endOfDay(new Date(endYear, bounds.end[0], Math.min(bounds.end[1], daysInMonth(bounds.end[0], endYear)))),
+    };
+  };
+
+  // Without a year, the earliest occurrence that isn't over (last winter may still be running)
+  const window = year !== undefined
+    ? build(year)
+    : [-1, 0, 1].map(offset => build(today.getFullYear() + offset)).find(candidate => candidate.end.getTime() >= today.getTime())!;
+  return { ...window, label: `${name} ${window.start.getFullYear()}` };
+}
+
+function parseLocalDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day);
+}
+
+function toDate(value: Date | string | null | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function daysInMonth(month: number, year: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
@@ -0,0 +1,676 @@
+/**
+ * Conversational family intake: build a profile over several turns.
+ *
+ * WHY: Multi-turn intake because:
+ * - One-shot parsing either guesses what the parent didn't say (attemptProfileFixes
+ *   makes every child 5 years old) or fails validation and loses the whole description
+ * - A missing age or ZIP changes every recommendation, and asking costs one message
+ * - Parents answer a direct question ("How old is Jake?") more reliably than they
+ *   volunteer every detail in an opening paragraph
+ *
+ * DESIGN DECISIONS:
+ * - A session holds a partial profile (IntakeProfileSchema) and its open questions;
+ *   each turn merges answers into the profile and recomputes the questions
+ * - Required fields (at least one child, every child's age, a location we can place)
+ *   block recommendations; budget and schedule are asked for but can be skipped
+ * - Values the model inferred rather than read (an estimated age, a budget nobody
+ *   mentioned) are kept as suggestions and asked back; unconfirmed optional values
+ *   never reach the recommender
+ * - Replies are parsed deterministically with the rule-based family parser: they are
+ *   short answers to known questions, so only the opening description needs a model call
+ * - Sessions live in Redis with a TTL, and in process memory when Redis is down so a
+ *   local demo still works
+ */
+
+import crypto from 'crypto';
+import {
+  AdultSchema,
+  FamilyProfileSchema,
+  IntakeChildSchema,
+  IntakeProfileSchema,
+  IntakeSessionSchema,
+  LocationSchema,
+  PreferencesSchema,
+  type FamilyProfile,
+  type IntakeChild,
+  type IntakeProfile,
+  type IntakeQuestion,
+  type IntakeSession,
+  type ScheduleConstraint,
+} from '@/types/ai';
+import { safeRedisOperation, createCacheKey } from '../redis/client';
+import { lookupPostalCentroid } from '../geo/geocoder';
+import { getNeighborhoodIndex } from '../geo/neighborhoods';
+import {
+  findAges,
+  findBareNameList,
+  findLocation,
+  findNamedChildren,
+  findParentName,
+  mentionsAge,
+  parseAge,
+  parseBudget,
+  parseSchedule,
+} from './family-parser';
+
+/**
+ * Default intake session TTL in seconds (24 hours).
+ * Override with INTAKE_SESSION_TTL.
+ */
+export const DEFAULT_INTAKE_SESSION_TTL = 86400;
+
+/**
+ * An answer to one question: free text, a number, or null to skip it.
+ */
+export type IntakeAnswer = string | number | null;
+
+export interface IntakeTurnResult {
+  session: IntakeSession;
+  understood: string[]; // Question IDs this turn answered, confirmed or skipped
+  notUnderstood: string[]; // Question IDs given an answer we couldn't read
+}
+
+type TimeSlot = ScheduleConstraint['timeSlots'][number];
+
+const CONFIRM = /^\s*(?:yes|yep|yeah|yup|correct|right|exactly|sure|ok(?:ay)?|that'?s (?:right|correct)|sounds (?:right|good))\b/i;
+const SKIP = /^\s*(?:skip|pass|no idea|not sure|unsure|(?:i )?don'?t know|no preference|prefer not|rather not|n\/a|none)\b/i;
+const SKIP_BUDGET = /\bno (?:set )?(?:budget|limit)\b|\bflexible\b|\bdoesn'?t matter\b|\bwhatever it costs\b/i;
+const SKIP_SCHEDULE = /\bany ?time\b|\bwhenever\b|\bflexible\b|\bany day\b|\bdoesn'?t matter\b/i;
+
+const SLOT_LABELS: Record<TimeSlot, string> = {
+  weekday_morning: 'weekday mornings',
+  weekday_afternoon: 'weekday afternoons',
+  weekday_evening: 'weekday evenings',
+  weekend_morning: 'weekend mornings',
+  weekend_afternoon: 'weekend afternoons',
+  weekend_evening: 'weekend evenings',
+};
+
+const REQUIRED_FIELDS = new Set(['children', 'age', 'location']);
+
+// Sessions kept here only while Redis is unavailable
+const memorySessions = new Map<string, { session: IntakeSession; expiresAt: number }>();
+
+/**
+ * Resolve the configured intake session TTL.
+ */
+export function getIntakeSessionTtl(): number {
+  const envTtl = parseInt(process.env.INTAKE_SESSION_TTL || '', 10);
+  return !isNaN(envTtl) && envTtl > 0 ? envTtl : DEFAULT_INTAKE_SESSION_TTL;
+}
+
+/**
+ * Start a session, optionally from a profile parsed out of the opening description.
+ *
+ * @param unconfirmed Question IDs whose values in `profile` were inferred, not stated
+ */
+export function createIntakeSession(profile?: IntakeProfile, unconfirmed: string[] = []): IntakeSession {
+  const now = new Date().toISOString();
+  return refresh({
+    id: crypto.randomUUID(),
+    status: 'collecting',
+    profile: profile ?? IntakeProfileSchema.parse({}),
+    questions: [],
+    unconfirmed,
+    skipped: [],
+    turns: profile ? 1 : 0, // A parsed opening description is the first turn
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Take a model's parsed profile, keeping every part that validates and marking values
+ * the description doesn't support as unconfirmed. Nothing is defaulted: a child
+ * without a valid age stays without one, and intake asks for it.
+ */
+export function intakeProfileFromModel(raw: unknown, source: string): { profile: IntakeProfile; unconfirmed: string[] } {
+  const input = isRecord(raw) ? raw : {};
+
+  const adults = asArray(input.adults).flatMap(adult => {
+    const parsed = AdultSchema.safeParse(adult);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+  const children = asArray(input.children).flatMap(child => {
+    if (!isRecord(child)) return [];
+    const parsed = IntakeChildSchema.safeParse({
+      interests: [],
+      allergies: [],
+      ...child,
+      age: typeof child.age === 'string' ? parseAge(child.age) : child.age,
+    });
+    if (parsed.success) return [parsed.data];
+    // An out-of-range or fractional age shouldn't lose the child
+    const withoutAge = IntakeChildSchema.safeParse({ interests: [], allergies: [], ...child, age: undefined });
+    return withoutAge.success ? [withoutAge.data] : [];
+  });
+
+  const location = LocationSchema.safeParse(isRecord(input.location) ? input.location : {});
+
+  const preferences: Record<string, unknown> = {};
+  const rawPreferences = isRecord(input.preferences) ? input.preferences : {};
+  for (const [key, schema] of Object.entries(PreferencesSchema.shape)) {
+    const parsed = schema.safeParse(rawPreferences[key]);
+    if (parsed.success && parsed.data !== undefined) preferences[key] = parsed.data;
+  }
+
+  const profile = IntakeProfileSchema.parse({
+    adults,
+    children: children.slice(0, 8),
+    location: location.success ? location.data : {},
+    preferences,
+    notes: typeof input.notes === 'string' ? input.notes : undefined,
+  });
+
+  const unconfirmed: string[] = [];
+  profile.children.forEach((child, index) => {
+    if (child.age !== undefined && !mentionsAge(source, child.age)) unconfirmed.push(ageQuestionId(index));
+  });
+  if ((profile.location.zipCode || profile.location.neighborhood) && !mentionsLocation(source, profile.location)) {
+    unconfirmed.push('location');
+  }
+  const budget = profile.preferences.budget;
+  if (budget && ![budget.min, budget.max].some(amount => amount !== undefined && mentionsNumber(source, amount))) {
+    unconfirmed.push('budget');
+  }
+  if ((profile.preferences.schedule?.length || profile.preferences.scheduleConstraints) && !parseSchedule(source)) {
+    unconfirmed.push('schedule');
+  }
+
+  return { profile, unconfirmed };
+}
+
+/**
+ * Apply a free-text reply: anything it says about children, ages, location, budget or
+ * schedule is merged, "yes" confirms open suggestions and "skip" passes on open
+ * optional questions.
+ */
+export function applyIntakeMessage(session: IntakeSession, message: string): IntakeTurnResult {
+  const state = clone(session);
+  const open = new Map(session.questions.map(question => [question.id, question]));
+  const understood = new Set<string>();
+
+  const parent = findParentName(message);
+  if (parent && state.profile.adults.length === 0) {
+    state.profile.adults.push({ name: parent, role: 'parent' });
+  }
+
+  // Children named anywhere in the message, with their ages when given
+  const named = findNamedChildren(message);
+  named.forEach(({ name, age }) => {
+    const id = mergeChild(state, name, age);
+    if (id && age !== undefined) understood.add(id);
+  });
+  if (named.length > 0) understood.add('children');
+
+  // "Emma and Jake" in reply to "who are we finding activities for?"; ages stay open
+  if (named.length === 0 && open.has('children') && !CONFIRM.test(message) && !SKIP.test(message)) {
+    const listed = findBareNameList(message);
+    listed.forEach(name => mergeChild(state, name));
+    if (listed.length > 0) understood.add('children');
+  }
+
+  // "7 and 10" in reply to "who are we finding activities for?"
+  if (named.length === 0 && open.has('children') && state.profile.children.length === 0) {
+    findAges(message).slice(0, 8).forEach((age, index) => {
+      state.profile.children.push({ name: `Child ${index + 1}`, age, interests: [], allergies: [] });
+    });
+    if (state.profile.children.length > 0) understood.add('children');
+  }
+
+  // Bare ages ("He's ten", "7 and 10") answer the children still without one, in order
+  let answeredAges = false;
+  if (!named.some(child => child.age !== undefined)) {
+    const openAges = state.profile.children
+      .map((child, index) => ({ child, id: ageQuestionId(index) }))
+      .filter(({ child, id }) => (child.age === undefined || state.unconfirmed.includes(id)) && !understood.has(id));
+    const ages = openAges.length === 1 ? [parseAge(message)].filter(isDefined) : findAges(message);
+    if (openAges.length > 0 && ages.length === openAges.length) {
+      openAges.forEach(({ id }, index) => {
+        setChildAge(state, childIndexOf(id), ages[index]);
+        understood.add(id);
+      });
+      answeredAges = true;
+    }
+  }
+
+  if (applyLocation(state, message, false)) understood.add('location');
+
+  if (applyBudget(state, message, open.has('budget') && !answeredAges && understood.size === 0)) understood.add('budget');
+  if (applySchedule(state, message)) understood.add('schedule');
+
+  for (const id of understood) confirm(state, id);
+
+  // Confirmations and skips cover open questions this message didn't otherwise answer
+  const unanswered = [...open.keys()].filter(id => !understood.has(id));
+  if (CONFIRM.test(message)) {
+    unanswered.filter(id => state.unconfirmed.includes(id)).forEach(id => {
+      confirm(state, id);
+      understood.add(id);
+    });
+  } else {
+    for (const id of unanswered) {
+      const question = open.get(id)!;
+      if (question.required) continue;
+      const skip = SKIP.test(message) ||
+        (question.field === 'budget' && SKIP_BUDGET.test(message)) ||
+        (question.field === 'schedule' && SKIP_SCHEDULE.test(message));
+      if (skip) {
+        skipQuestion(state, id);
+        understood.add(id);
+      }
+    }
+  }
+
+  return finishTurn(state, [...understood], []);
+}
+
+/**
+ * Apply answers keyed by question ID ("children.0.age": 7, "budget": "$200 a month").
+ * Null skips an optional question; "yes" confirms a suggested value.
+ */
+export function applyIntakeAnswers(session: IntakeSession, answers: Record<string, IntakeAnswer>): IntakeTurnResult {
+  const state = clone(session);
+  const understood: string[] = [];
+  const notUnderstood: string[] = [];
+
+  for (const [id, answer] of Object.entries(answers)) {
+    const field = fieldOf(id);
+    if (!field) {
+      notUnderstood.push(id);
+      continue;
+    }
+
+    const text = answer === null ? '' : String(answer).trim();
+    if (answer === null || SKIP.test(text)) {
+      if (REQUIRED_FIELDS.has(field)) {
+        notUnderstood.push(id);
+      } else {
+        skipQuestion(state, id);
+        understood.push(id);
+      }
+      continue;
+    }
+
+    if (CONFIRM.test(text) && state.unconfirmed.includes(id)) {
+      confirm(state, id);
+      understood.push(id);
+      continue;
+    }
+
+    let applied = false;
+    switch (field) {
+      case 'children': {
+        const named = findNamedChildren(text);
+        named.forEach(({ name, age }) => mergeChild(state, name, age));
+        if (named.length === 0 && state.profile.children.length === 0) {
+          findAges(text).slice(0, 8).forEach((age, index) => {
+            state.profile.children.push({ name: `Child ${index + 1}`, age, interests: [], allergies: [] });
+          });
+        }
+        applied = named.length > 0 || state.profile.children.length > 0;
+        break;
+      }
+      case 'age': {
+        const index = childIndexOf(id);
+        const age = typeof answer === 'number' ? answer : parseAge(text);
+        applied = index < state.profile.children.length && age !== undefined && Number.isInteger(age) && age >= 0 && age <= 18;
+        if (applied) setChildAge(state, index, age!);
+        break;
+      }
+      case 'location':
+        applied = applyLocation(state, text, true);
+        break;
+      case 'budget':
+        applied = applyBudget(state, text, true) || (SKIP_BUDGET.test(text) && skipQuestion(state, id));
+        break;
+      case 'schedule':
+        applied = applySchedule(state, text) || (SKIP_SCHEDULE.test(text) && skipQuestion(state, id));
+        break;
+    }
+
+    if (applied) {
+      confirm(state, id);
+      understood.push(id);
+    } else {
+      notUnderstood.push(id);
+    }
+  }
+
+  return finishTurn(state, understood, notUnderstood);
+}
+
+/**
+ * The profile to recommend from, once every required question is answered; optional
+ * values that were inferred and never confirmed are left out.
+ */
+export function toFamilyProfile(session: IntakeSession): FamilyProfile | null {
+  if (session.status === 'collecting') return null;
+
+  const { profile, unconfirmed } = session;
+  const preferences = { ...profile.preferences };
+  if (unconfirmed.includes('budget')) delete preferences.budget;
+  if (unconfirmed.includes('schedule')) {
+    delete preferences.schedule;
+    delete preferences.scheduleConstraints;
+  }
+
+  const parsed = FamilyProfileSchema.safeParse({
+    adults: profile.adults.length > 0 ? profile.adults : [{ name: 'Parent', role: 'parent' }],
+    children: profile.children,
+    location: profile.location,
+    preferences: { activityTypes: [], languages: [], ...preferences },
+    notes: profile.notes,
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Read a session; null when it doesn't exist or has expired.
+ */
+export async function loadIntakeSession(sessionId: string): Promise<IntakeSession | null> {
+  const stored = await safeRedisOperation<string | null | undefined>(
+    async (redis) => redis.get(createIntakeSessionKey(sessionId)),
+    undefined
+  );
+
+  if (stored === undefined) {
+    const entry = memorySessions.get(sessionId);
+    return entry && entry.expiresAt > Date.now() ? entry.session : null;
+  }
+  if (!stored) return null;
+
+  // Malformed JSON is as unreadable as a session that fails the schema
+  const parsed = IntakeSessionSchema.safeParse(parseStoredJson(stored));
+  if (!parsed.success) {
+    console.warn(`Discarding unreadable intake session ${sessionId}`);
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * Store a session, resetting its TTL.
+ */
+export async function saveIntakeSession(session: IntakeSession): Promise<void> {
+  const ttl = getIntakeSessionTtl();
+  const saved = await safeRedisOperation(
+    async (redis) => {
+      await redis.setEx(createIntakeSessionKey(session.id), ttl, JSON.stringify(session));
+      return true;
+    },
+    false
+  );
+
+  if (!saved) {
+    const now = Date.now();
+    for (const [id, entry] of memorySessions) {
+      if (entry.expiresAt <= now) memorySessions.delete(id);
+    }
+    memorySessions.set(session.id, { session, expiresAt: now + ttl * 1000 });
+  }
+}
+
+function createIntakeSessionKey(sessionId: string): string {
+  return createCacheKey('intake', 'session', sessionId);
+}
+
+/**
+ * Recompute open questions and status after the profile changed.
+ */
+function refresh(session: IntakeSession): IntakeSession {
+  const questions = openQuestions(session);
+  const status = questions.some(question => question.required)
+    ? 'collecting'
+    : questions.length > 0 ? 'ready' : 'complete';
+  return { ...session, questions, status };
+}
+
+function finishTurn(state: IntakeSession, understood: string[], notUnderstood: string[]): IntakeTurnResult {
+  const session = refresh({ ...state, turns: state.turns + 1, updatedAt: new Date().toISOString() });
+  return { session, understood: [...new Set(understood)], notUnderstood };
+}
+
+function openQuestions(session: IntakeSession): IntakeQuestion[] {
+  const { profile, unconfirmed, skipped } = session;
+  const questions: IntakeQuestion[] = [];
+
+  if (profile.children.length === 0) {
+    questions.push({
+      id: 'children',
+      field: 'children',
+      prompt: 'Who are we finding activities for? Tell me each child\'s name and age, like "Emma, 7 and Jake, 10".',
+      reason: 'missing',
+      required: true,
+    });
+  }
+
+  profile.children.forEach((child, index) => {
+    const id = ageQuestionId(index);
+    if (child.age === undefined) {
+      questions.push({ id, field: 'age', prompt: `How old is ${child.name}?`, reason: 'missing', required: true, childName: child.name });
+    } else if (unconfirmed.includes(id)) {
+      questions.push({
+        id,
+        field: 'age',
+        prompt: `Is ${child.name} ${child.age}?`,
+        reason: 'unconfirmed',
+        required: true,
+        suggestedValue: child.age,
+        childName: child.name,
+      });
+    }
+  });
+
+  const { zipCode, neighborhood } = profile.location;
+  if (!zipCode && !neighborhood) {
+    questions.push({ id: 'location', field: 'location', prompt: 'What\'s your ZIP code or neighborhood?', reason: 'missing', required: true });
+  } else if (!isPlaceable(profile.location)) {
+    questions.push({
+      id: 'location',
+      field: 'location',
+      prompt: `We couldn't place ${zipCode ? `ZIP ${zipCode}` : `"${neighborhood}"`}. What's a nearby ZIP code or neighborhood?`,
+      reason: 'unrecognized',
+      required: true,
+    });
+  } else if (unconfirmed.includes('location')) {
+    const place = formatLocation(profile.location);
+    questions.push({ id: 'location', field: 'location', prompt: `Are you near ${place}?`, reason: 'unconfirmed', required: true, suggestedValue: place });
+  }
+
+  const budget = profile.preferences.budget;
+  if (!skipped.includes('budget')) {
+    if (!budget || (budget.min === undefined && budget.max === undefined)) {
+      questions.push({
+        id: 'budget',
+        field: 'budget',
+        prompt: 'Roughly how much do you want to spend on activities each month? Say "skip" if you\'d rather not say.',
+        reason: 'missing',
+        required: false,
+      });
+    } else if (unconfirmed.includes('budget')) {
+      const amount = formatBudget(budget);
+      questions.push({ id: 'budget', field: 'budget', prompt: `Is your budget about ${amount}?`, reason: 'unconfirmed', required: false, suggestedValue: amount });
+    }
+  }
+
+  const slots = profile.preferences.schedule || profile.preferences.scheduleConstraints?.timeSlots || [];
+  if (!skipped.includes('schedule')) {
+    if (slots.length === 0) {
+      questions.push({
+        id: 'schedule',
+        field: 'schedule',
+        prompt: 'When can the kids do activities? For example "weekday afternoons after 3:30" or "Saturday mornings".',
+        reason: 'missing',
+        required: false,
+      });
+    } else if (unconfirmed.includes('schedule')) {
+      const times = formatSlots(slots);
+      questions.push({ id: 'schedule', field: 'schedule', prompt: `Do ${times} work for activities?`, reason: 'unconfirmed', required: false, suggestedValue: times });
+    }
+  }
+
+  return questions;
+}
+
+/**
+ * Add a named child or update their age; returns the child's age question ID, or
+ * undefined when the family already has the most children a profile holds.
+ */
+function mergeChild(state: IntakeSession, name: string, age?: number): string | undefined {
+  const children = state.profile.children;
+  let index = children.findIndex(child => child.name.toLowerCase() === name.toLowerCase());
+  if (index === -1 && age !== undefined) {
+    // A placeholder from "7 and 10" takes the first name given for its age
+    index = children.findIndex(child => /^Child \d+$/.test(child.name) && child.age === age);
+    if (index !== -1) children[index] = { ...children[index], name };
+  }
+  if (index === -1 && children.length < 8) {
+    children.push({ name, age, interests: [], allergies: [] });
+    index = children.length - 1;
+  }
+  if (index === -1) return undefined;
+  if (age !== undefined) setChildAge(state, index, age);
+  return ageQuestionId(index);
+}
+
+function setChildAge(state: IntakeSession, index: number, age: number): void {
+  const child: IntakeChild | undefined = state.profile.children[index];
+  if (child) state.profile.children[index] = { ...child, age };
+}
+
+function applyLocation(state: IntakeSession, text: string, direct: boolean): boolean {
+  const location = findLocation(text);
+  if (location) {
+    // A new neighborhood replaces a ZIP given earlier; a new ZIP keeps the neighborhood
+    state.profile.location = {
+      ...state.profile.location,
+      ...location,
+      city: location.city ?? state.profile.location.city,
+      zipCode: location.zipCode ?? (location.neighborhood ? undefined : state.profile.location.zipCode),
+    };
+    return true;
+  }
+
+  // A direct answer naming somewhere we don't know is kept so the question can say so
+  if (direct && text.length <= 80) {
+    state.profile.location = { ...state.profile.location, neighborhood: text, zipCode: undefined };
+    return true;
+  }
+  return false;
+}
+
+function applyBudget(state: IntakeSession, text: string, direct: boolean): boolean {
+  const budget = parseBudget(text, { direct });
+  if (!budget) return false;
+  state.profile.preferences = { ...state.profile.preferences, budget };
+  return true;
+}
+
+function applySchedule(state: IntakeSession, text: string): boolean {
+  const parsed = parseSchedule(text);
+  if (!parsed) return false;
+
+  const existing = state.profile.preferences.scheduleConstraints;
+  state.profile.preferences = {
+    ...state.profile.preferences,
+    schedule: parsed.timeSlots,
+    scheduleConstraints: {
+      ...existing,
+      timeSlots: parsed.timeSlots,
+      specificTimes: parsed.specificTimes ?? existing?.specificTimes,
+      flexibility: existing?.flexibility ?? 'somewhat_flexible',
+    },
+  };
+  return true;
+}
+
+function confirm(state: IntakeSession, id: string): void {
+  state.unconfirmed = state.unconfirmed.filter(entry => entry !== id);
+  state.skipped = state.skipped.filter(entry => entry !== id);
+}
+
+/**
+ * Pass on an optional question, dropping any value we inferred for it.
+ */
+function skipQuestion(state: IntakeSession, id: string): boolean {
+  if (state.unconfirmed.includes(id)) {
+    if (id === 'budget') delete state.profile.preferences.budget;
+    if (id === 'schedule') {
+      delete state.profile.preferences.schedule;
+      delete state.profile.preferences.scheduleConstraints;
+    }
+    state.unconfirmed = state.unconfirmed.filter(entry => entry !== id);
+  }
+  if (!state.skipped.includes(id)) state.skipped.push(id);
+  return true;
+}
+
+function isPlaceable(location: IntakeProfile['location']): boolean {
+  return Boolean(lookupPostalCentroid(location.zipCode) || getNeighborhoodIndex().find(location.neighborhood, location.city));
+}
+
+function mentionsNumber(source: string, amount: number): boolean {
+  return new RegExp(String.raw`(?<![\d.])${amount}(?![\d])`).test(source.replace(/(\d),(?=\d{3}\b)/g, '$1'));
+}
+
+function mentionsLocation(source: string, location: IntakeProfile['location']): boolean {
+  if (location.zipCode && findLocation(source)?.zipCode === location.zipCode) return true;
+  // The parsing prompt fills in ZIPs for neighborhoods it recognizes
+  return Boolean(getNeighborhoodIndex().mention(source) ||
+    (location.neighborhood && source.toLowerCase().includes(location.neighborhood.toLowerCase())));
+}
+
+function formatLocation(location: IntakeProfile['location']): string {
+  return location.neighborhood ?? (location.zipCode ? `ZIP ${location.zipCode}` : location.city ?? 'your area');
+}
+
+function formatBudget(budget: NonNullable<IntakeProfile['preferences']['budget']>): string {
+  const amount = budget.min !== undefined && budget.max !== undefined && budget.min !== budget.max
+    ? `$${budget.min}-$${budget.max}`
+    : `$${budget.max ?? budget.min}`;
+  return budget.period ? `${amount} a ${budget.period}` : amount;
+}
+
+function formatSlots(slots: TimeSlot[]): string {
+  const labels = slots.map(slot => SLOT_LABELS[slot]);
+  return labels.length <= 2 ? labels.join(' and ') : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+function fieldOf(id: string): IntakeQuestion['field'] | undefined {
+  if (/^children\.\d+\.age$/.test(id)) return 'age';
+  return (['children', 'location', 'budget', 'schedule'] as const).find(field => field === id);
+}
+
+function ageQuestionId(index: number): string {
+  return `children.${index}.age`;
+}
+
+function childIndexOf(id: string): number {
+  return parseInt(id.split('.')[1], 10);
+}
+
+function parseStoredJson(stored: string): unknown {
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return undefined;
+  }
+}
+
+function clone(session: IntakeSession): IntakeSession {
+  return JSON.parse(JSON.stringify(session));
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
@@ -0,0 +1,603 @@
+/**
+ * Deterministic, rule-based family description parser.
+ *
+ * WHY: A rule-based parser because:
+ * - When the model is unavailable, parse-family had nothing to fall back on and failed
+ * - Most of a description is names, ages, a ZIP or neighborhood, a dollar amount and
+ *   a few schedule phrases; rules read those reliably and for free
+ * - A draft profile lets the model refine instead of parse from scratch, with a much
+ *   shorter prompt
+ * - Intake replies and demo mode need the same extraction without a model call
+ *
+ * DESIGN DECISIONS:
+ * - Returns a partial profile (IntakeProfile): a child whose age isn't stated has no
+ *   age rather than a guessed one; completeParsedProfile fills defaults and reports
+ *   them as corrections for provenance
+ * - Interests come from a curated vocabulary and are attributed to the child named
+ *   closest before them in the sentence; unattributable interests are dropped
+ * - Neighborhoods come from the neighborhood table (passed in, so parsing stays
+ *   synchronous) and the bundled boundary index
+ * - Budgets and schedules reuse the price and schedule parsers on the clause that
+ *   mentions them, so ages and ZIPs elsewhere in the text aren't read as prices
+ * - Phrases that rule times out ("no mornings", "I work weekdays") don't add slots
+ */
+
+import type { FamilyProfile, IntakeProfile, Location, ScheduleConstraint } from '@/types/ai';
+import { getNeighborhoodNames } from '../db/queries/markets';
+import { lookupPostalCentroid, normalizePostalCode } from '../geo/geocoder';
+import { getNeighborhoodIndex } from '../geo/neighborhoods';
+import { parsePrice } from './price-parser';
+import { formatMinutes, parseDays, parseTimeToMinutes, WEEKDAYS, WEEKEND } from './schedule-parser';
+import type { FieldCorrection } from './profile-provenance';
+
+/**
+ * A neighborhood parents may name, from the neighborhood table.
+ */
+export interface KnownNeighborhood {
+  name: string;
+  city?: string;
+}
+
+export interface ParseFamilyOptions {
+  neighborhoods?: KnownNeighborhood[];
+}
+
+/**
+ * Parts of a description the parser found.
+ */
+export type FamilyParseField = 'parent' | 'children' | 'ages' | 'interests' | 'location' | 'budget' | 'schedule';
+
+export interface ParsedFamilyDescription {
+  profile: IntakeProfile;
+  found: FamilyParseField[];
+}
+
+type Budget = NonNullable<IntakeProfile['preferences']['budget']>;
+type TimeSlot = ScheduleConstraint['timeSlots'][number];
+type Period = 'morning' | 'afternoon' | 'evening';
+type DayPart = 'weekday' | 'weekend';
+
+/** Age given to children whose age isn't stated, matching attemptProfileFixes. */
+export const DEFAULT_CHILD_AGE = 5;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18,
+};
+
+const AGE_VALUE = String.raw`(\d{1,2}|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')})`;
+// Numbers that are times, prices or counts rather than ages
+const NOT_AN_AGE_BEFORE = String.raw`(?<![$\d.,:])(?<!(?:after|before|by|until|at|around)\s)`;
+const NOT_AN_AGE_AFTER = String.raw`(?!\s*(?::\d|[ap]\.?m\b|%|dollars|bucks|times|days|hours|minutes|(?:kids|children|boys|girls|sons|daughters)\b))`;
+const AGE_NUMBER = new RegExp(String.raw`${NOT_AN_AGE_BEFORE}\b${AGE_VALUE}\b${NOT_AN_AGE_AFTER}`, 'gi');
+const AGE_IN_MONTHS = /\b(\d{1,2})\s*(?:months?|mos?)\b/i;
+
+// "Emma (7)", "Emma, 7", "Emma is 7", "Jake who's ten", "Leo just turned 4"
+const NAME_THEN_AGE = new RegExp(
+  String.raw`\b([A-Z][a-z]+)\s*(?:\(\s*|,\s*(?:who(?:'s| is)\s+|age[sd]?\s+)?|\s+(?:is|who is|who's|age|aged|turns|turned|just turned|who (?:just )?turned|who turns)\s+)${AGE_VALUE}\b${NOT_AN_AGE_AFTER}`,
+  'g'
+);
+// "7-year-old Emma", "10 year old son Jake"
+const AGE_THEN_NAME = new RegExp(
+  String.raw`\b${AGE_VALUE}[-\s](?:year|yr)[-\s]old\s+(?:(?:son|daughter|boy|girl|kid|child)\s*,?\s+)?(?:named\s+)?([A-Z][a-z]+)`,
+  'g'
+);
+// Children named without an age: "my son Jake", "Jake plays soccer", "kids are Emma and Jake"
+const NAME_ONLY = [
+  /\b(?:son|daughter|stepson|stepdaughter|boy|girl)\s*,?\s+(?:named\s+|called\s+|is\s+)?([A-Z][a-z]+)/g,
+  /\b([A-Z][a-z]+)\s+(?:loves|likes|enjoys|plays|does|takes|is into|is interested in)\b/g,
+];
+const NAMES = String.raw`(?:[A-Z][a-z]+)(?:(?:\s*,\s*(?:and\s+)?|\s+and\s+|\s*&\s*)[A-Z][a-z]+)*`;
+const NAME_LIST = new RegExp(String.raw`\b(?:kids|children|twins)\s*(?:are|:|-|,)?\s+(${NAMES})`, 'g');
+// A reply that is nothing but names: "Emma and Jake", "Emma, Jake & Leo."
+const BARE_NAME_LIST = new RegExp(String.raw`^\s*(${NAMES})\s*[.!]?\s*$`);
+const PARENT_NAME = /\b(?:[Ii]'m|[Ii] am|[Mm]y name is|[Tt]his is)\s+([A-Z][a-z]+)/;
+// One age for several children: "twins, both 6", "all three are 8"
+const SHARED_AGE = /\b(?:both|twins|triplets|all (?:three|of them))\b/i;
+
+// Capitalized words that start sentences or name places and times, never children
+const NOT_NAMES = new Set([
+  'I', 'We', 'My', 'Our', 'Hi', 'Hello', 'Hey', 'He', 'She', 'They', 'It', 'The', 'And', 'But', 'So',
+  'Age', 'Ages', 'Aged', 'Kids', 'Children', 'Both', 'Son', 'Daughter', 'Twins', 'Budget', 'Zip',
+  'Yes', 'No', 'Around', 'About', 'Maybe', 'Under', 'Over', 'Up', 'Austin', 'Texas',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December',
+]);
+
+const ZIP_CODE = /(?<![$\d.,])\b(\d{5})(?:-\d{4})?\b/;
+const BUDGET_CONTEXT = /[$€£]|\bbudget\b|\bdollars?\b|\bbucks\b|\bspend\b|\bafford\b/i;
+const PER_CHILD = /\b(?:per|a|each|for each) (?:kid|child)\b|\bper head\b/i;
+
+// Phrases that say when the family is not available; "no mornings or evenings" rules
+// out both, so this is tested before splitting on "and"/"or"
+const UNAVAILABLE = /\bno\b(?! (?:later|earlier) than)|\b(?:not|never|can'?t|cannot|busy|unavailable)\b|n't\b|\bfamily time\b|\b(?:i|we) work\b|\bworking\b/;
+const TIME_AFTER = /\b(?:after|from|starting(?: at)?|no earlier than)\s+(\d{1,2}(?::\d{2})?(?!\d)\s*(?:[ap]\.?m\.?)?)/;
+const TIME_BEFORE = /\b(?:before|by|until|till|no later than|done by|home by)\s+(\d{1,2}(?::\d{2})?(?!\d)\s*(?:[ap]\.?m\.?)?)/;
+
+// Words before an interest in the same clause that mean the child doesn't want it
+const NEGATED = /\b(?:not|no|never|hates?|dislikes?|doesn'?t (?:like|want)|don'?t (?:like|want)|isn'?t into|afraid of|scared of)\b(?:(?!\bbut\b)[^,;])*$/i;
+// Words between several named children and an interest that give it to all of them
+const SHARED_INTEREST = /\bboth\b|\ball (?:of them|love|like|enjoy|want)\b/i;
+
+/**
+ * Curated interest vocabulary: the interest we record, the activity type it implies,
+ * and the phrasings parents use.
+ */
+const INTEREST_VOCABULARY: Array<{ interest: string; activityType: string; pattern: RegExp }> = [
+  { interest: 'soccer', activityType: 'sports', pattern: /\bsoccer\b/gi },
+  { interest: 'basketball', activityType: 'sports', pattern: /\bbasketball\b/gi },
+  { interest: 'baseball', activityType: 'sports', pattern: /\b(?:baseball|softball|t-ball|tee-ball)\b/gi },
+  { interest: 'football', activityType: 'sports', pattern: /\b(?:flag )?football\b/gi },
+  { interest: 'tennis', activityType: 'sports', pattern: /\btennis\b/gi },
+  { interest: 'volleyball', activityType: 'sports', pattern: /\bvolleyball\b/gi },
+  { interest: 'hockey', activityType: 'sports', pattern: /\bhockey\b/gi },
+  { interest: 'swimming', activityType: 'sports', pattern: /\bswim(?:s|ming|mer)?\b/gi },
+  { interest: 'gymnastics', activityType: 'sports', pattern: /\b(?:gymnast(?:ics)?|tumbling|cheer(?:leading)?)\b/gi },
+  { interest: 'martial arts', activityType: 'sports', pattern: /\b(?:martial arts|karate|taekwondo|tae kwon do|judo|jiu[- ]?jitsu|kung fu)\b/gi },
+  { interest: 'climbing', activityType: 'sports', pattern: /\b(?:rock climbing|climbing|bouldering)\b/gi },
+  { interest: 'skateboarding', activityType: 'sports', pattern: /\bskateboard(?:s|ing)?\b/gi },
+  { interest: 'horseback riding', activityType: 'sports', pattern: /\bhorses?\b|\bhorseback(?: riding)?\b|\bequestrian\b/gi },
+  { interest: 'dance', activityType: 'dance', pattern: /\b(?:danc(?:e|es|ing|er)|ballet|hip[- ]hop|tap dance)\b/gi },
+  { interest: 'art', activityType: 'arts', pattern: /(?<!martial )\b(?:arts?|drawing|draws|painting|paints|sketching)\b(?! and crafts)/gi },
+  { interest: 'crafts', activityType: 'arts', pattern: /\b(?:crafts?|crafting|sewing|knitting|pottery)\b/gi },
+  { interest: 'theater', activityType: 'arts', pattern: /\b(?:theat(?:er|re)|drama|acting)\b/gi },
+  { interest: 'photography', activityType: 'arts', pattern: /\bphotography\b/gi },
+  { interest: 'music', activityType: 'music', pattern: /\b(?:music|singing|sings|choir)\b/gi },
+  { interest: 'piano', activityType: 'music', pattern: /\bpiano\b/gi },
+  { interest: 'guitar', activityType: 'music', pattern: /\bguitar\b/gi },
+  { interest: 'violin', activityType: 'music', pattern: /\bviolin\b/gi },
+  { interest: 'drums', activityType: 'music', pattern: /\bdrums?\b/gi },
+  { interest: 'coding', activityType: 'STEM', pattern: /\b(?:coding|programming|computer science|computers)\b/gi },
+  { interest: 'robotics', activityType: 'STEM', pattern: /\brobot(?:s|ics)?\b/gi },
+  { interest: 'science', activityType: 'STEM', pattern: /\b(?:science|experiments|chemistry)\b/gi },
+  { interest: 'engineering', activityType: 'STEM', pattern: /\b(?:engineering|legos?|building things)\b/gi },
+  { interest: 'math', activityType: 'STEM', pattern: /\bmath\b/gi },
+  { interest: 'gaming', activityType: 'STEM', pattern: /\b(?:video games|gaming|minecraft)\b/gi },
+  { interest: 'chess', activityType: 'educational', pattern: /\bchess\b/gi },
+  { interest: 'reading', activityType: 'educational', pattern: /\b(?:reading|books|bookworm)\b/gi },
+  { interest: 'writing', activityType: 'educational', pattern: /\b(?:creative writing|writing stories|poetry)\b/gi },
+  { interest: 'nature', activityType: 'outdoor', pattern: /\b(?:nature|outdoors|hiking|camping|bugs)\b/gi },
+  { interest: 'animals', activityType: 'outdoor', pattern: /\banimals\b/gi },
+  { interest: 'cooking', activityType: 'cooking', pattern: /\b(?:cooking|baking)\b/gi },
+];
+
+// Neighborhood table rows are cached for an hour (the table rarely changes); a failed
+// load is retried after a minute so a database outage doesn't slow every parse
+const NEIGHBORHOOD_CACHE_MS = 60 * 60 * 1000;
+const NEIGHBORHOOD_RETRY_MS = 60 * 1000;
+let neighborhoodCache: { neighborhoods: KnownNeighborhood[]; expiresAt: number } | null = null;
+
+/**
+ * Parse a family description into a partial profile.
+ */
+export function parseFamilyDescription(description: string, options: ParseFamilyOptions = {}): ParsedFamilyDescription {
+  const found = new Set<FamilyParseField>();
+  const profile: IntakeProfile = {
+    adults: [],
+    children: [],
+    location: { transportationNeeds: false },
+    preferences: {},
+  };
+
+  const parent = findParentName(description);
+  if (parent) {
+    profile.adults.push({ name: parent, role: 'parent' });
+    found.add('parent');
+  }
+
+  profile.children = findNamedChildren(description).slice(0, 8)
+    .map(({ name, age }) => ({ name, age, interests: [], allergies: [] }));
+
+  if (profile.children.length === 0) {
+    // "Two kids, 7 and 10"
+    profile.children = findAges(description).slice(0, 8)
+      .map((age, index) => ({ name: `Child ${index + 1}`, age, interests: [], allergies: [] }));
+  } else {
+    // "Emma and Jake are 7 and 10", "twins Raj and Priya, both 6"
+    const stated = profile.children.map(child => child.age).filter(isDefined);
+    const remaining = findAges(description).filter(age => {
+      const index = stated.indexOf(age);
+      if (index === -1) return true;
+      stated.splice(index, 1);
+      return false;
+    });
+    const unaged = profile.children.filter(child => child.age === undefined);
+    if (unaged.length > 0 && remaining.length === unaged.length) {
+      unaged.forEach((child, index) => { child.age = remaining[index]; });
+    } else if (unaged.length > 1 && remaining.length === 1 && SHARED_AGE.test(description)) {
+      unaged.forEach(child => { child.age = remaining[0]; });
+    }
+  }
+  if (profile.children.length > 0) found.add('children');
+  if (profile.children.length > 0 && profile.children.every(child => child.age !== undefined)) found.add('ages');
+
+  const activityTypes = attributeInterests(description, profile.children);
+  if (activityTypes.length > 0) {
+    profile.preferences.activityTypes = activityTypes;
+    found.add('interests');
+  }
+
+  const location = findLocation(description, options.neighborhoods);
+  if (location) {
+    profile.location = { ...profile.location, ...location };
+    found.add('location');
+  }
+  if (!profile.location.city && /\baustin\b/i.test(description)) profile.location.city = 'Austin';
+
+  const budget = parseBudget(description, { children: profile.children.length });
+  if (budget) {
+    profile.preferences.budget = budget;
+    found.add('budget');
+  }
+
+  const schedule = parseSchedule(description);
+  if (schedule) {
+    profile.preferences.schedule = schedule.timeSlots;
+    profile.preferences.scheduleConstraints = {
+      ...schedule,
+      flexibility: /\bonly\b|\bstrict(?:ly)?\b|\bmust\b/i.test(description) ? 'strict' : 'somewhat_flexible',
+    };
+    found.add('schedule');
+  }
+
+  return { profile, found: [...found] };
+}
+
+/**
+ * Fill what a complete FamilyProfile requires and the parse didn't find, reporting
+ * each default by field path so provenance can flag it.
+ */
+export function completeParsedProfile(parsed: IntakeProfile): { profile: FamilyProfile; corrections: Record<string, FieldCorrection> } {
+  const corrections: Record<string, FieldCorrection> = {};
+
+  const adults = parsed.adults.length > 0 ? parsed.adults : [{ name: 'Parent', role: 'parent' as const }];
+  if (parsed.adults.length === 0) {
+    corrections['adults.0.name'] = { origin: 'defaulted', note: 'No parent found; added a placeholder' };
+    corrections['adults.0.role'] = { origin: 'defaulted', note: 'Assumed parent' };
+  }
+
+  const children = parsed.children.length > 0
+    ? parsed.children
+    : [{ name: 'Child', interests: [], allergies: [] }];
+  if (parsed.children.length === 0) {
+    corrections['children.0.name'] = { origin: 'defaulted', note: 'No children found; added a placeholder' };
+  }
+
+  return {
+    profile: {
+      adults,
+      children: children.map((child, index) => {
+        if (child.age !== undefined) return { ...child, age: child.age };
+        corrections[`children.${index}.age`] = { origin: 'defaulted', note: `Age not stated; assumed ${DEFAULT_CHILD_AGE}` };
+        return { ...child, age: DEFAULT_CHILD_AGE };
+      }),
+      location: { ...parsed.location, transportationNeeds: parsed.location.transportationNeeds ?? false },
+      preferences: {
+        ...parsed.preferences,
+        activityTypes: parsed.preferences.activityTypes ?? [],
+        languages: parsed.preferences.languages ?? [],
+      },
+      notes: parsed.notes,
+    },
+    corrections,
+  };
+}
+
+/**
+ * Neighborhoods from the neighborhood table, cached. Never throws: when the database
+ * is unavailable the parser falls back to the bundled boundary index.
+ */
+export async function getKnownNeighborhoods(load = getNeighborhoodNames): Promise<KnownNeighborhood[]> {
+  if (neighborhoodCache && Date.now() < neighborhoodCache.expiresAt) {
+    return neighborhoodCache.neighborhoods;
+  }
+
+  try {
+    const rows = await load();
+    const neighborhoods = rows.map(row => ({ name: row.name, city: row.city ?? undefined }));
+    neighborhoodCache = { neighborhoods, expiresAt: Date.now() + NEIGHBORHOOD_CACHE_MS };
+  } catch (error) {
+    console.warn('Failed to load neighborhoods for family parsing, using bundled boundaries:', error instanceof Error ? error.message : error);
+    neighborhoodCache = { neighborhoods: neighborhoodCache?.neighborhoods ?? [], expiresAt: Date.now() + NEIGHBORHOOD_RETRY_MS };
+  }
+  return neighborhoodCache.neighborhoods;
+}
+
+/**
+ * The parent's first name from "I'm Sarah", "my name is David".
+ */
+export function findParentName(text: string): string | undefined {
+  const name = text.match(PARENT_NAME)?.[1];
+  return name && !NOT_NAMES.has(name) ? name : undefined;
+}
+
+/**
+ * Children named in text, in order of first mention, with ages where stated.
+ */
+export function findNamedChildren(text: string): Array<{ name: string; age?: number }> {
+  const parent = text.match(PARENT_NAME)?.[1];
+  const found: Array<{ name: string; age?: number; index: number }> = [];
+  const add = (name: string, index: number, age?: number) => {
+    if (NOT_NAMES.has(name) || name === parent) return;
+    const existing = found.find(child => child.name === name);
+    if (!existing) {
+      found.push({ name, age, index });
+    } else {
+      existing.age ??= age;
+      existing.index = Math.min(existing.index, index);
+    }
+  };
+
+  for (const match of text.matchAll(NAME_THEN_AGE)) {
+    const age = toAge(match[2]);
+    if (age !== undefined) add(match[1], match.index!, age);
+  }
+  for (const match of text.matchAll(AGE_THEN_NAME)) {
+    const age = toAge(match[1]);
+    if (age !== undefined) add(match[2], match.index!, age);
+  }
+  for (const pattern of NAME_ONLY) {
+    for (const match of text.matchAll(pattern)) add(match[1], match.index!);
+  }
+  for (const match of text.matchAll(NAME_LIST)) {
+    splitNames(match[1]).forEach(name => add(name, match.index!));
+  }
+
+  return found.sort((a, b) => a.index - b.index).map(({ name, age }) => ({ name, age }));
+}
+
+/**
+ * Names from a reply that lists children and nothing else ("Emma and Jake"), for
+ * answering "who are we finding activities for?"; empty for any other text.
+ */
+export function findBareNameList(text: string): string[] {
+  const match = text.match(BARE_NAME_LIST);
+  if (!match) return [];
+  const names = [...new Set(splitNames(match[1]))];
+  return names.some(name => NOT_NAMES.has(name)) ? [] : names;
+}
+
+/**
+ * Every number in text that reads as a child's age, in order.
+ */
+export function findAges(text: string): number[] {
+  return [...text.matchAll(AGE_NUMBER)].map(match => toAge(match[1])).filter(isDefined);
+}
+
+/**
+ * Read an age from a reply: "7", "seven", "she's 7 years old", "18 months".
+ */
+export function parseAge(text: string): number | undefined {
+  const months = text.match(AGE_IN_MONTHS);
+  if (months) return Math.floor(parseInt(months[1], 10) / 12);
+  return findAges(text)[0];
+}
+
+/**
+ * Whether text states an age, as digits, a word or (for babies) months.
+ */
+export function mentionsAge(text: string, age: number): boolean {
+  const words = Object.keys(NUMBER_WORDS).filter(word => NUMBER_WORDS[word] === age);
+  return findAges(text).includes(age) || words.some(word => new RegExp(String.raw`\b${word}\b`, 'i').test(text)) ||
+    (age <= 1 && AGE_IN_MONTHS.test(text));
+}
+
+/**
+ * The ZIP code, known neighborhood and city named in text, if any.
+ */
+export function findLocation(
+  text: string,
+  neighborhoods: KnownNeighborhood[] = []
+): Pick<Location, 'zipCode' | 'neighborhood' | 'city'> | undefined {
+  const location: Pick<Location, 'zipCode' | 'neighborhood' | 'city'> = {};
+
+  const zip = text.match(ZIP_CODE);
+  if (zip) {
+    location.zipCode = normalizePostalCode(zip[0]) ?? zip[1];
+    const city = lookupPostalCentroid(location.zipCode)?.city;
+    if (city) location.city = city;
+  }
+
+  // Table names first, longest first, so "Travis Heights" isn't read as another "Heights"
+  const known = [...neighborhoods]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(neighborhood => new RegExp(String.raw`\b${escapeRegExp(neighborhood.name)}\b`, 'i').test(text));
+  const bounded = getNeighborhoodIndex().mention(text);
+  const neighborhood = known ?? bounded;
+  if (neighborhood) {
+    location.neighborhood = neighborhood.name;
+    const city = neighborhood.city ?? getNeighborhoodIndex().find(neighborhood.name)?.city;
+    if (city) location.city ??= city;
+  }
+
+  return location.zipCode || location.neighborhood ? location : undefined;
+}
+
+/**
+ * Read a budget from text. Without `direct` (an answer to "what's your budget?") the
+ * text must talk about money, and only the sentence that does is read. "Per kid"
+ * budgets are multiplied out to the household, and yearly ones become monthly.
+ */
+export function parseBudget(text: string, options: { direct?: boolean; children?: number } = {}): Budget | undefined {
+  let clause = text;
+  if (!options.direct) {
+    const sentence = text.split(/(?<=[.!?;\n])\s+/).find(part => BUDGET_CONTEXT.test(part));
+    if (!sentence) return undefined;
+    const currencyAt = sentence.search(/[$€£]\s?\d/);
+    const keywordAt = sentence.search(BUDGET_CONTEXT);
+    const numberAt = sentence.slice(keywordAt).search(/\d/);
+    if (currencyAt === -1 && numberAt === -1) return undefined;
+    clause = sentence.slice(currencyAt !== -1 ? currencyAt : keywordAt + numberAt);
+  }
+  // "$400 total per month" reads as "$400 per month"
+  clause = clause.replace(/\b(?:in total|total|altogether|combined|overall)\s+/gi, '');
+
+  const price = parsePrice(clause);
+  const max = price.range?.max ?? price.amount;
+  if (price.free || max === undefined) return undefined;
+
+  let period: Budget['period'];
+  let scale = options.children && options.children > 1 && PER_CHILD.test(clause) ? options.children : 1;
+  if (price.unit === 'month' || price.unit === 'week' || price.unit === 'session') {
+    period = price.unit;
+  } else if (price.unit === 'year') {
+    period = 'month';
+    scale /= 12;
+  } else if (!price.unit && options.direct) {
+    period = 'month'; // The question asks for a monthly amount
+  }
+
+  return {
+    min: price.range ? Math.round(price.range.min * scale) : undefined,
+    max: Math.round(max * scale),
+    currency: price.currency,
+    period,
+  };
+}
+
+/**
+ * Read time slots and start/end limits from "weekday afternoons after 3:30 and
+ * Saturday mornings" or "after school, home by 6". Days and times of day pair up
+ * within a clause; a clause missing one borrows it from the nearest clause that has it.
+ */
+export function parseSchedule(text: string): Pick<ScheduleConstraint, 'timeSlots' | 'specificTimes'> | undefined {
+  // "p.m." would otherwise split into clauses
+  const lower = text.toLowerCase().replace(/\b([ap])\.m\b\.?/g, '$1m');
+  const available = lower.split(/[,;.!?]|\s[-–—]\s|\bbut\b/)
+    .filter(phrase => !UNAVAILABLE.test(phrase))
+    .flatMap(phrase => phrase.split(/\b(?:and|or|plus)\b/));
+
+  const clauses = available
+    .map(clause => {
+      const days = parseDays(clause);
+      const afterSchool = /\bafter[-\s]school\b|\bschool (?:days|nights)\b/.test(clause);
+      const parts: DayPart[] = [
+        ...(afterSchool || days.some(day => WEEKDAYS.includes(day)) ? ['weekday' as const] : []),
+        ...(days.some(day => WEEKEND.includes(day)) ? ['weekend' as const] : []),
+      ];
+
+      const periods: Period[] = [];
+      if (/\bmornings?\b/.test(clause)) periods.push('morning');
+      if (/\bafternoons?\b|\bafter[-\s]school\b|\bafter lunch\b/.test(clause)) periods.push('afternoon');
+      if (/\bevenings?\b|\bnights?\b|\bafter (?:work|dinner)\b/.test(clause)) periods.push('evening');
+      const start = findTime(clause, TIME_AFTER);
+      if (periods.length === 0 && start !== undefined) periods.push(periodAt(start));
+
+      return { parts, periods };
+    })
+    .filter(clause => clause.parts.length > 0 || clause.periods.length > 0);
+
+  const earliest = findTime(available.join(' '), TIME_AFTER);
+  const latest = findTime(available.join(' '), TIME_BEFORE);
+  if (clauses.length === 0 && earliest === undefined && latest === undefined) return undefined;
+
+  const nearest = <T>(index: number, pick: (clause: typeof clauses[number]) => T[]): T[] => {
+    const following = clauses.slice(index + 1).find(clause => pick(clause).length > 0);
+    const preceding = clauses.slice(0, index).reverse().find(clause => pick(clause).length > 0);
+    return following ? pick(following) : preceding ? pick(preceding) : [];
+  };
+
+  const timeSlots = clauses.flatMap((clause, index) => {
+    const parts = clause.parts.length > 0 ? clause.parts : nearest(index, other => other.parts);
+    const periods = clause.periods.length > 0 ? clause.periods : nearest(index, other => other.periods);
+    return (parts.length > 0 ? parts : ['weekday', 'weekend'] as DayPart[]).flatMap(part =>
+      // Without a time of day, weekdays mean after school and weekends mean daytime
+      (periods.length > 0 ? periods : part === 'weekday' ? ['afternoon', 'evening'] : ['morning', 'afternoon'])
+        .map(period => `${part}_${period}` as TimeSlot)
+    );
+  });
+  if (timeSlots.length === 0) {
+    const period = periodAt(earliest ?? latest! - 60);
+    timeSlots.push(`weekday_${period}`, `weekend_${period}`);
+  }
+
+  const specificTimes = earliest !== undefined || latest !== undefined
+    ? {
+        earliestStart: earliest !== undefined ? formatMinutes(earliest) : undefined,
+        latestEnd: latest !== undefined ? formatMinutes(latest) : undefined,
+      }
+    : undefined;
+
+  return { timeSlots: [...new Set(timeSlots)], specificTimes };
+}
+
+/**
+ * Add vocabulary interests to the children they belong to; returns the activity
+ * types they imply. In a sentence naming children, an interest belongs to the child
+ * named last before it (or first after it); "both"/"they" sentences cover every
+ * child and "he"/"she" sentences the child mentioned last.
+ */
+function attributeInterests(description: string, children: IntakeProfile['children']): string[] {
+  if (children.length === 0) return [];
+
+  const activityTypes = new Set<string>();
+  const names = children.map(child => new RegExp(String.raw`\b${escapeRegExp(child.name)}\b`, 'g'));
+  let lastMentioned: number[] = children.length === 1 ? [0] : [];
+
+  for (const sentence of description.match(/[^.!?\n]+/g) ?? []) {
+    const mentions = names
+      .flatMap((pattern, child) => [...sentence.matchAll(pattern)].map(match => ({ child, at: match.index! })))
+      .sort((a, b) => a.at - b.at);
+
+    let everyone: number[] | undefined;
+    if (mentions.length === 0) {
+      if (/\b(?:both|all|kids|children|they|twins)\b/i.test(sentence)) everyone = children.map((_, index) => index);
+      else if (/\b(?:he|she|his|her)\b/i.test(sentence) || children.length === 1) everyone = lastMentioned;
+      else continue;
+    }
+
+    for (const { interest, activityType, pattern } of INTEREST_VOCABULARY) {
+      for (const match of sentence.matchAll(pattern)) {
+        if (NEGATED.test(sentence.slice(0, match.index))) continue;
+        const before = mentions.filter(mention => mention.at < match.index!);
+        // "Mia and Lucas both love swimming"
+        const shared = before.length > 1 && SHARED_INTEREST.test(sentence.slice(before[before.length - 1].at, match.index));
+        const owners = everyone ?? (shared
+          ? [...new Set(before.map(mention => mention.child))]
+          : [(before.pop() ?? mentions[0]).child]);
+        for (const owner of owners) {
+          const interests = children[owner].interests;
+          if (!interests.includes(interest) && interests.length < 15) interests.push(interest);
+        }
+        if (owners.length > 0) activityTypes.add(activityType);
+      }
+    }
+
+    if (mentions.length > 0) lastMentioned = [mentions[mentions.length - 1].child];
+  }
+
+  return [...activityTypes];
+}
+
+function toAge(value: string): number | undefined {
+  const normalized = value.toLowerCase();
+  const age = NUMBER_WORDS[normalized] ?? parseInt(normalized, 10);
+  return Number.isInteger(age) && age >= 0 && age <= 18 ? age : undefined;
+}
+
+function splitNames(list: string): string[] {
+  return list.split(/\s*(?:,|&|\band\b)\s*/).filter(Boolean);
+}
+
+function findTime(text: string, pattern: RegExp): number | undefined {
+  const match = text.match(pattern);
+  if (!match) return undefined;
+  const minutes = parseTimeToMinutes(match[1]);
+  if (minutes === null) return undefined;
+  // "after 4" means 4 PM; activities don't start before 8 AM
+  return !/[ap]\.?m/.test(match[1]) && minutes < 8 * 60 ? minutes + 12 * 60 : minutes;
+}
+
+function periodAt(minutes: number): Period {
+  return minutes < 12 * 60 ? 'morning' : minutes < 18 * 60 ? 'afternoon' : 'evening';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
@@ -0,0 +1,160 @@
+/**
+ * Household budget: what an activity costs the whole family in the budget's period.
+ *
+ * WHY: Household-aware budget scoring because:
+ * - The budget is for the household, but each program price was compared to all of
+ *   it, so a three-kid family with $400/month could get three $350 recommendations
+ * - Prices come per session, per month or per program while parents budget per
+ *   month, week or session, so comparing raw amounts mixed units
+ * - Providers often discount siblings, which changes the math for family activities
+ *
+ * DESIGN DECISIONS:
+ * - Prices are normalized to the budget's period; weekly programs meet on each listed
+ *   day, a month is 52/12 weeks, and a program of unknown length is assumed to be paid
+ *   within one week (the conservative reading)
+ * - Each child is expected to take about one activity, so an activity for some of the
+ *   children is measured against their share of the budget; an activity for every
+ *   child is measured against all of it
+ * - Sibling discounts are read from provider and event text ("10% sibling discount",
+ *   "$20 off each additional child") and apply to every enrolled child after the first
+ * - Without a budget period prices are compared as listed, as before
+ * - Scoring is per activity, so a set-level pass then adds household cost down the
+ *   ranked list, one pick per child, and flags picks that take the total over budget;
+ *   flagged picks keep their rank so the best match isn't hidden, only qualified
+ */
+
+import type { BudgetPeriod } from '@/types/ai';
+import type { ActivityMetadata } from './recommendation-engine';
+
+export interface SiblingDiscount {
+  percent?: number; // Off each additional child's price
+  amount?: number; // Currency off each additional child's listed price
+  text: string; // The phrase the discount was read from
+}
+
+const WEEKS_PER_MONTH = 52 / 12;
+
+const DISCOUNT_PATTERNS: Array<{ pattern: RegExp; kind: 'percent' | 'amount' }> = [
+  { pattern: /(\d{1,2})\s*%\s*(?:off\s+)?(?:a\s+)?(?:sibling(?:\s+discount)?|for\s+siblings|(?:each|every|any)\s+additional\s+(?:child|sibling|kid)|(?:second|2nd)\s+(?:child|sibling|kid))/i, kind: 'percent' },
+  { pattern: /(?:sibling|additional\s+(?:child|kid)|(?:second|2nd)\s+(?:child|kid))s?\s+(?:discount\s+(?:of\s+)?|saves?\s+|gets?\s+|receives?\s+)?(\d{1,2})\s*%/i, kind: 'percent' },
+  { pattern: /\$\s?(\d+(?:\.\d{2})?)\s*off\s+(?:for\s+)?(?:a\s+|each\s+|every\s+)?(?:sibling|additional\s+(?:child|kid)|(?:second|2nd)\s+(?:child|kid))/i, kind: 'amount' },
+  { pattern: /sibling\s+discount\s+(?:of\s+)?\$\s?(\d+(?:\.\d{2})?)/i, kind: 'amount' },
+];
+
+/**
+ * Find a published sibling discount in provider or event text.
+ */
+export function parseSiblingDiscount(...texts: Array<string | null | undefined>): SiblingDiscount | undefined {
+  for (const text of texts) {
+    if (!text) continue;
+    for (const { pattern, kind } of DISCOUNT_PATTERNS) {
+      const match = text.match(pattern);
+      if (!match) continue;
+      const value = parseFloat(match[1]);
+      if (!(value > 0) || (kind === 'percent' && value >= 100)) continue;
+      return kind === 'percent' ? { percent: value, text: match[0] } : { amount: value, text: match[0] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * One child's cost of an activity per budget period.
+ *
+ * @param period Budget period; without one the listed amount is returned unchanged
+ * @returns undefined when the price is unknown
+ */
+export function priceForPeriod(
+  pricing: ActivityMetadata['pricing'],
+  schedule: Pick<ActivityMetadata['schedule'], 'days' | 'recurring'>,
+  period?: BudgetPeriod
+): number | undefined {
+  if (pricing.type === 'free') return 0;
+  const amount = pricing.amount || pricing.range?.max;
+  if (!amount) return undefined;
+  if (!period) return amount;
+
+  const sessionsPerWeek = Math.max(1, new Set(schedule.days.map(day => day.toLowerCase())).size);
+  switch (pricing.type) {
+    case 'per_session': {
+      if (schedule.recurring === false) return amount; // A one-off is paid once, whatever the period
+      return period === 'session' ? amount : amount * sessionsPerWeek * (period === 'month' ? WEEKS_PER_MONTH : 1);
+    }
+    case 'per_week':
+      return period === 'week' ? amount : period === 'month' ? amount * WEEKS_PER_MONTH : amount / sessionsPerWeek;
+    case 'per_month':
+      return period === 'month' ? amount : amount / WEEKS_PER_MONTH / (period === 'session' ? sessionsPerWeek : 1);
+    case 'per_program': {
+      // A session count gives the per-session price and, on a weekly schedule, the length
+      const weeks = Math.max(1, pricing.programWeeks ?? (pricing.sessions ? pricing.sessions / sessionsPerWeek : 1));
+      if (period === 'session') return amount / (pricing.sessions ?? weeks * sessionsPerWeek);
+      return period === 'week' ? amount / weeks : amount / Math.max(1, weeks / WEEKS_PER_MONTH);
+    }
+  }
+}
+
+/**
+ * An additional child's cost after the sibling discount.
+ *
+ * @param listedPrice The price as listed, which a fixed-amount discount is taken off
+ */
+export function siblingPrice(perChild: number, discount?: SiblingDiscount, listedPrice?: number): number {
+  const fraction = discount?.percent !== undefined
+    ? discount.percent / 100
+    : discount?.amount && listedPrice ? Math.min(1, discount.amount / listedPrice) : 0;
+  return perChild * (1 - fraction);
+}
+
+/**
+ * Household cost of enrolling several children, with the sibling discount on all but the first.
+ */
+export function householdCost(perChild: number, children: number, discount?: SiblingDiscount, listedPrice?: number): number {
+  return perChild + Math.max(0, children - 1) * siblingPrice(perChild, discount, listedPrice);
+}
+
+/**
+ * Running household spend down a ranked list, as a family taking the top picks would spend it.
+ *
+ * Picks are added in rank order until every child has one. A pick that would take the
+ * total over the budget is flagged and left out of the total, so a cheaper pick further
+ * down can still fit; picks after every child has one are alternatives, not additions.
+ *
+ * @param items Household cost and enrolled children per item, in rank order
+ * @returns Per item, the total with it included and whether that exceeds the budget;
+ *   undefined for items outside the set or with an unknown cost
+ */
+export function accumulateHouseholdSpend(
+  items: Array<{ cost?: number; children: number } | undefined>,
+  budget: number,
+  familyChildren: number
+): Array<{ runningTotal: number; overBudget: boolean } | undefined> {
+  let spend = 0;
+  let covered = 0;
+
+  return items.map(item => {
+    if (item?.cost === undefined || covered >= familyChildren) return undefined;
+    const runningTotal = spend + item.cost;
+    if (runningTotal > budget) return { runningTotal, overBudget: true };
+
+    spend = runningTotal;
+    covered += item.children;
+    return { runningTotal, overBudget: false };
+  });
+}
+
+/**
+ * Score a cost against a budget: 1 within it, falling off as it goes over.
+ */
+export function spendScore(cost: number, budget: number): number {
+  if (cost <= budget) return 1;
+  if (cost <= budget * 1.2) return 0.7; // 20% over budget
+  if (cost <= budget * 1.5) return 0.4; // 50% over budget
+  return 0.1; // Too expensive
+}
+
+/**
+ * Format a cost for parents, e.g. "$350/month".
+ */
+export function formatSpend(cost: number, period?: BudgetPeriod): string {
+  return `$${Math.round(cost)}${period ? `/${period}` : ''}`;
+}
@@ -0,0 +1,166 @@
+/**
+ * Hybrid lexical + vector candidate retrieval for the recommendation engine.
+ *
+ * WHY: Hybrid retrieval because:
+ * - Vector search misses exact terms ("Suzuki violin", "BJJ") and provider names
+ * - Full-text search misses paraphrases and related activities
+ * - Fusing both lists recovers exact matches without giving up semantic recall
+ *
+ * DESIGN DECISIONS:
+ * - Reciprocal rank fusion (RRF): Uses ranks only, so Qdrant cosine scores and
+ *   PostgreSQL ts_rank values never need to be calibrated against each other
+ * - Fusion is per provider, the unit extractUniqueIds and the scorers work with
+ * - Lexical-only candidates get a neutral vector similarity, the same value the
+ *   scorer already uses for providers without a vector score
+ * - Lexical scores are normalized to 0-1 against the best match in the result set
+ */
+
+import type { FamilyProfile, RecommendationFilters } from '@/types/ai';
+import type { QdrantSearchResult } from '@/lib/embeddings/qdrant-client';
+import type { LexicalSearchResult } from '@/lib/db/queries/providers';
+
+/**
+ * RRF damping constant from the original RRF paper; larger values flatten rank differences.
+ */
+export const RRF_K = 60;
+
+/**
+ * Vector similarity assigned to candidates found only by keyword search.
+ */
+export const LEXICAL_ONLY_VECTOR_SCORE = 0.5;
+
+/**
+ * Retrieval candidate: a vector result, optionally annotated by hybrid retrieval.
+ */
+export type RetrievedCandidate = QdrantSearchResult & {
+  metadata: any;
+  lexicalScore?: number; // 0-1, present when the provider matched keyword search
+  fusedScore?: number; // RRF score, present in hybrid mode
+};
+
+/**
+ * Collect keyword search terms from the profile and filters.
+ *
+ * Interests and activity types are short phrases ("Suzuki violin"), which is what
+ * keyword search is good at; the free-text search query is left to vector search.
+ */
+export function buildLexicalSearchTerms(
+  familyProfile: FamilyProfile,
+  relevantChildren: FamilyProfile['children'],
+  filters: Pick<RecommendationFilters, 'interests' | 'categories' | 'keywords'>
+): string[] {
+  const terms = [
+    ...relevantChildren.flatMap(child => child.interests || []),
+    ...(familyProfile.preferences?.activityTypes || []),
+    ...(filters.interests || []),
+    ...(filters.categories || []),
+    ...(filters.keywords || []),
+  ];
+
+  return [...new Set(terms.map(term => term.trim()).filter(Boolean))];
+}
+
+/**
+ * Convert full-text matches into one retrieval candidate per provider.
+ * The best-ranked event supplies the metadata used by lightweight scoring.
+ */
+export function lexicalResultsToCandidates(results: LexicalSearchResult[]): RetrievedCandidate[] {
+  const maxRank = Math.max(0, ...results.map(result => result.rank));
+  const bestByProvider = new Map<string, LexicalSearchResult>();
+
+  for (const result of results) {
+    const current = bestByProvider.get(result.providerId);
+    if (!current || result.rank > current.rank) {
+      bestByProvider.set(result.providerId, result);
+    }
+  }
+
+  return [...bestByProvider.values()]
+    .sort((a, b) => b.rank - a.rank)
+    .map(result => ({
+      id: parseInt(result.providerId, 10),
+      score: LEXICAL_ONLY_VECTOR_SCORE,
+      payload: {},
+      metadata: {
+        provider_id: result.providerId,
+        name: result.providerName,
+        title: result.eventTitle || result.providerName,
+        category: result.category || undefined,
+        city: result.city || undefined,
+        zip_code: result.zipCode || undefined,
+        age_min: result.minAge ?? undefined,
+        age_max: result.maxAge ?? undefined,
+        price: result.price !== null ? parseFloat(result.price) : undefined,
+        source: 'lexical',
+      },
+      lexicalScore: maxRank > 0 ? result.rank / maxRank : 0,
+    }));
+}
+
+/**
+ * Fuse vector and lexical candidates with reciprocal rank fusion.
+ *
+ * Providers are ordered by fused score. Vector entries are kept as-is (annotated
+ * with the provider's lexical score); providers found only by keyword search
+ * contribute their lexical candidate.
+ *
+ * @param limit Maximum number of providers to keep
+ */
+export function fuseWithReciprocalRank(
+  vectorResults: RetrievedCandidate[],
+  lexicalCandidates: RetrievedCandidate[],
+  options: { limit: number; k?: number }
+): RetrievedCandidate[] {
+  const { limit, k = RRF_K } = options;
+  const providers = new Map<string, {
+    fusedScore: number;
+    vectorEntries: RetrievedCandidate[];
+    lexical?: RetrievedCandidate;
+  }>();
+
+  const entryFor = (key: string) => {
+    let entry = providers.get(key);
+    if (!entry) {
+      entry = { fusedScore: 0, vectorEntries: [] };
+      providers.set(key, entry);
+    }
+    return entry;
+  };
+
+  let vectorRank = 0;
+  for (const result of vectorResults) {
+    const entry = entryFor(providerKey(result));
+    if (entry.vectorEntries.length === 0) {
+      entry.fusedScore += 1 / (k + ++vectorRank);
+    }
+    entry.vectorEntries.push(result);
+  }
+
+  lexicalCandidates.forEach((candidate, index) => {
+    const entry = entryFor(providerKey(candidate));
+    if (!entry.lexical) {
+      entry.fusedScore += 1 / (k + index + 1);
+      entry.lexical = candidate;
+    }
+  });
+
+  return [...providers.values()]
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .slice(0, Math.max(1, limit))
+    .flatMap(({ fusedScore, vectorEntries, lexical }) => {
+      if (vectorEntries.length === 0 && lexical) {
+        return [{ ...lexical, fusedScore }];
+      }
+      return vectorEntries.map(result => ({
+        ...result,
+        lexicalScore: lexical?.lexicalScore ?? 0,
+        fusedScore,
+      }));
+    });
+}
+
+function providerKey(result: RetrievedCandidate): string {
+  const rawProviderId = result.metadata?.provider_id || result.metadata?.providerId;
+  const providerId = parseInt(String(rawProviderId), 10);
+  return !isNaN(providerId) && providerId > 0 ? String(providerId) : `point:${result.id}`;
+}
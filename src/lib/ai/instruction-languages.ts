@@ -0,0 +1,193 @@
+/**
+ * Languages of instruction and bilingual programs.
+ *
+ * WHY: Language-aware matching because:
+ * - Families say "we speak Spanish at home" and the parser keeps it as a language
+ *   preference, but nothing compared it to how activities are taught
+ * - Austin has strong Spanish and Mandarin immersion programs that these families
+ *   look for specifically, and they rank no higher than any other class
+ * - Providers and events have no language fields; listings say it in text ("taught
+ *   in Spanish", "Mandarin immersion", "bilingual English/Spanish", "en español")
+ *
+ * DESIGN DECISIONS:
+ * - Languages are canonical names ("Chinese" and "Mandarin" are both Mandarin) so
+ *   listings, preferences and filters compare directly
+ * - English is the default language of instruction and is never recorded from
+ *   silence: a listing that names no language matches an English filter
+ * - Only instruction phrasing records a language ("taught in", "immersion",
+ *   "bilingual", "en español"); a language that is the subject ("French class",
+ *   "learn Mandarin") says nothing about how the class is taught
+ * - Filter values outside the known languages are kept as written (title case), so a
+ *   filter for an unlisted language still restricts results
+ * - Matching a family's non-English language multiplies the match score up, more
+ *   for immersion and bilingual programs; the score stays capped at 1
+ * - An immersion program in a language the family didn't list is a concern, not a
+ *   penalty, since many families choose immersion to learn the language
+ */
+
+import type { ActivityAccommodations } from '@/types/ai';
+
+export type LanguageProgram = NonNullable<ActivityAccommodations['languageProgram']>;
+
+export interface LanguageMatch {
+  familyLanguages: string[]; // Non-English languages the family speaks or asked for
+  offered: string[];
+  program?: LanguageProgram;
+  matched: string[];
+  multiplier: number;
+}
+
+const LANGUAGES: Record<string, string> = {
+  spanish: 'Spanish', español: 'Spanish', espanol: 'Spanish',
+  mandarin: 'Mandarin', chinese: 'Mandarin', cantonese: 'Cantonese',
+  french: 'French', german: 'German', japanese: 'Japanese', korean: 'Korean',
+  vietnamese: 'Vietnamese', arabic: 'Arabic', hindi: 'Hindi', portuguese: 'Portuguese',
+  italian: 'Italian', russian: 'Russian', hebrew: 'Hebrew', tagalog: 'Tagalog', urdu: 'Urdu',
+  'american sign language': 'ASL', asl: 'ASL', english: 'English',
+};
+
+const DEFAULT_LANGUAGE = 'English';
+
+const LANGUAGE_WORD = Object.keys(LANGUAGES).sort((a, b) => b.length - a.length).join('|');
+const PAIR = String.raw`\(?\s*(${LANGUAGE_WORD})\s*(?:\/|and|&|-)\s*(${LANGUAGE_WORD})\s*\)?`;
+
+// "taught in Spanish", "Spanish immersion", "bilingual (English/Mandarin)", "en español"
+const LANGUAGE_PATTERNS = [
+  new RegExp(String.raw`\b(?:taught|instruction|instructed|conducted|held)\s+(?:entirely\s+|only\s+|fully\s+)?in\s+(${LANGUAGE_WORD})\b`, 'g'),
+  new RegExp(String.raw`\b(${LANGUAGE_WORD})[-\s]immersion\b`, 'g'),
+  new RegExp(String.raw`\b(?:bilingual|dual[-\s]language|two[-\s]way)\s*${PAIR}`, 'g'),
+  new RegExp(String.raw`\b${PAIR}\s+(?:bilingual|dual[-\s]language)\b`, 'g'),
+  /\ben (español)\b/g,
+];
+
+const IMMERSION = /\bimmersion\b/;
+const BILINGUAL = /\bbilingual\b|\bdual[-\s]language\b|\btwo[-\s]way (?:immersion|language)\b/;
+
+// Match-score multipliers for a program taught in one of the family's languages
+const LANGUAGE_MATCH_MULTIPLIER = 1.1;
+const LANGUAGE_PROGRAM_MULTIPLIER = 1.15;
+
+/**
+ * Read the languages a listing is taught in and whether it is an immersion or
+ * bilingual program. The program is only set when a language is named.
+ */
+export function parseInstructionLanguages(...texts: Array<string | null | undefined>): {
+  languages: string[];
+  program?: LanguageProgram;
+} {
+  const text = texts.filter(Boolean).join(' \n ').toLowerCase();
+  const languages = new Set<string>();
+  for (const pattern of LANGUAGE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      match.slice(1).filter(Boolean).forEach(word => languages.add(LANGUAGES[word]));
+    }
+  }
+  if (languages.size === 0) return { languages: [] };
+
+  const program = BILINGUAL.test(text) ? 'bilingual' : IMMERSION.test(text) ? 'immersion' : undefined;
+  return { languages: [...languages], program };
+}
+
+/**
+ * Canonical name for a language preference or filter value ("spanish", "Chinese",
+ * "we speak Spanish at home"), or undefined when it names none.
+ */
+export function normalizeLanguage(value: string): string | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (LANGUAGES[normalized]) return LANGUAGES[normalized];
+  const match = normalized.match(new RegExp(String.raw`\b(${LANGUAGE_WORD})\b`));
+  return match ? LANGUAGES[match[1]] : undefined;
+}
+
+/**
+ * Canonical, de-duplicated languages from preference or filter values. A short value
+ * naming no known language ("Russian", "Haitian Creole") is kept in title case.
+ */
+export function normalizeLanguages(values: string[] | undefined): string[] {
+  const languages = (values || []).map(value => normalizeLanguage(value) ?? unknownLanguage(value));
+  return [...new Set(languages.filter((language): language is string => Boolean(language)))];
+}
+
+/**
+ * Whether an activity is taught in any of the requested languages; a listing that
+ * names no language is taught in English.
+ */
+export function isTaughtIn(offered: string[] | undefined, languages: string[]): boolean {
+  if (languages.length === 0) return true;
+  const taught = offered && offered.length > 0 ? offered : [DEFAULT_LANGUAGE];
+  return taught.some(language => languages.includes(language));
+}
+
+/**
+ * Qdrant condition for the languages filter: points taught in any requested
+ * language, plus points with no languages payload.
+ *
+ * The `is_empty` fallback keeps points embedded before languages were parsed, which
+ * have no payload to match; scoring then drops the ones not taught in a requested
+ * language (`isTaughtIn`). Re-embed the collection to backfill the payload before
+ * this filter can exclude those points in Qdrant.
+ */
+export function buildLanguageFilter(values: string[] | undefined): Record<string, any> | undefined {
+  const languages = normalizeLanguages(values);
+  if (languages.length === 0) return undefined;
+
+  return {
+    should: [
+      { key: 'languages', match: { any: languages } },
+      { is_empty: { key: 'languages' } },
+    ],
+  };
+}
+
+/**
+ * Compare an activity's languages to the family's.
+ *
+ * @param familyLanguages Preference and filter values; English is ignored
+ */
+export function matchLanguages(
+  offered: Pick<ActivityAccommodations, 'languages' | 'languageProgram'> | undefined,
+  familyLanguages: string[]
+): LanguageMatch {
+  const wanted = normalizeLanguages(familyLanguages).filter(language => language !== DEFAULT_LANGUAGE);
+  const languages = offered?.languages || [];
+  const matched = languages.filter(language => wanted.includes(language));
+  const program = offered?.languageProgram;
+
+  const multiplier = matched.length === 0 ? 1 : program ? LANGUAGE_PROGRAM_MULTIPLIER : LANGUAGE_MATCH_MULTIPLIER;
+  return { familyLanguages: wanted, offered: languages, program, matched, multiplier };
+}
+
+/**
+ * Parent-facing notes for a language match.
+ */
+export function describeLanguageMatch(match: LanguageMatch, familyLanguages: string[]): { matchReason?: string; concern?: string } {
+  if (match.matched.length > 0) {
+    if (match.program === 'bilingual') return { matchReason: `Bilingual ${match.offered.join('/')} program` };
+    if (match.program === 'immersion') return { matchReason: `${match.matched.join('/')} immersion program` };
+    return { matchReason: `Taught in ${match.matched.join('/')}` };
+  }
+
+  // An immersion program in a language nobody in the family listed
+  const spoken = normalizeLanguages(familyLanguages);
+  if (match.program === 'immersion' && spoken.length > 0 && !match.offered.some(language => spoken.includes(language))) {
+    return { concern: `Taught in ${match.offered.join('/')} (immersion)` };
+  }
+  return {};
+}
+
+/**
+ * Format languages for embedding text, e.g. "Spanish, English (bilingual)".
+ */
+export function formatLanguages(languages: string[], program?: LanguageProgram): string {
+  if (languages.length === 0) return '';
+  return `${languages.join(', ')}${program ? ` (${program})` : ''}`;
+}
+
+/**
+ * Title-case a value that reads as a language name rather than a sentence.
+ */
+function unknownLanguage(value: string): string | undefined {
+  const words = value.trim().toLowerCase().split(/\s+/);
+  if (words.length > 3 || !words.every(word => /^[\p{L}'-]+$/u.test(word))) return undefined;
+  return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
@@ -0,0 +1,289 @@
+/**
+ * Free-text price parsing.
+ *
+ * WHY: One price parser because:
+ * - Prices arrive as text ("$250/week", "$35 per class", "Free – donations welcome",
+ *   "$1,200 (10 sessions)") on providers, camps and sessions, and as numbers on events
+ * - The engine, the API route and the embedding generator each read them differently,
+ *   mostly by taking the first number and calling it a per-session price
+ * - Budget scoring converts prices to the family's budget period, which needs the unit
+ *   and, for programs, how many sessions or weeks the price covers
+ *
+ * DESIGN DECISIONS:
+ * - Returns only what the text states; callers choose a default unit (numeric event
+ *   prices are per session)
+ * - A range is kept as a range with no single amount, like ActivityMetadata pricing
+ * - Free means nothing is charged: "Free trial, then $50/month" is $50 a month
+ * - Registration fees, deposits and discounts ("$20 off") are never the price
+ * - Confidence reflects what was stated: a currency-marked amount with a unit is high,
+ *   a bare number is low, and competing amounts lower it
+ * - Accuracy is tracked by the price fixtures in the evaluation harness
+ */
+
+import type { ActivityMetadata } from './recommendation-engine';
+
+export type PriceUnit = 'session' | 'day' | 'week' | 'month' | 'year' | 'program';
+
+export interface ParsedPrice {
+  free: boolean;
+  amount?: number; // A single price; undefined for ranges and unknown prices
+  range?: { min: number; max: number };
+  currency: string; // ISO 4217 code
+  unit?: PriceUnit; // What the price pays for, when stated
+  sessions?: number; // Sessions a program price covers ("10 sessions", "8-class pack")
+  weeks?: number; // Program length ("6-week session")
+  confidence: number; // 0-1
+}
+
+const DEFAULT_CURRENCY = 'USD';
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP' };
+const CURRENCY_CODES: Record<string, string> = { usd: 'USD', dollar: 'USD', dollars: 'USD', cad: 'CAD', eur: 'EUR', euro: 'EUR', euros: 'EUR', gbp: 'GBP' };
+
+const NUMBER = String.raw`(\d+(?:\.\d{1,2})?)`;
+
+// "$250", "$100-150", "$100 to $150"
+const SYMBOL_AMOUNT = new RegExp(String.raw`([$€£])\s*${NUMBER}(?:\s*(?:-|to)\s*[$€£]?\s*${NUMBER})?`, 'g');
+// "250 USD", "100-150 dollars"
+const CODE_AMOUNT = new RegExp(String.raw`\b${NUMBER}(?:\s*(?:-|to)\s*${NUMBER})?\s*(usd|dollars?|cad|eur|euros?|gbp)\b`, 'g');
+// "35 per class" without a currency
+const UNIT_AMOUNT = new RegExp(String.raw`\b${NUMBER}\s*(?=(?:\/|per\s|a\s|each\s))`, 'g');
+
+const UNIT_WORDS: Array<{ pattern: RegExp; unit: PriceUnit }> = [
+  { pattern: /^(?:session|sess|class|lesson|visit|drop-?in|practice|meeting|hour|hr)s?\b/, unit: 'session' },
+  { pattern: /^(?:day)s?\b/, unit: 'day' },
+  { pattern: /^(?:camp\s+)?(?:week|wk)s?\b/, unit: 'week' },
+  { pattern: /^(?:month|mo)s?\b/, unit: 'month' },
+  { pattern: /^(?:year|yr)s?\b/, unit: 'year' },
+  { pattern: /^(?:semester|term|season|program|course|camp|series|workshop)s?\b/, unit: 'program' },
+];
+
+const UNIT_ADVERBS: Array<{ pattern: RegExp; unit: PriceUnit }> = [
+  { pattern: /\bdaily\b/, unit: 'day' },
+  { pattern: /\bweekly\b/, unit: 'week' },
+  { pattern: /\bmonthly\b/, unit: 'month' },
+  { pattern: /\b(?:annual(?:ly)?|yearly)\b/, unit: 'year' },
+];
+
+const FREE = /\b(?:free|no\s+(?:cost|charge|fee)|complimentary)\b/;
+const DONATION = /\b(?:donations?|pay\s+what\s+you\s+(?:can|wish))\b/;
+const NOT_THE_PRICE_AFTER = /^\s*(?:off\b|discount\b|(?:non-?refundable\s+)?(?:registration|deposit|application|enrollment|materials?|supply|supplies)\b)/;
+const NOT_THE_PRICE_BEFORE = /(?:save|discount(?:\s+of)?|registration(?:\s+fee)?|deposit(?:\s+of)?|materials?(?:\s+fee)?|supply\s+fee|fee\s+of)\s*[:(]?\s*$/;
+
+interface AmountMatch {
+  index: number;
+  end: number;
+  min: number;
+  max?: number;
+  currency?: string;
+}
+
+/**
+ * Parse a price from free text or a number.
+ */
+export function parsePrice(input: string | number | null | undefined): ParsedPrice {
+  if (input === null || input === undefined) return unknownPrice();
+  if (typeof input === 'number') return numericPrice(input, 0.5);
+
+  const text = input
+    .toLowerCase()
+    .replace(/[\u2012-\u2015\u2212]/g, '-')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return unknownPrice();
+
+  // Numeric columns arrive as strings ("150.00")
+  const bare = text.match(/^([$€£])?\s*(\d+(?:\.\d+)?)$/);
+  if (bare) {
+    return { ...numericPrice(parseFloat(bare[2]), bare[1] ? 0.6 : 0.5), currency: bare[1] ? CURRENCY_SYMBOLS[bare[1]] : DEFAULT_CURRENCY };
+  }
+
+  const candidates = findAmounts(text);
+  const prices = candidates.filter(candidate => !isFeeOrDiscount(text, candidate));
+  const chosen = prices.find(candidate => candidate.max !== undefined || candidate.min > 0) ?? prices[0];
+
+  if (!chosen || (chosen.min === 0 && chosen.max === undefined)) {
+    if (chosen || FREE.test(text)) return { free: true, currency: DEFAULT_CURRENCY, confidence: 0.9 };
+    if (DONATION.test(text)) return { free: true, currency: DEFAULT_CURRENCY, confidence: 0.7 };
+    return unknownPrice();
+  }
+
+  // The unit is stated after the amount, before the next one, or as an adverb before it ("Monthly tuition $210")
+  const previous = prices.filter(candidate => candidate.index < chosen.index).pop();
+  const next = prices.find(candidate => candidate.index > chosen.index);
+  const following = text.slice(chosen.end, next?.index ?? text.length);
+  const sessions = findSessionCount(text);
+  const weeks = findProgramWeeks(text);
+  const unit = findUnit(following) ??
+               findUnitAdverb(text.slice(previous?.end ?? 0, chosen.index)) ??
+               (sessions || weeks ? 'program' : undefined);
+
+  const range = chosen.max !== undefined && chosen.max !== chosen.min
+    ? { min: Math.min(chosen.min, chosen.max), max: Math.max(chosen.min, chosen.max) }
+    : undefined;
+  const competing = prices.some(candidate => candidate.min !== chosen.min && candidate.min > 0);
+
+  let confidence = chosen.currency ? 0.6 : 0.4;
+  if (unit) confidence += 0.3;
+  if (unit === 'program' && (sessions || weeks)) confidence += 0.1;
+  if (competing) confidence -= 0.2;
+
+  return {
+    free: false,
+    amount: range ? undefined : chosen.min,
+    range,
+    currency: chosen.currency ?? DEFAULT_CURRENCY,
+    unit,
+    sessions: unit === 'program' ? sessions : undefined,
+    weeks: unit === 'program' ? weeks : undefined,
+    confidence: roundConfidence(Math.max(0.1, confidence)),
+  };
+}
+
+/**
+ * Convert a parsed price to scorer pricing.
+ *
+ * @param defaults.unit Unit to assume when the price doesn't state one
+ */
+export function toActivityPricing(parsed: ParsedPrice, defaults: { unit?: PriceUnit } = {}): ActivityMetadata['pricing'] {
+  if (parsed.free) return { type: 'free', confidence: parsed.confidence };
+
+  const unit = parsed.unit ?? defaults.unit ?? 'session';
+  return {
+    type: unit === 'month' ? 'per_month' : unit === 'week' ? 'per_week' : unit === 'year' || unit === 'program' ? 'per_program' : 'per_session',
+    amount: parsed.amount,
+    currency: parsed.amount !== undefined || parsed.range ? parsed.currency : undefined,
+    range: parsed.range,
+    sessions: parsed.sessions,
+    programWeeks: unit === 'year' ? 52 : parsed.weeks,
+    confidence: parsed.confidence,
+  };
+}
+
+/**
+ * Format a parsed price for display and embedding text, e.g. "$250/week" or
+ * "$1,200 for 10 sessions".
+ *
+ * @param fallback Returned when no price could be read
+ */
+export function formatPrice(parsed: ParsedPrice, fallback = 'Contact for pricing'): string {
+  if (parsed.free) return 'Free';
+  if (parsed.amount === undefined && !parsed.range) return fallback;
+
+  const money = parsed.range
+    ? `${formatAmount(parsed.range.min, parsed.currency)}-${formatAmount(parsed.range.max, parsed.currency)}`
+    : formatAmount(parsed.amount as number, parsed.currency);
+
+  switch (parsed.unit) {
+    case undefined:
+      return money;
+    case 'program':
+      return parsed.sessions ? `${money} for ${parsed.sessions} sessions` :
+             parsed.weeks ? `${money} for ${parsed.weeks} weeks` : `${money} per program`;
+    default:
+      return `${money}/${parsed.unit}`;
+  }
+}
+
+/**
+ * Format scorer pricing for display.
+ */
+export function formatActivityPricing(pricing: ActivityMetadata['pricing'], fallback = 'Price varies'): string {
+  const unit: PriceUnit = pricing.type === 'per_month' ? 'month' : pricing.type === 'per_week' ? 'week' :
+                          pricing.type === 'per_program' ? 'program' : 'session';
+  return formatPrice({
+    free: pricing.type === 'free',
+    amount: pricing.amount,
+    range: pricing.range,
+    currency: pricing.currency ?? DEFAULT_CURRENCY,
+    unit,
+    sessions: pricing.sessions,
+    weeks: pricing.programWeeks,
+    confidence: pricing.confidence ?? 0,
+  }, fallback);
+}
+
+function unknownPrice(): ParsedPrice {
+  return { free: false, currency: DEFAULT_CURRENCY, confidence: 0 };
+}
+
+function numericPrice(value: number, confidence: number): ParsedPrice {
+  if (!Number.isFinite(value) || value < 0) return unknownPrice();
+  if (value === 0) return { free: true, currency: DEFAULT_CURRENCY, confidence: roundConfidence(confidence + 0.3) };
+  return { free: false, amount: value, currency: DEFAULT_CURRENCY, confidence };
+}
+
+function findAmounts(text: string): AmountMatch[] {
+  const matches: AmountMatch[] = [];
+  for (const match of text.matchAll(SYMBOL_AMOUNT)) {
+    matches.push({
+      index: match.index!,
+      end: match.index! + match[0].length,
+      min: parseFloat(match[2]),
+      max: match[3] !== undefined ? parseFloat(match[3]) : undefined,
+      currency: CURRENCY_SYMBOLS[match[1]],
+    });
+  }
+  for (const match of text.matchAll(CODE_AMOUNT)) {
+    if (matches.some(existing => match.index! < existing.end && match.index! + match[0].length > existing.index)) continue; // "$250 USD"
+    matches.push({
+      index: match.index!,
+      end: match.index! + match[0].length,
+      min: parseFloat(match[1]),
+      max: match[2] !== undefined ? parseFloat(match[2]) : undefined,
+      currency: CURRENCY_CODES[match[3]],
+    });
+  }
+  if (matches.length === 0) {
+    for (const match of text.matchAll(UNIT_AMOUNT)) {
+      const end = match.index! + match[0].length;
+      if (!findUnit(text.slice(end))) continue; // "2 per week" style counts need a price unit after them
+      matches.push({ index: match.index!, end, min: parseFloat(match[1]) });
+    }
+  }
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+function isFeeOrDiscount(text: string, amount: AmountMatch): boolean {
+  return NOT_THE_PRICE_AFTER.test(text.slice(amount.end, amount.end + 40)) ||
+         NOT_THE_PRICE_BEFORE.test(text.slice(Math.max(0, amount.index - 30), amount.index));
+}
+
+function findUnit(following: string): PriceUnit | undefined {
+  // "per child per week" prices each child by the week
+  const rest = following.replace(/^\s*(?:\/|per|a|each)\s*(?:child|kid|person|student|participant|camper)\b/, '');
+  const connector = rest.match(/^\s*(?:\(\s*)?(?:\/\s*|per\s+|a\s+|an\s+|each\s+|every\s+|for\s+(?:the\s+|a\s+|one\s+|1\s+)?)?(.*)$/);
+  if (connector) {
+    const word = UNIT_WORDS.find(({ pattern }) => pattern.test(connector[1]));
+    if (word) return word.unit;
+    if (/^(?:full\s+|whole\s+|entire\s+)?(?:summer|week-long)/.test(connector[1])) return 'program';
+  }
+  return findUnitAdverb(rest.slice(0, 30));
+}
+
+function findUnitAdverb(text: string): PriceUnit | undefined {
+  return UNIT_ADVERBS.find(({ pattern }) => pattern.test(text))?.unit;
+}
+
+function findSessionCount(text: string): number | undefined {
+  const match = text.match(/\b(\d{1,3})\s*-?\s*(?:sessions?|classes|class(?=\s*(?:pack|card|package|series|punch))|lessons?|visits?|meetings?|practices)\b(?!\s*(?:\/|per|a|each)\s*(?:week|wk|month|day))/);
+  const count = match ? parseInt(match[1], 10) : undefined;
+  return count && count > 1 ? count : undefined;
+}
+
+function findProgramWeeks(text: string): number | undefined {
+  const match = text.match(/\b(\d{1,2})\s*-?\s*(?:weeks?|wks?)\b(?!\s*old)/);
+  const weeks = match ? parseInt(match[1], 10) : undefined;
+  return weeks && weeks > 0 ? weeks : undefined;
+}
+
+function roundConfidence(confidence: number): number {
+  return Math.round(Math.min(1, confidence) * 100) / 100;
+}
+
+function formatAmount(value: number, currency: string): string {
+  const symbol = Object.entries(CURRENCY_SYMBOLS).find(([, code]) => code === currency)?.[0];
+  const number = value.toLocaleString('en-US', { minimumFractionDigits: Number.isInteger(value) ? 0 : 2, maximumFractionDigits: 2 });
+  return symbol ? `${symbol}${number}` : `${number} ${currency}`;
+}
@@ -0,0 +1,353 @@
+/**
+ * Field-level confidence and provenance for parsed family profiles.
+ *
+ * WHY: Per-field provenance because:
+ * - One confidence number for the whole profile can't tell a parent which field to
+ *   check; an invented age and a misspelled interest look the same
+ * - The parsing prompt asks the model to estimate missing ages and fill in ZIPs, and
+ *   attemptProfileFixes silently substitutes defaults (every unknown age becomes 5)
+ * - Pointing at the words a value came from lets parents confirm it at a glance
+ *
+ * DESIGN DECISIONS:
+ * - Every leaf field gets a confidence, an origin (stated, inferred, defaulted,
+ *   corrected) and, when found, the span of the description it came from
+ * - Values are grounded by searching the description: names and numbers near each
+ *   other, interest stems, schedule and budget phrases
+ * - Defaults and corrections are reported by attemptProfileFixes itself, and fields
+ *   the model left out but schema defaults filled are found by comparing to its output
+ * - Fields below REVIEW_THRESHOLD need review; benign defaults (currency, flexibility)
+ *   sit at the threshold so they don't clutter the review
+ * - The free-form `notes` field is the parser's commentary, not data, and is skipped
+ */
+
+import type { FamilyProfile, FieldOrigin, FieldProvenance, ProfileProvenance } from '@/types/ai';
+import { normalizeLanguage } from './instruction-languages';
+
+/**
+ * A default or correction applied by automatic profile fixes.
+ */
+export interface FieldCorrection {
+  origin: Extract<FieldOrigin, 'defaulted' | 'corrected'>;
+  note: string;
+}
+
+type SourceSpan = NonNullable<FieldProvenance['span']>;
+
+/** Fields below this confidence are highlighted for review. */
+export const REVIEW_THRESHOLD = 0.6;
+
+const NUMBER_WORDS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen',
+];
+
+// Grade mentions that imply an age
+const GRADE = /\b(?:pre-?k|kindergarten|(?:1st|2nd|3rd|[4-9]th|1[0-2]th) grade|(?:first|second|third|fourth|fifth|sixth|seventh|eighth) grade)\b/i;
+
+const SLOT_PATTERNS: Record<string, RegExp> = {
+  weekday_morning: /\bweekday mornings?\b|\b(?:mon|tues|wednes|thurs|fri)day mornings?\b|\bbefore school\b/i,
+  weekday_afternoon: /\bafter[-\s]school\b|\bweekday afternoons?\b|\b(?:mon|tues|wednes|thurs|fri)day afternoons?\b|\bafternoons?\b/i,
+  weekday_evening: /\bweekday evenings?\b|\b(?:mon|tues|wednes|thurs|fri)day (?:evenings?|nights?)\b|\bevenings?\b|\bafter (?:work|dinner)\b/i,
+  weekend_morning: /\b(?:weekend|saturday|sunday) mornings?\b|\bweekends?\b|\bsaturdays?\b|\bsundays?\b/i,
+  weekend_afternoon: /\b(?:weekend|saturday|sunday) afternoons?\b|\bweekends?\b|\bsaturdays?\b|\bsundays?\b/i,
+  weekend_evening: /\b(?:weekend|saturday|sunday) (?:evenings?|nights?)\b/i,
+};
+
+const ROLE_WORDS = /\b(?:mom|mother|dad|father|parent|guardian|grand(?:ma|mother|pa|father)|nanny|caregiver|stepmom|stepdad)\b/i;
+const TRANSPORT_WORDS = /\bno car\b|\bdon'?t (?:have a car|drive)\b|\b(?:bus|transit|public transport(?:ation)?|bike|walk)\b/i;
+const TRAVEL_MODE_WORDS: Record<string, RegExp> = {
+  driving: /\bdrive\b|\bdriving\b|\bcar\b/i,
+  transit: /\bbus\b|\btransit\b|\btrain\b|\bpublic transport/i,
+  cycling: /\bbike\b|\bbiking\b|\bcycl/i,
+  walking: /\bwalk/i,
+};
+const PERIOD_WORDS: Record<string, RegExp> = {
+  month: /\bper month\b|\ba month\b|\bmonthly\b|\/\s?mo(?:nth)?\b/i,
+  week: /\bper week\b|\ba week\b|\bweekly\b|\/\s?w(?:ee)?k\b/i,
+  session: /\bper (?:class|session|lesson)\b|\ba (?:class|session|lesson)\b|\beach (?:class|session)\b/i,
+};
+
+/**
+ * Trace every field of a parsed profile back to the description.
+ *
+ * @param options.modelOutput The parser's raw output, to tell its values from schema defaults
+ * @param options.corrections Defaults and corrections applied by automatic fixes, by path
+ */
+export function traceProfileProvenance(
+  profile: FamilyProfile,
+  description: string,
+  options: { modelOutput?: unknown; corrections?: Record<string, FieldCorrection> } = {}
+): ProfileProvenance {
+  const provenance: ProfileProvenance = {};
+  const { modelOutput, corrections = {} } = options;
+
+  for (const [path, value] of leafFields(profile)) {
+    if (path === 'notes') continue;
+
+    let field = groundField(path, value, profile, description);
+    const correction = corrections[path];
+    if (correction) {
+      field = {
+        confidence: correction.origin === 'corrected' ? 0.4 : 0.2,
+        origin: correction.origin,
+        span: field.span,
+        note: correction.note,
+      };
+    } else if (modelOutput !== undefined && valueAt(modelOutput, path) === undefined) {
+      field = {
+        ...field,
+        origin: 'defaulted',
+        confidence: Math.min(field.confidence, REVIEW_THRESHOLD),
+        note: field.confidence < REVIEW_THRESHOLD ? 'Filled in with a default' : field.note,
+      };
+    }
+
+    provenance[path] = { ...field, confidence: round(field.confidence), needsReview: field.confidence < REVIEW_THRESHOLD };
+  }
+
+  return provenance;
+}
+
+/**
+ * Paths of fields that need review, in profile order.
+ */
+export function fieldsNeedingReview(provenance: ProfileProvenance): string[] {
+  return Object.keys(provenance).filter(path => provenance[path].needsReview);
+}
+
+/**
+ * Confidence, origin and span for one field, from the description alone.
+ */
+function groundField(
+  path: string,
+  value: unknown,
+  profile: FamilyProfile,
+  description: string
+): Omit<FieldProvenance, 'needsReview'> {
+  const text = String(value);
+  // "children.1.interests.0" -> "children.N.interests.N"
+  const field = path.replace(/\.\d+(?=\.|$)/g, '.N');
+
+  switch (field) {
+    case 'children.N.age':
+      return groundAge(Number(value), profile.children[Number(path.split('.')[1])]?.name, description);
+    case 'adults.N.name':
+      if (text === 'Parent') return defaulted('No name given');
+      return wordOrInferred(description, text, 0.95, 0.4, 'Name not found in your description');
+    case 'adults.N.role':
+      return patternOrInferred(description, ROLE_WORDS, 0.9, REVIEW_THRESHOLD);
+    case 'adults.N.email':
+    case 'adults.N.phone':
+    case 'children.N.name':
+      return wordOrInferred(description, text, 0.95, 0.4, 'Not found in your description');
+    case 'children.N.interests.N':
+      return stemOrInferred(description, text, 0.9, 0.5, 'Interest not mentioned; added by the parser');
+    case 'children.N.allergies.N':
+      return stemOrInferred(description, text, 0.9, 0.3, 'Allergy not mentioned; please confirm');
+    case 'children.N.specialNeeds':
+      return stemOrInferred(description, text, 0.85, 0.3, 'Not mentioned; please confirm');
+    case 'location.neighborhood':
+      return wordOrInferred(description, text, 0.95, 0.4, 'Neighborhood not found in your description');
+    case 'location.city': {
+      const span = wordSpan(description, text);
+      if (span) return stated(span, 0.95);
+      const neighborhood = profile.location.neighborhood ? wordSpan(description, profile.location.neighborhood) : undefined;
+      return neighborhood
+        ? { confidence: 0.8, origin: 'inferred', span: neighborhood, note: `Inferred from ${neighborhood.text}` }
+        : inferred(0.4, 'City not found in your description');
+    }
+    case 'location.zipCode': {
+      const span = wordSpan(description, text);
+      if (span) return stated(span, 0.95);
+      const neighborhood = profile.location.neighborhood ? wordSpan(description, profile.location.neighborhood) : undefined;
+      return neighborhood
+        ? { confidence: 0.7, origin: 'inferred', span: neighborhood, note: `Looked up from ${neighborhood.text}` }
+        : inferred(0.3, 'ZIP code not found in your description');
+    }
+    case 'location.transportationNeeds':
+      if (value !== true) return inferred(REVIEW_THRESHOLD);
+      return patternOrInferred(description, TRANSPORT_WORDS, 0.85, 0.4, 'Not mentioned; please confirm');
+    case 'location.travelMode':
+      return patternOrInferred(description, TRAVEL_MODE_WORDS[text], 0.85, 0.5, 'Travel mode not mentioned');
+    case 'preferences.budget.min':
+    case 'preferences.budget.max': {
+      const span = numberSpan(description, Number(value));
+      return span ? stated(span, 0.9) : inferred(0.3, 'Budget amount not found in your description');
+    }
+    case 'preferences.budget.currency':
+      return patternOrInferred(description, /[$€£]|\bdollars?\b/i, 0.9, REVIEW_THRESHOLD);
+    case 'preferences.budget.period':
+      return patternOrInferred(description, PERIOD_WORDS[text], 0.9, 0.5, `Assumed the budget is per ${text}`);
+    case 'preferences.schedule.N':
+    case 'preferences.scheduleConstraints.timeSlots.N':
+      return patternOrInferred(description, SLOT_PATTERNS[text], 0.85, 0.4, `${text.replace('_', ' ')} not mentioned`);
+    case 'preferences.scheduleConstraints.specificTimes.earliestStart':
+    case 'preferences.scheduleConstraints.specificTimes.latestEnd': {
+      const hour = text.match(/^(\d{1,2})(?::(\d{2}))?/);
+      const span = hour ? spanOf(description, new RegExp(String.raw`\b${hour[1]}(?::${hour[2] ?? '00'})?(?!\d)\s*(?:[ap]\.?m\.?)?`, 'i')) : undefined;
+      return span ? stated(span, 0.85) : inferred(0.4, 'Time not found in your description');
+    }
+    case 'preferences.scheduleConstraints.specificTimes.preferredDuration': {
+      const span = numberSpan(description, Number(value));
+      return span ? stated(span, 0.8) : inferred(0.5, 'Duration not mentioned');
+    }
+    case 'preferences.scheduleConstraints.flexibility':
+      return patternOrInferred(description, /\bflexib(?:le|ility)\b|\bstrict\b|\bonly\b/i, 0.8, REVIEW_THRESHOLD);
+    case 'preferences.scheduleConstraints.restrictions.N':
+      return stemOrInferred(description, text, 0.8, 0.5, 'Restriction not mentioned');
+    case 'preferences.activityTypes.N':
+      // Usually derived from the children's interests, which is expected
+      return stemOrInferred(description, text, 0.85, REVIEW_THRESHOLD);
+    case 'preferences.languages.N': {
+      const language = normalizeLanguage(text) ?? text;
+      const span = wordSpan(description, language) ?? wordSpan(description, text);
+      return span ? stated(span, 0.9) : inferred(REVIEW_THRESHOLD);
+    }
+    default:
+      return stemOrInferred(description, text, 0.8, 0.5, 'Not found in your description');
+  }
+}
+
+/**
+ * An age is stated when its number sits next to the child's name, weaker when it
+ * appears elsewhere, and inferred from a grade or estimated otherwise.
+ */
+function groundAge(age: number, name: string | undefined, description: string): Omit<FieldProvenance, 'needsReview'> {
+  const value = String.raw`(?:${age}|${NUMBER_WORDS[age] ?? age})`;
+  const ageText = new RegExp(String.raw`(?<![$\d.:])\b${value}\b(?!\s*(?::\d|[ap]\.?m\b|%|\d))`, 'gi');
+
+  if (name) {
+    for (const sentence of sentencesMentioning(description, name)) {
+      const match = [...sentence.text.matchAll(ageText)][0];
+      if (match) return stated(spanAt(description, sentence.start + match.index!, match[0]), 0.95);
+      const grade = sentence.text.match(GRADE);
+      if (grade) {
+        return {
+          confidence: 0.65,
+          origin: 'inferred',
+          span: spanAt(description, sentence.start + grade.index!, grade[0]),
+          note: `Estimated from "${grade[0]}"`,
+        };
+      }
+    }
+  }
+
+  const anywhere = [...description.matchAll(ageText)][0];
+  if (anywhere) {
+    return { confidence: 0.7, origin: 'stated', span: spanAt(description, anywhere.index!, anywhere[0]), note: name ? `Check this is ${name}'s age` : undefined };
+  }
+  return inferred(0.3, name ? `${name}'s age wasn't mentioned; this is an estimate` : 'Age not mentioned; this is an estimate');
+}
+
+function stated(span: SourceSpan, confidence: number): Omit<FieldProvenance, 'needsReview'> {
+  return { confidence, origin: 'stated', span };
+}
+
+function inferred(confidence: number, note?: string): Omit<FieldProvenance, 'needsReview'> {
+  return { confidence, origin: 'inferred', note: confidence < REVIEW_THRESHOLD ? note : undefined };
+}
+
+function defaulted(note: string): Omit<FieldProvenance, 'needsReview'> {
+  return { confidence: 0.2, origin: 'defaulted', note };
+}
+
+function patternOrInferred(description: string, pattern: RegExp | undefined, found: number, missing: number, note?: string) {
+  const span = pattern ? spanOf(description, pattern) : undefined;
+  return span ? stated(span, found) : inferred(missing, note);
+}
+
+function wordOrInferred(description: string, text: string, found: number, missing: number, note: string) {
+  const span = wordSpan(description, text);
+  return span ? stated(span, found) : inferred(missing, note);
+}
+
+function stemOrInferred(description: string, text: string, found: number, missing: number, note?: string) {
+  const span = wordSpan(description, text) ?? stemSpan(description, text);
+  return span ? stated(span, found) : inferred(missing, note);
+}
+
+/**
+ * The value as whole words, case-insensitively.
+ */
+function wordSpan(description: string, text: string): SourceSpan | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  return spanOf(description, new RegExp(String.raw`(?<![\w])${escapeRegExp(trimmed)}(?![\w])`, 'i'));
+}
+
+/**
+ * Any significant word of the value by its stem: "swimming" finds "swim", "dinosaurs"
+ * finds "dinosaur".
+ */
+function stemSpan(description: string, text: string): SourceSpan | undefined {
+  const stems = text.toLowerCase().split(/[^a-z]+/)
+    .filter(word => word.length >= 3 && !['and', 'the', 'for', 'with'].includes(word))
+    .map(word => word.replace(/(?:ing|ers|er|es|s)$/, ''))
+    .filter(stem => stem.length >= 3);
+  for (const stem of stems) {
+    const span = spanOf(description, new RegExp(String.raw`\b${escapeRegExp(stem)}\w*`, 'i'));
+    if (span) return span;
+  }
+  return undefined;
+}
+
+/**
+ * A budget amount, tolerating "$1,200" and "1200".
+ */
+function numberSpan(description: string, amount: number): SourceSpan | undefined {
+  if (!Number.isFinite(amount)) return undefined;
+  const digits = String(amount).replace(/\B(?=(\d{3})+(?!\d))/g, ',?');
+  return spanOf(description, new RegExp(String.raw`(?<![\d.,])\$?${digits}(?![\d])`));
+}
+
+function spanOf(description: string, pattern: RegExp): SourceSpan | undefined {
+  const match = description.match(pattern);
+  return match && match.index !== undefined ? spanAt(description, match.index, match[0]) : undefined;
+}
+
+function spanAt(description: string, start: number, text: string): SourceSpan {
+  return { start, end: start + text.length, text };
+}
+
+function sentencesMentioning(description: string, name: string): Array<{ start: number; text: string }> {
+  const sentences: Array<{ start: number; text: string }> = [];
+  const pattern = /[^.!?\n]+[.!?\n]*/g;
+  const nameWord = new RegExp(String.raw`\b${escapeRegExp(name)}\b`, 'i');
+  for (const match of description.matchAll(pattern)) {
+    const nameMatch = match[0].match(nameWord);
+    if (!nameMatch) continue;
+    // Read from the name onward first: "Emma (7) and Jake (10)" gives Jake 10, not 7
+    const offset = nameMatch.index!;
+    sentences.push({ start: match.index! + offset, text: match[0].slice(offset) });
+    sentences.push({ start: match.index!, text: match[0] });
+  }
+  return sentences;
+}
+
+/**
+ * Every primitive in the profile with its dotted path; array items get their index.
+ */
+function leafFields(value: unknown, prefix = ''): Array<[string, unknown]> {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => leafFields(item, `${prefix}.${index}`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, child]) => leafFields(child, prefix ? `${prefix}.${key}` : key));
+  }
+  return value === undefined || value === null ? [] : [[prefix, value]];
+}
+
+function valueAt(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
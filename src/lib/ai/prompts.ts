@@ -32,8 +32,10 @@ import {
   type FamilyProfile,
   type TaskExtraction,
   type Recommendation,
-  type SearchEnhancement
+  type SearchEnhancement,
+  type Season
 } from '@/types/ai';
+import { seasonForDate } from './date-window';
 
 // Activity recommendation schema for AI responses
 export const ActivityRecommendationSchema = z.object({
@@ -45,25 +47,8 @@ export const ActivityRecommendationSchema = z.object({
 
 export type ActivityRecommendation = z.infer<typeof ActivityRecommendationSchema>;
 
-/**
- * Generate system prompt for family profile parsing from natural language.
- */
-export function createFamilyParsingPrompt(userInput: string): {
-  system: string;
-  user: string;
-} {
-  return {
-    system: `You are an expert family profile parser for Recess, a family activity platform. Your job is to extract structured family information from natural language descriptions.
-
-CONTEXT: Recess helps families find activities, classes, camps, and events for children in the Austin, Texas metro area. Parents describe their families and needs in various ways - sometimes formal, sometimes casual.
-
-TASK: Parse the user's input into a structured family profile JSON that matches our system schema. Be intelligent about inferring missing information while staying accurate to what was provided.
-
-PARSING GUIDELINES:
-1. ADULTS: Extract parent/guardian names, contact info, and roles
-2. CHILDREN: Parse names, ages (estimate if needed), interests, special needs, allergies (ALWAYS include empty arrays for missing data)
-3. LOCATION: Extract EXACT location as mentioned - DO NOT change or infer different locations. AUTOMATICALLY add ZIP codes for Austin metro neighborhoods:
-   - Westlake Hills: 78746
+// ZIP codes the parser adds for Austin metro neighborhoods
+const AUSTIN_NEIGHBORHOOD_ZIPS = `   - Westlake Hills: 78746
    - Hyde Park: 78751  
    - Zilker: 78704
    - Mueller: 78723
@@ -83,7 +68,38 @@ PARSING GUIDELINES:
    - Pflugerville: 78660
    - Georgetown: 78626
    - Leander: 78641
-   - Lakeway: 78734
+   - Lakeway: 78734`;
+
+const SCHEDULE_PARSING_RULES = `- "after school", "after 3pm", "weekday afternoons" → ["weekday_afternoon"]
+- "before school", "early morning", "weekday mornings" → ["weekday_morning"]  
+- "evenings", "after 5pm", "after work", "weekday evenings" → ["weekday_evening"]
+- "weekend mornings", "Saturday morning", "Sunday morning", "before 11am", "before noon" → ["weekend_morning"]
+- "weekend afternoons", "Saturday afternoon", "Sunday afternoon", "after lunch" → ["weekend_afternoon"]
+- "weekend evenings", "Saturday evening", "Sunday evening", "after dinner" → ["weekend_evening"]
+- "weekends only" → ["weekend_morning", "weekend_afternoon"] 
+- "weekdays only" → ["weekday_morning", "weekday_afternoon", "weekday_evening"]
+- "flexible" or no specific time → ["weekday_afternoon", "weekend_morning", "weekend_afternoon"]
+- Pay attention to CONSTRAINTS: "can only do", "must be", "no mornings", "not available", "only before", "only after"`;
+
+/**
+ * Generate system prompt for family profile parsing from natural language.
+ */
+export function createFamilyParsingPrompt(userInput: string): {
+  system: string;
+  user: string;
+} {
+  return {
+    system: `You are an expert family profile parser for Recess, a family activity platform. Your job is to extract structured family information from natural language descriptions.
+
+CONTEXT: Recess helps families find activities, classes, camps, and events for children in the Austin, Texas metro area. Parents describe their families and needs in various ways - sometimes formal, sometimes casual.
+
+TASK: Parse the user's input into a structured family profile JSON that matches our system schema. Be intelligent about inferring missing information while staying accurate to what was provided.
+
+PARSING GUIDELINES:
+1. ADULTS: Extract parent/guardian names, contact info, and roles
+2. CHILDREN: Parse names, ages (estimate if needed), interests, special needs, allergies (ALWAYS include empty arrays for missing data)
+3. LOCATION: Extract EXACT location as mentioned - DO NOT change or infer different locations. AUTOMATICALLY add ZIP codes for Austin metro neighborhoods:
+${AUSTIN_NEIGHBORHOOD_ZIPS}
    If no city mentioned, assume Austin, Texas.
 4. PREFERENCES: Infer budget ranges, schedule preferences, activity types, languages (ALWAYS include empty arrays for missing data)
 5. INTERESTS: Map casual descriptions to structured categories (sports, arts, STEM, music, etc.)
@@ -100,18 +116,11 @@ INFERENCE RULES:
 - If age is "middle school", estimate 12-14 years old
 - Map activity descriptions to standard categories: "soccer" → "sports", "painting" → "arts", "coding" → "STEM"
 - Estimate budget ranges conservatively if mentioned
+- Budget max is for the whole household: "$200 per month per kid" with two kids → {"max": 400, "period": "month"}
+- Set budget period to "month", "week" or "session" when the parent says how often they pay
 
 SCHEDULE PARSING RULES (CRITICAL FOR MATCHING):
-- "after school", "after 3pm", "weekday afternoons" → ["weekday_afternoon"]
-- "before school", "early morning", "weekday mornings" → ["weekday_morning"]  
-- "evenings", "after 5pm", "after work", "weekday evenings" → ["weekday_evening"]
-- "weekend mornings", "Saturday morning", "Sunday morning", "before 11am", "before noon" → ["weekend_morning"]
-- "weekend afternoons", "Saturday afternoon", "Sunday afternoon", "after lunch" → ["weekend_afternoon"]
-- "weekend evenings", "Saturday evening", "Sunday evening", "after dinner" → ["weekend_evening"]
-- "weekends only" → ["weekend_morning", "weekend_afternoon"] 
-- "weekdays only" → ["weekday_morning", "weekday_afternoon", "weekday_evening"]
-- "flexible" or no specific time → ["weekday_afternoon", "weekend_morning", "weekend_afternoon"]
-- Pay attention to CONSTRAINTS: "can only do", "must be", "no mornings", "not available", "only before", "only after"
+${SCHEDULE_PARSING_RULES}
 
 RESPONSE FORMAT: Return ONLY valid JSON matching the FamilyProfileSchema. No explanations or additional text.
 
@@ -128,7 +137,7 @@ OUTPUT:
   ],
   "location": {"neighborhood": "Westlake Hills", "city": "Austin", "zipCode": "78746"},
   "preferences": {
-    "budget": {"max": 400, "currency": "USD"},
+    "budget": {"max": 400, "currency": "USD", "period": "month"},
     "schedule": ["weekday_afternoon"],
     "activityTypes": ["arts", "dance", "sports", "STEM"],
     "languages": ["English"]
@@ -227,8 +236,63 @@ Return only valid JSON matching the schema. Be thorough but accurate.`,
   };
 }
 
+/**
+ * Generate prompts for refining a rule-based draft of a family profile.
+ *
+ * The draft already holds what rules can read (names, stated ages, ZIP or neighborhood,
+ * budget, schedule phrases), so the model only fixes and completes it. Without the
+ * worked examples the prompt is a fraction of the full parsing prompt's size.
+ */
+export function createFamilyRefinementPrompt(userInput: string, draft: unknown): {
+  system: string;
+  user: string;
+} {
+  return {
+    system: `You refine family profiles for Recess, a family activity platform in the Austin, Texas metro area. A rule-based parser has already read a parent's description into a draft profile. Check the draft against the description and return the corrected, complete profile.
+
+REFINEMENT RULES:
+- Keep draft values the description supports; fix ones it contradicts
+- Add what the rules missed: other adults, children's interests, special needs, allergies, activity types, notes
+- Children without an "age" need one: use a stated grade or stage ("preschooler" 3-5, "elementary" 6-11, "middle school" 12-14); otherwise estimate
+- Map casual interests to categories in activityTypes: "soccer" → "sports", "painting" → "arts", "coding" → "STEM"
+- Budget max is for the whole household, with period "month", "week" or "session" when stated
+- Add ZIP codes for Austin neighborhoods; if no city is mentioned, assume Austin:
+${AUSTIN_NEIGHBORHOOD_ZIPS}
+
+SCHEDULE RULES:
+${SCHEDULE_PARSING_RULES}
+
+REQUIRED FIELDS:
+- Every child has "name", "age" (integer 0-18), "interests" and "allergies" arrays
+- Adult "role" is "parent", "guardian" or "caregiver"
+- preferences has "activityTypes" and "languages" arrays (use ["English"] by default)
+- preferences.schedule uses only: "weekday_morning", "weekday_afternoon", "weekday_evening", "weekend_morning", "weekend_afternoon", "weekend_evening"
+
+RESPONSE FORMAT: Return ONLY the complete profile as valid JSON with keys adults, children, location, preferences and optional notes. No explanations.`,
+
+    user: `DESCRIPTION:
+${userInput}
+
+DRAFT PROFILE:
+${JSON.stringify(draft)}
+
+Return the refined profile as JSON.`,
+  };
+}
+
+// What each Austin season means for activity choices
+const SEASONAL_CONTEXT: Record<Season, string> = {
+  summer: 'Indoor activities, swimming, early morning programs to avoid heat',
+  fall: 'Outdoor sports, hiking, park programs, back-to-school activities',
+  winter: 'Indoor activities, holiday camps, mild outdoor programs',
+  spring: 'Baseball, outdoor camps, pre-summer activities, garden programs'
+};
+
 /**
  * Generate prompts for activity recommendations using vector search results.
+ *
+ * @param timing Season (and date window, if the family gave one) the activities are for;
+ *   defaults to the current season
  */
 export function createRecommendationPrompt(
   familyProfile: FamilyProfile,
@@ -248,7 +312,8 @@ export function createRecommendationPrompt(
     };
   }>,
   maxRecommendations: number = 10,
-  recommendationType?: 'family' | 'all_kids' | string
+  recommendationType?: 'family' | 'all_kids' | string,
+  timing: { season: Season; window?: string } = { season: seasonForDate(new Date()) }
 ): {
   system: string;
   user: string;
@@ -264,7 +329,8 @@ export function createRecommendationPrompt(
   ].filter(Boolean).join(', ') || 'Not specified';
 
   const budgetSummary = familyProfile.preferences?.budget ? 
-    `$${familyProfile.preferences.budget.min || 0}-${familyProfile.preferences.budget.max || 'unlimited'} ${familyProfile.preferences.budget.currency}` :
+    `$${familyProfile.preferences.budget.min || 0}-${familyProfile.preferences.budget.max || 'unlimited'} ${familyProfile.preferences.budget.currency}` +
+      (familyProfile.preferences.budget.period ? ` per ${familyProfile.preferences.budget.period} for the household` : '') :
     'Not specified';
 
   // Create recommendation type-specific instructions
@@ -410,7 +476,7 @@ ${familyProfile.preferences?.languages?.length ? `- Languages: ${familyProfile.p
 ${familyProfile.notes ? `- Additional notes: ${familyProfile.notes}` : ''}
 
 AUSTIN LOGISTICS CONSIDERATIONS:
-- Current season: Consider seasonal weather patterns and activity availability
+- Season: ${timing.season}${timing.window ? ` (activities needed for ${timing.window})` : ''} - ${SEASONAL_CONTEXT[timing.season]}
 - Traffic patterns: Avoid rush hour commutes (7-9am, 4-7pm), minimize river crossings
 - Neighborhood context: Match activities to local community preferences and culture
 - School calendar: Factor in AISD, RRISD, LEISD schedules and holiday breaks
@@ -438,7 +504,7 @@ Analyze these results and return up to ${maxRecommendations} recommendations wit
 export function createActivitySearchPrompt(
   familyProfile: FamilyProfile,
   originalQuery: string,
-  currentSeason: 'summer' | 'fall' | 'winter' | 'spring' = 'summer'
+  currentSeason: Season = seasonForDate(new Date())
 ): {
   system: string;
   user: string;
@@ -452,12 +518,7 @@ export function createActivitySearchPrompt(
   const childrenAges = familyProfile.children.map(child => child.age);
   const ageRange = `${Math.min(...childrenAges)}-${Math.max(...childrenAges)} years old`;
   
-  const seasonalContext = {
-    summer: 'Indoor activities, swimming, early morning programs to avoid heat',
-    fall: 'Outdoor sports, hiking, park programs, back-to-school activities',
-    winter: 'Indoor activities, holiday camps, mild outdoor programs',
-    spring: 'Baseball, outdoor camps, pre-summer activities, garden programs'
-  }[currentSeason];
+  const seasonalContext = SEASONAL_CONTEXT[currentSeason];
 
   return {
     system: `You are an Austin-specific activity search query enhancer. Your job is to take natural language family requests and optimize them for Austin's unique activity landscape and practical considerations.
@@ -642,6 +703,43 @@ Extract all actionable tasks, assess sentiment and urgency, and provide a clear
   };
 }
 
+/**
+ * Generate prompts for reranking candidate activities against a family's search query.
+ */
+export function createRerankPrompt(
+  searchQuery: string,
+  candidates: Array<{ id: number; text: string }>
+): {
+  system: string;
+  user: string;
+} {
+  return {
+    system: `You are a relevance judge for a family activity search engine. Given what a family is looking for and a numbered list of activities, rate how well each activity fits the family.
+
+SCORING SCALE (0-10):
+- 10: Exactly what the family asked for (right activity, right ages, practical fit)
+- 7: Strong fit with minor gaps
+- 4: Related but a weak fit (different activity type or borderline ages)
+- 0: Not suitable (wrong age group, unrelated activity, adults only)
+
+REQUIREMENTS:
+- Judge only from the text provided; do not invent details
+- Age suitability outweighs everything else
+- Score every activity exactly once
+
+RESPONSE FORMAT: Return ONLY valid JSON:
+{"scores": [{"id": 1, "score": 8}, {"id": 2, "score": 3}]}`,
+
+    user: `FAMILY SEARCH:
+${searchQuery}
+
+ACTIVITIES:
+${candidates.map(candidate => `${candidate.id}. ${candidate.text}`).join('\n')}
+
+Rate all ${candidates.length} activities.`,
+  };
+}
+
 /**
  * Generate error handling prompts for when AI responses need correction.
  */
@@ -0,0 +1,332 @@
+/**
+ * Counterfactual diagnosis: why a provider did not appear in a family's recommendations.
+ *
+ * WHY: Provider diagnosis because:
+ * - Parents and providers ask why a specific provider is missing, and nobody can answer
+ *   without reproducing the search locally
+ * - The answer depends on which pipeline stage dropped the provider (filters, vector
+ *   retrieval, score thresholds, final selection), not just on its scores
+ * - "What would have to change" is more useful than "it scored 0.41"
+ *
+ * DESIGN DECISIONS:
+ * - The engine traces the provider through the real pipeline; this module only holds the
+ *   trace types, the payload filter check and the candidate changes
+ * - Candidate changes are single edits (one filter, one preference, one option), listed
+ *   smallest first; the engine re-runs the pipeline for each and only a change that
+ *   actually includes the provider is reported as the smallest change
+ * - Changes never touch facts about the family (children's ages, home location); those
+ *   are reported as blockers instead
+ */
+
+import type { FamilyProfile, RankingProfileName, RankingWeights, RetrievalMode, ScoringExplanation } from '@/types/ai';
+import type { RecommendationFilters, ScoredRecommendation } from './recommendation-engine';
+import { RANKING_PROFILES } from './ranking-profiles';
+
+/**
+ * Pipeline stage a provider reached, in pipeline order.
+ * - not_found: no active provider with this ID
+ * - filtered: excluded by the Qdrant payload filter built from the request filters, or by
+ *   the distance radius applied to vector search, or the neighborhood, distance,
+ *   travel-time, availability or strict date-window filters applied while scoring
+ * - not_retrieved: outside the candidate window of vector (or hybrid) retrieval
+ * - below_threshold: retrieved but dropped by the ranking profile's score thresholds
+ * - outranked: scored, but other providers filled the requested limit
+ * - included: appears in the final recommendations
+ */
+export type DiagnosisStage = 'not_found' | 'filtered' | 'not_retrieved' | 'below_threshold' | 'outranked' | 'included';
+
+/**
+ * Settings that shape one pipeline run.
+ */
+export interface DiagnosisSettings {
+  familyProfile: FamilyProfile;
+  filters: RecommendationFilters;
+  limit: number;
+  diversityWeight: number;
+  recommendationType?: string;
+  rankingProfile?: RankingProfileName;
+  rankingWeights?: Partial<RankingWeights>;
+  retrievalMode: RetrievalMode;
+}
+
+/**
+ * The provider's best activity, as the scorers see it.
+ */
+export interface DiagnosedActivity {
+  programId?: string;
+  name: string;
+  category: string;
+  ageRange: { min: number; max: number };
+  interests: string[];
+  timeSlots: string[];
+  price?: number;
+}
+
+export interface ProviderTrace {
+  stage: DiagnosisStage;
+  filters: {
+    enforced: boolean; // Payload filters are only applied when Qdrant filtering is enabled; scoring filters always are
+    passed: boolean;
+    excludedBy: FilterKey[];
+  };
+  retrieval: {
+    retrieved: boolean;
+    candidateWindow: number;
+    vectorRank?: number; // 1-based rank in a wide vector search, when within it
+    vectorSimilarity?: number;
+  };
+  scoring?: {
+    matchScore: number;
+    vectorSimilarity: number;
+    ranking: ScoredRecommendation['ranking'];
+    failedThresholds: string[];
+    explanation?: ScoringExplanation;
+  };
+  selection?: {
+    scoredRank: number; // 1-based rank by match score among all scored providers
+    scoredProviders: number;
+    requiredLimit?: number; // Smallest limit that would include the provider
+    cutoffScore?: number; // Match score of the last provider that made the list
+  };
+  activity?: DiagnosedActivity;
+  blockers: string[]; // Reasons no edit to preferences or filters can fix
+}
+
+export interface DiagnosisChange {
+  kind: 'remove_filter' | 'schedule' | 'budget' | 'interest' | 'child_focus' | 'keyword' | 'ranking_profile' | 'limit';
+  description: string;
+  edits: Array<{ path: string; from?: unknown; to: unknown }>;
+  settings: DiagnosisSettings;
+}
+
+export interface CounterfactualResult {
+  kind: DiagnosisChange['kind'];
+  description: string;
+  edits: DiagnosisChange['edits'];
+  included: boolean;
+  stage: DiagnosisStage;
+}
+
+export interface ProviderDiagnosis {
+  providerId: string;
+  providerName?: string;
+  stage: DiagnosisStage;
+  summary: string;
+  trace: ProviderTrace;
+  smallestChange?: CounterfactualResult;
+  counterfactuals: CounterfactualResult[]; // Every change tried, smallest first
+}
+
+export type FilterKey = 'ageRanges' | 'categories' | 'interests' | 'budgetRange' | 'neighborhood' | 'maxDistance' | 'maxTravelMinutes' | 'onlyAvailable' | 'dateWindow' | 'specialNeeds' | 'languages';
+
+// Request filters that buildQdrantFilter turns into payload conditions
+export const PAYLOAD_FILTER_KEYS: FilterKey[] = ['ageRanges', 'categories', 'interests', 'budgetRange'];
+
+// Request filters the engine applies while scoring, regardless of Qdrant filtering
+export const SCORING_FILTER_KEYS: FilterKey[] = ['neighborhood', 'maxDistance', 'maxTravelMinutes', 'onlyAvailable', 'dateWindow', 'specialNeeds', 'languages'];
+
+// Largest candidate window the engine retrieves for a ranked list
+const MAX_CANDIDATE_WINDOW = 50;
+
+/**
+ * Evaluate a filter built by buildQdrantFilter against an activity payload.
+ * Supports the condition shapes that builder emits: bool must/should, match and range.
+ */
+export function matchesPayloadFilter(condition: Record<string, any>, payload: Record<string, any>): boolean {
+  if (condition.bool) {
+    const must: Array<Record<string, any>> = condition.bool.must || [];
+    const should: Array<Record<string, any>> = condition.bool.should || [];
+    return must.every(inner => matchesPayloadFilter(inner, payload)) &&
+           (should.length === 0 || should.some(inner => matchesPayloadFilter(inner, payload)));
+  }
+
+  if (condition.match) {
+    const value = readPath(payload, condition.match.key);
+    const expected = String(condition.match.value).toLowerCase();
+    return Array.isArray(value)
+      ? value.some(item => String(item).toLowerCase() === expected)
+      : value !== undefined && String(value).toLowerCase() === expected;
+  }
+
+  if (condition.range) {
+    const value = readPath(payload, condition.range.key);
+    if (typeof value !== 'number') return false;
+    return (condition.range.lte === undefined || value <= condition.range.lte) &&
+           (condition.range.gte === undefined || value >= condition.range.gte);
+  }
+
+  return true;
+}
+
+/**
+ * Candidate single changes that could bring the provider into the results, smallest first.
+ */
+export function buildCandidateChanges(trace: ProviderTrace, settings: DiagnosisSettings, providerName?: string): DiagnosisChange[] {
+  if (trace.stage === 'included' || trace.stage === 'not_found') return [];
+
+  const changes: DiagnosisChange[] = [];
+  const { familyProfile, filters } = settings;
+  const activity = trace.activity;
+
+  // 1. Drop a filter that excludes the provider
+  for (const key of enforcedExclusions(trace)) {
+    const { [key]: removed, ...remainingFilters } = filters;
+    changes.push({
+      kind: 'remove_filter',
+      description: `Remove the ${key} filter`,
+      edits: [{ path: `filters.${key}`, from: removed, to: undefined }],
+      settings: { ...settings, filters: remainingFilters },
+    });
+  }
+
+  if (activity) {
+    const familySlots = familyProfile.preferences?.schedule || [];
+    const newSlot = activity.timeSlots.find(slot => !familySlots.includes(slot as typeof familySlots[number]));
+    if (newSlot && familySlots.length > 0) {
+      const schedule = [...familySlots, newSlot] as NonNullable<FamilyProfile['preferences']['schedule']>;
+      changes.push({
+        kind: 'schedule',
+        description: `Add ${newSlot.replace('_', ' ')} to the family's available times`,
+        edits: [{ path: 'familyProfile.preferences.schedule', from: familySlots, to: schedule }],
+        settings: withPreferences(settings, { schedule }),
+      });
+    }
+
+    // The household budget at which the activity's cost fits its children's share
+    const budgetMax = familyProfile.preferences?.budget?.max;
+    const spend = trace.scoring?.explanation?.budget;
+    const budgetNeeded = spend?.householdCost !== undefined && spend.budgetShare && budgetMax
+      ? Math.ceil((spend.householdCost * budgetMax) / spend.budgetShare)
+      : activity.price !== undefined ? Math.ceil(activity.price) : undefined;
+    if (budgetNeeded !== undefined && budgetMax !== undefined && budgetNeeded > budgetMax) {
+      changes.push({
+        kind: 'budget',
+        description: `Raise the budget from $${budgetMax} to $${budgetNeeded}`,
+        edits: [{ path: 'familyProfile.preferences.budget.max', from: budgetMax, to: budgetNeeded }],
+        settings: withPreferences(settings, {
+          budget: { currency: 'USD', ...familyProfile.preferences.budget, max: budgetNeeded },
+        }),
+      });
+    }
+
+    const familyInterests = [
+      ...familyProfile.children.flatMap(child => child.interests),
+      ...(familyProfile.preferences?.activityTypes || []),
+    ].map(interest => interest.toLowerCase());
+    const newInterest = [activity.category, ...activity.interests]
+      .filter(interest => interest && interest !== 'General')
+      .find(interest => !familyInterests.some(existing => existing.includes(interest.toLowerCase()) || interest.toLowerCase().includes(existing)));
+    if (newInterest) {
+      const activityTypes = [...(familyProfile.preferences?.activityTypes || []), newInterest];
+      changes.push({
+        kind: 'interest',
+        description: `Add "${newInterest}" to the family's preferred activity types`,
+        edits: [{ path: 'familyProfile.preferences.activityTypes', from: familyProfile.preferences?.activityTypes || [], to: activityTypes }],
+        settings: withPreferences(settings, { activityTypes }),
+      });
+    }
+
+    // Family-wide recommendations average the age fit; a single child may fit on their own
+    const targetedChild = settings.recommendationType && !['family', 'all_kids'].includes(settings.recommendationType);
+    if (!targetedChild && familyProfile.children.length > 1) {
+      const fittingChild = familyProfile.children.find(child =>
+        child.age >= activity.ageRange.min && child.age <= activity.ageRange.max
+      );
+      if (fittingChild && !familyProfile.children.every(child => child.age >= activity.ageRange.min && child.age <= activity.ageRange.max)) {
+        changes.push({
+          kind: 'child_focus',
+          description: `Recommend for ${fittingChild.name} only`,
+          edits: [{ path: 'recommendationType', from: settings.recommendationType, to: fittingChild.name }],
+          settings: { ...settings, recommendationType: fittingChild.name },
+        });
+      }
+    }
+  }
+
+  // 2. Exact-name retrieval through full-text search
+  if (trace.stage === 'not_retrieved' && providerName) {
+    const keywords = [...(filters.keywords || []), providerName];
+    changes.push({
+      kind: 'keyword',
+      description: `Search for "${providerName}" by name (hybrid retrieval)`,
+      edits: [
+        { path: 'filters.keywords', from: filters.keywords, to: keywords },
+        { path: 'options.retrievalMode', from: settings.retrievalMode, to: 'hybrid' },
+      ],
+      settings: { ...settings, filters: { ...filters, keywords }, retrievalMode: 'hybrid' },
+    });
+  }
+
+  // 3. Another named ranking profile
+  if (trace.stage === 'below_threshold' || trace.stage === 'outranked') {
+    for (const profile of Object.keys(RANKING_PROFILES) as RankingProfileName[]) {
+      if (profile === (settings.rankingProfile || 'balanced')) continue;
+      changes.push({
+        kind: 'ranking_profile',
+        description: `Use the ${profile} ranking profile`,
+        edits: [{ path: 'options.rankingProfile', from: settings.rankingProfile, to: profile }],
+        settings: { ...settings, rankingProfile: profile },
+      });
+    }
+  }
+
+  // 4. Show more results
+  const requiredLimit = trace.stage === 'outranked' ? trace.selection?.requiredLimit :
+                        trace.stage === 'not_retrieved' && trace.retrieval.vectorRank !== undefined &&
+                        trace.retrieval.vectorRank <= MAX_CANDIDATE_WINDOW ? Math.ceil(trace.retrieval.vectorRank / 2) : undefined;
+  if (requiredLimit !== undefined && requiredLimit > settings.limit) {
+    changes.push({
+      kind: 'limit',
+      description: `Request ${requiredLimit} results instead of ${settings.limit}`,
+      edits: [{ path: 'options.limit', from: settings.limit, to: requiredLimit }],
+      settings: { ...settings, limit: requiredLimit },
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Filters that exclude the provider and are actually applied by the pipeline.
+ */
+export function enforcedExclusions(trace: ProviderTrace): FilterKey[] {
+  return trace.filters.excludedBy.filter(key => trace.filters.enforced || SCORING_FILTER_KEYS.includes(key));
+}
+
+/**
+ * One-line summary of where the provider dropped out.
+ */
+export function summarizeTrace(trace: ProviderTrace, providerName: string = 'This provider'): string {
+  switch (trace.stage) {
+    case 'not_found':
+      return `${providerName} was not found or is inactive`;
+    case 'filtered': {
+      const excludedBy = enforcedExclusions(trace);
+      return `${providerName} is excluded by the ${excludedBy.join(', ')} filter${excludedBy.length === 1 ? '' : 's'}`;
+    }
+    case 'not_retrieved':
+      return trace.retrieval.vectorRank !== undefined
+        ? `${providerName} ranked #${trace.retrieval.vectorRank} by vector similarity, outside the top ${trace.retrieval.candidateWindow} candidates`
+        : `${providerName} was not among the vector search candidates`;
+    case 'below_threshold':
+      return `${providerName} was retrieved but dropped by score thresholds: ${trace.scoring?.failedThresholds.join('; ') || 'match score below the 0.2 floor'}`;
+    case 'outranked':
+      return `${providerName} scored ${trace.scoring?.matchScore.toFixed(2)} (#${trace.selection?.scoredRank} of ${trace.selection?.scoredProviders}) but the list was filled by providers scoring at least ${trace.selection?.cutoffScore?.toFixed(2)}`;
+    case 'included':
+      return `${providerName} is included in the recommendations`;
+  }
+}
+
+function withPreferences(settings: DiagnosisSettings, preferences: Partial<FamilyProfile['preferences']>): DiagnosisSettings {
+  return {
+    ...settings,
+    familyProfile: {
+      ...settings.familyProfile,
+      preferences: { ...settings.familyProfile.preferences, ...preferences },
+    },
+  };
+}
+
+function readPath(payload: Record<string, any>, path: string): any {
+  return path.split('.').reduce<any>((value, key) => (value === null || value === undefined ? undefined : value[key]), payload);
+}
@@ -0,0 +1,196 @@
+/**
+ * Named ranking profiles for the recommendation engine.
+ *
+ * WHY: Pluggable ranking profiles because:
+ * - Different families prioritize different things (distance, cost, interests)
+ * - Product needs to tune ranking without code changes or redeploys
+ * - Hard-coded weights inside the scorers made experiments impossible to compare
+ * - Echoing the weights actually used makes every result reproducible
+ *
+ * DESIGN DECISIONS:
+ * - Profiles carry both weights and thresholds so a profile fully describes a ranking
+ * - Custom weights are partial overrides on top of a named profile
+ * - Practical weights are normalized at scoring time, so they needn't sum to 1
+ * - The lightweight scorer (the /recommendations path) has its own weights: it only sees
+ *   vector payloads, has no provider quality signal, and 'balanced' must keep its
+ *   original formula (vector .4, age .3, location .25, budget .2, interests .15, schedule .1)
+ * - 'balanced' keeps the engine's original weights and thresholds on both paths
+ */
+
+import type {
+  RankingWeights,
+  RankingThresholds,
+  RankingProfileName,
+} from '@/types/ai';
+
+export interface RankingProfile {
+  name: RankingProfileName;
+  description: string;
+  weights: RankingWeights;
+  lightweightWeights?: RankingWeights; // Lightweight scorer weights, when they differ from `weights`
+  thresholds: RankingThresholds;
+}
+
+/**
+ * Ranking profile after applying request overrides.
+ */
+export interface ResolvedRankingProfile extends RankingProfile {
+  lightweightWeights: RankingWeights; // Quality is always 0: lightweight scoring has no quality signal
+  customized: boolean;
+}
+
+const DEFAULT_THRESHOLDS: RankingThresholds = {
+  minVectorSimilarity: 0.3,
+  minAgeScore: 0.3,
+  minMatchScore: 0.3,
+  detailedExplanationScore: 0.7,
+};
+
+export const RANKING_PROFILES: Record<RankingProfileName, RankingProfile> = {
+  'balanced': {
+    name: 'balanced',
+    description: 'Age and interest fit first, with location and schedule as tie-breakers',
+    weights: {
+      vector: 0.3,
+      age: 0.25,
+      interests: 0.2,
+      location: 0.1,
+      schedule: 0.1,
+      budget: 0.03,
+      quality: 0.02,
+    },
+    lightweightWeights: {
+      vector: 0.4,
+      age: 0.3,
+      interests: 0.15,
+      location: 0.25,
+      schedule: 0.1,
+      budget: 0.2,
+      quality: 0,
+    },
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+  'closest-first': {
+    name: 'closest-first',
+    description: 'Prefers activities near the family, for families without flexible transportation',
+    weights: {
+      vector: 0.25,
+      age: 0.25,
+      interests: 0.15,
+      location: 0.35,
+      schedule: 0.1,
+      budget: 0.03,
+      quality: 0.02,
+    },
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+  'budget-first': {
+    name: 'budget-first',
+    description: 'Prefers free and in-budget activities over closer or more specific matches',
+    weights: {
+      vector: 0.25,
+      age: 0.25,
+      interests: 0.15,
+      location: 0.1,
+      schedule: 0.08,
+      budget: 0.35,
+      quality: 0.02,
+    },
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+  'interest-first': {
+    name: 'interest-first',
+    description: 'Prefers activities that match stated interests even if they are further away',
+    weights: {
+      vector: 0.35,
+      age: 0.25,
+      interests: 0.35,
+      location: 0.05,
+      schedule: 0.07,
+      budget: 0.03,
+      quality: 0.02,
+    },
+    thresholds: {
+      ...DEFAULT_THRESHOLDS,
+      minVectorSimilarity: 0.35,
+    },
+  },
+};
+
+export const DEFAULT_RANKING_PROFILE: RankingProfileName = 'balanced';
+
+/**
+ * Resolve a named profile plus optional weight/threshold overrides.
+ *
+ * @param profileName Named profile, defaults to 'balanced'
+ * @param overrides Partial weights/thresholds that replace the profile's values
+ * @returns Profile with the weights and thresholds that will actually be used
+ */
+export function resolveRankingProfile(
+  profileName: RankingProfileName = DEFAULT_RANKING_PROFILE,
+  overrides: {
+    weights?: Partial<RankingWeights>;
+    thresholds?: Partial<RankingThresholds>;
+  } = {}
+): ResolvedRankingProfile {
+  const base = RANKING_PROFILES[profileName] || RANKING_PROFILES[DEFAULT_RANKING_PROFILE];
+  const weightOverrides = stripUndefined(overrides.weights);
+  const thresholdOverrides = stripUndefined(overrides.thresholds);
+
+  const weights = { ...base.weights, ...weightOverrides };
+  const lightweightWeights = { ...(base.lightweightWeights ?? base.weights), ...weightOverrides, quality: 0 };
+  if (practicalWeightTotal(weights) <= 0 || practicalWeightTotal(lightweightWeights) <= 0) {
+    throw new Error('Invalid ranking weights: at least one practical weight other than quality must be greater than 0');
+  }
+
+  return {
+    ...base,
+    weights,
+    lightweightWeights,
+    thresholds: { ...base.thresholds, ...thresholdOverrides },
+    customized: Object.keys(weightOverrides).length > 0 || Object.keys(thresholdOverrides).length > 0,
+  };
+}
+
+/**
+ * Combine individual factor scores into practical and overall match scores.
+ */
+export function combineRankingScores(
+  weights: RankingWeights,
+  vectorSimilarity: number,
+  scores: {
+    age: number;
+    interests: number;
+    location: number;
+    schedule: number;
+    budget: number;
+    quality: number;
+  }
+): { practicalScore: number; matchScore: number } {
+  const practicalTotal = practicalWeightTotal(weights);
+
+  const practicalScore = (
+    scores.age * weights.age +
+    scores.interests * weights.interests +
+    scores.location * weights.location +
+    scores.schedule * weights.schedule +
+    scores.budget * weights.budget +
+    scores.quality * weights.quality
+  ) / practicalTotal;
+
+  const matchScore = vectorSimilarity * weights.vector + practicalScore * (1 - weights.vector);
+
+  return { practicalScore, matchScore };
+}
+
+function practicalWeightTotal(weights: RankingWeights): number {
+  return weights.age + weights.interests + weights.location +
+    weights.schedule + weights.budget + weights.quality;
+}
+
+function stripUndefined<T extends object>(value?: Partial<T>): Partial<T> {
+  if (!value) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,172 @@
+/**
+ * Redis-backed result cache for the recommendation engine.
+ *
+ * WHY: Result caching because:
+ * - Identical family profiles re-run the embedding step, Qdrant search and Postgres queries
+ * - Demo and onboarding flows resubmit the same profile many times
+ * - Cached results keep response times predictable when Qdrant is slow
+ *
+ * DESIGN DECISIONS:
+ * - Canonicalized keys: Key order, array order and whitespace don't change the key
+ * - SHA-256 hashing: Keeps Redis keys short regardless of profile size
+ * - Provider index sets: Each cached entry is registered under every provider it contains,
+ *   so a provider's data or embedding change can drop exactly the affected entries
+ * - Graceful degradation: All operations go through safeRedisOperation and fall back
+ *   to "no cache" when Redis is unavailable
+ */
+
+import crypto from 'crypto';
+import { safeRedisOperation, createCacheKey } from '../redis/client';
+
+/**
+ * Default result cache TTL in seconds (30 minutes).
+ * Override with RECOMMENDATION_CACHE_TTL or per engine/request.
+ */
+export const DEFAULT_RECOMMENDATION_CACHE_TTL = 1800;
+
+/**
+ * Kinds of cached recommendation results.
+ */
+export type RecommendationCacheKind = 'full' | 'lightweight' | 'bundles' | 'sibling-plans';
+
+/**
+ * Resolve the configured result cache TTL.
+ */
+export function getRecommendationCacheTtl(override?: number): number {
+  if (override !== undefined && override > 0) {
+    return Math.floor(override);
+  }
+
+  const envTtl = parseInt(process.env.RECOMMENDATION_CACHE_TTL || '', 10);
+  if (!isNaN(envTtl) && envTtl > 0) {
+    return envTtl;
+  }
+
+  return DEFAULT_RECOMMENDATION_CACHE_TTL;
+}
+
+/**
+ * Canonicalize a value so that semantically identical inputs serialize identically.
+ *
+ * - Object keys are sorted, undefined/null/empty values are dropped
+ * - Strings are trimmed and whitespace-collapsed
+ * - Arrays of primitives are sorted (interest or schedule order has no meaning)
+ */
+export function canonicalize(value: any): any {
+  if (value === null || value === undefined) return undefined;
+
+  if (typeof value === 'string') {
+    const normalized = value.trim().replace(/\s+/g, ' ');
+    return normalized.length > 0 ? normalized : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(canonicalize).filter(item => item !== undefined);
+    if (items.length === 0) return undefined;
+    if (items.every(item => typeof item !== 'object')) {
+      return [...items].sort((a, b) => String(a).localeCompare(String(b)));
+    }
+    return items;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      const canonical = canonicalize(value[key]);
+      if (canonical !== undefined) {
+        result[key] = canonical;
+      }
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Create the Redis key for a recommendation result.
+ */
+export function createRecommendationCacheKey(kind: RecommendationCacheKind, input: Record<string, any>): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify(canonicalize(input) ?? {}))
+    .digest('hex')
+    .slice(0, 32);
+  return createCacheKey('recommendations', kind, hash);
+}
+
+/**
+ * Create the Redis key for a provider's index set.
+ */
+function createProviderIndexKey(providerId: string): string {
+  return createCacheKey('recommendations', 'provider', providerId);
+}
+
+/**
+ * Read a cached recommendation result.
+ */
+export async function getCachedRecommendationResult<T>(cacheKey: string): Promise<T | null> {
+  return safeRedisOperation(
+    async (redis) => {
+      const cached = await redis.get(cacheKey);
+      return cached ? (JSON.parse(cached) as T) : null;
+    },
+    null
+  );
+}
+
+/**
+ * Store a recommendation result and register it under each provider it contains.
+ */
+export async function setCachedRecommendationResult(
+  cacheKey: string,
+  result: unknown,
+  providerIds: string[],
+  ttl: number
+): Promise<void> {
+  await safeRedisOperation(
+    async (redis) => {
+      await redis.setEx(cacheKey, ttl, JSON.stringify(result));
+
+      for (const providerId of new Set(providerIds)) {
+        const indexKey = createProviderIndexKey(providerId);
+        await redis.sAdd(indexKey, cacheKey);
+        // Index outlives the entries it points to; stale members are harmless
+        await redis.expire(indexKey, ttl);
+      }
+
+      console.log(`Cached recommendations: ${cacheKey} (${providerIds.length} providers, TTL: ${ttl}s)`);
+    },
+    null
+  );
+}
+
+/**
+ * Invalidate every cached recommendation result that includes a provider.
+ *
+ * Call when a provider's data, events or embeddings change.
+ *
+ * @returns Number of cached results removed
+ */
+export async function invalidateProviderRecommendations(providerId: string): Promise<number> {
+  return safeRedisOperation(
+    async (redis) => {
+      const indexKey = createProviderIndexKey(providerId);
+      const cacheKeys = await redis.sMembers(indexKey);
+
+      let removed = 0;
+      if (cacheKeys.length > 0) {
+        removed = await redis.del(cacheKeys);
+      }
+      await redis.del(indexKey);
+
+      console.log(`Invalidated ${removed} cached recommendation results for provider ${providerId}`);
+      return removed;
+    },
+    0
+  );
+}
@@ -27,17 +27,164 @@
 
 import { getAIClient, createAICacheKey } from './openai-client';
 import { getLocalEmbeddingsClient, createLocalEmbeddingCacheKey } from '@/lib/embeddings/local-embeddings-client';
-import { createQdrantClient, QdrantClient, QdrantSearchResult } from '@/lib/embeddings/qdrant-client';
-import { FamilyProfile } from '@/types/ai';
+import { createQdrantClient, GEO_PAYLOAD_KEY, QdrantClient, QdrantSearchResult } from '@/lib/embeddings/qdrant-client';
+import {
+  FamilyProfile,
+  RerankOptionsSchema,
+  RecommendationBundleOptionsSchema,
+  SiblingPlanOptionsSchema,
+  WeeklyScheduleOptionsSchema,
+  type RankingProfileName,
+  type RankingWeights,
+  type RetrievalMode,
+  type RerankMethod,
+  type RerankOptions,
+  type RecommendationBundleOptions,
+  type SiblingPlanOptions,
+  type WeeklyScheduleOptions,
+  type AgeRangeSource,
+  type ScoringExplanation,
+  type NeighborhoodFilter,
+  type TravelMode,
+  type Availability,
+  type DateWindowFilter,
+  type BudgetPeriod,
+  type HouseholdSpend,
+  type ScheduleConstraint,
+  type Accommodation,
+  type ActivityAccommodations,
+} from '@/types/ai';
 import { 
   getRecommendationProviders, 
+  searchProvidersFullText,
   extractUniqueIds,
   type RecommendationProvider 
 } from '@/lib/db/queries/providers';
+import { getActiveMarkets } from '@/lib/db/queries/markets';
+import { Geocoder } from '@/lib/geo/geocoder';
+import { getNeighborhoodIndex, type Neighborhood, type NeighborhoodIndex } from '@/lib/geo/neighborhoods';
 import { 
   LightweightRecommendation, 
-  LightweightRecommendationResult 
+  LightweightRecommendationResult,
+  LightweightRecommendationBundlesResult,
 } from '@/types/ai';
+import {
+  createRecommendationCacheKey,
+  getCachedRecommendationResult,
+  setCachedRecommendationResult,
+  getRecommendationCacheTtl,
+  invalidateProviderRecommendations,
+  type RecommendationCacheKind,
+} from './recommendation-cache';
+import {
+  resolveRankingProfile,
+  combineRankingScores,
+  type ResolvedRankingProfile,
+} from './ranking-profiles';
+import {
+  buildLexicalSearchTerms,
+  lexicalResultsToCandidates,
+  fuseWithReciprocalRank,
+  type RetrievedCandidate,
+} from './hybrid-retrieval';
+import {
+  rerankCandidates,
+  getCrossEncoderReranker,
+  LLMReranker,
+  type Reranker,
+  type RerankSummary,
+} from './reranker';
+import { buildSiblingPlans, type SiblingPlan } from './sibling-scheduling';
+import { optimizeWeeklySchedule, FLEXIBILITY_SLACK_MINUTES, type WeeklyScheduleResult } from './schedule-optimizer';
+import {
+  createTravelTimeFunction,
+  estimateTravelMinutes,
+  getTravelTimeEstimator,
+  isRushHourSlot,
+  type TravelDestination,
+  type TravelTimeEstimate,
+  type TravelTimeEstimator,
+  type TravelTimeFunction,
+} from './travel-time';
+import { computeAvailability, availabilityMultiplier, isAvailable, describeAvailability } from './availability';
+import {
+  resolveDateWindow,
+  parseActivityDates,
+  isExpired,
+  relateToWindow,
+  dateWindowMultiplier,
+  describeDateWindow,
+  formatLocalDate,
+  type ActivityDates,
+  type DateWindow,
+  type DateWindowRelation,
+} from './date-window';
+import {
+  parseSiblingDiscount,
+  priceForPeriod,
+  householdCost,
+  spendScore,
+  formatSpend,
+  accumulateHouseholdSpend,
+  type SiblingDiscount,
+} from './household-budget';
+import { parsePrice, toActivityPricing } from './price-parser';
+import {
+  accommodationsFromPayload,
+  childAccommodationNeeds,
+  describeAccommodations,
+  matchAccommodations,
+  meetsRequirements,
+  parseAccommodations,
+  requiredAccommodations,
+  satisfiedBy,
+  type AccommodationMatch,
+} from './accommodations';
+import {
+  buildLanguageFilter,
+  describeLanguageMatch,
+  isTaughtIn,
+  matchLanguages,
+  normalizeLanguages,
+  type LanguageMatch,
+} from './instruction-languages';
+import {
+  scheduleFromEvent,
+  scheduleFromText,
+  availabilityWindows,
+  overlapMinutes,
+  timeSlotFor,
+  normalizeDay,
+  parseTimeToMinutes,
+  formatInterval,
+  ASSUMED_SESSION_MINUTES,
+  type ScheduleInterval,
+} from './schedule-parser';
+import {
+  ageRangeFromFields,
+  matchEventAgeRange,
+  matchProviderAgeRange,
+  parseAgeRange,
+  type AgeRangeMatch,
+} from './age-range-parser';
+import {
+  PAYLOAD_FILTER_KEYS,
+  matchesPayloadFilter,
+  buildCandidateChanges,
+  enforcedExclusions,
+  summarizeTrace,
+  type DiagnosedActivity,
+  type FilterKey,
+  type DiagnosisSettings,
+  type ProviderDiagnosis,
+  type ProviderTrace,
+  type CounterfactualResult,
+} from './provider-diagnosis';
+
+// Qdrant payload filters are built but not sent until their JSON serialization issue is fixed
+const QDRANT_PAYLOAD_FILTERS_ENABLED = false;
+
+const METERS_PER_MILE = 1609.344;
 
 export interface ActivityMetadata {
   providerId: string;
@@ -54,6 +201,7 @@ export interface ActivityMetadata {
   location: {
     neighborhood?: string;
     city?: string;
+    state?: string;
     zipCode?: string;
     address?: string;
     coordinates?: { lat: number; lng: number };
@@ -63,12 +211,18 @@ export interface ActivityMetadata {
     times: string[];
     recurring?: boolean;
     flexibility?: 'fixed' | 'flexible' | 'very_flexible';
+    intervals?: ScheduleInterval[]; // Weekly meetings with known times; days/times summarize them
   };
+  accommodations?: ActivityAccommodations; // Parsed from listing text
   pricing: {
-    type: 'per_session' | 'per_month' | 'per_program' | 'free';
+    type: 'per_session' | 'per_week' | 'per_month' | 'per_program' | 'free';
     amount?: number;
     currency?: string;
     range?: { min: number; max: number };
+    sessions?: number; // Sessions a per_program price covers
+    programWeeks?: number; // Length of a per_program activity
+    siblingDiscount?: SiblingDiscount;
+    confidence?: number; // 0-1, how clearly the price was stated
   };
   provider: {
     name: string;
@@ -94,6 +248,8 @@ export interface ActivityMetadata {
 
 export interface RecommendationFilters {
   maxDistance?: number; // miles
+  maxTravelMinutes?: number; // One-way, estimated in travelMode
+  travelMode?: TravelMode; // Overrides the family's travel mode
   budgetRange?: { min?: number; max?: number };
   schedule?: string[]; // e.g., ['weekday_afternoon', 'weekend_morning']
   ageRanges?: Array<{ min: number; max: number }>;
@@ -102,6 +258,10 @@ export interface RecommendationFilters {
   languages?: string[];
   specialNeeds?: string[];
   transportationRequired?: boolean;
+  keywords?: string[]; // Exact terms for hybrid retrieval, e.g. provider names
+  neighborhood?: Partial<NeighborhoodFilter>; // Inside (or next to) a neighborhood's boundary
+  onlyAvailable?: boolean; // Hide full and waitlisted programs
+  dateWindow?: DateWindowFilter; // When the family needs activities
 }
 
 export interface ScoredRecommendation {
@@ -109,10 +269,13 @@ export interface ScoredRecommendation {
   programId?: string;
   matchScore: number; // 0-1
   vectorSimilarity: number; // 0-1 from Qdrant
+  lexicalScore?: number; // 0-1 from full-text search, hybrid retrieval only
   practicalScore: number; // 0-1 from practical factors
   matchReasons: string[];
   concerns: string[];
   metadata: ActivityMetadata;
+  availability?: Availability;
+  householdSpend?: HouseholdSpend; // With a budget and a known price
   ranking: {
     overall: number;
     age: number;
@@ -121,7 +284,37 @@ export interface ScoredRecommendation {
     schedule: number;
     budget: number;
     quality: number;
+    rerank?: number; // 0-1 from the reranking stage, top candidates only
   };
+  scoring?: ScoringExplanation; // Raw scorer inputs, only when explain is requested
+}
+
+/**
+ * External services the engine depends on.
+ *
+ * WHY: Injectable dependencies so the engine can run against local stand-ins
+ * (offline evaluation, a local Qdrant/Postgres) without touching production services.
+ * Anything omitted falls back to the shared production clients.
+ */
+export interface RecommendationEngineDependencies {
+  qdrantClient?: Pick<QdrantClient, 'search' | 'healthCheck' | 'collectionExists'>;
+  aiClient?: Pick<ReturnType<typeof getAIClient>, 'createEmbedding' | 'createChatCompletion' | 'cleanup'>;
+  localEmbeddingsClient?: Pick<
+    ReturnType<typeof getLocalEmbeddingsClient>,
+    'createOpenAICompatibleEmbedding' | 'isAvailable' | 'cleanup'
+  >;
+  getProviders?: typeof getRecommendationProviders;
+  searchFullText?: typeof searchProvidersFullText;
+  getMarkets?: typeof getActiveMarkets;
+  travelTimeEstimator?: TravelTimeEstimator;
+  rerankers?: Partial<Record<RerankMethod, Reranker>>;
+}
+
+export interface RetrievalSummary {
+  mode: RetrievalMode;
+  vectorResults: number;
+  lexicalResults: number;
+  fusedResults: number;
 }
 
 export interface RecommendationResult {
@@ -132,29 +325,145 @@ export interface RecommendationResult {
     filtersApplied: string[];
     searchQuery: string;
     embedding?: number[];
+    ranking?: {
+      profile: string;
+      customized: boolean;
+      weights: RankingWeights;
+      thresholds: ResolvedRankingProfile['thresholds'];
+    };
+    retrieval?: RetrievalSummary;
+    rerank?: RerankSummary;
+  };
+  performance: {
+    vectorSearchMs: number;
+    scoringMs: number;
+    rerankMs?: number;
+    totalMs: number;
+    cacheHit: boolean;
+  };
+}
+
+export interface SiblingPlanResult {
+  plans: SiblingPlan[];
+  searchMetadata: {
+    searchQuery: string;
+    vectorSearchResults: number;
+    filtersApplied: string[];
+    candidatesPerChild: Record<string, number>; // Age-appropriate candidates scored for each child
+    ranking?: RecommendationResult['searchMetadata']['ranking'];
+    retrieval?: RetrievalSummary;
   };
   performance: {
     vectorSearchMs: number;
     scoringMs: number;
+    planningMs: number;
     totalMs: number;
     cacheHit: boolean;
   };
 }
 
+export interface WeeklyScheduleRecommendationResult {
+  schedule: WeeklyScheduleResult;
+  searchMetadata: {
+    searchQuery: string;
+    vectorSearchResults: number;
+    filtersApplied: string[];
+    candidates: number; // Age-appropriate activities offered to the optimizer
+    ranking?: RecommendationResult['searchMetadata']['ranking'];
+    retrieval?: RetrievalSummary;
+  };
+  performance: {
+    vectorSearchMs: number;
+    scoringMs: number;
+    planningMs: number;
+    totalMs: number;
+  };
+}
+
+/**
+ * Location score with the comparison that produced it.
+ */
+interface LocationScoreDetail {
+  score: number;
+  method: ScoringExplanation['location']['method'];
+  distanceMiles?: number;
+  travel?: ScoringExplanation['location']['travel'];
+  familyCoordinates?: { lat: number; lng: number };
+  familyCoordinateSource: ScoringExplanation['location']['familyCoordinateSource'];
+  neighborhood?: ScoringExplanation['location']['neighborhood'];
+}
+
+/**
+ * Schedule score with the overlap behind it, when meeting times are known.
+ */
+interface ScheduleScoreDetail {
+  score: number;
+  availableShare?: number; // Share of meeting time inside the family's hours
+  durationMinutes?: number; // Average meeting length, when end times are listed
+}
+
+/**
+ * Budget score with the household spend that produced it.
+ */
+interface BudgetScoreDetail {
+  score: number;
+  period?: BudgetPeriod;
+  perChildCost?: number;
+  children: number;
+  householdCost?: number;
+  budgetShare?: number;
+}
+
+/**
+ * Where the family lives, as location scoring resolves it.
+ */
+interface FamilyLocationDetail {
+  geocoded: ReturnType<Geocoder['geocode']>;
+  coordinates?: { lat: number; lng: number };
+  coordinateSource: ScoringExplanation['location']['familyCoordinateSource'];
+  homeNeighborhood?: Neighborhood;
+}
+
+/**
+ * Travel times from the family's location to every candidate, estimated before scoring.
+ */
+interface TravelTimes {
+  mode: TravelMode;
+  estimates: Map<string, TravelTimeEstimate>; // By travelKey()
+}
+
 /**
  * Recommendation engine that combines vector similarity search with practical filters.
  */
 export class RecommendationEngine {
-  private qdrantClient: QdrantClient;
-  private aiClient: ReturnType<typeof getAIClient>;
-  private localEmbeddingsClient: ReturnType<typeof getLocalEmbeddingsClient>;
+  private qdrantClient: NonNullable<RecommendationEngineDependencies['qdrantClient']>;
+  private aiClient: NonNullable<RecommendationEngineDependencies['aiClient']>;
+  private localEmbeddingsClient: NonNullable<RecommendationEngineDependencies['localEmbeddingsClient']>;
+  private getProviders: typeof getRecommendationProviders;
+  private searchFullText: typeof searchProvidersFullText;
+  private geocoder: Geocoder;
+  private neighborhoods: NeighborhoodIndex;
+  private travelTimeEstimator: TravelTimeEstimator;
+  private rerankers: Partial<Record<RerankMethod, Reranker>>;
   private collectionName: string;
-
-  constructor(collectionName: string = 'recess_embeddings') {
-    this.qdrantClient = createQdrantClient();
-    this.aiClient = getAIClient();
-    this.localEmbeddingsClient = getLocalEmbeddingsClient();
+  private cacheTtl: number;
+
+  constructor(
+    collectionName: string = 'recess_embeddings',
+    options: { cacheTtl?: number; dependencies?: RecommendationEngineDependencies } = {}
+  ) {
+    const dependencies = options.dependencies || {};
+    this.qdrantClient = dependencies.qdrantClient || createQdrantClient();
+    this.aiClient = dependencies.aiClient || getAIClient();
+    this.localEmbeddingsClient = dependencies.localEmbeddingsClient || getLocalEmbeddingsClient();
+    this.getProviders = dependencies.getProviders || getRecommendationProviders;
+    this.searchFullText = dependencies.searchFullText || searchProvidersFullText;
+    this.geocoder = new Geocoder(dependencies.getMarkets || getActiveMarkets);
+    this.neighborhoods = getNeighborhoodIndex();
+    this.travelTimeEstimator = dependencies.travelTimeEstimator || getTravelTimeEstimator();
+    this.rerankers = dependencies.rerankers || {};
     this.collectionName = collectionName;
+    this.cacheTtl = getRecommendationCacheTtl(options.cacheTtl);
   }
 
   /**
@@ -168,7 +477,13 @@ export class RecommendationEngine {
       diversityWeight?: number; // 0-1, higher = more diverse results
       filters?: RecommendationFilters;
       cacheResults?: boolean;
+      cacheTtl?: number; // seconds, overrides the engine default
       recommendationType?: string; // 'family', 'all_kids', or child name
+      rankingProfile?: RankingProfileName;
+      rankingWeights?: Partial<RankingWeights>; // overrides on top of rankingProfile
+      retrievalMode?: RetrievalMode; // 'vector' (default) or 'hybrid' vector + full-text
+      rerank?: Partial<RerankOptions>; // rerank top candidates; omitted = no reranking
+      explain?: boolean; // attach the raw scorer inputs to each recommendation
     } = {}
   ): Promise<RecommendationResult> {
     const startTime = Date.now();
@@ -178,10 +493,32 @@ export class RecommendationEngine {
       diversityWeight = 0.3,
       filters = {},
       cacheResults = true,
+      cacheTtl,
       recommendationType,
+      rankingProfile: rankingProfileName,
+      rankingWeights,
+      retrievalMode = 'vector',
+      explain = false,
     } = options;
 
     try {
+      const rankingProfile = resolveRankingProfile(rankingProfileName, { weights: rankingWeights });
+      const rerankOptions = options.rerank ? RerankOptionsSchema.parse(options.rerank) : undefined;
+
+      // 0. Serve identical requests from the result cache
+      const resultCacheKey = this.createResultCacheKey('full', familyProfile, filters, {
+        limit, includeScore, diversityWeight, recommendationType, retrievalMode, explain,
+        ranking: this.describeRankingProfile(rankingProfile),
+        rerank: rerankOptions,
+      });
+      if (cacheResults) {
+        const cached = await getCachedRecommendationResult<RecommendationResult>(resultCacheKey);
+        if (cached) {
+          console.log(`Recommendation cache hit: ${resultCacheKey}`);
+          return this.reviveCachedRecommendations(cached, startTime);
+        }
+      }
+
       // 1. Generate search query and embedding
       const { searchQuery, embedding, cacheHit: embeddingCacheHit } = await this.generateSearchEmbedding(
         familyProfile,
@@ -209,10 +546,11 @@ export class RecommendationEngine {
       console.log(`Embedding validation passed: ${embedding.length} dimensions, sample values: [${embedding.slice(0, 3).map(v => v.toFixed(4)).join(', ')}, ..., ${embedding.slice(-3).map(v => v.toFixed(4)).join(', ')}]`);
       
       // Add timeout protection to vector search
-      const vectorResults = await Promise.race([
-        this.performVectorSearch(
+      const { candidates: vectorResults, summary: retrieval } = await Promise.race([
+        this.retrieveCandidates(
           embedding,
-          { limit: Math.floor(Math.min(limit * 2, 50)), filters } // Ensure limit is always an integer for Qdrant
+          familyProfile,
+          { limit: Math.floor(Math.min(limit * 2, 50)), filters, retrievalMode, recommendationType } // Ensure limit is always an integer for Qdrant
         ),
         new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Vector search timeout: Qdrant search exceeded 5 seconds')), 5000)
@@ -234,7 +572,7 @@ export class RecommendationEngine {
         providerIds.splice(20); // Limit to first 20 providers
       }
       
-      const databaseProviders = await getRecommendationProviders(
+      const databaseProviders = await this.getProviders(
         providerIds, 
         eventIds.length > 0 ? eventIds.slice(0, 50) : undefined // Limit events too
       );
@@ -248,15 +586,26 @@ export class RecommendationEngine {
         vectorResults,
         familyProfile,
         filters,
-        { includeScore, diversityWeight, recommendationType }
+        { includeScore, diversityWeight, recommendationType, rankingProfile, explain }
       );
       const scoringMs = Date.now() - scoringStartTime;
 
-      // 6. Select final recommendations
-      const finalRecommendations = this.selectDiverseRecommendations(
-        scoredRecommendations,
-        limit,
-        diversityWeight
+      // 6. Optionally rerank the top candidates against the search query
+      let rankedRecommendations = scoredRecommendations;
+      let rerank: RerankSummary | undefined;
+      if (rerankOptions && scoredRecommendations.length > 1) {
+        ({ candidates: rankedRecommendations, summary: rerank } = await this.rerankRecommendations(
+          scoredRecommendations,
+          searchQuery,
+          rerankOptions
+        ));
+      }
+
+      // 7. Select final recommendations, flagging picks that take household spend over budget
+      const finalRecommendations = this.flagHouseholdOverspend(
+        this.selectDiverseRecommendations(rankedRecommendations, limit, diversityWeight),
+        familyProfile,
+        this.getRelevantChildren(familyProfile, recommendationType).length
       );
 
       const totalMs = Date.now() - startTime;
@@ -266,21 +615,29 @@ export class RecommendationEngine {
         searchMetadata: {
           totalMatches: scoredRecommendations.length,
           vectorSearchResults: vectorResults.length,
-          filtersApplied: this.getAppliedFilters(filters),
+          filtersApplied: this.getAppliedFilters(filters, familyProfile.location),
           searchQuery,
           embedding: includeScore ? embedding : undefined,
+          ranking: this.describeRankingProfile(rankingProfile),
+          retrieval,
+          rerank,
         },
         performance: {
           vectorSearchMs,
           scoringMs,
+          rerankMs: rerank?.latencyMs,
           totalMs,
-          cacheHit: embeddingCacheHit,
+          cacheHit: false,
         },
       };
 
-      // 5. Cache results if enabled
+      if (embeddingCacheHit) {
+        console.log('Search embedding served from cache');
+      }
+
+      // 8. Cache results if enabled
       if (cacheResults) {
-        await this.cacheRecommendations(familyProfile, filters, result);
+        await this.cacheRecommendations(resultCacheKey, result, cacheTtl);
       }
 
       return result;
@@ -312,7 +669,13 @@ export class RecommendationEngine {
       diversityWeight?: number; // 0-1, higher = more diverse results
       filters?: RecommendationFilters;
       cacheResults?: boolean;
+      cacheTtl?: number; // seconds, overrides the engine default
       recommendationType?: string; // 'family', 'all_kids', or child name
+      rankingProfile?: RankingProfileName;
+      rankingWeights?: Partial<RankingWeights>; // overrides on top of rankingProfile
+      retrievalMode?: RetrievalMode; // 'vector' (default) or 'hybrid' vector + full-text
+      rerank?: Partial<RerankOptions>; // rerank top candidates; omitted = no reranking
+      explain?: boolean; // attach the raw scorer inputs to each recommendation
     } = {}
   ): Promise<LightweightRecommendationResult> {
     const startTime = Date.now();
@@ -322,10 +685,35 @@ export class RecommendationEngine {
       diversityWeight = 0.3,
       filters = {},
       cacheResults = true,
+      cacheTtl,
       recommendationType,
+      rankingProfile: rankingProfileName,
+      rankingWeights,
+      retrievalMode = 'vector',
+      explain = false,
     } = options;
 
     try {
+      const rankingProfile = resolveRankingProfile(rankingProfileName, { weights: rankingWeights });
+      const rerankOptions = options.rerank ? RerankOptionsSchema.parse(options.rerank) : undefined;
+
+      // 0. Serve identical requests from the result cache
+      const resultCacheKey = this.createResultCacheKey('lightweight', familyProfile, filters, {
+        limit, includeScore, diversityWeight, recommendationType, retrievalMode, explain,
+        ranking: this.describeRankingProfile(rankingProfile, 'lightweight'),
+        rerank: rerankOptions,
+      });
+      if (cacheResults) {
+        const cached = await getCachedRecommendationResult<LightweightRecommendationResult>(resultCacheKey);
+        if (cached) {
+          console.log(`Lightweight recommendation cache hit: ${resultCacheKey}`);
+          return {
+            ...cached,
+            performance: { ...cached.performance, totalMs: Date.now() - startTime, cacheHit: true },
+          };
+        }
+      }
+
       // 1. Generate search query and embedding
       const { searchQuery, embedding, cacheHit: embeddingCacheHit } = await this.generateSearchEmbedding(
         familyProfile,
@@ -336,32 +724,48 @@ export class RecommendationEngine {
       const vectorStartTime = Date.now();
       
       // Add timeout protection to vector search
-      const vectorResults = await Promise.race([
-        this.performVectorSearch(
+      const { candidates: vectorResults, summary: retrieval } = await Promise.race([
+        this.retrieveCandidates(
           embedding,
-          { limit: Math.floor(Math.min(limit * 2, 50)), filters } // Get extra for diversity
+          familyProfile,
+          { limit: Math.floor(Math.min(limit * 2, 50)), filters, retrievalMode, recommendationType } // Get extra for diversity
         ),
         new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Vector search timeout: Qdrant search exceeded 5 seconds')), 5000)
         )
       ]);
       const vectorSearchMs = Date.now() - vectorStartTime;
+      await this.geocoder.ensureMarkets(); // Market list for location scoring, cached between requests
 
       // 3. Score and rank using only vector data (no database queries)
       const scoringStartTime = Date.now();
+      const travelTimes = await this.estimateTravelTimes(familyProfile, filters, this.lightweightTravelDestinations(vectorResults));
+      const rerankDocuments = rerankOptions ? new Map<LightweightRecommendation, string>() : undefined;
       const lightweightRecommendations = this.scoreLightweightRecommendations(
         vectorResults,
         familyProfile,
         filters,
-        { diversityWeight, recommendationType }
+        { diversityWeight, recommendationType, rankingProfile, explain, travelTimes, rerankDocuments }
       );
       const scoringMs = Date.now() - scoringStartTime;
 
-      // 4. Select final recommendations with diversity
-      const finalRecommendations = this.selectDiverseLightweightRecommendations(
-        lightweightRecommendations,
-        limit,
-        diversityWeight
+      // 4. Optionally rerank the top candidates against the search query
+      let rankedRecommendations = lightweightRecommendations;
+      let rerank: RerankSummary | undefined;
+      if (rerankOptions && rerankDocuments && lightweightRecommendations.length > 1) {
+        ({ candidates: rankedRecommendations, summary: rerank } = await this.rerankLightweightRecommendations(
+          lightweightRecommendations,
+          searchQuery,
+          rerankOptions,
+          rerankDocuments
+        ));
+      }
+
+      // 5. Select final recommendations with diversity, flagging picks that take household spend over budget
+      const finalRecommendations = this.flagHouseholdOverspend(
+        this.selectDiverseLightweightRecommendations(rankedRecommendations, limit, diversityWeight),
+        familyProfile,
+        this.getRelevantChildren(familyProfile, recommendationType).length
       );
 
       const totalMs = Date.now() - startTime;
@@ -371,21 +775,29 @@ export class RecommendationEngine {
         searchMetadata: {
           totalMatches: lightweightRecommendations.length,
           vectorSearchResults: vectorResults.length,
-          filtersApplied: this.getAppliedFilters(filters),
+          filtersApplied: this.getAppliedFilters(filters, familyProfile.location),
           searchQuery,
           embedding: includeScore ? embedding : undefined,
+          ranking: this.describeRankingProfile(rankingProfile, 'lightweight'),
+          retrieval,
+          rerank,
         },
         performance: {
           vectorSearchMs,
           scoringMs,
+          rerankMs: rerank?.latencyMs,
           totalMs,
-          cacheHit: embeddingCacheHit,
+          cacheHit: false,
         },
       };
 
-      // 5. Cache results if enabled
+      if (embeddingCacheHit) {
+        console.log('Search embedding served from cache');
+      }
+
+      // 6. Cache results if enabled
       if (cacheResults) {
-        await this.cacheLightweightRecommendations(familyProfile, filters, result);
+        await this.cacheLightweightRecommendations(resultCacheKey, result, cacheTtl);
       }
 
       return result;
@@ -397,128 +809,838 @@ export class RecommendationEngine {
   }
 
   /**
-   * Generate search embedding from family profile.
-   * Uses local embeddings with OpenAI fallback for reliability.
+   * Generate grouped lightweight recommendations: one list per child plus a
+   * whole-family list of activities that fit several children at once.
+   *
+   * WHY: Grouped recommendations because:
+   * - A family with three kids otherwise needs three requests, each re-embedding the profile
+   * - Parents plan per child but also look for activities siblings can share
+   *
+   * DESIGN DECISIONS:
+   * - One family-level embedding and one retrieval feed every list; only scoring runs per child
+   * - The candidate pool grows with the number of children so each list can still fill up
+   * - The family list is scored against all children and limited to activities that made
+   *   at least `familyMinChildren` child lists
+   * - Each list keeps one entry per provider; cross-list deduplication follows `dedupe`
+   *   and only removes providers that are actually shown in the family list, so child
+   *   lists are not emptied when most candidates suit every child
    */
-  private async generateSearchEmbedding(
+  async generateLightweightRecommendationBundles(
     familyProfile: FamilyProfile,
-    options: { useCache?: boolean; recommendationType?: string } = {}
-  ): Promise<{ searchQuery: string; embedding: number[]; cacheHit: boolean }> {
-    // Build search query from family profile
-    const searchQuery = this.buildSearchQuery(familyProfile, options.recommendationType);
-
-    let cacheKey: string | undefined;
-    let cacheHit = false;
-    
-    if (options.useCache) {
-      cacheKey = createLocalEmbeddingCacheKey(searchQuery, 'all-MiniLM-L6-v2', 1536, true);
-    }
+    options: {
+      limit?: number; // per list
+      includeScore?: boolean;
+      diversityWeight?: number; // 0-1, higher = more diverse results
+      filters?: RecommendationFilters;
+      cacheResults?: boolean;
+      cacheTtl?: number; // seconds, overrides the engine default
+      rankingProfile?: RankingProfileName;
+      rankingWeights?: Partial<RankingWeights>; // overrides on top of rankingProfile
+      retrievalMode?: RetrievalMode; // 'vector' (default) or 'hybrid' vector + full-text
+      bundles?: Partial<RecommendationBundleOptions>;
+    } = {}
+  ): Promise<LightweightRecommendationBundlesResult> {
+    const startTime = Date.now();
+    const {
+      limit = 10,
+      includeScore = true,
+      diversityWeight = 0.3,
+      filters = {},
+      cacheResults = true,
+      cacheTtl,
+      rankingProfile: rankingProfileName,
+      rankingWeights,
+      retrievalMode = 'vector',
+    } = options;
 
     try {
-      // Try local embeddings first (free and fast)
-      console.log('Attempting to generate embedding using local model...');
-      
-      const localResponse = await this.localEmbeddingsClient.createOpenAICompatibleEmbedding(
-        searchQuery,
-        {
-          model: 'all-MiniLM-L6-v2',
-          cacheKey,
-          cacheTtl: 86400, // 24 hours for embeddings
+      const rankingProfile = resolveRankingProfile(rankingProfileName, { weights: rankingWeights });
+      const bundleOptions = RecommendationBundleOptionsSchema.parse(options.bundles || {});
+
+      // 0. Serve identical requests from the result cache
+      const resultCacheKey = this.createResultCacheKey('bundles', familyProfile, filters, {
+        limit, includeScore, diversityWeight, retrievalMode,
+        ranking: this.describeRankingProfile(rankingProfile, 'lightweight'),
+        bundles: bundleOptions,
+      });
+      if (cacheResults) {
+        const cached = await getCachedRecommendationResult<LightweightRecommendationBundlesResult>(resultCacheKey);
+        if (cached) {
+          console.log(`Recommendation bundles cache hit: ${resultCacheKey}`);
+          return {
+            ...cached,
+            performance: { ...cached.performance, totalMs: Date.now() - startTime, cacheHit: true },
+          };
         }
+      }
+
+      // 1. Generate one search query and embedding for the whole family
+      const { searchQuery, embedding, cacheHit: embeddingCacheHit } = await this.generateSearchEmbedding(
+        familyProfile,
+        { useCache: cacheResults, recommendationType: 'family' }
       );
 
-      console.log(`Generated local search embedding: ${localResponse.embedding.length} dimensions, query: "${searchQuery.slice(0, 100)}..." (${localResponse.usage.processTimeMs}ms)`);
+      // 2. Retrieve a shared candidate pool, sized for every list
+      const vectorStartTime = Date.now();
+      const poolSize = limit * 2 * Math.max(1, familyProfile.children.length);
 
-      return { 
-        searchQuery, 
-        embedding: localResponse.embedding, 
-        cacheHit: localResponse.usage.cacheHit || false 
-      };
+      const { candidates: vectorResults, summary: retrieval } = await Promise.race([
+        this.retrieveCandidates(
+          embedding,
+          familyProfile,
+          { limit: Math.floor(Math.min(poolSize, 100)), filters, retrievalMode, recommendationType: 'family' }
+        ),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Vector search timeout: Qdrant search exceeded 5 seconds')), 5000)
+        )
+      ]);
+      const vectorSearchMs = Date.now() - vectorStartTime;
+      await this.geocoder.ensureMarkets(); // Market list for location scoring, cached between requests
 
-    } catch (localError) {
-      console.warn('Local embeddings failed, falling back to OpenAI:', localError);
+      // 3. Score the shared pool once per child, then for the family as a whole
+      const scoringStartTime = Date.now();
+      const travelTimes = await this.estimateTravelTimes(familyProfile, filters, this.lightweightTravelDestinations(vectorResults));
+      const childLists = familyProfile.children.map(child => ({
+        childName: child.name,
+        recommendations: this.keepBestPerProvider(this.scoreLightweightRecommendations(
+          vectorResults,
+          familyProfile,
+          filters,
+          { diversityWeight, recommendationType: child.name, rankingProfile, travelTimes }
+        )),
+      }));
 
-      // Fallback to OpenAI embeddings
-      try {
-        const openAICacheKey = options.useCache ? 
-          createAICacheKey('rec-embed', { query: searchQuery }) : undefined;
+      const fitsByCandidate = new Map<string, string[]>();
+      for (const { childName, recommendations } of childLists) {
+        for (const rec of recommendations) {
+          const key = this.bundleCandidateKey(rec);
+          fitsByCandidate.set(key, [...(fitsByCandidate.get(key) || []), childName]);
+        }
+      }
 
-        const embeddingResponse = await this.aiClient.createEmbedding({
-          input: searchQuery,
-          model: 'text-embedding-3-small', // Cost-effective for search
-        }, {
-          cacheKey: openAICacheKey,
-          cacheTtl: 86400, // 24 hours for embeddings
-        });
+      const familyRecommendations = this.keepBestPerProvider(
+        this.scoreLightweightRecommendations(
+          vectorResults,
+          familyProfile,
+          filters,
+          { diversityWeight, recommendationType: 'family', rankingProfile, travelTimes }
+        )
+          .map(rec => ({ ...rec, fitsChildren: fitsByCandidate.get(this.bundleCandidateKey(rec)) || [] }))
+          .filter(rec => rec.fitsChildren.length >= bundleOptions.familyMinChildren)
+      );
 
-        const embedding = embeddingResponse.embeddings[0];
-        if (!embedding) {
-          throw new Error('Failed to generate search embedding');
-        }
+      // 4. Select the family list, then deduplicate the child lists against it
+      const selectedFamilyRecommendations = this.selectDiverseLightweightRecommendations(
+        familyRecommendations,
+        limit,
+        diversityWeight
+      );
+      const dedupedChildLists = this.dedupeBundleLists(childLists, selectedFamilyRecommendations, bundleOptions.dedupe);
+      const scoringMs = Date.now() - scoringStartTime;
 
-        console.log(`Generated OpenAI search embedding: ${embedding.length} dimensions, query: "${searchQuery.slice(0, 100)}..."`);
+      // 5. Select final recommendations per child
+      const totalMs = Date.now() - startTime;
 
-        return { searchQuery, embedding, cacheHit: false };
+      const result: LightweightRecommendationBundlesResult = {
+        children: dedupedChildLists.map(({ childName, recommendations }) => ({
+          childName,
+          recommendations: this.selectDiverseLightweightRecommendations(recommendations, limit, diversityWeight),
+          totalMatches: recommendations.length,
+        })),
+        family: {
+          recommendations: this.flagHouseholdOverspend(selectedFamilyRecommendations, familyProfile, familyProfile.children.length),
+          totalMatches: familyRecommendations.length,
+          minChildren: bundleOptions.familyMinChildren,
+        },
+        searchMetadata: {
+          vectorSearchResults: vectorResults.length,
+          filtersApplied: this.getAppliedFilters(filters, familyProfile.location),
+          searchQuery,
+          embedding: includeScore ? embedding : undefined,
+          ranking: this.describeRankingProfile(rankingProfile, 'lightweight'),
+          retrieval,
+          dedupe: bundleOptions.dedupe,
+        },
+        performance: {
+          vectorSearchMs,
+          scoringMs,
+          totalMs,
+          cacheHit: false,
+        },
+      };
 
-      } catch (openAIError) {
-        console.error('Both local and OpenAI embeddings failed:', { localError, openAIError });
-        throw new Error(`Failed to generate search embedding: Local error: ${localError}, OpenAI error: ${openAIError}`);
+      if (embeddingCacheHit) {
+        console.log('Search embedding served from cache');
       }
+
+      // 6. Cache results if enabled
+      if (cacheResults) {
+        await this.cacheRecommendationBundles(resultCacheKey, result, cacheTtl);
+      }
+
+      return result;
+
+    } catch (error) {
+      console.error('Recommendation bundle generation failed:', error);
+      throw new Error(`Failed to generate recommendation bundles: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Build search query text from family profile.
-   * 
-   * WHY: Enhanced search query building with recommendation type filtering because:
-   * - When recommendationType specifies a child, should focus search on that child only
-   * - Family activities should include all children for broader matching
-   * - Specific child queries need more targeted age and interest matching
-   * - Improves relevance of vector search results
+   * Generate sibling co-scheduling plans: one activity per child, ranked by how well
+   * each fits its child and how easily the set can share a drop-off.
+   *
+   * Each child is scored on its own (age and interests) from one shared embedding,
+   * retrieval and provider fetch; the combination logic lives in sibling-scheduling.
    */
-  private buildSearchQuery(familyProfile: FamilyProfile, recommendationType?: string): string {
-    const parts: string[] = [];
+  async generateSiblingPlans(
+    familyProfile: FamilyProfile,
+    options: {
+      filters?: RecommendationFilters;
+      cacheResults?: boolean;
+      cacheTtl?: number; // seconds, overrides the engine default
+      rankingProfile?: RankingProfileName;
+      rankingWeights?: Partial<RankingWeights>; // overrides on top of rankingProfile
+      retrievalMode?: RetrievalMode; // 'vector' (default) or 'hybrid' vector + full-text
+      plans?: Partial<SiblingPlanOptions>;
+    } = {}
+  ): Promise<SiblingPlanResult> {
+    const startTime = Date.now();
+    const {
+      filters = {},
+      cacheResults = true,
+      cacheTtl,
+      rankingProfile: rankingProfileName,
+      rankingWeights,
+      retrievalMode = 'vector',
+    } = options;
 
-    // Get relevant children based on recommendation type
-    const relevantChildren = this.getRelevantChildren(familyProfile, recommendationType);
+    if (familyProfile.children.length < 2) {
+      throw new Error('Sibling plans require at least two children');
+    }
 
-    // Children information - use only relevant children
-    if (relevantChildren.length > 0) {
-      const childrenDesc = relevantChildren.map(child => {
-        const interests = child.interests.length > 0 ? ` interested in ${child.interests.join(', ')}` : '';
-        const special = child.specialNeeds ? ` with special needs: ${child.specialNeeds}` : '';
-        return `${child.age}-year-old ${child.name}${interests}${special}`;
-      }).join('; ');
-      
-      if (relevantChildren.length === 1 && recommendationType && recommendationType !== 'family' && recommendationType !== 'all_kids') {
-        parts.push(`Activities for ${childrenDesc}`);
-      } else {
-        parts.push(`Family with children: ${childrenDesc}`);
+    try {
+      const rankingProfile = resolveRankingProfile(rankingProfileName, { weights: rankingWeights });
+      const planOptions = SiblingPlanOptionsSchema.parse(options.plans || {});
+
+      // 0. Serve identical requests from the result cache
+      const resultCacheKey = this.createResultCacheKey('sibling-plans', familyProfile, filters, {
+        retrievalMode,
+        ranking: this.describeRankingProfile(rankingProfile),
+        plans: planOptions,
+      });
+      if (cacheResults) {
+        const cached = await getCachedRecommendationResult<SiblingPlanResult>(resultCacheKey);
+        if (cached) {
+          console.log(`Sibling plan cache hit: ${resultCacheKey}`);
+          return this.reviveCachedSiblingPlans(cached, startTime);
+        }
       }
-    }
 
-    // Location
-    const location = [
-      familyProfile.location.neighborhood,
-      familyProfile.location.city,
-      familyProfile.location.zipCode
-    ].filter(Boolean).join(', ');
-    if (location) {
-      parts.push(`Located in ${location}`);
-    }
+      // 1-3. One shared embedding and retrieval, then each child scored on its own
+      const { searchQuery, vectorSearchResults, retrieval, childRecommendations, vectorSearchMs, scoringMs } =
+        await this.scoreChildrenSeparately(familyProfile, {
+          candidateLimit: planOptions.candidatesPerChild * 3 * familyProfile.children.length,
+          filters,
+          retrievalMode,
+          rankingProfile,
+          useCache: cacheResults,
+        });
 
-    // Activity preferences
-    if (familyProfile.preferences?.activityTypes && familyProfile.preferences.activityTypes.length > 0) {
-      parts.push(`Looking for ${familyProfile.preferences.activityTypes.join(', ')} activities`);
-    }
+      // 4. Combine one activity per child into ranked plans
+      const planningStartTime = Date.now();
+      const plans = buildSiblingPlans(childRecommendations, planOptions, familyProfile.preferences?.budget);
+      const planningMs = Date.now() - planningStartTime;
 
-    // Schedule preferences
-    if (familyProfile.preferences?.schedule && familyProfile.preferences.schedule.length > 0) {
-      const scheduleMap: Record<string, string> = {
-        weekday_morning: 'weekday mornings',
-        weekday_afternoon: 'weekday afternoons',
-        weekday_evening: 'weekday evenings',
-        weekend_morning: 'weekend mornings',
+      const result: SiblingPlanResult = {
+        plans,
+        searchMetadata: {
+          searchQuery,
+          vectorSearchResults,
+          filtersApplied: this.getAppliedFilters(filters, familyProfile.location),
+          candidatesPerChild: Object.fromEntries(childRecommendations.map(({ childName, recommendations }) => [
+            childName,
+            recommendations.filter(rec => rec.ranking.age >= planOptions.minAgeScore).length,
+          ])),
+          ranking: this.describeRankingProfile(rankingProfile),
+          retrieval,
+        },
+        performance: {
+          vectorSearchMs,
+          scoringMs,
+          planningMs,
+          totalMs: Date.now() - startTime,
+          cacheHit: false,
+        },
+      };
+
+      console.log(`Sibling plans: ${plans.length} plans for ${familyProfile.children.length} children in ${result.performance.totalMs}ms`);
+
+      // 5. Cache results if enabled
+      if (cacheResults) {
+        try {
+          const planProviderIds = plans.flatMap(plan => plan.activities.map(activity => activity.recommendation.providerId));
+          await setCachedRecommendationResult(resultCacheKey, result, [...new Set(planProviderIds)], cacheTtl ?? this.cacheTtl);
+        } catch (error) {
+          console.warn('Failed to cache sibling plans:', error);
+        }
+      }
+
+      return result;
+
+    } catch (error) {
+      console.error('Sibling plan generation failed:', error);
+      throw new Error(`Failed to generate sibling plans: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Generate conflict-free weekly calendars from each child's top recommendations.
+   *
+   * Uses the family's parsed scheduleConstraints as hard limits. Results are not
+   * cached: the search embedding is, and the optimization itself is cheap.
+   */
+  async generateWeeklySchedule(
+    familyProfile: FamilyProfile,
+    options: {
+      filters?: RecommendationFilters;
+      cacheResults?: boolean; // Embedding cache only
+      rankingProfile?: RankingProfileName;
+      rankingWeights?: Partial<RankingWeights>; // overrides on top of rankingProfile
+      retrievalMode?: RetrievalMode; // 'vector' (default) or 'hybrid' vector + full-text
+      schedule?: Partial<WeeklyScheduleOptions>;
+    } = {}
+  ): Promise<WeeklyScheduleRecommendationResult> {
+    const startTime = Date.now();
+    const {
+      filters = {},
+      cacheResults = true,
+      rankingProfile: rankingProfileName,
+      rankingWeights,
+      retrievalMode = 'vector',
+    } = options;
+
+    try {
+      const rankingProfile = resolveRankingProfile(rankingProfileName, { weights: rankingWeights });
+      const scheduleOptions = WeeklyScheduleOptionsSchema.parse(options.schedule || {});
+
+      // 1. Score each child's activities from one shared retrieval
+      const { searchQuery, vectorSearchResults, retrieval, childRecommendations, vectorSearchMs, scoringMs } =
+        await this.scoreChildrenSeparately(familyProfile, {
+          candidateLimit: scheduleOptions.candidatesPerChild * 3 * familyProfile.children.length,
+          filters,
+          retrievalMode,
+          rankingProfile,
+          useCache: cacheResults,
+        });
+
+      // 2. Offer each child's best age-appropriate activities to the optimizer
+      const candidates = childRecommendations.flatMap(({ childName, recommendations }) =>
+        recommendations
+          .filter(rec => rec.ranking.age >= scheduleOptions.minAgeScore)
+          .slice(0, scheduleOptions.candidatesPerChild)
+          .map(recommendation => ({ childName, recommendation }))
+      );
+
+      // 3. Build calendars within the family's schedule constraints
+      const planningStartTime = Date.now();
+      const travelTime = await this.scheduleTravelTime(familyProfile, filters, candidates);
+      const schedule = optimizeWeeklySchedule(
+        candidates,
+        familyProfile.preferences?.scheduleConstraints,
+        scheduleOptions,
+        travelTime
+      );
+      const planningMs = Date.now() - planningStartTime;
+
+      return {
+        schedule,
+        searchMetadata: {
+          searchQuery,
+          vectorSearchResults,
+          filtersApplied: this.getAppliedFilters(filters, familyProfile.location),
+          candidates: candidates.length,
+          ranking: this.describeRankingProfile(rankingProfile),
+          retrieval,
+        },
+        performance: {
+          vectorSearchMs,
+          scoringMs,
+          planningMs,
+          totalMs: Date.now() - startTime,
+        },
+      };
+
+    } catch (error) {
+      console.error('Weekly schedule generation failed:', error);
+      throw new Error(`Failed to generate weekly schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Explain why a provider does or does not appear in a family's recommendations.
+   *
+   * WHY: Counterfactual diagnosis because:
+   * - "Why isn't this provider showing up?" needs the stage that dropped it, not a guess
+   * - Support needs an actionable answer: the smallest change that would include it
+   *
+   * DESIGN DECISIONS:
+   * - Traces the provider through the same stages as generateRecommendations: payload
+   *   filters, retrieval, database scoring with the profile's thresholds, diverse selection
+   * - Candidate changes are verified by re-running the pipeline; trying stops at the
+   *   first change that includes the provider, so it is the smallest one that works
+   * - Embeddings are reused across re-runs when a change leaves the search query alone
+   * - Result caching is bypassed so the trace reflects current data
+   */
+  async diagnoseProvider(
+    familyProfile: FamilyProfile,
+    providerId: string,
+    options: {
+      limit?: number;
+      diversityWeight?: number;
+      filters?: RecommendationFilters;
+      recommendationType?: string; // 'family', 'all_kids', or child name
+      rankingProfile?: RankingProfileName;
+      rankingWeights?: Partial<RankingWeights>; // overrides on top of rankingProfile
+      retrievalMode?: RetrievalMode;
+      maxCounterfactuals?: number; // pipeline re-runs at most
+    } = {}
+  ): Promise<ProviderDiagnosis> {
+    const settings: DiagnosisSettings = {
+      familyProfile,
+      filters: options.filters || {},
+      limit: options.limit ?? 10,
+      diversityWeight: options.diversityWeight ?? 0.3,
+      recommendationType: options.recommendationType,
+      rankingProfile: options.rankingProfile,
+      rankingWeights: options.rankingWeights,
+      retrievalMode: options.retrievalMode || 'vector',
+    };
+    const { maxCounterfactuals = 8 } = options;
+
+    try {
+      const [target] = await this.getProviders([providerId]);
+      if (!target) {
+        const trace: ProviderTrace = {
+          stage: 'not_found',
+          filters: { enforced: QDRANT_PAYLOAD_FILTERS_ENABLED, passed: true, excludedBy: [] },
+          retrieval: { retrieved: false, candidateWindow: Math.floor(Math.min(settings.limit * 2, 50)) },
+          blockers: [],
+        };
+        return { providerId, stage: 'not_found', summary: summarizeTrace(trace), trace, counterfactuals: [] };
+      }
+
+      const embeddings = new Map<string, number[]>();
+      const trace = await this.traceProvider(target, settings, embeddings);
+
+      const counterfactuals: CounterfactualResult[] = [];
+      for (const change of buildCandidateChanges(trace, settings, target.name).slice(0, maxCounterfactuals)) {
+        const outcome = await this.traceProvider(target, change.settings, embeddings);
+        counterfactuals.push({
+          kind: change.kind,
+          description: change.description,
+          edits: change.edits,
+          included: outcome.stage === 'included',
+          stage: outcome.stage,
+        });
+        if (outcome.stage === 'included') break;
+      }
+
+      const smallestChange = counterfactuals.find(counterfactual => counterfactual.included);
+      console.log(`Provider diagnosis for ${providerId}: ${trace.stage}, ${counterfactuals.length} counterfactuals tried, ${smallestChange ? `fix: ${smallestChange.description}` : 'no single change found'}`);
+
+      return {
+        providerId,
+        providerName: target.name,
+        stage: trace.stage,
+        summary: summarizeTrace(trace, target.name),
+        trace,
+        smallestChange,
+        counterfactuals,
+      };
+
+    } catch (error) {
+      console.error('Provider diagnosis failed:', error);
+      throw new Error(`Failed to diagnose provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Run one family search and record what happened to the target provider at each stage.
+   */
+  private async traceProvider(
+    target: RecommendationProvider,
+    settings: DiagnosisSettings,
+    embeddings: Map<string, number[]>
+  ): Promise<ProviderTrace> {
+    const { familyProfile, filters, limit, diversityWeight, recommendationType, retrievalMode } = settings;
+    const rankingProfile = resolveRankingProfile(settings.rankingProfile, { weights: settings.rankingWeights });
+    const { thresholds } = rankingProfile;
+
+    // Activities as the scorers see them, at most 5 events per provider like scoring
+    const events = target.events.length > 0 ? target.events.slice(0, 5) : [null];
+    const built = events.map(event => this.buildEventMetadata(target, event));
+    const activities = built.map(({ metadata }) => metadata);
+
+    // 1. Payload filters, evaluated per filter so the excluding one can be named
+    const excludedBy: FilterKey[] = PAYLOAD_FILTER_KEYS.filter(key => {
+      const condition = filters[key] !== undefined ? this.buildQdrantFilter({ [key]: filters[key] }) : undefined;
+      return condition !== undefined && !activities.some(activity => matchesPayloadFilter(condition, activity));
+    });
+    if (!activities.some(activity => this.passesNeighborhoodFilter(activity.location.coordinates, familyProfile.location, filters.neighborhood))) {
+      excludedBy.push('neighborhood');
+    }
+    if (filters.onlyAvailable && !built.some(({ availability }) => isAvailable(availability))) {
+      excludedBy.push('onlyAvailable'); // Every activity is full or waitlisted
+    }
+    const requiredNeeds = requiredAccommodations(filters.specialNeeds);
+    if (!activities.some(activity => meetsRequirements(activity.accommodations, requiredNeeds))) {
+      excludedBy.push('specialNeeds'); // No activity mentions every required accommodation
+    }
+    const requiredLanguages = normalizeLanguages(filters.languages);
+    if (!activities.some(activity => isTaughtIn(activity.accommodations?.languages, requiredLanguages))) {
+      excludedBy.push('languages'); // Not taught in any requested language
+    }
+    const now = new Date();
+    const dateWindow = resolveDateWindow(filters.dateWindow, now);
+    if (dateWindow && filters.dateWindow?.strict && events.every(event => relateToWindow(this.eventDates(event), dateWindow) === 'outside')) {
+      excludedBy.push('dateWindow');
+    }
+    const radiusCenter = this.geoFilterCenter(filters, familyProfile.location);
+    if (radiusCenter && !activities.some(({ location }) => !location.coordinates ||
+        this.calculateHaversineDistance(radiusCenter.lat, radiusCenter.lng, location.coordinates.lat, location.coordinates.lng) <= filters.maxDistance!)) {
+      excludedBy.push('maxDistance'); // Outside the vector search's geo radius
+    }
+
+    // 2. Retrieval: the real candidate window, plus a wide search to find the provider's rank
+    const searchQuery = this.buildSearchQuery(familyProfile, recommendationType);
+    let embedding = embeddings.get(searchQuery);
+    if (!embedding) {
+      ({ embedding } = await this.generateSearchEmbedding(familyProfile, { useCache: true, recommendationType }));
+      embeddings.set(searchQuery, embedding);
+    }
+
+    const candidateWindow = Math.floor(Math.min(limit * 2, 50));
+    const [{ candidates: vectorResults }, wideResults] = await Promise.all([
+      this.retrieveCandidates(embedding, familyProfile, { limit: candidateWindow, filters, retrievalMode, recommendationType }),
+      this.performVectorSearch(embedding, { limit: 200, filters, familyLocation: familyProfile.location }),
+    ]);
+    const isTarget = (result: { metadata: any }) =>
+      this.convertToProviderDbId(result.metadata.provider_id || result.metadata.providerId || '') === target.id;
+    const wideIndex = wideResults.findIndex(isTarget);
+
+    const trace: ProviderTrace = {
+      stage: 'included',
+      filters: { enforced: QDRANT_PAYLOAD_FILTERS_ENABLED, passed: excludedBy.length === 0, excludedBy },
+      retrieval: {
+        retrieved: vectorResults.some(isTarget),
+        candidateWindow,
+        vectorRank: wideIndex >= 0 ? wideIndex + 1 : undefined,
+        vectorSimilarity: wideIndex >= 0 ? wideResults[wideIndex].score : undefined,
+      },
+      activity: this.describeDiagnosedActivity(activities[0]),
+      blockers: [],
+    };
+
+    if (target.events.length > 0 && target.events.every(event => isExpired(this.eventDates(event), now))) {
+      trace.blockers.push('Every event has already ended');
+    }
+
+    const relevantChildren = this.getRelevantChildren(familyProfile, recommendationType);
+    const ageRange = activities[0].ageRange;
+    if (relevantChildren.length > 0 && !relevantChildren.some(child => child.age >= ageRange.min - 1 && child.age <= ageRange.max + 1)) {
+      trace.blockers.push(`Age range ${ageRange.min}-${ageRange.max} does not fit ${relevantChildren.map(child => `${child.name} (${child.age})`).join(', ')}`);
+    }
+
+    if (enforcedExclusions(trace).length > 0) return { ...trace, stage: 'filtered' };
+    if (!trace.retrieval.retrieved) return { ...trace, stage: 'not_retrieved' };
+
+    // 3. Scoring, with the same provider fetch and thresholds as generateRecommendations
+    const { providerIds, eventIds } = extractUniqueIds(vectorResults);
+    const databaseProviders = await this.getProviders(providerIds, eventIds.length > 0 ? eventIds.slice(0, 50) : undefined);
+    const scoringOptions = { includeScore: false, diversityWeight, recommendationType, rankingProfile, explain: true };
+    const scored = await this.scoreAndRankDatabaseRecommendations(databaseProviders, vectorResults, familyProfile, filters, scoringOptions);
+
+    let best = scored.find(rec => rec.providerId === target.id);
+    if (!best) {
+      // Re-score without thresholds or travel limits to see which one dropped it
+      const fetchedTarget = databaseProviders.find(provider => provider.id === target.id);
+      const relaxedProfile = { ...rankingProfile, thresholds: { ...thresholds, minVectorSimilarity: 0, minMatchScore: 0 } };
+      const relaxedFilters = { ...filters, maxDistance: undefined, maxTravelMinutes: undefined };
+      [best] = fetchedTarget
+        ? await this.scoreAndRankDatabaseRecommendations([fetchedTarget], vectorResults, familyProfile, relaxedFilters, { ...scoringOptions, rankingProfile: relaxedProfile })
+        : [];
+
+      const location = best?.scoring?.location;
+      if (filters.maxDistance && location?.distanceMiles !== undefined && location.distanceMiles > filters.maxDistance) {
+        excludedBy.push('maxDistance');
+      }
+      if (filters.maxTravelMinutes && location?.travel && location.travel.minutes > filters.maxTravelMinutes) {
+        excludedBy.push('maxTravelMinutes');
+      }
+    }
+
+    if (best) {
+      trace.activity = this.describeDiagnosedActivity(best.metadata);
+      trace.scoring = {
+        matchScore: best.matchScore,
+        vectorSimilarity: best.vectorSimilarity,
+        ranking: best.ranking,
+        failedThresholds: [],
+        explanation: best.scoring,
+      };
+      const location = best.scoring?.location;
+      if (location?.distanceMiles !== undefined && best.ranking.location <= 0.3) {
+        const travel = location.travel ? ` (about ${location.travel.minutes} minutes by ${location.travel.mode})` : '';
+        trace.blockers.push(`Located ${location.distanceMiles.toFixed(1)} miles${travel} from the family`);
+      }
+    }
+
+    // Distance and travel-time limits only apply once the activity has been scored
+    trace.filters.passed = excludedBy.length === 0;
+    if (enforcedExclusions(trace).length > 0) return { ...trace, stage: 'filtered' };
+
+    if (!best || !scored.includes(best)) {
+      if (best) {
+        if (best.vectorSimilarity < thresholds.minVectorSimilarity) {
+          trace.scoring!.failedThresholds.push(`vector similarity ${best.vectorSimilarity.toFixed(3)} below ${thresholds.minVectorSimilarity}`);
+        }
+        if (best.matchScore < thresholds.minMatchScore) {
+          trace.scoring!.failedThresholds.push(`match score ${best.matchScore.toFixed(3)} below ${thresholds.minMatchScore}`);
+        }
+        if (trace.scoring!.failedThresholds.length === 0) {
+          trace.scoring!.failedThresholds.push('dropped by the 100-candidate scoring cap');
+        }
+      }
+      return { ...trace, stage: 'below_threshold' };
+    }
+
+    // 4. Diverse selection: find the smallest limit that would have included it
+    const scoredProviderIds = [...new Set(scored.map(rec => rec.providerId))];
+    const selected = this.selectDiverseRecommendations(scored, limit, diversityWeight);
+    trace.selection = {
+      scoredRank: scoredProviderIds.indexOf(target.id) + 1,
+      scoredProviders: scoredProviderIds.length,
+    };
+    if (selected.some(rec => rec.providerId === target.id)) return trace;
+
+    trace.selection.cutoffScore = Math.min(...selected.map(rec => rec.matchScore));
+    for (let requiredLimit = limit + 1; requiredLimit <= scoredProviderIds.length; requiredLimit++) {
+      if (this.selectDiverseRecommendations(scored, requiredLimit, diversityWeight).some(rec => rec.providerId === target.id)) {
+        trace.selection.requiredLimit = requiredLimit;
+        break;
+      }
+    }
+    return { ...trace, stage: 'outranked' };
+  }
+
+  /**
+   * Summarize an activity's scorer inputs for a diagnosis.
+   */
+  private describeDiagnosedActivity(metadata: ActivityMetadata): DiagnosedActivity {
+    return {
+      programId: metadata.programId,
+      name: metadata.name,
+      category: metadata.category,
+      ageRange: metadata.ageRange,
+      interests: metadata.interests,
+      timeSlots: this.activityTimeSlots(metadata.schedule),
+      price: metadata.pricing.type === 'free' ? 0 : metadata.pricing.amount ?? metadata.pricing.range?.max,
+    };
+  }
+
+  /**
+   * Embed and retrieve once for the whole family, then score the shared providers
+   * for each child on its own (age and interests of that child only).
+   */
+  private async scoreChildrenSeparately(
+    familyProfile: FamilyProfile,
+    options: {
+      candidateLimit: number;
+      filters: RecommendationFilters;
+      retrievalMode: RetrievalMode;
+      rankingProfile: ResolvedRankingProfile;
+      useCache: boolean;
+    }
+  ): Promise<{
+    searchQuery: string;
+    vectorSearchResults: number;
+    retrieval: RetrievalSummary;
+    childRecommendations: Array<{ childName: string; recommendations: ScoredRecommendation[] }>;
+    vectorSearchMs: number;
+    scoringMs: number;
+  }> {
+    const { filters, retrievalMode, rankingProfile } = options;
+
+    const { searchQuery, embedding } = await this.generateSearchEmbedding(
+      familyProfile,
+      { useCache: options.useCache, recommendationType: 'family' }
+    );
+
+    const vectorStartTime = Date.now();
+    const { candidates: vectorResults, summary: retrieval } = await Promise.race([
+      this.retrieveCandidates(
+        embedding,
+        familyProfile,
+        { limit: Math.floor(Math.min(options.candidateLimit, 100)), filters, retrievalMode, recommendationType: 'family' }
+      ),
+      new Promise<never>((_, reject) => 
+        setTimeout(() => reject(new Error('Vector search timeout: Qdrant search exceeded 5 seconds')), 5000)
+      )
+    ]);
+    const vectorSearchMs = Date.now() - vectorStartTime;
+
+    const { providerIds, eventIds } = extractUniqueIds(vectorResults);
+    const databaseProviders = await this.getProviders(
+      providerIds,
+      eventIds.length > 0 ? eventIds.slice(0, 100) : undefined
+    );
+
+    const scoringStartTime = Date.now();
+    const childRecommendations = await Promise.all(familyProfile.children.map(async child => ({
+      childName: child.name,
+      recommendations: await this.scoreAndRankDatabaseRecommendations(
+        databaseProviders,
+        vectorResults,
+        { ...familyProfile, children: [child] },
+        filters,
+        { includeScore: false, diversityWeight: 0, recommendationType: child.name, rankingProfile }
+      ),
+    })));
+
+    return {
+      searchQuery,
+      vectorSearchResults: vectorResults.length,
+      retrieval,
+      childRecommendations,
+      vectorSearchMs,
+      scoringMs: Date.now() - scoringStartTime,
+    };
+  }
+
+  /**
+   * Generate search embedding from family profile.
+   * Uses local embeddings with OpenAI fallback for reliability.
+   */
+  private async generateSearchEmbedding(
+    familyProfile: FamilyProfile,
+    options: { useCache?: boolean; recommendationType?: string } = {}
+  ): Promise<{ searchQuery: string; embedding: number[]; cacheHit: boolean }> {
+    // Build search query from family profile
+    const searchQuery = this.buildSearchQuery(familyProfile, options.recommendationType);
+
+    let cacheKey: string | undefined;
+    let cacheHit = false;
+    
+    if (options.useCache) {
+      cacheKey = createLocalEmbeddingCacheKey(searchQuery, 'all-MiniLM-L6-v2', 1536, true);
+    }
+
+    try {
+      // Try local embeddings first (free and fast)
+      console.log('Attempting to generate embedding using local model...');
+      
+      const localResponse = await this.localEmbeddingsClient.createOpenAICompatibleEmbedding(
+        searchQuery,
+        {
+          model: 'all-MiniLM-L6-v2',
+          cacheKey,
+          cacheTtl: 86400, // 24 hours for embeddings
+        }
+      );
+
+      console.log(`Generated local search embedding: ${localResponse.embedding.length} dimensions, query: "${searchQuery.slice(0, 100)}..." (${localResponse.usage.processTimeMs}ms)`);
+
+      return { 
+        searchQuery, 
+        embedding: localResponse.embedding, 
+        cacheHit: localResponse.usage.cacheHit || false 
+      };
+
+    } catch (localError) {
+      console.warn('Local embeddings failed, falling back to OpenAI:', localError);
+
+      // Fallback to OpenAI embeddings
+      try {
+        const openAICacheKey = options.useCache ? 
+          createAICacheKey('rec-embed', { query: searchQuery }) : undefined;
+
+        const embeddingResponse = await this.aiClient.createEmbedding({
+          input: searchQuery,
+          model: 'text-embedding-3-small', // Cost-effective for search
+        }, {
+          cacheKey: openAICacheKey,
+          cacheTtl: 86400, // 24 hours for embeddings
+        });
+
+        const embedding = embeddingResponse.embeddings[0];
+        if (!embedding) {
+          throw new Error('Failed to generate search embedding');
+        }
+
+        console.log(`Generated OpenAI search embedding: ${embedding.length} dimensions, query: "${searchQuery.slice(0, 100)}..."`);
+
+        return { searchQuery, embedding, cacheHit: false };
+
+      } catch (openAIError) {
+        console.error('Both local and OpenAI embeddings failed:', { localError, openAIError });
+        throw new Error(`Failed to generate search embedding: Local error: ${localError}, OpenAI error: ${openAIError}`);
+      }
+    }
+  }
+
+  /**
+   * Build search query text from family profile.
+   * 
+   * WHY: Enhanced search query building with recommendation type filtering because:
+   * - When recommendationType specifies a child, should focus search on that child only
+   * - Family activities should include all children for broader matching
+   * - Specific child queries need more targeted age and interest matching
+   * - Improves relevance of vector search results
+   */
+  private buildSearchQuery(familyProfile: FamilyProfile, recommendationType?: string): string {
+    const parts: string[] = [];
+
+    // Get relevant children based on recommendation type
+    const relevantChildren = this.getRelevantChildren(familyProfile, recommendationType);
+
+    // Children information - use only relevant children
+    if (relevantChildren.length > 0) {
+      const childrenDesc = relevantChildren.map(child => {
+        const interests = child.interests.length > 0 ? ` interested in ${child.interests.join(', ')}` : '';
+        const special = child.specialNeeds ? ` with special needs: ${child.specialNeeds}` : '';
+        return `${child.age}-year-old ${child.name}${interests}${special}`;
+      }).join('; ');
+      
+      if (relevantChildren.length === 1 && recommendationType && recommendationType !== 'family' && recommendationType !== 'all_kids') {
+        parts.push(`Activities for ${childrenDesc}`);
+      } else {
+        parts.push(`Family with children: ${childrenDesc}`);
+      }
+    }
+
+    // Location
+    const location = [
+      familyProfile.location.neighborhood,
+      familyProfile.location.city,
+      familyProfile.location.zipCode
+    ].filter(Boolean).join(', ');
+    if (location) {
+      parts.push(`Located in ${location}`);
+    }
+
+    // Activity preferences
+    if (familyProfile.preferences?.activityTypes && familyProfile.preferences.activityTypes.length > 0) {
+      parts.push(`Looking for ${familyProfile.preferences.activityTypes.join(', ')} activities`);
+    }
+
+    // Schedule preferences
+    if (familyProfile.preferences?.schedule && familyProfile.preferences.schedule.length > 0) {
+      const scheduleMap: Record<string, string> = {
+        weekday_morning: 'weekday mornings',
+        weekday_afternoon: 'weekday afternoons',
+        weekday_evening: 'weekday evenings',
+        weekend_morning: 'weekend mornings',
         weekend_afternoon: 'weekend afternoons',
         weekend_evening: 'weekend evenings',
       };
@@ -550,12 +1672,162 @@ export class RecommendationEngine {
     return parts.join('. ');
   }
 
+  /**
+   * Retrieve scoring candidates using the requested retrieval mode.
+   *
+   * In hybrid mode, full-text search runs alongside vector search and the two lists
+   * are fused with reciprocal rank fusion. Full-text failures degrade to vector-only
+   * results rather than failing the request.
+   */
+  private async retrieveCandidates(
+    queryEmbedding: number[],
+    familyProfile: FamilyProfile,
+    options: {
+      limit: number;
+      filters: RecommendationFilters;
+      retrievalMode: RetrievalMode;
+      recommendationType?: string;
+    }
+  ): Promise<{ candidates: RetrievedCandidate[]; summary: RetrievalSummary }> {
+    const { limit, filters, retrievalMode, recommendationType } = options;
+
+    if (retrievalMode !== 'hybrid') {
+      const vectorResults = await this.performVectorSearch(queryEmbedding, { limit, filters, familyLocation: familyProfile.location });
+      return {
+        candidates: vectorResults,
+        summary: {
+          mode: 'vector',
+          vectorResults: vectorResults.length,
+          lexicalResults: 0,
+          fusedResults: vectorResults.length,
+        },
+      };
+    }
+
+    const relevantChildren = this.getRelevantChildren(familyProfile, recommendationType);
+    const terms = buildLexicalSearchTerms(familyProfile, relevantChildren, filters);
+
+    const [vectorResults, lexicalResults] = await Promise.all([
+      this.performVectorSearch(queryEmbedding, { limit, filters, familyLocation: familyProfile.location }),
+      terms.length > 0
+        ? this.searchFullText(terms, limit).catch(error => {
+            console.warn('Full-text search failed, continuing with vector results only:', error);
+            return [];
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const lexicalCandidates = lexicalResultsToCandidates(lexicalResults);
+    const candidates = fuseWithReciprocalRank(vectorResults, lexicalCandidates, { limit });
+
+    console.log(`Hybrid retrieval: ${vectorResults.length} vector + ${lexicalCandidates.length} lexical providers → ${candidates.length} fused candidates`);
+
+    return {
+      candidates,
+      summary: {
+        mode: 'hybrid',
+        vectorResults: vectorResults.length,
+        lexicalResults: lexicalCandidates.length,
+        fusedResults: candidates.length,
+      },
+    };
+  }
+
+  /**
+   * Rerank the top scored recommendations against the search query text.
+   * Falls back to the original order when the reranker is slow or unavailable.
+   */
+  private async rerankRecommendations(
+    recommendations: ScoredRecommendation[],
+    searchQuery: string,
+    options: RerankOptions
+  ): Promise<{ candidates: ScoredRecommendation[]; summary: RerankSummary }> {
+    return rerankCandidates(
+      recommendations,
+      searchQuery,
+      this.getReranker(options.method),
+      options,
+      recommendation => this.describeForRerank(recommendation.metadata),
+      (recommendation, rerankScore, blendedScore) => ({
+        ...recommendation,
+        matchScore: blendedScore,
+        ranking: { ...recommendation.ranking, overall: blendedScore, rerank: rerankScore },
+      })
+    );
+  }
+
+  /**
+   * Rerank lightweight candidates, reading each from the vector payload it was scored from.
+   * Same latency budget and fallback as the full path.
+   */
+  private async rerankLightweightRecommendations(
+    recommendations: LightweightRecommendation[],
+    searchQuery: string,
+    options: RerankOptions,
+    documents: Map<LightweightRecommendation, string>
+  ): Promise<{ candidates: LightweightRecommendation[]; summary: RerankSummary }> {
+    return rerankCandidates(
+      recommendations,
+      searchQuery,
+      this.getReranker(options.method),
+      options,
+      recommendation => documents.get(recommendation) || recommendation.providerId,
+      (recommendation, rerankScore, blendedScore) => ({
+        ...recommendation,
+        matchScore: blendedScore,
+        ranking: { ...recommendation.ranking, overall: blendedScore, rerank: rerankScore },
+      })
+    );
+  }
+
+  /**
+   * Reranker for a method: the injected one, else the shared default.
+   */
+  private getReranker(method: RerankMethod): Reranker {
+    return this.rerankers[method] || (method === 'llm' ? new LLMReranker(this.aiClient) : getCrossEncoderReranker());
+  }
+
+  /**
+   * Text a reranker sees for a candidate: what it is, who it's for, where and how much.
+   */
+  private describeForRerank(metadata: ActivityMetadata): string {
+    const parts = [
+      metadata.name,
+      metadata.category,
+      `Ages ${metadata.ageRange.min}-${metadata.ageRange.max}`,
+      metadata.location.city,
+      metadata.pricing.amount !== undefined ? `$${metadata.pricing.amount}` : metadata.pricing.type,
+      metadata.description,
+    ];
+    return parts.filter(Boolean).join('. ').slice(0, 1000);
+  }
+
+  /**
+   * Rerank text for a vector payload, the lightweight path's only view of a candidate.
+   */
+  private describePayloadForRerank(metadata: any, ageRange: ActivityMetadata['ageRange']): string {
+    const parts = [
+      metadata.title || metadata.name || metadata.provider_name || metadata.company_name,
+      metadata.category,
+      `Ages ${ageRange.min}-${ageRange.max}`,
+      metadata.city,
+      metadata.price,
+      metadata.description,
+    ];
+    return parts.filter(Boolean).join('. ').slice(0, 1000);
+  }
+
   /**
    * Perform vector similarity search using Qdrant.
+   *
+   * With `maxDistance` and a known family location, the search is limited to points
+   * within the radius, so `limit` isn't spent on far-away providers. With `languages`,
+   * to points taught in one of them or with no languages payload yet (native syntax,
+   * like the geo filter); scoring enforces the languages on the points that remain.
    */
   private async performVectorSearch(
     queryEmbedding: number[],
-    options: { limit: number; filters: RecommendationFilters }
+    options: { limit: number; filters: RecommendationFilters; familyLocation?: FamilyProfile['location'] }
   ): Promise<Array<QdrantSearchResult & { metadata: ActivityMetadata }>> {
     const { limit, filters } = options;
     
@@ -563,9 +1835,11 @@ export class RecommendationEngine {
     const integerLimit = Math.floor(Math.max(1, limit));
 
     // Build Qdrant filter object
-    // const qdrantFilter = this.buildQdrantFilter(filters);
     // Temporarily disable complex filters due to JSON serialization issue
-    const qdrantFilter = undefined;
+    const payloadFilter = QDRANT_PAYLOAD_FILTERS_ENABLED ? this.buildQdrantFilter(filters) : undefined;
+    const conditions = [this.buildGeoFilter(filters, options.familyLocation), buildLanguageFilter(filters.languages), payloadFilter]
+      .filter((condition): condition is Record<string, any> => condition !== undefined);
+    const qdrantFilter = conditions.length > 1 ? { must: conditions } : conditions[0];
 
     const searchResults = await this.qdrantClient.search({
       collection_name: this.collectionName,
@@ -583,6 +1857,41 @@ export class RecommendationEngine {
     }));
   }
 
+  /**
+   * Build a Qdrant geo_radius filter around the family for `maxDistance`.
+   *
+   * Written in Qdrant's native filter syntax, so it is sent even while the payload
+   * filters are disabled. Points without a geo payload (not yet re-embedded, or no
+   * known location) still match, as scoring keeps activities it can't place.
+   */
+  private buildGeoFilter(
+    filters: RecommendationFilters,
+    familyLocation?: FamilyProfile['location']
+  ): Record<string, any> | undefined {
+    const center = this.geoFilterCenter(filters, familyLocation);
+    if (!center || !filters.maxDistance) return undefined;
+
+    return {
+      should: [
+        {
+          key: GEO_PAYLOAD_KEY,
+          geo_radius: { center: { lat: center.lat, lon: center.lng }, radius: filters.maxDistance * METERS_PER_MILE },
+        },
+        { is_empty: { key: GEO_PAYLOAD_KEY } },
+      ],
+    };
+  }
+
+  /**
+   * Center of the `maxDistance` radius: the family's location, when it can be placed.
+   */
+  private geoFilterCenter(
+    filters: RecommendationFilters,
+    familyLocation?: FamilyProfile['location']
+  ): { lat: number; lng: number } | undefined {
+    return filters.maxDistance ? this.resolveFamilyLocation(familyLocation).coordinates : undefined;
+  }
+
   /**
    * Build Qdrant filter object from recommendation filters.
    */
@@ -642,6 +1951,15 @@ export class RecommendationEngine {
       }
     }
 
+    // Accommodation filters: every required accommodation, each met by any satisfying feature
+    for (const accommodation of requiredAccommodations(filters.specialNeeds)) {
+      conditions.push({
+        bool: {
+          should: satisfiedBy(accommodation).map(feature => ({ match: { key: 'accommodations', value: feature } })),
+        },
+      });
+    }
+
     return conditions.length > 0 ? { bool: { must: conditions } } : undefined;
   }
 
@@ -660,21 +1978,51 @@ export class RecommendationEngine {
    */
   private async scoreAndRankDatabaseRecommendations(
     databaseProviders: RecommendationProvider[],
-    vectorResults: Array<QdrantSearchResult & { metadata: any }>,
+    vectorResults: RetrievedCandidate[],
     familyProfile: FamilyProfile,
     filters: RecommendationFilters,
-    options: { includeScore: boolean; diversityWeight: number; recommendationType?: string }
+    options: {
+      includeScore: boolean;
+      diversityWeight: number;
+      recommendationType?: string;
+      rankingProfile: ResolvedRankingProfile;
+      explain?: boolean;
+    }
   ): Promise<ScoredRecommendation[]> {
+    const { thresholds } = options.rankingProfile;
     const scoredRecommendations: ScoredRecommendation[] = [];
+    await this.geocoder.ensureMarkets();
+
+    // Expired events can't be joined; providers left without events have nothing to offer
+    const now = new Date();
+    const dateWindow = resolveDateWindow(filters.dateWindow, now);
+    const providers = databaseProviders.flatMap(provider => {
+      const events = provider.events.filter(event => !isExpired(this.eventDates(event), now));
+      return events.length > 0 || provider.events.length === 0 ? [{ ...provider, events }] : [];
+    });
+
+    // One batch of travel-time estimates for every activity that may be scored
+    const travelTimes = await this.estimateTravelTimes(familyProfile, filters, providers.flatMap(provider =>
+      (provider.events.length > 0 ? provider.events.slice(0, 5) : [null]).flatMap(event => {
+        const { coordinates } = this.resolveEventCoordinates(provider, event);
+        const schedule = scheduleFromEvent(event);
+        return coordinates ? [{ coordinates, rushHour: schedule ? isRushHourSlot(schedule) : false }] : [];
+      })
+    ));
     
     // Create a map of vector scores for quick lookup
     const vectorScores = new Map<string, number>();
+    const lexicalScores = new Map<string, number>(); // Per provider, hybrid retrieval only
     for (const result of vectorResults) {
       const metadata = result.metadata;
       
       // Extract provider ID from various metadata formats and convert to database format
       const rawProviderId = metadata.provider_id || metadata.providerId || '';
       const providerId = this.convertToProviderDbId(rawProviderId) || '';
+
+      if (result.lexicalScore !== undefined) {
+        lexicalScores.set(providerId, Math.max(lexicalScores.get(providerId) || 0, result.lexicalScore));
+      }
       
       // Extract program/camp ID if available - camp_id can be the program ID
       const rawCampId = metadata.camp_id || 0;
@@ -697,7 +2045,7 @@ export class RecommendationEngine {
     const maxRecommendations = 100; // Limit processing to top candidates
     let processedCount = 0;
     
-    for (const provider of databaseProviders) {
+    for (const provider of providers) {
       // Early exit if we've processed enough candidates
       if (processedCount >= maxRecommendations) {
         console.log(`Early exit: processed ${processedCount} candidates to optimize performance`);
@@ -714,7 +2062,7 @@ export class RecommendationEngine {
           const vectorSimilarity = vectorScores.get(key) || vectorScores.get(`${provider.id}-default`) || 0.5;
           
           // Quick relevance check before expensive scoring
-          if (vectorSimilarity < 0.3) {
+          if (vectorSimilarity < thresholds.minVectorSimilarity) {
             continue; // Skip low-relevance items
           }
           
@@ -725,10 +2073,12 @@ export class RecommendationEngine {
             familyProfile, 
             relevantChildren, 
             filters,
-            options.recommendationType
+            options.rankingProfile,
+            options.recommendationType,
+            { explain: options.explain, travelTimes, dateWindow }
           );
           
-          if (scoredRecommendation && scoredRecommendation.matchScore >= 0.3) {
+          if (scoredRecommendation && scoredRecommendation.matchScore >= thresholds.minMatchScore) {
             scoredRecommendations.push(scoredRecommendation);
             processedCount++;
           }
@@ -739,7 +2089,7 @@ export class RecommendationEngine {
         const vectorSimilarity = vectorScores.get(key) || 0.5;
         
         // Quick relevance check before expensive scoring
-        if (vectorSimilarity < 0.3) {
+        if (vectorSimilarity < thresholds.minVectorSimilarity) {
           continue; // Skip low-relevance items
         }
         
@@ -750,16 +2100,28 @@ export class RecommendationEngine {
           familyProfile, 
           relevantChildren, 
           filters,
-          options.recommendationType
+          options.rankingProfile,
+          options.recommendationType,
+          { explain: options.explain, travelTimes, dateWindow }
         );
         
-        if (scoredRecommendation && scoredRecommendation.matchScore >= 0.3) {
+        if (scoredRecommendation && scoredRecommendation.matchScore >= thresholds.minMatchScore) {
           scoredRecommendations.push(scoredRecommendation);
           processedCount++;
         }
       }
     }
 
+    // Expose the lexical score next to vectorSimilarity when hybrid retrieval ran
+    if (lexicalScores.size > 0) {
+      for (const recommendation of scoredRecommendations) {
+        recommendation.lexicalScore = lexicalScores.get(recommendation.providerId) ?? 0;
+        if (recommendation.scoring) {
+          recommendation.scoring.vector.lexicalScore = recommendation.lexicalScore;
+        }
+      }
+    }
+
     // Sort by match score
     const finalRecommendations = scoredRecommendations.sort((a, b) => b.matchScore - a.matchScore);
     
@@ -778,80 +2140,61 @@ export class RecommendationEngine {
     familyProfile: FamilyProfile,
     relevantChildren: FamilyProfile['children'],
     filters: RecommendationFilters,
-    recommendationType?: string
+    rankingProfile: ResolvedRankingProfile,
+    recommendationType?: string,
+    options: { explain?: boolean; travelTimes?: TravelTimes; dateWindow?: DateWindow } = {}
   ): ScoredRecommendation | null {
-    // Create metadata structure from database provider data
-    const metadata: ActivityMetadata = {
-      providerId: provider.id,
-      programId: event?.id ? String(event.id) : undefined,
-      name: event?.title || provider.name,
-      description: event?.description || provider.description || '',
-      category: event?.category || 'General',
-      subcategory: undefined,
-      interests: this.inferInterestsFromEvent(event) || [],
-      ageRange: this.extractAgeRangeFromEvent(event) || this.extractAgeRangeFromProvider(provider) || { min: 3, max: 18 },
-      location: {
-        neighborhood: undefined, // No neighborhood in current schema
-        city: event?.city || provider.city || undefined,
-        zipCode: event?.zipCode || provider.zipCode || undefined,
-        address: event?.address || provider.address || undefined,
-        coordinates: event?.latitude && event?.longitude ? {
-          lat: parseFloat(event.latitude.toString()),
-          lng: parseFloat(event.longitude.toString())
-        } : (provider.latitude && provider.longitude ? {
-          lat: parseFloat(provider.latitude),
-          lng: parseFloat(provider.longitude)
-        } : undefined)
-      },
-      schedule: this.extractScheduleFromEvent(event) || { days: [], times: [], recurring: false, flexibility: 'flexible' },
-      pricing: this.extractPricingFromEvent(event, provider),
-      provider: {
-        name: provider.name,
-        rating: undefined,
-        reviewCount: undefined,
-        verified: provider.verified,
-        experience: undefined
-      },
-      capacity: {
-        maxStudents: event?.capacity || undefined,
-        currentEnrollment: event?.enrolled || undefined,
-        waitlist: false,
-      },
-      requirements: undefined,
-      tags: [event?.category].filter((tag): tag is string => Boolean(tag)),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const { explain = false, travelTimes, dateWindow } = options;
+    const { metadata, ageRangeMatch, coordinateSource, availability } = this.buildEventMetadata(provider, event);
+    if (filters.onlyAvailable && !isAvailable(availability)) return null;
+    const requiredNeeds = requiredAccommodations(filters.specialNeeds);
+    if (!meetsRequirements(metadata.accommodations, requiredNeeds)) return null;
+    if (!isTaughtIn(metadata.accommodations?.languages, normalizeLanguages(filters.languages))) return null;
+
+    const dates = this.eventDates(event);
+    const relation = dateWindow ? relateToWindow(dates, dateWindow) : 'unknown';
+    if (relation === 'outside' && filters.dateWindow?.strict) return null;
+    if (!this.passesNeighborhoodFilter(metadata.location.coordinates, familyProfile.location, filters.neighborhood)) {
+      return null;
+    }
+
+    const location = this.calculateLocationScore(
+      metadata.location,
+      familyProfile.location,
+      this.lookupTravelTime(travelTimes, metadata.location.coordinates, isRushHourSlot(metadata.schedule))
+    );
+    if (!this.passesTravelFilters(location, filters)) return null;
 
     // Calculate scoring factors
     const ageScore = this.calculateAgeScore(metadata.ageRange, relevantChildren);
     const interestScore = this.calculateInterestScore(metadata.interests, familyProfile);
-    const locationScore = this.calculateLocationScore(metadata.location, familyProfile.location);
-    const scheduleScore = this.calculateScheduleScore(metadata.schedule, familyProfile.preferences?.schedule);
-    const budgetScore = this.calculateBudgetScore(metadata.pricing, familyProfile.preferences?.budget);
+    const locationScore = location.score;
+    const schedule = this.calculateScheduleScore(
+      metadata.schedule,
+      familyProfile.preferences?.schedule,
+      familyProfile.preferences?.scheduleConstraints
+    );
+    const scheduleScore = schedule.score;
+    const budget = this.calculateBudgetScore(metadata, familyProfile, relevantChildren);
+    const budgetScore = budget.score;
     const qualityScore = this.calculateQualityScore(metadata.provider);
 
-    // Weighted overall score
-    const weights = {
-      vector: 0.3,
-      age: 0.25,
-      interests: 0.2,
-      location: 0.1,
-      schedule: 0.1,
-      budget: 0.03,
-      quality: 0.02,
-    };
-
-    const practicalScore = (
-      ageScore * weights.age +
-      interestScore * weights.interests +
-      locationScore * weights.location +
-      scheduleScore * weights.schedule +
-      budgetScore * weights.budget +
-      qualityScore * weights.quality
-    ) / (weights.age + weights.interests + weights.location + weights.schedule + weights.budget + weights.quality);
-
-    const matchScore = (vectorSimilarity * weights.vector + practicalScore * (1 - weights.vector));
+    // Weighted overall score using the selected ranking profile, demoted when full or out of the window
+    const combined = combineRankingScores(rankingProfile.weights, vectorSimilarity, {
+      age: ageScore,
+      interests: interestScore,
+      location: locationScore,
+      schedule: scheduleScore,
+      budget: budgetScore,
+      quality: qualityScore,
+    });
+    const { practicalScore } = combined;
+    const multiplier = availabilityMultiplier(availability);
+    const windowMultiplier = dateWindowMultiplier(relation);
+    const accommodation = matchAccommodations(metadata.accommodations, childAccommodationNeeds(relevantChildren));
+    const familyLanguages = [...(familyProfile.preferences?.languages || []), ...(filters.languages || [])];
+    const language = matchLanguages(metadata.accommodations, familyLanguages);
+    const matchScore = Math.min(1, combined.matchScore * multiplier * windowMultiplier * accommodation.multiplier * language.multiplier);
 
     // Skip if score is too low
     if (matchScore < 0.2) return null;
@@ -861,7 +2204,7 @@ export class RecommendationEngine {
     const concerns: string[] = [];
     
     // Only generate detailed explanations for high-scoring matches to save time
-    if (matchScore >= 0.7) {
+    if (matchScore >= rankingProfile.thresholds.detailedExplanationScore) {
       const explanation = this.generateMatchExplanation(
         metadata,
         familyProfile,
@@ -879,6 +2222,20 @@ export class RecommendationEngine {
       if (locationScore < 0.4) concerns.push('May require travel');
     }
 
+    const notes = [
+      describeAvailability(availability),
+      dateWindow ? describeDateWindow(relation, dateWindow) : {},
+      this.describeHouseholdSpend(budget, metadata.pricing),
+      describeLanguageMatch(language, familyLanguages),
+    ];
+    for (const note of notes) {
+      if (note.matchReason) matchReasons.push(note.matchReason);
+      if (note.concern) concerns.push(note.concern);
+    }
+    const accommodationNotes = describeAccommodations(accommodation);
+    matchReasons.push(...accommodationNotes.matchReasons);
+    concerns.push(...accommodationNotes.concerns);
+
     return {
       providerId: provider.id,
       programId: event?.id ? String(event.id) : undefined,
@@ -888,6 +2245,8 @@ export class RecommendationEngine {
       matchReasons,
       concerns,
       metadata,
+      availability,
+      householdSpend: this.householdSpendOf(budget, familyProfile),
       ranking: {
         overall: matchScore,
         age: ageScore,
@@ -897,268 +2256,317 @@ export class RecommendationEngine {
         budget: budgetScore,
         quality: qualityScore,
       },
+      scoring: explain ? this.explainProviderEventScore(metadata, familyProfile, relevantChildren, {
+        ageSource: ageRangeMatch?.source || 'default',
+        ageConfidence: ageRangeMatch?.confidence ?? 0,
+        coordinateSource,
+        priceSource: event?.price !== null && event?.price !== undefined ? 'event' : 'none',
+        location,
+        schedule,
+        budget,
+        vectorSimilarity,
+        scores: { age: ageScore, interests: interestScore, quality: qualityScore },
+        availability: { ...availability, multiplier },
+        dateWindow: dateWindow && this.explainDateWindow(dateWindow, dates, relation),
+        accommodations: this.explainAccommodations(metadata.accommodations, accommodation, requiredNeeds),
+        languages: this.explainLanguages(language),
+        weights: rankingProfile.weights,
+        practicalScore,
+        matchScore,
+      }) : undefined,
     };
   }
 
   /**
-   * Extract age range from actual metadata structure.
-   * 
-   * WHY: Comprehensive age extraction because:
-   * - provider_camps use `grades` field (e.g., "K-5", "6-12", "PreK-K")
-   * - events use `ages` field with various formats
-   * - some have numeric min_age/max_age fields
-   * - need to handle edge cases like "All ages", "Adults", etc.
-   * - Austin data has diverse age specifications
-   * 
-   * FORMATS HANDLED:
-   * - Grades: "K-5", "6-12", "PreK-2", "9-12" 
-   * - Ages: "3-5", "6-10", "All ages", "Adults only"
-   * - Direct fields: min_age, max_age, age_min, age_max
-   * - Text parsing: "ages 4-8", "for 6 year olds"
+   * Build scorer metadata for one provider-event from database data.
    */
-  private extractAgeRangeFromMetadata(metadata: any): { min: number; max: number } | null {
-    // Remove debug logging to optimize performance
-
-    // Method 1: Direct age fields (most reliable)
-    if (metadata.min_age !== undefined && metadata.max_age !== undefined) {
-      const min = parseInt(metadata.min_age);
-      const max = parseInt(metadata.max_age);
-      if (!isNaN(min) && !isNaN(max) && min >= 0 && max <= 25 && min <= max) {
-        return { min, max };
-      }
-    }
+  private buildEventMetadata(
+    provider: RecommendationProvider,
+    event: RecommendationProvider['events'][0] | null
+  ): {
+    metadata: ActivityMetadata;
+    ageRangeMatch: AgeRangeMatch | null;
+    coordinateSource: ScoringExplanation['location']['coordinateSource'];
+    availability: Availability;
+  } {
+    const ageRangeMatch = matchEventAgeRange(event) || matchProviderAgeRange(provider);
+    const availability = computeAvailability({ capacity: event?.capacity, enrolled: event?.enrolled });
+    const zipCode = event?.zipCode || provider.zipCode || undefined;
+    const { coordinates, coordinateSource } = this.resolveEventCoordinates(provider, event);
 
-    // Method 2: Alternative age field names
-    if (metadata.age_min !== undefined && metadata.age_max !== undefined) {
-      const min = parseInt(metadata.age_min);
-      const max = parseInt(metadata.age_max);
-      if (!isNaN(min) && !isNaN(max) && min >= 0 && max <= 25 && min <= max) {
-        return { min, max };
-      }
-    }
+    // Create metadata structure from database provider data
+    const metadata: ActivityMetadata = {
+      providerId: provider.id,
+      programId: event?.id ? String(event.id) : undefined,
+      name: event?.title || provider.name,
+      description: event?.description || provider.description || '',
+      category: event?.category || 'General',
+      subcategory: undefined,
+      interests: this.inferInterestsFromEvent(event) || [],
+      ageRange: ageRangeMatch?.range || { min: 3, max: 18 },
+      location: {
+        neighborhood: this.neighborhoods.locate(coordinates)?.name, // Providers store coordinates, not neighborhoods
+        city: event?.city || provider.city || undefined,
+        state: event?.state || provider.state || undefined,
+        zipCode,
+        address: event?.address || provider.address || undefined,
+        coordinates,
+      },
+      schedule: scheduleFromEvent(event) || { days: [], times: [], recurring: false, flexibility: 'flexible' },
+      accommodations: parseAccommodations(event?.title, event?.description, provider.description),
+      pricing: this.extractPricingFromEvent(event, provider),
+      provider: {
+        name: provider.name,
+        rating: undefined,
+        reviewCount: undefined,
+        verified: provider.verified,
+        experience: undefined
+      },
+      capacity: {
+        maxStudents: availability.spotsTotal,
+        currentEnrollment: event?.enrolled ?? undefined,
+        waitlist: availability.status === 'waitlist',
+      },
+      requirements: undefined,
+      tags: [event?.category].filter((tag): tag is string => Boolean(tag)),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
 
-    // Method 3: Parse grades field (common in provider_camps)
-    if (metadata.grades && typeof metadata.grades === 'string') {
-      const ageRange = this.parseGradesString(metadata.grades);
-      if (ageRange) {
-        return ageRange;
-      }
-    }
+    return { metadata, ageRangeMatch, coordinateSource, availability };
+  }
 
-    // Method 4: Parse ages field (common in events)
-    if (metadata.ages && typeof metadata.ages === 'string') {
-      const ageRange = this.parseAgesString(metadata.ages);
-      if (ageRange) {
-        return ageRange;
-      }
+  /**
+   * Activity coordinates: event coordinates, then provider coordinates, then the
+   * postal-code centroid (or its market's center for an unknown ZIP).
+   */
+  private resolveEventCoordinates(
+    provider: RecommendationProvider,
+    event: RecommendationProvider['events'][0] | null
+  ): {
+    coordinates?: { lat: number; lng: number };
+    coordinateSource: ScoringExplanation['location']['coordinateSource'];
+  } {
+    if (event?.latitude && event?.longitude) {
+      return {
+        coordinates: { lat: parseFloat(event.latitude.toString()), lng: parseFloat(event.longitude.toString()) },
+        coordinateSource: 'event',
+      };
     }
-
-    // Method 5: Parse from text description
-    const textFields = [
-      metadata.text,
-      metadata.description, 
-      metadata.title,
-      metadata.company_name
-    ].filter(Boolean);
-    
-    for (const text of textFields) {
-      if (typeof text === 'string') {
-        const ageRange = this.parseAgesFromText(text);
-        if (ageRange) {
-          return ageRange;
-        }
-      }
+    if (provider.latitude && provider.longitude) {
+      return {
+        coordinates: { lat: parseFloat(provider.latitude), lng: parseFloat(provider.longitude) },
+        coordinateSource: 'provider',
+      };
     }
 
-    // Skip logging to optimize performance
-    return null;
+    const { coordinates, source } = this.geocoder.geocode({
+      zipCode: event?.zipCode || provider.zipCode || undefined,
+      city: provider.city || undefined,
+      state: provider.state || undefined,
+    });
+    return { coordinates, coordinateSource: this.coordinateSource(source, 'provider') };
   }
 
   /**
-   * Parse grade strings like "K-5", "6-12", "PreK-2" into age ranges.
+   * When an event runs; provider-level activities have no dates.
    */
-  private parseGradesString(grades: string): { min: number; max: number } | null {
-    const gradeStr = grades.toLowerCase().trim();
-    
-    // Handle common grade range patterns
-    const patterns = [
-      // "K-5", "k-5"
-      /^k-(\d+)$/,
-      // "PreK-K", "prek-k"
-      /^pre?k-k$/,
-      // "PreK-2", "prek-2"
-      /^pre?k-(\d+)$/,
-      // "6-12", "9-12"
-      /^(\d+)-(\d+)$/,
-      // "Kindergarten", "K"
-      /^k(?:indergarten)?$/,
-      // "PreK", "Pre-K"
-      /^pre?-?k$/,
-    ];
+  private eventDates(event: RecommendationProvider['events'][0] | null): ActivityDates {
+    return parseActivityDates({ start: event?.startDate, end: event?.endDate, recurring: event?.recurring });
+  }
 
-    // Grade to age mapping (approximate)
-    const gradeToAge: Record<string, { min: number; max: number }> = {
-      'prek': { min: 3, max: 4 },
-      'pre-k': { min: 3, max: 4 },
-      'k': { min: 5, max: 6 },
-      'kindergarten': { min: 5, max: 6 },
-      '1': { min: 6, max: 7 },
-      '2': { min: 7, max: 8 },
-      '3': { min: 8, max: 9 },
-      '4': { min: 9, max: 10 },
-      '5': { min: 10, max: 11 },
-      '6': { min: 11, max: 12 },
-      '7': { min: 12, max: 13 },
-      '8': { min: 13, max: 14 },
-      '9': { min: 14, max: 15 },
-      '10': { min: 15, max: 16 },
-      '11': { min: 16, max: 17 },
-      '12': { min: 17, max: 18 },
+  /**
+   * Date-window inputs for a scoring explanation.
+   */
+  private explainDateWindow(
+    window: DateWindow,
+    dates: ActivityDates,
+    relation: DateWindowRelation
+  ): ScoringExplanation['dateWindow'] {
+    return {
+      window: { start: formatLocalDate(window.start), end: window.end && formatLocalDate(window.end), label: window.label },
+      activityStart: dates.start && formatLocalDate(dates.start),
+      activityEnd: dates.end && formatLocalDate(dates.end),
+      recurring: dates.recurring,
+      relation,
+      multiplier: dateWindowMultiplier(relation),
     };
-
-    // K-5 pattern
-    let match = gradeStr.match(/^k-(\d+)$/);
-    if (match) {
-      const endGrade = parseInt(match[1]);
-      return { min: 5, max: gradeToAge[endGrade.toString()]?.max || (5 + endGrade) };
-    }
-
-    // PreK-K pattern
-    if (gradeStr.match(/^pre?k-k$/)) {
-      return { min: 3, max: 6 };
-    }
-
-    // PreK-2 pattern
-    match = gradeStr.match(/^pre?k-(\d+)$/);
-    if (match) {
-      const endGrade = parseInt(match[1]);
-      return { min: 3, max: gradeToAge[endGrade.toString()]?.max || (6 + endGrade) };
-    }
-
-    // Numeric grade range: 6-12
-    match = gradeStr.match(/^(\d+)-(\d+)$/);
-    if (match) {
-      const startGrade = parseInt(match[1]);
-      const endGrade = parseInt(match[2]);
-      if (startGrade <= endGrade && startGrade >= 0 && endGrade <= 12) {
-        const startAge = gradeToAge[startGrade.toString()]?.min || (5 + startGrade);
-        const endAge = gradeToAge[endGrade.toString()]?.max || (5 + endGrade + 1);
-        return { min: startAge, max: endAge };
-      }
-    }
-
-    // Single grade patterns
-    if (gradeToAge[gradeStr]) {
-      return gradeToAge[gradeStr];
-    }
-
-    return null;
   }
 
   /**
-   * Parse age strings like "3-5", "6-10", "All ages", "Adults" into age ranges.
+   * Accommodation inputs for the explanation; omitted when nothing was asked for.
    */
-  private parseAgesString(ages: string): { min: number; max: number } | null {
-    const ageStr = ages.toLowerCase().trim();
-    
-    // Handle special cases
-    if (ageStr.includes('all ages') || ageStr.includes('any age')) {
-      return { min: 0, max: 18 };
-    }
-    
-    if (ageStr.includes('adult') || ageStr.includes('18+') || ageStr.includes('grown up')) {
-      return { min: 18, max: 99 };
-    }
-    
-    if (ageStr.includes('toddler')) {
-      return { min: 1, max: 3 };
-    }
-    
-    if (ageStr.includes('preschool') || ageStr.includes('pre-school')) {
-      return { min: 3, max: 5 };
-    }
-    
-    if (ageStr.includes('infant') || ageStr.includes('baby')) {
-      return { min: 0, max: 2 };
-    }
+  private explainAccommodations(
+    offered: ActivityAccommodations | undefined,
+    match: AccommodationMatch,
+    required: Accommodation[]
+  ): ScoringExplanation['accommodations'] {
+    if (match.needs.length === 0 && required.length === 0) return undefined;
+    return {
+      offered: offered?.features || [],
+      needs: match.needs,
+      met: match.met,
+      missing: match.missing,
+      required,
+      multiplier: match.multiplier,
+    };
+  }
 
-    // Numeric range patterns: "3-5", "6-10", "ages 4-8"
-    const patterns = [
-      /^(\d+)\s*-\s*(\d+)$/,
-      /ages?\s+(\d+)\s*-\s*(\d+)/,
-      /^(\d+)\s*to\s*(\d+)$/,
-      /(\d+)\s*through\s*(\d+)/,
-    ];
+  /**
+   * Language inputs for the explanation; omitted when neither side names a language.
+   */
+  private explainLanguages(match: LanguageMatch): ScoringExplanation['languages'] {
+    if (match.offered.length === 0 && match.familyLanguages.length === 0) return undefined;
+    return {
+      offered: match.offered,
+      program: match.program,
+      familyLanguages: match.familyLanguages,
+      matched: match.matched,
+      multiplier: match.multiplier,
+    };
+  }
 
-    for (const pattern of patterns) {
-      const match = ageStr.match(pattern);
-      if (match) {
-        const min = parseInt(match[1]);
-        const max = parseInt(match[2]);
-        if (!isNaN(min) && !isNaN(max) && min >= 0 && max <= 25 && min <= max) {
-          return { min, max };
-        }
-      }
+  /**
+   * Collect the inputs each full-path scorer used for one provider-event.
+   *
+   * Recomputes only cheap lookups (interest matches, time slots); the scores
+   * themselves are passed in so the explanation always matches the ranking.
+   */
+  private explainProviderEventScore(
+    metadata: ActivityMetadata,
+    familyProfile: FamilyProfile,
+    relevantChildren: FamilyProfile['children'],
+    inputs: {
+      ageSource: AgeRangeSource;
+      ageConfidence: number;
+      coordinateSource: ScoringExplanation['location']['coordinateSource'];
+      priceSource: ScoringExplanation['budget']['priceSource'];
+      location: LocationScoreDetail;
+      schedule: ScheduleScoreDetail;
+      budget: BudgetScoreDetail;
+      vectorSimilarity: number;
+      scores: Omit<ScoredRecommendation['ranking'], 'overall' | 'location' | 'schedule' | 'budget' | 'rerank'>;
+      availability: ScoringExplanation['availability'];
+      dateWindow?: ScoringExplanation['dateWindow'];
+      accommodations?: ScoringExplanation['accommodations'];
+      languages?: ScoringExplanation['languages'];
+      weights: RankingWeights;
+      practicalScore: number;
+      matchScore: number;
     }
-
-    // Single age patterns: "age 5", "5 years", "for 6 year olds"
-    const singleAgePatterns = [
-      /^(\d+)\s*(?:years?\s*old|yo)$/,
-      /^age\s*(\d+)$/,
-      /^(\d+)\s*years?$/,
-      /for\s*(\d+)\s*year\s*olds?/,
+  ): ScoringExplanation {
+    const familyInterests = [
+      ...familyProfile.children.flatMap(child => child.interests),
+      ...(familyProfile.preferences?.activityTypes || []),
     ];
+    const familySlots = familyProfile.preferences?.schedule || [];
+    const { days, times, flexibility, intervals } = metadata.schedule;
+    const timeSlots = this.activityTimeSlots(metadata.schedule);
+    const familyBudget = familyProfile.preferences?.budget?.max;
 
-    for (const pattern of singleAgePatterns) {
-      const match = ageStr.match(pattern);
-      if (match) {
-        const age = parseInt(match[1]);
-        if (!isNaN(age) && age >= 0 && age <= 25) {
-          // Single age gets +/- 1 year flexibility
-          return { min: Math.max(0, age - 1), max: Math.min(18, age + 1) };
-        }
-      }
-    }
-
-    return null;
+    return {
+      scorer: 'full',
+      vector: { similarity: inputs.vectorSimilarity },
+      age: {
+        range: metadata.ageRange,
+        source: inputs.ageSource,
+        confidence: inputs.ageConfidence,
+        children: relevantChildren.map(child => ({ name: child.name, age: child.age })),
+        score: inputs.scores.age,
+      },
+      interests: {
+        activityInterests: metadata.interests,
+        familyInterests,
+        matched: this.findMatchingInterests(metadata.interests, familyInterests),
+        score: inputs.scores.interests,
+      },
+      location: {
+        method: inputs.location.method,
+        distanceMiles: inputs.location.distanceMiles,
+        travel: inputs.location.travel,
+        activity: {
+          city: metadata.location.city,
+          zipCode: metadata.location.zipCode,
+          neighborhood: metadata.location.neighborhood,
+          coordinates: metadata.location.coordinates,
+        },
+        coordinateSource: inputs.coordinateSource,
+        familyCoordinates: inputs.location.familyCoordinates,
+        familyCoordinateSource: inputs.location.familyCoordinateSource,
+        neighborhood: inputs.location.neighborhood,
+        score: inputs.location.score,
+      },
+      schedule: {
+        assumed: false,
+        days,
+        times,
+        timeSlots,
+        familySlots,
+        matchedSlots: timeSlots.filter(slot => familySlots.includes(slot as typeof familySlots[number])),
+        flexibility,
+        intervals: intervals?.map(formatInterval),
+        availableShare: inputs.schedule.availableShare,
+        durationMinutes: inputs.schedule.durationMinutes,
+        preferredDuration: familyProfile.preferences?.scheduleConstraints?.specificTimes?.preferredDuration,
+        score: inputs.schedule.score,
+      },
+      budget: {
+        pricingType: metadata.pricing.type,
+        priceUsed: metadata.pricing.amount || metadata.pricing.range?.max,
+        priceSource: inputs.priceSource,
+        priceConfidence: metadata.pricing.confidence,
+        budgetMax: familyBudget,
+        budgetSource: familyBudget ? 'profile' : 'none',
+        period: inputs.budget.period,
+        perChildCost: inputs.budget.perChildCost,
+        children: inputs.budget.children,
+        householdCost: inputs.budget.householdCost,
+        budgetShare: inputs.budget.budgetShare,
+        siblingDiscount: metadata.pricing.siblingDiscount?.text,
+        score: inputs.budget.score,
+      },
+      quality: {
+        source: 'provider',
+        verified: metadata.provider.verified,
+        rating: metadata.provider.rating,
+        reviewCount: metadata.provider.reviewCount,
+        experience: metadata.provider.experience,
+        score: inputs.scores.quality,
+      },
+      availability: inputs.availability,
+      dateWindow: inputs.dateWindow,
+      accommodations: inputs.accommodations,
+      languages: inputs.languages,
+      weights: inputs.weights,
+      practicalScore: inputs.practicalScore,
+      matchScore: inputs.matchScore,
+    };
   }
 
   /**
-   * Parse age information from general text descriptions.
+   * Extract age range from actual metadata structure.
+   * 
+   * WHY: Comprehensive age extraction because:
+   * - provider_camps use `grades` field (e.g., "K-5", "6-12", "PreK-K")
+   * - events use `ages` field with various formats
+   * - some have numeric min_age/max_age fields
+   * - need to handle edge cases like "All ages", "Adults", etc.
+   * - Austin data has diverse age specifications
+   * 
+   * Direct fields win, then the grade and age fields, then free text; parsing is
+   * shared with the rest of the app through the age-range parser.
    */
-  private parseAgesFromText(text: string): { min: number; max: number } | null {
-    const lowerText = text.toLowerCase();
-    
-    // Look for age patterns in the text
-    const patterns = [
-      /ages?\s+(\d+)\s*-\s*(\d+)/g,
-      /(\d+)\s*to\s*(\d+)\s*years?\s*old/g,
-      /for\s*(\d+)\s*-\s*(\d+)\s*year\s*olds?/g,
-      /grades?\s+(\d+)\s*-\s*(\d+)/g,
-      /grade\s+k\s*-\s*(\d+)/g,
-    ];
+  private extractAgeRangeFromMetadata(metadata: any): { min: number; max: number } | null {
+    const fields = ageRangeFromFields(metadata.min_age, metadata.max_age) || ageRangeFromFields(metadata.age_min, metadata.age_max);
+    if (fields) return fields;
 
-    for (const pattern of patterns) {
-      const matches = Array.from(lowerText.matchAll(pattern));
-      for (const match of matches) {
-        if (pattern.source.includes('grade\s+k')) {
-          // Handle "grade k-5" pattern
-          const endGrade = parseInt(match[1]);
-          if (!isNaN(endGrade) && endGrade >= 1 && endGrade <= 12) {
-            return { min: 5, max: 5 + endGrade + 1 };
-          }
-        } else {
-          // Handle numeric age ranges
-          const min = parseInt(match[1]);
-          const max = parseInt(match[2]);
-          if (!isNaN(min) && !isNaN(max) && min >= 0 && max <= 25 && min <= max) {
-            return { min, max };
-          }
-        }
-      }
-    }
+    const parsed = (typeof metadata.grades === 'string' ? parseAgeRange(metadata.grades, { field: 'grades' }) : null)
+      || (typeof metadata.ages === 'string' ? parseAgeRange(metadata.ages, { field: 'ages' }) : null)
+      || [metadata.text, metadata.description, metadata.title, metadata.company_name]
+        .map(text => typeof text === 'string' ? parseAgeRange(text) : null)
+        .find(Boolean);
 
-    return null;
+    return parsed?.range || null;
   }
 
   /**
@@ -1215,225 +2623,40 @@ export class RecommendationEngine {
   }
 
   /**
-   * Extract schedule info from metadata with real provider data.
-   * 
-   * WHY: Enhanced schedule extraction because:
-   * - Provider data contains actual schedule information in various fields
-   * - Some providers specify days, hours, or operating schedules
-   * - Events often have specific date/time information
-   * - Need to handle different data formats from camps vs providers vs events
-   * - Schedule compatibility is crucial for family matching
+   * Extract schedule info from vector metadata.
+   *
+   * Session payloads carry a `time` field ("Tue/Thu 4:15-5:30pm"); older payloads
+   * use `schedule`/`hours` fields, and anything else falls back to the title and
+   * description. The first field with meeting times wins.
    */
   private extractScheduleFromMetadata(metadata: any): ActivityMetadata['schedule'] {
-    const schedule: ActivityMetadata['schedule'] = {
-      days: [],
-      times: [],
-      recurring: false,
-      flexibility: 'flexible'
-    };
-
-    // Extract days of operation
-    if (metadata.days_of_operation) {
-      schedule.days = this.parseDaysString(metadata.days_of_operation);
-    } else if (metadata.schedule && typeof metadata.schedule === 'string') {
-      schedule.days = this.parseDaysString(metadata.schedule);
-    } else if (metadata.operating_days) {
-      schedule.days = this.parseDaysString(metadata.operating_days);
-    }
-
-    // Extract hours/times of operation
-    if (metadata.hours_of_operation) {
-      schedule.times = this.parseTimesString(metadata.hours_of_operation);
-    } else if (metadata.operating_hours) {
-      schedule.times = this.parseTimesString(metadata.operating_hours);
-    } else if (metadata.hours) {
-      schedule.times = this.parseTimesString(metadata.hours);
-    }
-
-    // Check for recurring patterns
-    if (metadata.recurring !== undefined) {
-      schedule.recurring = Boolean(metadata.recurring);
-    } else if (metadata.type === 'camp' || metadata.type === 'class' || metadata.type === 'program') {
-      schedule.recurring = true; // Assume camps and classes are recurring
-    } else if (metadata.type === 'event') {
-      schedule.recurring = false; // Events are typically one-time
-    }
-
-    // Determine flexibility based on available data
-    if (metadata.flexibility) {
-      schedule.flexibility = metadata.flexibility;
-    } else if (schedule.days.length > 0 && schedule.times.length > 0) {
-      schedule.flexibility = 'fixed'; // Has specific schedule
-    } else if (schedule.days.length > 0 || schedule.times.length > 0) {
-      schedule.flexibility = 'flexible'; // Partial schedule info
-    } else {
-      schedule.flexibility = 'very_flexible'; // No specific schedule
-    }
-
-    // For activities without specific schedule data, try to infer from text
-    if (schedule.days.length === 0 && schedule.times.length === 0) {
-      const textFields = [
-        metadata.text,
-        metadata.description,
+    const recurrence = metadata.recurring !== undefined
+      ? (metadata.recurring ? 'weekly' : 'once')
+      : metadata.type === 'event' ? 'once' : 'weekly';
+    const schedule = scheduleFromText(
+      [
+        metadata.time,
+        typeof metadata.schedule === 'string' ? metadata.schedule : undefined,
+        [metadata.days_of_operation || metadata.operating_days, metadata.hours_of_operation || metadata.operating_hours || metadata.hours]
+          .filter(Boolean).join(' '),
         metadata.title,
-        metadata.notes
-      ].filter(Boolean);
-
-      for (const text of textFields) {
-        if (typeof text === 'string') {
-          const inferredDays = this.inferDaysFromText(text);
-          const inferredTimes = this.inferTimesFromText(text);
-          
-          if (inferredDays.length > 0) {
-            schedule.days = [...schedule.days, ...inferredDays];
-          }
-          if (inferredTimes.length > 0) {
-            schedule.times = [...schedule.times, ...inferredTimes];
-          }
-        }
-      }
-    }
-
+        metadata.description || metadata.text,
+      ],
+      { recurrence }
+    );
+    if (metadata.flexibility) schedule.flexibility = metadata.flexibility;
     return schedule;
   }
 
   /**
-   * Parse days string into standardized day names.
-   */
-  private parseDaysString(daysStr: string): string[] {
-    if (!daysStr || typeof daysStr !== 'string') return [];
-    
-    const dayMappings: Record<string, string[]> = {
-      'monday': ['monday', 'mon'],
-      'tuesday': ['tuesday', 'tue', 'tues'],
-      'wednesday': ['wednesday', 'wed'],
-      'thursday': ['thursday', 'thu', 'thurs'],
-      'friday': ['friday', 'fri'],
-      'saturday': ['saturday', 'sat'],
-      'sunday': ['sunday', 'sun'],
-      'weekdays': ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
-      'weekends': ['saturday', 'sunday'],
-    };
-
-    const days: string[] = [];
-    const lowerStr = daysStr.toLowerCase();
-
-    for (const [standardDay, variations] of Object.entries(dayMappings)) {
-      if (variations.some(variant => lowerStr.includes(variant))) {
-        if (standardDay === 'weekdays') {
-          days.push('monday', 'tuesday', 'wednesday', 'thursday', 'friday');
-        } else if (standardDay === 'weekends') {
-          days.push('saturday', 'sunday');
-        } else {
-          days.push(standardDay);
-        }
-      }
-    }
-
-    return [...new Set(days)]; // Remove duplicates
-  }
-
-  /**
-   * Parse time string into time values.
-   */
-  private parseTimesString(timesStr: string): string[] {
-    if (!timesStr || typeof timesStr !== 'string') return [];
-    
-    const times: string[] = [];
-    
-    // Match various time formats: "9:00 AM", "2:30 PM", "14:00", etc.
-    const timeMatches = timesStr.match(/\d{1,2}(?::\d{2})?\s*(?:am|pm|AM|PM)?/g);
-    
-    if (timeMatches) {
-      times.push(...timeMatches);
-    }
-
-    // Also look for hour ranges: "9am-5pm", "9:00-17:00"
-    const rangeMatches = timesStr.match(/(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)\s*-\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)/gi);
-    
-    if (rangeMatches) {
-      for (const range of rangeMatches) {
-        times.push(range);
-      }
-    }
-
-    return times;
-  }
-
-  /**
-   * Infer days from text description.
-   */
-  private inferDaysFromText(text: string): string[] {
-    const days: string[] = [];
-    const lowerText = text.toLowerCase();
-    
-    if (lowerText.includes('weekday') || lowerText.includes('monday through friday') || lowerText.includes('m-f')) {
-      days.push('monday', 'tuesday', 'wednesday', 'thursday', 'friday');
-    }
-    if (lowerText.includes('weekend') || lowerText.includes('saturday and sunday') || lowerText.includes('sat-sun')) {
-      days.push('saturday', 'sunday');
-    }
-    
-    // Individual days
-    const dayWords = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-    for (const day of dayWords) {
-      if (lowerText.includes(day)) {
-        days.push(day);
-      }
-    }
-    
-    return [...new Set(days)];
-  }
-
-  /**
-   * Infer times from text description.
-   */
-  private inferTimesFromText(text: string): string[] {
-    const times: string[] = [];
-    
-    // Look for time-related phrases
-    const timePatterns = [
-      /\d{1,2}(?::\d{2})?\s*(?:am|pm)/gi,
-      /morning/gi,
-      /afternoon/gi,
-      /evening/gi,
-      /after school/gi,
-      /before school/gi,
-    ];
-    
-    for (const pattern of timePatterns) {
-      const matches = text.match(pattern);
-      if (matches) {
-        times.push(...matches);
-      }
-    }
-    
-    return times;
-  }
-
-  /**
-   * Extract pricing from metadata.
+   * Extract pricing from vector metadata: the generator's structured `pricing`, or
+   * the raw price text of older payloads.
    */
   private extractPricingFromMetadata(metadata: any): ActivityMetadata['pricing'] {
-    const pricing: ActivityMetadata['pricing'] = { type: 'per_session' };
-    
-    if (metadata.price || metadata.pricing) {
-      const priceStr = metadata.price || metadata.pricing;
-      if (typeof priceStr === 'string') {
-        if (priceStr.toLowerCase().includes('free')) {
-          pricing.type = 'free';
-        } else {
-          // Try to extract numeric price
-          const match = priceStr.match(/\$?(\d+)/);
-          if (match) {
-            pricing.amount = parseInt(match[1]);
-            pricing.currency = 'USD';
-          }
-        }
-      }
+    if (metadata.pricing && typeof metadata.pricing === 'object' && metadata.pricing.type) {
+      return metadata.pricing;
     }
-    
-    return pricing;
+    return toActivityPricing(parsePrice(metadata.price ?? metadata.amount ?? metadata.pricing));
   }
 
   /**
@@ -1521,55 +2744,97 @@ export class RecommendationEngine {
 
     if (allInterests.length === 0) return 0.5; // Neutral if no interests specified
 
-    const matchingInterests = activityInterests.filter(interest =>
-      allInterests.some(familyInterest =>
+    const matchingInterests = this.findMatchingInterests(activityInterests, allInterests);
+
+    return Math.min(matchingInterests.length / Math.max(allInterests.length, activityInterests.length), 1);
+  }
+
+  /**
+   * Activity interests that overlap a family interest (substring match either way).
+   */
+  private findMatchingInterests(activityInterests: string[], familyInterests: string[]): string[] {
+    return activityInterests.filter(interest =>
+      familyInterests.some(familyInterest =>
         interest.toLowerCase().includes(familyInterest.toLowerCase()) ||
         familyInterest.toLowerCase().includes(interest.toLowerCase())
       )
     );
-
-    return Math.min(matchingInterests.length / Math.max(allInterests.length, activityInterests.length), 1);
   }
 
   /**
-   * Calculate location convenience score using distance and Austin geography.
+   * Calculate location convenience score using distance and market geography.
    * 
    * WHY: Production-quality location scoring because:
    * - Parents care deeply about travel time and distance
-   * - Austin traffic patterns make some short distances take longer
    * - Need to handle missing coordinate data gracefully
    * - Should account for both distance and neighborhood familiarity
-   * - ZIP code proximity is important for Austin families
+   * - Same-market activities are reachable even when the city name differs (suburbs)
+   * - Minutes in the family's travel mode say more than miles: highways, transit and
+   *   rush hour all change what "close" means
+   *
+   * Returns the comparison that decided the score so it can be explained.
    */
   private calculateLocationScore(
     activityLocation: ActivityMetadata['location'],
-    familyLocation: FamilyProfile['location']
-  ): number {
-    // If both locations have coordinates, use distance calculation
-    if (activityLocation.coordinates && this.getFamilyCoordinates(familyLocation)) {
-      const familyCoords = this.getFamilyCoordinates(familyLocation)!;
+    familyLocation: FamilyProfile['location'],
+    travel?: TravelTimeEstimate
+  ): LocationScoreDetail {
+    const {
+      geocoded: family,
+      coordinates: familyCoords,
+      coordinateSource: familyCoordinateSource,
+      homeNeighborhood,
+    } = this.resolveFamilyLocation(familyLocation);
+    const neighborhood = this.describeNeighborhoodRelation(activityLocation, homeNeighborhood);
+
+    // If both locations have coordinates, score the estimated trip (or the distance)
+    if (activityLocation.coordinates && familyCoords) {
       const distance = this.calculateHaversineDistance(
         familyCoords.lat,
         familyCoords.lng,
         activityLocation.coordinates.lat,
         activityLocation.coordinates.lng
       );
+
+      // Inside or next to the home neighborhood is at least as good as a short drive
+      let score = travel ? this.travelMinutesToScore(travel.minutes) : this.distanceToScore(distance);
+      let method: LocationScoreDetail['method'] = travel ? 'travel_time' : 'distance';
+      if (neighborhood?.relation === 'inside') {
+        score = 1.0;
+        method = 'neighborhood';
+      } else if (neighborhood?.relation === 'adjacent' && score < 0.9) {
+        score = 0.9;
+        method = 'adjacent_neighborhood';
+      }
       
-      return this.distanceToScore(distance);
+      return {
+        score,
+        method,
+        distanceMiles: distance,
+        travel: this.describeTravel(travel),
+        familyCoordinates: familyCoords,
+        familyCoordinateSource,
+        neighborhood,
+      };
     }
 
     // Fallback to text-based location matching
     let score = 0.3; // Lower base score when coordinates unavailable
+    let method: LocationScoreDetail['method'] = 'none';
+    const activity = this.geocoder.geocode(activityLocation);
 
-    // Exact neighborhood match (very high value in Austin)
+    // Exact neighborhood match
     if (activityLocation.neighborhood && familyLocation.neighborhood &&
-        this.normalizeLocation(activityLocation.neighborhood) === this.normalizeLocation(familyLocation.neighborhood)) {
+        (this.normalizeLocation(activityLocation.neighborhood) === this.normalizeLocation(familyLocation.neighborhood) ||
+         (homeNeighborhood && this.neighborhoods.find(activityLocation.neighborhood) === homeNeighborhood))) {
       score = 0.9; // Strong preference for same neighborhood
+      method = 'neighborhood';
     }
-    // City match (Austin metro area)
+    // City match
     else if (activityLocation.city && familyLocation.city &&
         this.normalizeLocation(activityLocation.city) === this.normalizeLocation(familyLocation.city)) {
       score = 0.7;
+      method = 'city';
       
       // Bonus for ZIP code proximity within same city
       if (activityLocation.zipCode && familyLocation.zipCode) {
@@ -1579,52 +2844,180 @@ export class RecommendationEngine {
         }
       }
     }
-    // Austin metro area matching (Cedar Park, Round Rock, etc.)
-    else if (this.isAustinMetroArea(activityLocation) && this.isAustinMetroArea(familyLocation)) {
+    // Same market (e.g. a suburb and its metro's core city)
+    else if (activity.market && family.market && activity.market.id === family.market.id) {
       score = 0.5;
+      method = 'metro_area';
     }
-    // Texas match (very low score, but not zero)
-    else if (this.isTexasLocation(activityLocation) && this.isTexasLocation(familyLocation)) {
+    // Same state (very low score, but not zero)
+    else if (activity.state && family.state && activity.state === family.state) {
       score = 0.2;
+      method = 'state';
     }
-    return Math.min(score, 1);
+    return { score: Math.min(score, 1), method, familyCoordinates: familyCoords, familyCoordinateSource, neighborhood };
   }
 
   /**
-   * Get coordinates for family location, with Austin ZIP code defaults.
-   */
-  private getFamilyCoordinates(familyLocation: FamilyProfile['location']): { lat: number; lng: number } | null {
-    // If coordinates provided, use them
-    if ((familyLocation as any).coordinates?.lat && (familyLocation as any).coordinates?.lng) {
-      return (familyLocation as any).coordinates;
-    }
-
-    // Austin ZIP code to coordinates mapping (city center approximations)
-    const austinZipCoordinates: Record<string, { lat: number; lng: number }> = {
-      '78701': { lat: 30.2672, lng: -97.7431 }, // Downtown Austin
-      '78702': { lat: 30.2547, lng: -97.7178 }, // East Austin
-      '78703': { lat: 30.2729, lng: -97.7689 }, // Tarrytown/Clarksville
-      '78704': { lat: 30.2426, lng: -97.7568 }, // Zilker/South Congress
-      '78705': { lat: 30.2955, lng: -97.7414 }, // UT Campus
-      '78723': { lat: 30.2888, lng: -97.6781 }, // Mueller
-      '78739': { lat: 30.2263, lng: -97.8897 }, // Circle C
-      '78746': { lat: 30.2932, lng: -97.8147 }, // Westlake Hills
-      '78751': { lat: 30.3077, lng: -97.7264 }, // Hyde Park
-      '78756': { lat: 30.3244, lng: -97.7403 }, // Rosedale
-      '78757': { lat: 30.3390, lng: -97.7506 }, // Allandale/Crestview
-      // Cedar Park area
-      '78613': { lat: 30.5052, lng: -97.8203 },
-      '78641': { lat: 30.4947, lng: -97.7876 },
-      // Round Rock area  
-      '78664': { lat: 30.5082, lng: -97.6789 },
-      '78665': { lat: 30.5266, lng: -97.6631 },
+   * Resolve the family's location: profile coordinates or ZIP centroid, and the home
+   * neighborhood, whose centroid places the family when there is neither; the market
+   * center of an unknown ZIP comes last.
+   */
+  private resolveFamilyLocation(familyLocation: FamilyProfile['location'] | undefined): FamilyLocationDetail {
+    const profileCoordinates = (familyLocation as any)?.coordinates;
+    const geocoded = this.geocoder.geocode({
+      coordinates: profileCoordinates?.lat && profileCoordinates?.lng ? profileCoordinates : undefined,
+      zipCode: familyLocation?.zipCode,
+      city: familyLocation?.city,
+    });
+    const homeNeighborhood = this.neighborhoods.find(familyLocation?.neighborhood, familyLocation?.city);
+
+    // The home neighborhood places the family more closely than its market's center
+    const placed = geocoded.source === 'coordinates' || geocoded.source === 'postal_code';
+    return {
+      geocoded,
+      coordinates: placed ? geocoded.coordinates : homeNeighborhood?.centroid || geocoded.coordinates,
+      coordinateSource: geocoded.source === 'coordinates' ? 'profile' :
+                        geocoded.source === 'postal_code' ? 'zip_lookup' :
+                        homeNeighborhood ? 'neighborhood' :
+                        geocoded.source === 'market_center' ? 'market_center' : 'none',
+      homeNeighborhood,
     };
+  }
+
+  /**
+   * How the family travels: the request's travelMode, then the profile's, then transit
+   * for families who need transportation help, otherwise driving.
+   */
+  private resolveTravelMode(familyProfile: FamilyProfile, filters: RecommendationFilters): TravelMode {
+    return filters.travelMode ||
+      familyProfile.location?.travelMode ||
+      (familyProfile.location?.transportationNeeds ? 'transit' : 'driving');
+  }
 
-    if (familyLocation.zipCode && austinZipCoordinates[familyLocation.zipCode]) {
-      return austinZipCoordinates[familyLocation.zipCode];
+  /**
+   * Estimate travel times from the family to each destination in one estimator call.
+   * Returns undefined when the family can't be placed or the estimator fails, so
+   * location scoring falls back to straight-line distance.
+   */
+  private async estimateTravelTimes(
+    familyProfile: FamilyProfile,
+    filters: RecommendationFilters,
+    destinations: TravelDestination[]
+  ): Promise<TravelTimes | undefined> {
+    const origin = this.resolveFamilyLocation(familyProfile.location).coordinates;
+    if (!origin || destinations.length === 0) return undefined;
+
+    const mode = this.resolveTravelMode(familyProfile, filters);
+    const unique = new Map<string, TravelDestination>();
+    for (const destination of destinations) {
+      unique.set(this.travelKey(destination.coordinates, Boolean(destination.rushHour)), destination);
     }
 
-    return null;
+    try {
+      const estimates = await Promise.race([
+        this.travelTimeEstimator.estimate(origin, [...unique.values()], mode),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error('Travel time timeout: estimator exceeded 3 seconds')), 3000)
+        )
+      ]);
+      const keys = [...unique.keys()];
+      return { mode, estimates: new Map(keys.map((key, index) => [key, estimates[index]])) };
+    } catch (error) {
+      console.warn(`Travel time estimation (${this.travelTimeEstimator.name}) failed, scoring by distance:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Travel times between schedule candidates from the shared estimator in the family's
+   * travel mode; the heuristic for that mode if the estimator doesn't answer in time.
+   */
+  private async scheduleTravelTime(
+    familyProfile: FamilyProfile,
+    filters: RecommendationFilters,
+    candidates: Array<{ recommendation: ScoredRecommendation }>
+  ): Promise<TravelTimeFunction> {
+    const mode = this.resolveTravelMode(familyProfile, filters);
+    const locations = candidates.map(({ recommendation }) => recommendation.metadata.location);
+    try {
+      return await Promise.race([
+        createTravelTimeFunction(this.travelTimeEstimator, locations, mode),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error('Travel time timeout: estimator exceeded 3 seconds')), 3000)
+        )
+      ]);
+    } catch (error) {
+      console.warn(`Travel time estimation (${this.travelTimeEstimator.name}) failed, using heuristic schedule gaps:`, error);
+      return (from, to) => estimateTravelMinutes(from, to, mode);
+    }
+  }
+
+  /**
+   * Estimated trip to an activity, if one was computed before scoring.
+   */
+  private lookupTravelTime(
+    travelTimes: TravelTimes | undefined,
+    coordinates: { lat: number; lng: number } | undefined,
+    rushHour: boolean
+  ): TravelTimeEstimate | undefined {
+    if (!travelTimes || !coordinates) return undefined;
+    return travelTimes.estimates.get(this.travelKey(coordinates, rushHour));
+  }
+
+  private travelKey(coordinates: { lat: number; lng: number }, rushHour: boolean): string {
+    return `${coordinates.lat.toFixed(5)},${coordinates.lng.toFixed(5)}${rushHour ? ':rush' : ''}`;
+  }
+
+  private describeTravel(travel?: TravelTimeEstimate): LocationScoreDetail['travel'] {
+    return travel ? { mode: travel.mode, minutes: travel.minutes, source: travel.source, rushHour: travel.rushHour } : undefined;
+  }
+
+  /**
+   * Check an activity against maxDistance (straight-line miles) and maxTravelMinutes.
+   * Activities that can't be measured are kept; there is nothing to hold against them.
+   */
+  private passesTravelFilters(location: LocationScoreDetail, filters: RecommendationFilters): boolean {
+    if (filters.maxDistance && location.distanceMiles !== undefined && location.distanceMiles > filters.maxDistance) {
+      return false;
+    }
+    if (filters.maxTravelMinutes && location.travel && location.travel.minutes > filters.maxTravelMinutes) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Relate an activity to the family's neighborhood, when its boundary is known.
+   */
+  private describeNeighborhoodRelation(
+    activityLocation: ActivityMetadata['location'],
+    homeNeighborhood: Neighborhood | undefined
+  ): LocationScoreDetail['neighborhood'] {
+    if (!homeNeighborhood) return undefined;
+    return {
+      family: homeNeighborhood.name,
+      activity: activityLocation.neighborhood || this.neighborhoods.locate(activityLocation.coordinates)?.name,
+      relation: this.neighborhoods.relate(activityLocation.coordinates, homeNeighborhood),
+    };
+  }
+
+  /**
+   * Check an activity against the neighborhood filter. Activities without coordinates
+   * are excluded since they cannot be placed; an unknown neighborhood, or one with only
+   * an approximate boundary, disables the filter.
+   */
+  private passesNeighborhoodFilter(
+    coordinates: ActivityMetadata['location']['coordinates'],
+    familyLocation: FamilyProfile['location'],
+    filter?: RecommendationFilters['neighborhood']
+  ): boolean {
+    if (!filter) return true;
+
+    const home = this.neighborhoods.find(filter.name || familyLocation.neighborhood, familyLocation.city);
+    if (!home || home.approximate) return true;
+
+    const relation = this.neighborhoods.relate(coordinates, home);
+    return relation === 'inside' || (relation === 'adjacent' && filter.includeAdjacent !== false);
   }
 
   /**
@@ -1663,6 +3056,20 @@ export class RecommendationEngine {
     return 0.05; // Beyond 40 miles = not practical for regular activities
   }
 
+  /**
+   * Convert one-way travel minutes to location score. Bands line up with
+   * distanceToScore for an off-peak drive.
+   */
+  private travelMinutesToScore(minutes: number): number {
+    if (minutes <= 12) return 1.0;   // Around the corner
+    if (minutes <= 20) return 0.9;   // Easy weekly trip
+    if (minutes <= 30) return 0.7;   // Typical crosstown trip
+    if (minutes <= 40) return 0.5;   // Noticeable commitment
+    if (minutes <= 60) return 0.3;   // Far but doable
+    if (minutes <= 90) return 0.1;   // Very far
+    return 0.05; // Not practical for regular activities
+  }
+
   /**
    * Normalize location strings for comparison.
    */
@@ -1677,7 +3084,7 @@ export class RecommendationEngine {
    * Calculate ZIP code proximity (rough approximation).
    */
   private calculateZipCodeProximity(zip1: string, zip2: string): number {
-    // Simple numeric difference for Austin area ZIP codes
+    // Simple numeric difference between nearby ZIP codes
     const num1 = parseInt(zip1.replace(/\D/g, ''));
     const num2 = parseInt(zip2.replace(/\D/g, ''));
     
@@ -1686,35 +3093,6 @@ export class RecommendationEngine {
     return Math.abs(num1 - num2);
   }
 
-  /**
-   * Check if location is in Austin metro area.
-   */
-  private isAustinMetroArea(location: ActivityMetadata['location']): boolean {
-    const austinMetroCities = [
-      'austin', 'cedar park', 'round rock', 'pflugerville', 'georgetown', 
-      'leander', 'lakeway', 'bee cave', 'dripping springs', 'kyle', 
-      'buda', 'manor', 'elgin', 'del valle'
-    ];
-    
-    const city = location.city?.toLowerCase() || '';
-    const neighborhood = location.neighborhood?.toLowerCase() || '';
-    
-    return austinMetroCities.some(metroCity => 
-      city.includes(metroCity) || neighborhood.includes(metroCity)
-    );
-  }
-
-  /**
-   * Check if location is in Texas.
-   */
-  private isTexasLocation(location: ActivityMetadata['location']): boolean {
-    const address = location.address?.toLowerCase() || '';
-    const city = location.city?.toLowerCase() || '';
-    
-    return address.includes('texas') || address.includes(' tx') || 
-           city.includes('texas') || city.includes(' tx');
-  }
-
   /**
    * Calculate schedule compatibility score with enhanced matching.
    * 
@@ -1724,134 +3102,85 @@ export class RecommendationEngine {
    * - Need to extract real schedule info from provider data when available
    * - Should handle both basic time slots and specific time restrictions
    * - Austin families care deeply about commute timing and school schedules
+   *
+   * DESIGN DECISIONS:
+   * - With parsed meetings, the score is the share of meeting minutes inside the
+   *   family's hours (their slots clipped to earliestStart/latestEnd, widened by
+   *   their flexibility), so a class running past latestEnd loses only the overrun
+   * - Meetings without an end are assumed to last an hour
+   * - preferredDuration trims up to 20% for classes much shorter or longer than asked
+   * - Without meeting times, falls back to matching days against the family's slots
    */
   private calculateScheduleScore(
     activitySchedule: ActivityMetadata['schedule'],
-    familySchedule?: string[]
-  ): number {
-    if (!familySchedule || familySchedule.length === 0) return 0.7; // Neutral if no preference
-
-    let baseScore = 0;
-    let hasDirectMatch = false;
-
-    // Enhanced schedule matching using real provider data
-    if (activitySchedule.days && activitySchedule.days.length > 0 && 
-        activitySchedule.times && activitySchedule.times.length > 0) {
-      
-      // Parse activity schedule to time slots
-      const activityTimeSlots = this.parseActivityScheduleToTimeSlots(
-        activitySchedule.days, 
-        activitySchedule.times
-      );
-      
-      // Check for direct time slot overlap
-      const matchingSlots = activityTimeSlots.filter(slot => 
-        familySchedule.includes(slot)
-      );
-      
-      if (matchingSlots.length > 0) {
-        hasDirectMatch = true;
-        // Perfect match: activity time exactly aligns with family preference
-        baseScore = 1.0;
-      } else {
-        // Check for partial compatibility
-        const hasCompatibleDays = this.hasCompatibleDayPattern(
-          activitySchedule.days, 
-          familySchedule
-        );
-        
-        if (hasCompatibleDays) {
-          baseScore = 0.6; // Compatible days but uncertain about exact times
-        } else {
-          baseScore = 0.2; // Day pattern doesn't match family preferences
-        }
+    familySchedule?: string[],
+    constraints?: ScheduleConstraint
+  ): ScheduleScoreDetail {
+    const slots = familySchedule && familySchedule.length > 0 ? familySchedule : constraints?.timeSlots || [];
+    const slack = FLEXIBILITY_SLACK_MINUTES[constraints?.flexibility || 'somewhat_flexible'];
+    const windows = availabilityWindows(slots, constraints?.specificTimes, slack);
+    const preferredDuration = constraints?.specificTimes?.preferredDuration;
+    if (!windows && !preferredDuration) return { score: 0.7 }; // Neutral if no preference
+
+    // A meeting that doesn't end after it starts has no length to score (and would divide by zero)
+    const meetings = (activitySchedule.intervals || [])
+      .map(interval => ({
+        ...interval,
+        endMinutes: interval.endMinutes ?? interval.startMinutes + ASSUMED_SESSION_MINUTES,
+      }))
+      .filter(meeting => meeting.endMinutes > meeting.startMinutes);
+    if (meetings.length > 0) {
+      const totalMinutes = meetings.reduce((sum, meeting) => sum + meeting.endMinutes - meeting.startMinutes, 0);
+      const availableShare = windows
+        ? meetings.reduce((sum, meeting) => sum + overlapMinutes(meeting, windows), 0) / totalMinutes
+        : undefined;
+
+      const timed = (activitySchedule.intervals || [])
+        .filter(interval => interval.endMinutes !== undefined && interval.endMinutes > interval.startMinutes);
+      const durationMinutes = timed.length > 0
+        ? Math.round(timed.reduce((sum, interval) => sum + interval.endMinutes! - interval.startMinutes, 0) / timed.length)
+        : undefined;
+
+      let score = availableShare !== undefined ? 0.2 + 0.8 * availableShare : 0.7;
+      // Missing a family's only time slot entirely is likely a deal-breaker
+      if (availableShare === 0 && slots.length === 1) score = 0.1;
+      if (preferredDuration && durationMinutes) {
+        score *= 0.8 + 0.2 * (Math.min(durationMinutes, preferredDuration) / Math.max(durationMinutes, preferredDuration));
       }
-    } else {
-      // Fallback for activities without detailed schedule info
-      baseScore = 0.5; // Unknown schedule, assume moderate compatibility
+      return { score, availableShare, durationMinutes };
     }
 
+    // Fallback for activities without meeting times
+    if (activitySchedule.days.length === 0) return { score: 0.5 }; // Unknown schedule, assume moderate compatibility
+
+    const hasCompatibleDays = slots.length === 0 || this.hasCompatibleDayPattern(activitySchedule.days, slots);
+    const baseScore = hasCompatibleDays ? 0.6 : 0.2;
+
     // Apply flexibility bonuses
     const flexibilityBonus = activitySchedule.flexibility === 'very_flexible' ? 0.3 :
                             activitySchedule.flexibility === 'flexible' ? 0.15 : 0;
-
     const finalScore = Math.min(baseScore + flexibilityBonus, 1.0);
-    
-    // Additional penalty for strict schedule mismatches
-    if (!hasDirectMatch && familySchedule.length === 1) {
-      // If family has only one available time slot and activity doesn't match,
-      // this is likely a deal-breaker regardless of other factors
-      return Math.max(finalScore * 0.3, 0.1);
-    }
-
-    return finalScore;
-  }
 
-  /**
-   * Parse activity days and times into standard time slot enums.
-   */
-  private parseActivityScheduleToTimeSlots(days: string[], times: string[]): string[] {
-    const timeSlots: string[] = [];
-    
-    for (const day of days) {
-      const normalizedDay = day.toLowerCase().trim();
-      const isWeekday = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'mon', 'tue', 'wed', 'thu', 'fri'].includes(normalizedDay);
-      const isWeekend = ['saturday', 'sunday', 'sat', 'sun', 'weekend'].includes(normalizedDay);
-      
-      for (const time of times) {
-        const timeSlot = this.parseTimeToSlot(time, isWeekday, isWeekend);
-        if (timeSlot && !timeSlots.includes(timeSlot)) {
-          timeSlots.push(timeSlot);
-        }
-      }
+    // If family has only one available time slot, an unconfirmed time is likely a deal-breaker
+    if (slots.length === 1) {
+      return { score: Math.max(finalScore * 0.3, 0.1) };
     }
-    
-    return timeSlots;
+
+    return { score: finalScore };
   }
 
   /**
-   * Parse time strings into time slot categories.
+   * Time slots an activity meets in, from its parsed meetings or its listed days and times.
    */
-  private parseTimeToSlot(timeString: string, isWeekday: boolean, isWeekend: boolean): string | null {
-    const timeStr = timeString.toLowerCase().trim();
-    
-    // Extract hour from various time formats
-    const hourMatch = timeStr.match(/(\d+)(?::(\d+))?\s*(am|pm)?/);
-    if (!hourMatch) return null;
-    
-    let hour = parseInt(hourMatch[1]);
-    const minute = hourMatch[2] ? parseInt(hourMatch[2]) : 0;
-    const ampm = hourMatch[3];
-    
-    // Convert to 24-hour format
-    if (ampm === 'pm' && hour !== 12) {
-      hour += 12;
-    } else if (ampm === 'am' && hour === 12) {
-      hour = 0;
-    }
-    
-    // Categorize times into slots
-    if (isWeekday) {
-      if (hour >= 6 && hour < 12) {
-        return 'weekday_morning';
-      } else if (hour >= 12 && hour < 18) {
-        return 'weekday_afternoon';
-      } else if (hour >= 18 && hour < 22) {
-        return 'weekday_evening';
-      }
-    }
-    
-    if (isWeekend) {
-      if (hour >= 7 && hour < 12) {
-        return 'weekend_morning';
-      } else if (hour >= 12 && hour < 18) {
-        return 'weekend_afternoon';
-      } else if (hour >= 18 && hour < 22) {
-        return 'weekend_evening';
-      }
-    }
-    
-    return null;
+  private activityTimeSlots(schedule: ActivityMetadata['schedule']): string[] {
+    const starts = schedule.intervals && schedule.intervals.length > 0
+      ? schedule.intervals
+      : schedule.days.flatMap(normalizeDay).flatMap(day => schedule.times
+        .map(parseTimeToMinutes)
+        .filter((minutes): minutes is number => minutes !== null)
+        .map(startMinutes => ({ day, startMinutes })));
+
+    return [...new Set(starts.map(timeSlotFor).filter((slot): slot is string => slot !== null))];
   }
 
   /**
@@ -1876,25 +3205,119 @@ export class RecommendationEngine {
   }
 
   /**
-   * Calculate budget compatibility score.
+   * Calculate budget compatibility from what the household would spend.
+   *
+   * The price is normalized to the budget's period and multiplied out for the
+   * children the activity would enroll, less any sibling discount, then compared
+   * to those children's share of the household budget.
+   */
+  private calculateBudgetScore(
+    metadata: ActivityMetadata,
+    familyProfile: FamilyProfile,
+    relevantChildren: FamilyProfile['children']
+  ): BudgetScoreDetail {
+    const familyBudget = familyProfile.preferences?.budget;
+    const period = familyBudget?.period;
+    const children = this.countEnrollingChildren(metadata.ageRange, relevantChildren);
+    if (!familyBudget || !familyBudget.max) return { score: 0.7, period, children }; // Neutral if no budget specified
+
+    const { pricing } = metadata;
+    const perChildCost = priceForPeriod(pricing, metadata.schedule, period);
+    if (perChildCost === undefined) return { score: 0.8, period, children }; // Unknown cost, slightly negative
+
+    const cost = householdCost(perChildCost, children, pricing.siblingDiscount, pricing.amount || pricing.range?.max);
+    const budgetShare = (familyBudget.max * children) / Math.max(children, familyProfile.children.length);
+    return {
+      score: spendScore(cost, budgetShare),
+      period,
+      perChildCost,
+      children,
+      householdCost: cost,
+      budgetShare,
+    };
+  }
+
+  /**
+   * Children an activity would enroll: those in its age range, at least one.
    */
-  private calculateBudgetScore(
-    activityPricing: ActivityMetadata['pricing'],
-    familyBudget?: FamilyProfile['preferences']['budget']
-  ): number {
-    if (!familyBudget || !familyBudget.max) return 0.7; // Neutral if no budget specified
+  private countEnrollingChildren(ageRange: ActivityMetadata['ageRange'], children: FamilyProfile['children']): number {
+    return Math.max(1, children.filter(child => child.age >= ageRange.min && child.age <= ageRange.max).length);
+  }
+
+  /**
+   * Household spend for one activity, when the family set a budget and the price is known.
+   */
+  private householdSpendOf(budget: BudgetScoreDetail, familyProfile: FamilyProfile): HouseholdSpend | undefined {
+    const cost = budget.householdCost ?? (budget.perChildCost === 0 ? 0 : undefined);
+    if (!familyProfile.preferences?.budget?.max || cost === undefined) return undefined;
+    return { cost, period: budget.period, children: budget.children };
+  }
 
-    if (activityPricing.type === 'free') return 1;
+  /**
+   * Add household spend down a final list, one pick per child, and flag picks that
+   * take it over the budget. Flagged picks keep their place; the concern qualifies them.
+   */
+  private flagHouseholdOverspend<T extends ScoredRecommendation | LightweightRecommendation>(
+    recommendations: T[],
+    familyProfile: FamilyProfile,
+    familyChildren: number
+  ): T[] {
+    const budgetMax = familyProfile.preferences?.budget?.max;
+    if (!budgetMax) return recommendations;
+
+    const totals = accumulateHouseholdSpend(
+      recommendations.map(recommendation => recommendation.householdSpend),
+      budgetMax,
+      familyChildren
+    );
 
-    const maxBudget = familyBudget.max;
-    const activityCost = activityPricing.amount || activityPricing.range?.max || 0;
+    return recommendations.map((recommendation, index) => {
+      const total = totals[index];
+      if (!total || !recommendation.householdSpend) return recommendation;
 
-    if (activityCost === 0) return 0.8; // Unknown cost, slightly negative
-    if (activityCost <= maxBudget) return 1;
-    if (activityCost <= maxBudget * 1.2) return 0.7; // 20% over budget
-    if (activityCost <= maxBudget * 1.5) return 0.4; // 50% over budget
-    
-    return 0.1; // Too expensive
+      const flagged: T = {
+        ...recommendation,
+        householdSpend: { ...recommendation.householdSpend, ...total },
+      };
+      if (recommendation.scoring) {
+        flagged.scoring = {
+          ...recommendation.scoring,
+          budget: {
+            ...recommendation.scoring.budget,
+            runningHouseholdSpend: total.runningTotal,
+            householdBudgetExceeded: total.overBudget,
+          },
+        };
+      }
+      if (total.overBudget) {
+        const { cost, period } = recommendation.householdSpend;
+        const budget = formatSpend(budgetMax, period);
+        const concern = total.runningTotal > cost
+          ? `With the higher-ranked picks, household spend would reach ${formatSpend(total.runningTotal, period)}, over the ${budget} budget`
+          : `${formatSpend(cost, period)} is over the ${budget} household budget`;
+        flagged.matchReasons = recommendation.matchReasons.filter(reason => !/within budget/i.test(reason));
+        flagged.concerns = recommendation.concerns.some(existing => /over budget/i.test(existing)) && total.runningTotal <= cost
+          ? recommendation.concerns
+          : [...recommendation.concerns, concern];
+      }
+      return flagged;
+    });
+  }
+
+  /**
+   * Parent-facing note on what an activity costs when several children enroll.
+   */
+  private describeHouseholdSpend(
+    budget: BudgetScoreDetail,
+    pricing: ActivityMetadata['pricing']
+  ): { matchReason?: string; concern?: string } {
+    if (budget.householdCost === undefined || budget.children < 2 || pricing.type === 'free') return {};
+
+    const spend = `${formatSpend(budget.householdCost, budget.period)} for ${budget.children} children`;
+    const discount = pricing.siblingDiscount ? ` (${pricing.siblingDiscount.text.toLowerCase()})` : '';
+    return budget.score >= 0.9
+      ? { matchReason: `${spend}${discount}, within budget` }
+      : { concern: `${spend}${discount} is over budget` };
   }
 
   /**
@@ -2018,8 +3441,7 @@ export class RecommendationEngine {
       matchReasons.push(`Verified provider with background checks`);
     }
 
-    // Note: capacity information is not available in current metadata structure
-    // This would need to be added to the embedding generator if needed
+    // Availability ("Only 2 spots left") is noted by the scorers for every match, not just detailed ones
 
     return { matchReasons, concerns };
   }
@@ -2155,7 +3577,7 @@ export class RecommendationEngine {
   /**
    * Get list of applied filter descriptions.
    */
-  private getAppliedFilters(filters: RecommendationFilters): string[] {
+  private getAppliedFilters(filters: RecommendationFilters, familyLocation?: FamilyProfile['location']): string[] {
     const applied: string[] = [];
 
     if (filters.budgetRange) {
@@ -2182,6 +3604,25 @@ export class RecommendationEngine {
       applied.push(`Distance: within ${filters.maxDistance} miles`);
     }
 
+    if (filters.maxTravelMinutes) {
+      applied.push(`Travel time: within ${filters.maxTravelMinutes} minutes${filters.travelMode ? ` by ${filters.travelMode}` : ''}`);
+    }
+
+    if (filters.neighborhood) {
+      const home = this.neighborhoods.find(filters.neighborhood.name || familyLocation?.neighborhood, familyLocation?.city);
+      const enforced = home?.approximate ? ' (approximate boundary, ranked but not filtered)' : '';
+      applied.push(`Neighborhood: ${filters.neighborhood.includeAdjacent === false ? 'inside' : 'inside or next to'} ${filters.neighborhood.name || 'home neighborhood'}${enforced}`);
+    }
+
+    if (filters.onlyAvailable) {
+      applied.push('Availability: open enrollment only');
+    }
+
+    const dateWindow = resolveDateWindow(filters.dateWindow);
+    if (dateWindow) {
+      applied.push(`Dates: ${dateWindow.label}${filters.dateWindow?.strict ? ' only' : ''}`);
+    }
+
     return applied;
   }
 
@@ -2189,21 +3630,115 @@ export class RecommendationEngine {
    * Cache recommendations for performance.
    */
   private async cacheRecommendations(
-    familyProfile: FamilyProfile,
-    filters: RecommendationFilters,
-    result: RecommendationResult
+    cacheKey: string,
+    result: RecommendationResult,
+    cacheTtl?: number
   ): Promise<void> {
-    // For POC, we'll implement basic caching
-    // In production, this would use Redis with appropriate TTL
     try {
-      const cacheKey = createAICacheKey('recommendations', { familyProfile, filters });
-      console.log(`Caching recommendations with key: ${cacheKey}`);
-      // TODO: Implement actual caching
+      const providerIds = result.recommendations.map(rec => rec.providerId);
+      await setCachedRecommendationResult(cacheKey, result, providerIds, cacheTtl ?? this.cacheTtl);
     } catch (error) {
       console.warn('Failed to cache recommendations:', error);
     }
   }
 
+  /**
+   * Build the result cache key from everything that changes the ranked output.
+   */
+  private createResultCacheKey(
+    kind: RecommendationCacheKind,
+    familyProfile: FamilyProfile,
+    filters: RecommendationFilters,
+    options: Record<string, unknown>
+  ): string {
+    // Relative windows ("this weekend", "next two weeks") move at midnight, so the
+    // dates they resolve to are part of the key, not just the description
+    const dateWindow = resolveDateWindow(filters.dateWindow);
+    return createRecommendationCacheKey(kind, {
+      collection: this.collectionName,
+      familyProfile,
+      filters,
+      options,
+      dateWindow: dateWindow && { start: dateWindow.start.toISOString(), end: dateWindow.end?.toISOString() },
+    });
+  }
+
+  /**
+   * Describe the ranking profile for searchMetadata and cache keys, with the weights the
+   * given scorer actually uses.
+   */
+  private describeRankingProfile(
+    rankingProfile: ResolvedRankingProfile,
+    scorer: 'full' | 'lightweight' = 'full'
+  ): NonNullable<RecommendationResult['searchMetadata']['ranking']> {
+    return {
+      profile: rankingProfile.name,
+      customized: rankingProfile.customized,
+      weights: scorer === 'lightweight' ? rankingProfile.lightweightWeights : rankingProfile.weights,
+      thresholds: rankingProfile.thresholds,
+    };
+  }
+
+  /**
+   * Restore a cached full result (JSON drops Date instances) and mark it as a cache hit.
+   */
+  private reviveCachedRecommendations(cached: RecommendationResult, startTime: number): RecommendationResult {
+    return {
+      ...cached,
+      recommendations: cached.recommendations.map(rec => ({
+        ...rec,
+        metadata: {
+          ...rec.metadata,
+          createdAt: new Date(rec.metadata.createdAt),
+          updatedAt: new Date(rec.metadata.updatedAt),
+        },
+      })),
+      performance: {
+        ...cached.performance,
+        totalMs: Date.now() - startTime,
+        cacheHit: true,
+      },
+    };
+  }
+
+  /**
+   * Restore cached sibling plans (JSON drops Date instances) and mark them as a cache hit.
+   */
+  private reviveCachedSiblingPlans(cached: SiblingPlanResult, startTime: number): SiblingPlanResult {
+    return {
+      ...cached,
+      plans: cached.plans.map(plan => ({
+        ...plan,
+        activities: plan.activities.map(activity => ({
+          ...activity,
+          recommendation: {
+            ...activity.recommendation,
+            metadata: {
+              ...activity.recommendation.metadata,
+              createdAt: new Date(activity.recommendation.metadata.createdAt),
+              updatedAt: new Date(activity.recommendation.metadata.updatedAt),
+            },
+          },
+        })),
+      })),
+      performance: {
+        ...cached.performance,
+        totalMs: Date.now() - startTime,
+        cacheHit: true,
+      },
+    };
+  }
+
+  /**
+   * Invalidate cached results that include a provider.
+   *
+   * Call when a provider's data or embeddings change so families don't
+   * keep seeing stale details until the TTL expires.
+   */
+  async invalidateProviderCache(providerId: string): Promise<number> {
+    return invalidateProviderRecommendations(providerId);
+  }
+
   /**
    * Health check for the recommendation engine.
    */
@@ -2266,36 +3801,6 @@ export class RecommendationEngine {
    */
   
   
-  /**
-   * Infer age range from provider (simplified - no tags available in current schema).
-   */
-  private inferAgeRangeFromProvider(provider: RecommendationProvider): { min: number; max: number } | null {
-    // Default ranges based on provider name patterns
-    const name = provider.name.toLowerCase();
-    
-    if (name.includes('preschool') || name.includes('toddler')) {
-      return { min: 2, max: 5 };
-    }
-    if (name.includes('elementary') || name.includes('kids')) {
-      return { min: 6, max: 12 };
-    }
-    if (name.includes('teen') || name.includes('youth')) {
-      return { min: 13, max: 17 };
-    }
-    
-    // Default ranges based on common provider types
-    const description = provider.description?.toLowerCase() || '';
-    if (description.includes('preschool') || description.includes('toddler')) {
-      return { min: 2, max: 5 };
-    } else if (description.includes('elementary') || description.includes('after school')) {
-      return { min: 5, max: 12 };
-    } else if (description.includes('teen') || description.includes('youth')) {
-      return { min: 12, max: 18 };
-    }
-    
-    return null;
-  }
-  
   /**
    * Build formatted address from provider data.
    */
@@ -2313,192 +3818,6 @@ export class RecommendationEngine {
   // Note: Removed unused methods that referenced non-existent properties
   // The new lightweight architecture doesn't need these helper methods
 
-  /**
-   * Extract age range from event data.
-   * 
-   * WHY: Age ranges are critical for matching activities to children:
-   * - Database fields (minAge/maxAge) provide explicit ranges when available
-   * - Event titles often contain age info like "Teen Martial Arts (Age 13-17)"
-   * - Descriptions may have age details that database fields miss
-   * - Category-based inference handles common patterns (teen, toddler, preschool)
-   * 
-   * DESIGN DECISION: Multi-layer approach ensures we don't default to 0-18:
-   * 1. Check ages field from eventsTable schema first (most reliable when available)
-   * 2. Check explicit minAge/maxAge fields from eventTable schema  
-   * 3. Parse title and description text for age patterns
-   * 4. Infer from category keywords as fallback
-   * 5. Only return null if no age info found anywhere
-   * 
-   * @param event Event data with potential age information
-   * @returns Age range object or null if no age info available
-   */
-  private extractAgeRangeFromEvent(event: RecommendationProvider['events'][0] | null): { min: number; max: number } | null {
-    if (!event) return null;
-    
-    // 1. First check explicit database fields (most reliable when available)
-    if (event.minAge !== null && event.maxAge !== null) {
-      return { min: event.minAge, max: event.maxAge };
-    }
-    
-    // 2. Parse age from event title using existing parseAgesFromText method
-    if (event.title) {
-      const titleAge = this.parseAgesFromText(event.title);
-      if (titleAge) {
-        return titleAge;
-      }
-    }
-    
-    // 3. Parse age from event description using existing parseAgesFromText method
-    if (event.description) {
-      const descriptionAge = this.parseAgesFromText(event.description);
-      if (descriptionAge) {
-        return descriptionAge;
-      }
-    }
-    
-    // 4. Category-based inference for common age patterns
-    if (event.category) {
-      const categoryAge = this.inferAgeFromCategory(event.category);
-      if (categoryAge) {
-        return categoryAge;
-      }
-    }
-    
-    // 5. Check title and description for category keywords if explicit category didn't match
-    const combinedText = `${event.title || ''} ${event.description || ''}`.toLowerCase();
-    const textCategoryAge = this.inferAgeFromCategory(combinedText);
-    if (textCategoryAge) {
-      return textCategoryAge;
-    }
-    
-    return null;
-  }
-
-  /**
-   * Extract age range from provider data when event data is insufficient.
-   * 
-   * WHY: When events don't have explicit age ranges, providers often include
-   * age information in their names or descriptions. This method provides a
-   * fallback to extract age ranges from provider-level data.
-   * 
-   * DESIGN DECISION: This method follows the same pattern as extractAgeRangeFromEvent
-   * but focuses on provider-specific fields (name, description) rather than event fields.
-   * 
-   * @param provider Provider data with potential age information
-   * @returns Age range object or null if no age info available
-   */
-  private extractAgeRangeFromProvider(provider: RecommendationProvider): { min: number; max: number } | null {
-    if (!provider) return null;
-    
-    // 1. Parse age from provider name using existing parseAgesFromText method
-    if (provider.name) {
-      const nameAge = this.parseAgesFromText(provider.name);
-      if (nameAge) {
-        return nameAge;
-      }
-    }
-    
-    // 2. Parse age from provider description using existing parseAgesFromText method
-    if (provider.description) {
-      const descriptionAge = this.parseAgesFromText(provider.description);
-      if (descriptionAge) {
-        return descriptionAge;
-      }
-    }
-    
-    // 3. Category-based inference for common age patterns in provider name/description
-    const combinedText = `${provider.name || ''} ${provider.description || ''}`.toLowerCase();
-    const textCategoryAge = this.inferAgeFromCategory(combinedText);
-    if (textCategoryAge) {
-      return textCategoryAge;
-    }
-    
-    return null;
-  }
-
-  /**
-   * Infer age range from category or text containing category keywords.
-   * 
-   * WHY: Many activities use standard age-related terms without explicit ranges:
-   * - "Teen" programs typically serve 13-17 year olds
-   * - "Toddler" activities are for 1-3 year olds
-   * - "Preschool" programs serve 3-5 year olds
-   * - This provides reasonable defaults when explicit ages aren't available
-   * 
-   * @param categoryOrText Category name or text containing category keywords
-   * @returns Age range based on common category patterns or null if no match
-   */
-  private inferAgeFromCategory(categoryOrText: string): { min: number; max: number } | null {
-    if (!categoryOrText) return null;
-    
-    const text = categoryOrText.toLowerCase();
-    
-    // Infant/Baby programs
-    if (text.includes('infant') || text.includes('baby') || text.includes('newborn')) {
-      return { min: 0, max: 2 };
-    }
-    
-    // Toddler programs
-    if (text.includes('toddler')) {
-      return { min: 1, max: 3 };
-    }
-    
-    // Preschool programs
-    if (text.includes('preschool') || text.includes('pre-school') || text.includes('pre school')) {
-      return { min: 3, max: 5 };
-    }
-    
-    // Elementary/School age programs
-    if (text.includes('elementary') || text.includes('school age') || text.includes('after school')) {
-      return { min: 5, max: 12 };
-    }
-    
-    // Teen/Youth programs
-    if (text.includes('teen') || text.includes('teenager') || text.includes('youth') || text.includes('adolescent')) {
-      return { min: 13, max: 17 };
-    }
-    
-    // Adult programs
-    if (text.includes('adult') || text.includes('grown up') || text.includes('18+') || text.includes('parent')) {
-      return { min: 18, max: 99 };
-    }
-    
-    // Family programs (assume suitable for school age kids with parents)
-    if (text.includes('family') || text.includes('parent and child') || text.includes('all ages')) {
-      return { min: 5, max: 99 };
-    }
-    
-    return null;
-  }
-
-  /**
-   * Extract schedule from event data.
-   */
-  private extractScheduleFromEvent(event: RecommendationProvider['events'][0] | null): ActivityMetadata['schedule'] | null {
-    if (!event) return null;
-    
-    const schedule: ActivityMetadata['schedule'] = {
-      days: [],
-      times: [],
-      recurring: event.recurring || false,
-      flexibility: 'fixed'
-    };
-    
-    // Infer days from event dates
-    if (event.startDate) {
-      const startDate = new Date(event.startDate);
-      const dayOfWeek = startDate.getDay();
-      const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-      schedule.days = [dayNames[dayOfWeek]];
-    }
-    
-    // Extract time info if available in title or description  
-    const timeText = event.title + ' ' + (event.description || '');
-    schedule.times = this.inferTimesFromText(timeText);
-    
-    return schedule;
-  }
-
   /**
    * Extract pricing from event data.
    */
@@ -2506,18 +3825,18 @@ export class RecommendationEngine {
     event: RecommendationProvider['events'][0] | null,
     provider: RecommendationProvider
   ): ActivityMetadata['pricing'] {
-    if (event?.price !== null && event?.price !== undefined) {
-      if (parseFloat(String(event.price)) === 0) {
-        return { type: 'free' };
-      }
-      return {
-        type: 'per_session',
-        amount: parseFloat(String(event.price)),
-        currency: 'USD'
-      };
+    // A dated one-off event (camp, workshop series) is priced for the whole program
+    const dates = this.eventDates(event);
+    const oneOff = dates.recurring === false && dates.start !== undefined;
+    const pricing = toActivityPricing(parsePrice(event?.price), { unit: oneOff ? 'program' : 'session' });
+    if (pricing.type === 'free') return pricing;
+
+    if (pricing.type === 'per_program' && !pricing.programWeeks && dates.start) {
+      const days = dates.end ? (dates.end.getTime() - dates.start.getTime()) / (24 * 60 * 60 * 1000) + 1 : 1;
+      pricing.programWeeks = Math.max(1, Math.ceil(days / 7));
     }
-    
-    return { type: 'per_session' };
+    pricing.siblingDiscount = parseSiblingDiscount(event?.description, provider.description);
+    return pricing;
   }
 
   /**
@@ -2625,13 +3944,27 @@ export class RecommendationEngine {
    * - Enables deduplication at the ID level before full data fetching
    */
   private scoreLightweightRecommendations(
-    vectorResults: Array<QdrantSearchResult & { metadata: any }>,
+    vectorResults: RetrievedCandidate[],
     familyProfile: FamilyProfile,
     filters: RecommendationFilters,
-    options: { diversityWeight: number; recommendationType?: string }
+    options: {
+      diversityWeight: number;
+      recommendationType?: string;
+      rankingProfile: ResolvedRankingProfile;
+      explain?: boolean;
+      travelTimes?: TravelTimes;
+      rerankDocuments?: Map<LightweightRecommendation, string>; // Filled with each kept candidate's rerank text
+    }
   ): LightweightRecommendation[] {
+    const { lightweightWeights: weights, thresholds } = options.rankingProfile;
     const lightweightRecommendations: LightweightRecommendation[] = [];
     const relevantChildren = this.getRelevantChildren(familyProfile, options.recommendationType);
+    const now = new Date();
+    const dateWindow = resolveDateWindow(filters.dateWindow, now);
+    const requiredNeeds = requiredAccommodations(filters.specialNeeds);
+    const childNeeds = childAccommodationNeeds(relevantChildren);
+    const requiredLanguages = normalizeLanguages(filters.languages);
+    const familyLanguages = [...(familyProfile.preferences?.languages || []), ...(filters.languages || [])];
 
     for (const result of vectorResults) {
       const metadata = result.metadata;
@@ -2645,30 +3978,70 @@ export class RecommendationEngine {
       const eventId = rawEventId ? this.convertToEventDbId(rawEventId) : undefined;
       const programId = eventId; // Use event ID as program ID for consistency
 
+      // Camp and session payloads carry spots left/total and a status
+      const availability = computeAvailability({
+        spotsLeft: metadata.spots_left,
+        spotsTotal: metadata.spots_total,
+        status: metadata.status,
+      });
+      if (filters.onlyAvailable && !isAvailable(availability)) continue;
+
+      // Camp and session payloads carry a start date and a "<start> to <end>" range
+      const dates = parseActivityDates({ start: metadata.start_date || metadata.date, end: metadata.end_date, dateRange: metadata.date_range });
+      if (isExpired(dates, now)) continue;
+      const relation = dateWindow ? relateToWindow(dates, dateWindow) : 'unknown';
+      if (relation === 'outside' && filters.dateWindow?.strict) continue;
+
+      // Indexed accommodations, or parsed from older payloads' text
+      const accommodations = accommodationsFromPayload(metadata);
+      if (!meetsRequirements(accommodations, requiredNeeds)) continue;
+      if (!isTaughtIn(accommodations.languages, requiredLanguages)) continue;
+
       // Basic age compatibility check using metadata
-      const ageRange = this.extractBasicAgeRange(metadata);
-      const ageScore = this.calculateBasicAgeScore(relevantChildren, ageRange);
-      if (ageScore < 0.3) continue; // Skip if clearly age-inappropriate
+      const ageRangeMatch = this.extractBasicAgeRange(metadata);
+      const ageScore = this.calculateBasicAgeScore(relevantChildren, ageRangeMatch.range);
+      if (ageScore < thresholds.minAgeScore) continue; // Skip if clearly age-inappropriate
 
       // Basic location check
-      const locationScore = this.calculateBasicLocationScore(familyProfile, metadata);
+      const location = this.calculateBasicLocationScore(familyProfile, metadata, options.travelTimes);
+      const locationScore = location.score;
+      if (!this.passesNeighborhoodFilter(location.activityCoordinates, familyProfile.location, filters.neighborhood)) continue;
+      if (!this.passesTravelFilters(location, filters)) continue;
       
       // Basic budget check
-      const budgetScore = this.calculateBasicBudgetScore(familyProfile, metadata, filters);
+      const budget = this.calculateBasicBudgetScore(familyProfile, metadata, filters, relevantChildren, ageRangeMatch.range);
+      const budgetScore = budget.score;
 
       // Basic interest matching
       const interestScore = this.calculateBasicInterestScore(relevantChildren, metadata);
 
-      // Schedule compatibility (basic check)
-      const scheduleScore = 0.7; // Assume reasonable schedule compatibility for now
-
-      // Quality score from vector similarity
+      // Schedule compatibility from the payload's meeting times, assumed when it has none
+      const activitySchedule = this.extractScheduleFromMetadata(metadata);
+      const scheduleKnown = (activitySchedule.intervals?.length ?? 0) > 0;
+      const schedule = scheduleKnown
+        ? this.calculateScheduleScore(activitySchedule, familyProfile.preferences?.schedule, familyProfile.preferences?.scheduleConstraints)
+        : { score: 0.7 } as ScheduleScoreDetail;
+      const scheduleScore = schedule.score;
+      const scheduleSlots = scheduleKnown ? this.activityTimeSlots(activitySchedule) : [];
+      const familySlots = familyProfile.preferences?.schedule || [];
+
+      // Reported for explain output only: it repeats vector similarity, so it carries no weight here
       const qualityScore = result.score;
 
-      // Calculate overall scores
-      const practicalScore = (ageScore * 0.3 + locationScore * 0.25 + budgetScore * 0.2 + 
-                            interestScore * 0.15 + scheduleScore * 0.1);
-      const matchScore = (result.score * 0.4 + practicalScore * 0.6);
+      // Calculate overall scores using the selected ranking profile, demoted when full or out of the window
+      const combined = combineRankingScores(weights, result.score, {
+        age: ageScore,
+        interests: interestScore,
+        location: locationScore,
+        schedule: scheduleScore,
+        budget: budgetScore,
+        quality: qualityScore,
+      });
+      const { practicalScore } = combined;
+      const multiplier = availabilityMultiplier(availability);
+      const accommodation = matchAccommodations(accommodations, childNeeds);
+      const language = matchLanguages(accommodations, familyLanguages);
+      const matchScore = Math.min(1, combined.matchScore * multiplier * dateWindowMultiplier(relation) * accommodation.multiplier * language.multiplier);
 
       // Generate match reasons based on scores
       const matchReasons: string[] = [];
@@ -2684,11 +4057,25 @@ export class RecommendationEngine {
       if (budgetScore < 0.5) concerns.push('Price information needed');
       if (locationScore < 0.5) concerns.push('Location may be distant');
 
+      const notes = [
+        describeAvailability(availability),
+        dateWindow ? describeDateWindow(relation, dateWindow) : {},
+        describeLanguageMatch(language, familyLanguages),
+      ];
+      for (const note of notes) {
+        if (note.matchReason) matchReasons.push(note.matchReason);
+        if (note.concern) concerns.push(note.concern);
+      }
+      const accommodationNotes = describeAccommodations(accommodation);
+      matchReasons.push(...accommodationNotes.matchReasons);
+      concerns.push(...accommodationNotes.concerns);
+
       const lightweightRec: LightweightRecommendation = {
         providerId,
         programId: programId || undefined,
         eventId: eventId || undefined,
         vectorSimilarity: result.score,
+        lexicalScore: result.lexicalScore,
         practicalScore,
         matchScore,
         matchReasons,
@@ -2702,10 +4089,89 @@ export class RecommendationEngine {
           budget: budgetScore,
           quality: qualityScore,
         },
+        availability,
+        householdSpend: this.householdSpendOf(budget, familyProfile),
       };
 
-      if (matchScore >= 0.3) { // Only include reasonable matches
+      if (options.explain) {
+        const childInterests = relevantChildren.flatMap(child => child.interests);
+        const pricing = this.extractPricingFromMetadata(metadata);
+        const price = pricing.type === 'free' ? 0 : pricing.amount ?? pricing.range?.max;
+        const profileBudget = familyProfile.preferences?.budget?.max;
+
+        lightweightRec.scoring = {
+          scorer: 'lightweight',
+          vector: { similarity: result.score, lexicalScore: result.lexicalScore },
+          age: {
+            range: ageRangeMatch.range,
+            source: ageRangeMatch.source,
+            confidence: ageRangeMatch.confidence,
+            children: relevantChildren.map(child => ({ name: child.name, age: child.age })),
+            score: ageScore,
+          },
+          interests: {
+            activityInterests: [metadata.category, metadata.subcategory, ...(metadata.interests || []), ...(metadata.tags || [])]
+              .filter(Boolean),
+            familyInterests: childInterests,
+            matched: this.findBasicInterestMatches(childInterests, metadata),
+            score: interestScore,
+          },
+          location: {
+            method: location.method,
+            distanceMiles: location.distanceMiles,
+            travel: location.travel,
+            activity: {
+              city: metadata.city || undefined,
+              neighborhood: metadata.neighborhood || location.neighborhood?.activity,
+              coordinates: location.activityCoordinates,
+            },
+            coordinateSource: location.coordinateSource,
+            familyCoordinates: location.familyCoordinates,
+            familyCoordinateSource: location.familyCoordinateSource,
+            neighborhood: location.neighborhood,
+            score: locationScore,
+          },
+          schedule: {
+            assumed: !scheduleKnown,
+            days: activitySchedule.days,
+            times: activitySchedule.times,
+            timeSlots: scheduleSlots,
+            familySlots,
+            matchedSlots: scheduleSlots.filter(slot => familySlots.includes(slot as typeof familySlots[number])),
+            intervals: scheduleKnown ? activitySchedule.intervals!.map(formatInterval) : undefined,
+            availableShare: schedule.availableShare,
+            durationMinutes: schedule.durationMinutes,
+            preferredDuration: familyProfile.preferences?.scheduleConstraints?.specificTimes?.preferredDuration,
+            score: scheduleScore,
+          },
+          budget: {
+            pricingType: price !== undefined ? pricing.type : undefined,
+            priceUsed: price,
+            priceSource: price !== undefined ? 'vector_metadata' : 'none',
+            priceConfidence: pricing.confidence,
+            budgetMax: profileBudget || filters.budgetRange?.max,
+            budgetSource: profileBudget ? 'profile' : filters.budgetRange?.max ? 'filters' : 'none',
+            period: budget.period,
+            perChildCost: budget.perChildCost,
+            children: budget.children,
+            householdCost: budget.householdCost,
+            budgetShare: budget.budgetShare,
+            score: budgetScore,
+          },
+          quality: { source: 'vector_similarity', score: qualityScore },
+          availability: { ...availability, multiplier },
+          dateWindow: dateWindow && this.explainDateWindow(dateWindow, dates, relation),
+          accommodations: this.explainAccommodations(accommodations, accommodation, requiredNeeds),
+          languages: this.explainLanguages(language),
+          weights,
+          practicalScore,
+          matchScore,
+        };
+      }
+
+      if (matchScore >= thresholds.minMatchScore) { // Only include reasonable matches
         lightweightRecommendations.push(lightweightRec);
+        options.rerankDocuments?.set(lightweightRec, this.describePayloadForRerank(metadata, ageRangeMatch.range));
       }
     }
 
@@ -2726,19 +4192,106 @@ export class RecommendationEngine {
     return recommendations.slice(0, limit);
   }
 
+  /**
+   * Keep the best-scoring entry per provider in an already sorted list.
+   */
+  private keepBestPerProvider<T extends LightweightRecommendation>(recommendations: T[]): T[] {
+    const seen = new Set<string>();
+    return recommendations.filter(rec => {
+      if (seen.has(rec.providerId)) return false;
+      seen.add(rec.providerId);
+      return true;
+    });
+  }
+
+  /**
+   * Identify the same activity across bundle lists.
+   */
+  private bundleCandidateKey(recommendation: LightweightRecommendation): string {
+    return `${recommendation.providerId}:${recommendation.eventId || ''}`;
+  }
+
+  /**
+   * Remove providers from child lists according to the bundle dedupe mode.
+   *
+   * @param familyRecommendations The family list as returned, not every family candidate
+   */
+  private dedupeBundleLists(
+    childLists: Array<{ childName: string; recommendations: LightweightRecommendation[] }>,
+    familyRecommendations: LightweightRecommendation[],
+    dedupe: RecommendationBundleOptions['dedupe']
+  ): Array<{ childName: string; recommendations: LightweightRecommendation[] }> {
+    if (dedupe === 'none') {
+      return childLists;
+    }
+
+    const familyProviderIds = new Set(familyRecommendations.map(rec => rec.providerId));
+    const withoutFamily = childLists.map(list => ({
+      ...list,
+      recommendations: list.recommendations.filter(rec => !familyProviderIds.has(rec.providerId)),
+    }));
+
+    if (dedupe === 'family-first') {
+      return withoutFamily;
+    }
+
+    // Exclusive: each provider stays with the child it scores highest for. Ties go to the
+    // child with fewer providers so far, so identical scores don't all land on the first child.
+    const scoresByProvider = new Map<string, number[]>();
+    withoutFamily.forEach((list, index) => {
+      for (const rec of list.recommendations) {
+        const scores = scoresByProvider.get(rec.providerId) || new Array<number>(withoutFamily.length).fill(-1);
+        scores[index] = rec.matchScore;
+        scoresByProvider.set(rec.providerId, scores);
+      }
+    });
+
+    const assignedCounts = new Array<number>(withoutFamily.length).fill(0);
+    const assignedList = new Map<string, number>();
+    const byBestScore = [...scoresByProvider.entries()]
+      .sort(([, a], [, b]) => Math.max(...b) - Math.max(...a));
+
+    for (const [providerId, scores] of byBestScore) {
+      const bestScore = Math.max(...scores);
+      let chosen = -1;
+      scores.forEach((score, index) => {
+        if (score === bestScore && (chosen === -1 || assignedCounts[index] < assignedCounts[chosen])) {
+          chosen = index;
+        }
+      });
+      assignedList.set(providerId, chosen);
+      assignedCounts[chosen]++;
+    }
+
+    return withoutFamily.map((list, index) => ({
+      ...list,
+      recommendations: list.recommendations.filter(rec => assignedList.get(rec.providerId) === index),
+    }));
+  }
+
   /**
    * Basic age range extraction from vector metadata.
+   *
+   * Camp and session payloads carry age_min/age_max parsed at indexing time; older
+   * payloads fall back to parsing their grade text, title and description. A bare
+   * grade string is read as free text, since camp payloads store ages there too.
    */
-  private extractBasicAgeRange(metadata: any): { min: number; max: number } {
-    // Try to extract age range from metadata
-    if (metadata.age_min && metadata.age_max) {
-      return { min: metadata.age_min, max: metadata.age_max };
+  private extractBasicAgeRange(metadata: any): AgeRangeMatch {
+    const fields = ageRangeFromFields(metadata.age_min, metadata.age_max);
+    if (fields) {
+      return { range: fields, source: 'vector_metadata', confidence: metadata.age_confidence ?? 1 };
     }
     if (metadata.ageRange) {
-      return metadata.ageRange;
+      return { range: metadata.ageRange, source: 'vector_metadata', confidence: 1 };
+    }
+    const parsed = [metadata.grades, metadata.ages, metadata.title, metadata.description]
+      .map(text => typeof text === 'string' ? parseAgeRange(text) : null)
+      .find(Boolean);
+    if (parsed) {
+      return { range: parsed.range, source: 'vector_metadata', confidence: parsed.confidence };
     }
     // Default age range if none specified
-    return { min: 3, max: 18 };
+    return { range: { min: 3, max: 18 }, source: 'default', confidence: 0 };
   }
 
   /**
@@ -2759,53 +4312,170 @@ export class RecommendationEngine {
 
   /**
    * Calculate basic location score.
+   *
+   * Uses the estimated trip, or distance between payload coordinates and postal-code
+   * centroids, when both sides resolve; otherwise neighborhood, city and market comparisons.
    */
-  private calculateBasicLocationScore(familyProfile: FamilyProfile, metadata: any): number {
+  private calculateBasicLocationScore(
+    familyProfile: FamilyProfile,
+    metadata: any,
+    travelTimes?: TravelTimes
+  ): LocationScoreDetail & {
+    coordinateSource: ScoringExplanation['location']['coordinateSource'];
+    activityCoordinates?: { lat: number; lng: number };
+  } {
     const familyCity = familyProfile.location?.city?.toLowerCase();
     const familyNeighborhood = familyProfile.location?.neighborhood?.toLowerCase();
+    const {
+      geocoded: family,
+      coordinates: familyCoordinates,
+      coordinateSource: familyCoordinateSource,
+      homeNeighborhood,
+    } = this.resolveFamilyLocation(familyProfile.location);
     
-    if (!familyCity) return 0.5; // No location info to compare
+    if (!familyCity && !familyCoordinates) {
+      return { score: 0.5, method: 'none', familyCoordinateSource, coordinateSource: 'none' }; // No location info to compare
+    }
 
-    const providerCity = (metadata.city || '').toLowerCase();
+    const providerCity = (metadata.city || metadata.location?.municipality || '').toLowerCase();
     const providerNeighborhood = (metadata.neighborhood || '').toLowerCase();
-
-    if (familyNeighborhood && providerNeighborhood && familyNeighborhood === providerNeighborhood) {
-      return 1.0; // Same neighborhood
+    const { geocoded: provider, coordinateSource } = this.resolveBasicActivityLocation(metadata);
+    const activityCoordinates = provider.coordinates;
+    const neighborhood = this.describeNeighborhoodRelation(
+      { neighborhood: metadata.neighborhood || undefined, coordinates: activityCoordinates },
+      homeNeighborhood
+    );
+    // Payloads carry no schedule, so trips are estimated off-peak
+    const travel = this.lookupTravelTime(travelTimes, activityCoordinates, false);
+    const distanceMiles = familyCoordinates && activityCoordinates
+      ? this.calculateHaversineDistance(familyCoordinates.lat, familyCoordinates.lng, activityCoordinates.lat, activityCoordinates.lng)
+      : undefined;
+    const detail = {
+      distanceMiles,
+      travel: this.describeTravel(travel),
+      familyCoordinates,
+      familyCoordinateSource,
+      coordinateSource,
+      activityCoordinates,
+      neighborhood,
+    } as const;
+
+    if ((familyNeighborhood && providerNeighborhood && familyNeighborhood === providerNeighborhood) || neighborhood?.relation === 'inside') {
+      return { score: 1.0, method: 'neighborhood', ...detail }; // Same neighborhood
+    }
+    if (neighborhood?.relation === 'adjacent') {
+      return { score: 0.9, method: 'adjacent_neighborhood', ...detail }; // Next-door neighborhood
+    }
+    if (travel) {
+      return { score: this.travelMinutesToScore(travel.minutes), method: 'travel_time', ...detail };
+    }
+    if (distanceMiles !== undefined) {
+      return { score: this.distanceToScore(distanceMiles), method: 'distance', ...detail };
     }
     if (familyCity && providerCity && familyCity === providerCity) {
-      return 0.8; // Same city
+      return { score: 0.8, method: 'city', ...detail }; // Same city
+    }
+    if (family.market && provider.market && family.market.id === provider.market.id) {
+      return { score: 0.65, method: 'metro_area', ...detail }; // Same market
     }
     
-    return 0.5; // Unknown/different location
+    return { score: 0.5, method: 'none', ...detail }; // Unknown/different location
+  }
+
+  /**
+   * Geocode an activity from its vector payload (flat fields or the nested location).
+   */
+  private resolveBasicActivityLocation(metadata: any): {
+    geocoded: ReturnType<Geocoder['geocode']>;
+    coordinateSource: ScoringExplanation['location']['coordinateSource'];
+  } {
+    const payloadLocation = metadata.location || {};
+    const payloadLat = parseFloat(metadata.latitude ?? payloadLocation.latitude);
+    const payloadLng = parseFloat(metadata.longitude ?? payloadLocation.longitude);
+    const geocoded = this.geocoder.geocode({
+      coordinates: Number.isFinite(payloadLat) && Number.isFinite(payloadLng) ? { lat: payloadLat, lng: payloadLng } : undefined,
+      zipCode: metadata.zip_code || metadata.zipCode || payloadLocation.postal_code,
+      city: metadata.city || payloadLocation.municipality || undefined,
+      state: metadata.state || payloadLocation.administrative_area,
+    });
+
+    return {
+      geocoded,
+      coordinateSource: this.coordinateSource(geocoded.source, 'provider'),
+    };
+  }
+
+  /**
+   * Explanation label for where an activity's coordinates came from.
+   */
+  private coordinateSource(
+    source: ReturnType<Geocoder['geocode']>['source'],
+    explicit: 'event' | 'provider'
+  ): ScoringExplanation['location']['coordinateSource'] {
+    return source === 'coordinates' ? explicit :
+           source === 'postal_code' ? 'zip_lookup' :
+           source === 'market_center' ? 'market_center' : 'none';
+  }
+
+  /**
+   * Travel-time destinations for a lightweight candidate pool.
+   */
+  private lightweightTravelDestinations(vectorResults: RetrievedCandidate[]): TravelDestination[] {
+    return vectorResults.flatMap(result => {
+      const { coordinates } = this.resolveBasicActivityLocation(result.metadata).geocoded;
+      return coordinates ? [{ coordinates }] : [];
+    });
   }
 
   /**
    * Calculate basic budget compatibility score.
+   *
+   * Payloads carry no schedule, so a recurring price is assumed to be weekly; it is
+   * still multiplied out for the children it would enroll and compared to their share.
    */
   private calculateBasicBudgetScore(
     familyProfile: FamilyProfile, 
     metadata: any, 
-    filters: RecommendationFilters
-  ): number {
-    const familyBudgetMax = familyProfile.preferences?.budget?.max || filters.budgetRange?.max;
-    if (!familyBudgetMax) return 0.7; // No budget constraint
-
-    const price = metadata.price || metadata.amount;
-    if (price === 0) return 1.0; // Free activity
-    if (!price) return 0.6; // Unknown price
-
-    if (price <= familyBudgetMax) return 1.0;
-    if (price <= familyBudgetMax * 1.2) return 0.7; // Slightly over budget
-    return 0.3; // Over budget
+    filters: RecommendationFilters,
+    relevantChildren: FamilyProfile['children'],
+    ageRange: ActivityMetadata['ageRange']
+  ): BudgetScoreDetail {
+    const children = this.countEnrollingChildren(ageRange, relevantChildren);
+    const familyBudget = familyProfile.preferences?.budget;
+    const familyBudgetMax = familyBudget?.max || filters.budgetRange?.max;
+    if (!familyBudgetMax) return { score: 0.7, children }; // No budget constraint
+
+    const pricing = this.extractPricingFromMetadata(metadata);
+    const period = familyBudget?.max ? familyBudget.period : undefined; // Filter ranges are per listed price
+    if (pricing.type === 'free') return { score: 1.0, period, perChildCost: 0, children }; // Free activity
+    const perChildCost = priceForPeriod(pricing, { days: [], recurring: true }, period);
+    if (perChildCost === undefined) return { score: 0.6, period, children }; // Unknown price
+
+    const listedPrice = pricing.amount || pricing.range?.max;
+    const cost = householdCost(perChildCost, children, parseSiblingDiscount(metadata.description), listedPrice);
+    const budgetShare = (familyBudgetMax * children) / Math.max(children, familyProfile.children.length);
+    const score = cost <= budgetShare ? 1.0 :
+                  cost <= budgetShare * 1.2 ? 0.7 : // Slightly over budget
+                  0.3; // Over budget
+    return { score, period, perChildCost, children, householdCost: cost, budgetShare };
   }
 
   /**
    * Calculate basic interest matching score.
    */
   private calculateBasicInterestScore(children: FamilyProfile['children'], metadata: any): number {
-    const childInterests = children.flatMap(c => c.interests).map(i => i.toLowerCase());
+    const childInterests = children.flatMap(c => c.interests);
     if (childInterests.length === 0) return 0.6;
 
+    const matchingInterests = this.findBasicInterestMatches(childInterests, metadata).length;
+
+    return Math.min(1.0, matchingInterests / Math.max(1, childInterests.length * 0.5));
+  }
+
+  /**
+   * Child interests that appear anywhere in the vector metadata text.
+   */
+  private findBasicInterestMatches(childInterests: string[], metadata: any): string[] {
     const activityKeywords = [
       metadata.category,
       metadata.subcategory,
@@ -2815,26 +4485,42 @@ export class RecommendationEngine {
       ...(metadata.tags || [])
     ].filter(Boolean).map(k => k.toLowerCase()).join(' ');
 
-    let matchingInterests = 0;
-    for (const interest of childInterests) {
-      if (activityKeywords.includes(interest)) {
-        matchingInterests++;
-      }
-    }
-
-    return Math.min(1.0, matchingInterests / Math.max(1, childInterests.length * 0.5));
+    return childInterests.filter(interest => activityKeywords.includes(interest.toLowerCase()));
   }
 
   /**
    * Cache lightweight recommendations results.
    */
   private async cacheLightweightRecommendations(
-    familyProfile: FamilyProfile,
-    filters: RecommendationFilters,
-    result: LightweightRecommendationResult
+    cacheKey: string,
+    result: LightweightRecommendationResult,
+    cacheTtl?: number
+  ): Promise<void> {
+    try {
+      const providerIds = result.recommendations.map(rec => rec.providerId);
+      await setCachedRecommendationResult(cacheKey, result, providerIds, cacheTtl ?? this.cacheTtl);
+    } catch (error) {
+      console.warn('Failed to cache lightweight recommendations:', error);
+    }
+  }
+
+  /**
+   * Cache grouped recommendation results.
+   */
+  private async cacheRecommendationBundles(
+    cacheKey: string,
+    result: LightweightRecommendationBundlesResult,
+    cacheTtl?: number
   ): Promise<void> {
-    // TODO: Implement caching for lightweight recommendations
-    // For now, skip caching to keep implementation simple
+    try {
+      const providerIds = [
+        ...result.family.recommendations,
+        ...result.children.flatMap(child => child.recommendations),
+      ].map(rec => rec.providerId);
+      await setCachedRecommendationResult(cacheKey, result, [...new Set(providerIds)], cacheTtl ?? this.cacheTtl);
+    } catch (error) {
+      console.warn('Failed to cache recommendation bundles:', error);
+    }
   }
 
   /**
@@ -0,0 +1,209 @@
+/**
+ * Reranking stage for recommendation candidates.
+ *
+ * WHY: Reranking because:
+ * - Bi-encoder similarity compares the query and activity embeddings independently
+ *   and misses details like "ages 13-17" vs a 7-year-old
+ * - A cross-encoder or LLM reads the query and the activity together, which is more
+ *   accurate but too slow to run over the whole candidate set
+ * - Reranking only the top N keeps the cost bounded
+ *
+ * DESIGN DECISIONS:
+ * - Two rerankers behind one interface: a local cross-encoder via Transformers.js
+ *   (free, no API key) and an AIClient chat call (no model download)
+ * - Hard latency budget: on timeout or error the original order is kept, so
+ *   reranking can never make a request fail
+ * - Rerank scores are blended with the original match score rather than replacing it,
+ *   so practical factors (distance, budget) still count
+ * - Lazy model loading; a budget overrun during the first load still warms the model
+ *   for later requests
+ */
+
+import { AutoTokenizer, AutoModelForSequenceClassification } from '@xenova/transformers';
+import type { AIClient } from './openai-client';
+import { createRerankPrompt } from './prompts';
+import type { RerankMethod, RerankOptions, RerankSummary } from '@/types/ai';
+
+export type { RerankSummary };
+
+/**
+ * Scores (query, document) pairs. Scores are 0-1, higher is more relevant.
+ */
+export interface Reranker {
+  method: RerankMethod;
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+// Cross-encoder trained on MS MARCO passage ranking; small enough for CPU inference
+const CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+/**
+ * Local cross-encoder reranker using Transformers.js.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly method = 'cross-encoder' as const;
+  private modelPromise: Promise<{ tokenizer: any; model: any }> | null = null;
+
+  constructor(private modelId: string = CROSS_ENCODER_MODEL) {}
+
+  private loadModel(): Promise<{ tokenizer: any; model: any }> {
+    if (!this.modelPromise) {
+      console.log(`Loading cross-encoder model: ${this.modelId}...`);
+      this.modelPromise = Promise.all([
+        AutoTokenizer.from_pretrained(this.modelId),
+        AutoModelForSequenceClassification.from_pretrained(this.modelId, { quantized: true }),
+      ]).then(([tokenizer, model]) => {
+        console.log(`Cross-encoder model ${this.modelId} loaded successfully`);
+        return { tokenizer, model };
+      }).catch(error => {
+        this.modelPromise = null; // Allow a retry on the next request
+        throw new Error(`Failed to load cross-encoder model ${this.modelId}: ${error}`);
+      });
+    }
+    return this.modelPromise;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const { tokenizer, model } = await this.loadModel();
+    const inputs = tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+
+    // Single relevance logit per pair; sigmoid maps it to 0-1
+    return Array.from(logits.data as Float32Array).map(logit => 1 / (1 + Math.exp(-logit)));
+  }
+}
+
+/**
+ * LLM reranker using an AIClient chat completion.
+ */
+export class LLMReranker implements Reranker {
+  readonly method = 'llm' as const;
+
+  constructor(
+    private aiClient: Pick<AIClient, 'createChatCompletion'>,
+    private model: string = 'gpt-4o-mini'
+  ) {}
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const prompt = createRerankPrompt(
+      query,
+      documents.map((text, index) => ({ id: index + 1, text }))
+    );
+
+    const response = await this.aiClient.createChatCompletion({
+      model: this.model,
+      messages: [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ],
+      temperature: 0,
+      max_tokens: 20 * documents.length + 50,
+      stream: false,
+    }, { retries: 0 });
+
+    const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('LLM reranker returned no JSON');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]) as { scores?: Array<{ id: number; score: number }> };
+    const scoresById = new Map((parsed.scores || []).map(entry => [Number(entry.id), Number(entry.score)]));
+
+    return documents.map((_, index) => {
+      const score = scoresById.get(index + 1);
+      if (score === undefined || isNaN(score)) {
+        throw new Error(`LLM reranker did not score candidate ${index + 1}`);
+      }
+      return Math.min(Math.max(score / 10, 0), 1);
+    });
+  }
+}
+
+/**
+ * Shared cross-encoder instance so the model is loaded once per process.
+ */
+let globalCrossEncoderReranker: CrossEncoderReranker | null = null;
+
+export function getCrossEncoderReranker(): CrossEncoderReranker {
+  if (!globalCrossEncoderReranker) {
+    globalCrossEncoderReranker = new CrossEncoderReranker();
+  }
+  return globalCrossEncoderReranker;
+}
+
+/**
+ * Rerank the top N candidates within a latency budget.
+ *
+ * Candidates beyond topN keep their scores, and the whole list is re-sorted by score,
+ * so a reranked candidate that dropped below one of them moves behind it. On timeout
+ * or error the input order is returned unchanged.
+ *
+ * @param toDocument Text the reranker sees for each candidate
+ * @param applyScore Returns the candidate updated with its rerank and blended scores
+ */
+export async function rerankCandidates<T extends { matchScore: number }>(
+  candidates: T[],
+  query: string,
+  reranker: Reranker,
+  options: RerankOptions,
+  toDocument: (candidate: T) => string,
+  applyScore: (candidate: T, rerankScore: number, blendedScore: number) => T
+): Promise<{ candidates: T[]; summary: RerankSummary }> {
+  const startTime = Date.now();
+  const head = candidates.slice(0, options.topN);
+  const tail = candidates.slice(options.topN);
+
+  let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const scores = await Promise.race([
+      reranker.score(query, head.map(toDocument)),
+      new Promise<never>((_, reject) => {
+        timeoutHandle = setTimeout(
+          () => reject(new RerankTimeoutError(`Reranking exceeded ${options.timeoutMs}ms budget`)),
+          options.timeoutMs
+        );
+      }),
+    ]);
+
+    const reranked = head.map((candidate, index) => applyScore(
+      candidate,
+      scores[index],
+      candidate.matchScore * (1 - options.weight) + scores[index] * options.weight
+    ));
+
+    const latencyMs = Date.now() - startTime;
+    console.log(`Reranked top ${head.length} candidates with ${reranker.method} in ${latencyMs}ms`);
+
+    return {
+      candidates: [...reranked, ...tail].sort((a, b) => b.matchScore - a.matchScore),
+      summary: { method: reranker.method, status: 'applied', candidates: head.length, latencyMs },
+    };
+  } catch (error) {
+    const timedOut = error instanceof RerankTimeoutError;
+    console.warn(`Reranking ${timedOut ? 'timed out' : 'failed'}, keeping original order:`, error instanceof Error ? error.message : error);
+
+    return {
+      candidates,
+      summary: {
+        method: reranker.method,
+        status: timedOut ? 'timeout' : 'failed',
+        candidates: 0,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    };
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
+
+class RerankTimeoutError extends Error {}
@@ -0,0 +1,531 @@
+/**
+ * Weekly schedule optimizer: turn ranked recommendations into conflict-free calendars.
+ *
+ * WHY: Schedule optimization because:
+ * - A ranked list says nothing about whether the top picks fit into one week
+ * - Families have hard limits (earliest start, latest end, "no weekday mornings")
+ * - Back-to-back activities across town are impossible even when they don't overlap
+ *
+ * DESIGN DECISIONS:
+ * - Exact search: branch and bound over the candidates for the highest total match
+ *   score, with a node budget so large inputs still return the best calendar found
+ * - Several calendars: the top alternatives are returned, each a maximal set (nothing
+ *   left out that would still fit), so parents can trade one activity for another
+ * - Pairwise feasibility: two activities conflict if they overlap or the gap between
+ *   them is shorter than the travel time; same-place overlaps for different children
+ *   are allowed (one drop-off)
+ * - Every activity left out is explained, either once for hard constraints
+ *   (`unschedulable`) or per calendar for conflicts and weekly limits
+ * - Restrictions are free text from the family parser; recognized phrasings become
+ *   hard rules and the rest are reported back instead of silently ignored
+ */
+
+import type { ScheduleConstraint, WeeklyScheduleOptions } from '@/types/ai';
+import type { ScoredRecommendation } from './recommendation-engine';
+import { estimateTravelMinutes, type ActivityLocation, type TravelTimeFunction } from './travel-time';
+import {
+  DAY_ORDER,
+  WEEKDAYS,
+  WEEKEND,
+  formatMinutes,
+  normalizeDay,
+  parseTimeToMinutes,
+  periodFor,
+  timeSlotFor,
+  type Weekday,
+} from './schedule-parser';
+
+/**
+ * A recommendation to place, optionally for a specific child.
+ */
+export interface ScheduleCandidate {
+  recommendation: ScoredRecommendation;
+  childName?: string;
+}
+
+export interface ScheduledSession {
+  day: Weekday;
+  startMinutes: number; // Minutes after midnight
+  endMinutes: number;
+  start: string; // "4:30 PM"
+  end: string;
+}
+
+export interface CalendarEntry {
+  childName?: string;
+  providerId: string;
+  programId?: string;
+  name: string;
+  matchScore: number;
+  sessions: ScheduledSession[];
+  recommendation: ScoredRecommendation;
+}
+
+export interface CalendarSlot {
+  day: Weekday;
+  start: string;
+  end: string;
+  childName?: string;
+  providerId: string;
+  programId?: string;
+  name: string;
+  travelMinutesBefore?: number; // From the previous activity that day
+}
+
+export type ScheduleDropReason =
+  | 'no_schedule'
+  | 'outside_hours'
+  | 'restricted'
+  | 'duplicate'
+  | 'overlap'
+  | 'travel'
+  | 'weekly_limit'
+  | 'child_limit';
+
+export interface DroppedActivity {
+  childName?: string;
+  providerId: string;
+  programId?: string;
+  name: string;
+  matchScore: number;
+  reason: ScheduleDropReason;
+  explanation: string;
+}
+
+export interface WeeklyCalendar {
+  entries: CalendarEntry[];
+  days: Record<string, CalendarSlot[]>; // Weekdays with activities, Monday first
+  totalScore: number;
+  dropped: DroppedActivity[]; // Schedulable activities this calendar left out, and why
+}
+
+export interface WeeklyScheduleResult {
+  calendars: WeeklyCalendar[];
+  unschedulable: DroppedActivity[]; // Left out of every calendar by hard constraints
+  ignoredRestrictions: string[]; // Restrictions that could not be interpreted
+  searchExhausted: boolean; // False when the node budget stopped the search early
+}
+
+// Minutes of slack on earliestStart/latestEnd per flexibility level
+export const FLEXIBILITY_SLACK_MINUTES: Record<ScheduleConstraint['flexibility'], number> = {
+  strict: 0,
+  somewhat_flexible: 15,
+  very_flexible: 30,
+};
+
+const SEARCH_NODE_BUDGET = 200000;
+
+interface PlaceableActivity {
+  index: number;
+  candidate: ScheduleCandidate;
+  sessions: ScheduledSession[];
+  location: ActivityLocation;
+}
+
+type Conflict = { reason: 'overlap' | 'travel'; explanation: string };
+
+interface ScheduleRule {
+  reason: 'outside_hours' | 'restricted';
+  text: string;
+  violates: (session: ScheduledSession) => boolean;
+}
+
+/**
+ * Build conflict-free weekly calendars that maximize total match score.
+ *
+ * @param candidates Recommendations to place, best first
+ * @param constraints The family's parsed schedule constraints, if any
+ * @param travelTime Travel minutes between two locations
+ */
+export function optimizeWeeklySchedule(
+  candidates: ScheduleCandidate[],
+  constraints: ScheduleConstraint | undefined,
+  options: WeeklyScheduleOptions,
+  travelTime: TravelTimeFunction = estimateTravelMinutes
+): WeeklyScheduleResult {
+  const { rules, ignoredRestrictions } = buildScheduleRules(constraints);
+  const unschedulable: DroppedActivity[] = [];
+  const placeable: PlaceableActivity[] = [];
+  const seen = new Set<string>();
+
+  const sorted = [...candidates].sort((a, b) => b.recommendation.matchScore - a.recommendation.matchScore);
+
+  for (const candidate of sorted) {
+    const { recommendation } = candidate;
+    const key = `${candidate.childName || ''}:${recommendation.providerId}:${recommendation.programId || ''}`;
+    if (seen.has(key)) {
+      unschedulable.push(dropped(candidate, 'duplicate', 'Already considered for this child'));
+      continue;
+    }
+    seen.add(key);
+
+    const sessions = buildSessions(recommendation, options.defaultDurationMinutes);
+    if (sessions.length === 0) {
+      unschedulable.push(dropped(candidate, 'no_schedule', 'No meeting day and start time listed; confirm with the provider'));
+      continue;
+    }
+
+    const violation = sessions
+      .flatMap(session => rules.map(rule => ({ session, rule })))
+      .find(({ session, rule }) => rule.violates(session));
+    if (violation) {
+      const { session, rule } = violation;
+      unschedulable.push(dropped(
+        candidate,
+        rule.reason,
+        `${capitalize(session.day)} ${session.start}-${session.end}: ${rule.text}`
+      ));
+      continue;
+    }
+
+    placeable.push({
+      index: placeable.length,
+      candidate,
+      sessions,
+      location: recommendation.metadata.location,
+    });
+  }
+
+  // Pairwise conflicts between everything that could be placed
+  const conflicts: Array<Array<Conflict | null>> = placeable.map(a =>
+    placeable.map(b => (a.index === b.index ? null : findConflict(a, b, options.singleDriver, travelTime)))
+  );
+
+  const { solutions, exhausted } = searchCalendars(placeable, conflicts, options);
+  if (!exhausted) {
+    console.warn(`Schedule search stopped after ${SEARCH_NODE_BUDGET} nodes; returning best calendars found`);
+  }
+
+  const calendars = solutions.map(selection =>
+    buildCalendar(selection.map(i => placeable[i]), placeable, conflicts, options, travelTime)
+  );
+
+  console.log(`Schedule optimizer: ${candidates.length} candidates → ${placeable.length} placeable, ${calendars.length} calendars`);
+
+  return { calendars, unschedulable, ignoredRestrictions, searchExhausted: exhausted };
+}
+
+/**
+ * Weekly sessions for an activity: its parsed meetings when known, else each listed
+ * day at the first parseable start time. Meetings without an end last `durationMinutes`.
+ */
+function buildSessions(recommendation: ScoredRecommendation, durationMinutes: number): ScheduledSession[] {
+  const { days, times, intervals } = recommendation.metadata.schedule;
+  if (intervals && intervals.length > 0) {
+    return intervals.map(interval => {
+      const endMinutes = interval.endMinutes ?? interval.startMinutes + durationMinutes;
+      return {
+        day: interval.day,
+        startMinutes: interval.startMinutes,
+        endMinutes,
+        start: formatMinutes(interval.startMinutes),
+        end: formatMinutes(endMinutes),
+      };
+    });
+  }
+
+  const startMinutes = times.map(parseTimeToMinutes).find((minutes): minutes is number => minutes !== null);
+  if (startMinutes === undefined) return [];
+
+  const normalizedDays = [...new Set(days.flatMap(normalizeDay))]
+    .sort((a, b) => DAY_ORDER.indexOf(a) - DAY_ORDER.indexOf(b));
+
+  return normalizedDays.map(day => ({
+    day,
+    startMinutes,
+    endMinutes: startMinutes + durationMinutes,
+    start: formatMinutes(startMinutes),
+    end: formatMinutes(startMinutes + durationMinutes),
+  }));
+}
+
+/**
+ * Explain why two activities can't both be on the calendar, or null if they can.
+ */
+function findConflict(
+  a: PlaceableActivity,
+  b: PlaceableActivity,
+  singleDriver: boolean,
+  travelTime: TravelTimeFunction
+): Conflict | null {
+  const sameChild = Boolean(a.candidate.childName) && a.candidate.childName === b.candidate.childName;
+  if (!sameChild && !singleDriver) return null;
+
+  for (const sessionA of a.sessions) {
+    for (const sessionB of b.sessions) {
+      if (sessionA.day !== sessionB.day) continue;
+
+      const [first, second] = sessionA.startMinutes <= sessionB.startMinutes
+        ? [{ activity: a, session: sessionA }, { activity: b, session: sessionB }]
+        : [{ activity: b, session: sessionB }, { activity: a, session: sessionA }];
+      const travelMinutes = travelTime(first.activity.location, second.activity.location);
+      const gap = second.session.startMinutes - first.session.endMinutes;
+      const day = capitalize(sessionA.day);
+
+      if (gap < 0) {
+        // Siblings at the same place at the same time share one drop-off
+        if (!sameChild && travelMinutes === 0) continue;
+        return {
+          reason: 'overlap',
+          explanation: sameChild
+            ? `Overlaps with ${activityName(b)} on ${day}`
+            : `Overlaps with ${activityName(b)} on ${day} at a different location`,
+        };
+      }
+
+      if (gap < travelMinutes) {
+        return {
+          reason: 'travel',
+          explanation: `${gap} min between ${activityName(first.activity)} and ${activityName(second.activity)} on ${day}; travel takes about ${travelMinutes} min`,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Branch and bound for the top-scoring maximal sets of compatible activities.
+ */
+function searchCalendars(
+  placeable: PlaceableActivity[],
+  conflicts: Array<Array<Conflict | null>>,
+  options: WeeklyScheduleOptions
+): { solutions: number[][]; exhausted: boolean } {
+  const scores = placeable.map(activity => activity.candidate.recommendation.matchScore);
+  const best: Array<{ score: number; selection: number[] }> = [];
+  let nodes = 0;
+
+  const childCounts = new Map<string, number>();
+  const canAdd = (index: number, selection: number[]): boolean => {
+    if (selection.length >= options.maxActivities) return false;
+    const childName = placeable[index].candidate.childName;
+    if (childName && (childCounts.get(childName) || 0) >= options.maxActivitiesPerChild) return false;
+    return selection.every(selected => !conflicts[index][selected]);
+  };
+
+  const threshold = () => (best.length < options.calendars ? -Infinity : best[best.length - 1].score);
+
+  const visit = (index: number, selection: number[], score: number) => {
+    if (++nodes > SEARCH_NODE_BUDGET) return;
+
+    // Upper bound: the best remaining scores that would still fit under the weekly limit
+    const remainingCapacity = options.maxActivities - selection.length;
+    const bound = score + scores.slice(index, index + remainingCapacity).reduce((sum, value) => sum + value, 0);
+    if (bound <= threshold()) return;
+
+    if (index === placeable.length) {
+      // Only keep maximal calendars; a subset of another calendar is never a real alternative
+      const isMaximal = placeable.every((_, other) => selection.includes(other) || !canAdd(other, selection));
+      if (isMaximal) {
+        best.push({ score, selection: [...selection] });
+        best.sort((a, b) => b.score - a.score);
+        if (best.length > options.calendars) best.pop();
+      }
+      return;
+    }
+
+    if (canAdd(index, selection)) {
+      const childName = placeable[index].candidate.childName;
+      if (childName) childCounts.set(childName, (childCounts.get(childName) || 0) + 1);
+      selection.push(index);
+      visit(index + 1, selection, score + scores[index]);
+      selection.pop();
+      if (childName) childCounts.set(childName, (childCounts.get(childName) || 0) - 1);
+    }
+
+    visit(index + 1, selection, score);
+  };
+
+  visit(0, [], 0);
+
+  return { solutions: best.map(solution => solution.selection), exhausted: nodes <= SEARCH_NODE_BUDGET };
+}
+
+function buildCalendar(
+  selected: PlaceableActivity[],
+  placeable: PlaceableActivity[],
+  conflicts: Array<Array<Conflict | null>>,
+  options: WeeklyScheduleOptions,
+  travelTime: TravelTimeFunction
+): WeeklyCalendar {
+  const selectedIndexes = new Set(selected.map(activity => activity.index));
+
+  const entries: CalendarEntry[] = selected.map(activity => ({
+    childName: activity.candidate.childName,
+    providerId: activity.candidate.recommendation.providerId,
+    programId: activity.candidate.recommendation.programId,
+    name: activityName(activity),
+    matchScore: activity.candidate.recommendation.matchScore,
+    sessions: activity.sessions,
+    recommendation: activity.candidate.recommendation,
+  }));
+
+  const days: Record<string, CalendarSlot[]> = {};
+  for (const day of DAY_ORDER) {
+    const sessions = selected
+      .flatMap(activity => activity.sessions.filter(session => session.day === day).map(session => ({ activity, session })))
+      .sort((a, b) => a.session.startMinutes - b.session.startMinutes);
+    if (sessions.length === 0) continue;
+
+    days[day] = sessions.map(({ activity, session }, position) => ({
+      day,
+      start: session.start,
+      end: session.end,
+      childName: activity.candidate.childName,
+      providerId: activity.candidate.recommendation.providerId,
+      programId: activity.candidate.recommendation.programId,
+      name: activityName(activity),
+      travelMinutesBefore: position > 0 ? travelTime(sessions[position - 1].activity.location, activity.location) : undefined,
+    }));
+  }
+
+  const childCounts = new Map<string, number>();
+  for (const activity of selected) {
+    const childName = activity.candidate.childName;
+    if (childName) childCounts.set(childName, (childCounts.get(childName) || 0) + 1);
+  }
+
+  const droppedActivities = placeable
+    .filter(activity => !selectedIndexes.has(activity.index))
+    .map(activity => {
+      const conflictWith = selected.map(other => conflicts[activity.index][other.index]).find(Boolean);
+      if (conflictWith) {
+        return dropped(activity.candidate, conflictWith.reason, conflictWith.explanation);
+      }
+      const childName = activity.candidate.childName;
+      if (childName && (childCounts.get(childName) || 0) >= options.maxActivitiesPerChild) {
+        return dropped(activity.candidate, 'child_limit', `${childName} already has ${options.maxActivitiesPerChild} higher-scoring activities this week`);
+      }
+      return dropped(activity.candidate, 'weekly_limit', `Week is full at ${options.maxActivities} activities`);
+    });
+
+  return {
+    entries,
+    days,
+    totalScore: entries.reduce((sum, entry) => sum + entry.matchScore, 0),
+    dropped: droppedActivities,
+  };
+}
+
+/**
+ * Turn schedule constraints into hard rules for each session.
+ */
+function buildScheduleRules(constraints?: ScheduleConstraint): { rules: ScheduleRule[]; ignoredRestrictions: string[] } {
+  const rules: ScheduleRule[] = [];
+  const ignoredRestrictions: string[] = [];
+  if (!constraints) return { rules, ignoredRestrictions };
+
+  const slack = FLEXIBILITY_SLACK_MINUTES[constraints.flexibility || 'somewhat_flexible'];
+
+  const earliestStart = constraints.specificTimes?.earliestStart
+    ? parseTimeToMinutes(constraints.specificTimes.earliestStart)
+    : null;
+  if (earliestStart !== null) {
+    rules.push({
+      reason: 'outside_hours',
+      text: `Starts before ${formatMinutes(earliestStart)}`,
+      violates: session => session.startMinutes < earliestStart - slack,
+    });
+  }
+
+  const latestEnd = constraints.specificTimes?.latestEnd
+    ? parseTimeToMinutes(constraints.specificTimes.latestEnd)
+    : null;
+  if (latestEnd !== null) {
+    rules.push({
+      reason: 'outside_hours',
+      text: `Ends after ${formatMinutes(latestEnd)}`,
+      violates: session => session.endMinutes > latestEnd + slack,
+    });
+  }
+
+  // Strict families only accept their listed time slots
+  if (constraints.flexibility === 'strict' && constraints.timeSlots.length > 0) {
+    rules.push({
+      reason: 'restricted',
+      text: 'Outside the preferred time slots',
+      violates: session => {
+        const slot = timeSlotFor(session);
+        return slot !== null && !(constraints.timeSlots as string[]).includes(slot);
+      },
+    });
+  }
+
+  for (const restriction of constraints.restrictions || []) {
+    const rule = parseRestriction(restriction);
+    if (rule) {
+      rules.push(rule);
+    } else {
+      ignoredRestrictions.push(restriction);
+    }
+  }
+
+  return { rules, ignoredRestrictions };
+}
+
+/**
+ * Interpret common restriction phrasings:
+ * "no weekday mornings", "no sundays", "must end before 11am", "start after 3:30pm".
+ */
+function parseRestriction(restriction: string): ScheduleRule | null {
+  const text = restriction.toLowerCase().trim();
+  const timePattern = '(\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?|noon)';
+
+  const periodMatch = text.match(/^no\s+(weekday|weekend)?\s*(morning|afternoon|evening)s?$/);
+  if (periodMatch) {
+    const [, dayType, period] = periodMatch;
+    return {
+      reason: 'restricted',
+      text: `Restriction: ${restriction}`,
+      violates: session =>
+        (!dayType || (dayType === 'weekday' ? WEEKDAYS : WEEKEND).includes(session.day)) &&
+        periodFor(session.startMinutes) === period,
+    };
+  }
+
+  const dayMatch = text.match(/^no\s+([a-z]+)$/);
+  if (dayMatch) {
+    const days = normalizeDay(dayMatch[1].replace(/s$/, '')).concat(normalizeDay(dayMatch[1]));
+    if (days.length > 0) {
+      return { reason: 'restricted', text: `Restriction: ${restriction}`, violates: session => days.includes(session.day) };
+    }
+  }
+
+  const endMatch = text.match(new RegExp(`(?:must\\s+)?(?:end|finish|be done)\\s+(?:by|before)\\s+${timePattern}$`));
+  const endMinutes = endMatch ? parseTimeToMinutes(endMatch[1]) : null;
+  if (endMinutes !== null) {
+    return { reason: 'restricted', text: `Restriction: ${restriction}`, violates: session => session.endMinutes > endMinutes };
+  }
+
+  const startMatch = text.match(new RegExp(`(?:must\\s+)?(?:start|begin)\\s+(?:after|at or after)\\s+${timePattern}$`)) ||
+                     text.match(new RegExp(`^nothing\\s+before\\s+${timePattern}$`));
+  const startMinutes = startMatch ? parseTimeToMinutes(startMatch[1]) : null;
+  if (startMinutes !== null) {
+    return { reason: 'restricted', text: `Restriction: ${restriction}`, violates: session => session.startMinutes < startMinutes };
+  }
+
+  return null;
+}
+
+function dropped(candidate: ScheduleCandidate, reason: ScheduleDropReason, explanation: string): DroppedActivity {
+  return {
+    childName: candidate.childName,
+    providerId: candidate.recommendation.providerId,
+    programId: candidate.recommendation.programId,
+    name: candidate.recommendation.metadata.name,
+    matchScore: candidate.recommendation.matchScore,
+    reason,
+    explanation,
+  };
+}
+
+function activityName(activity: PlaceableActivity): string {
+  const name = activity.candidate.recommendation.metadata.name;
+  return activity.candidate.childName ? `${name} (${activity.candidate.childName})` : name;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,451 @@
+/**
+ * Schedule parsing into concrete weekly time intervals.
+ *
+ * WHY: Interval schedules because:
+ * - Schedules were reduced to coarse slots ("weekday_afternoon"), which cannot say
+ *   "Tue/Thu 4:15-5:30pm" or whether a class ends before the family's latest end
+ * - Events store a start timestamp, and titles, descriptions and camp `time` fields
+ *   carry the rest as free text ("MWF 9am-noon", "Saturdays 10:00-11:30")
+ * - Scoring needs real overlap with the family's hours and the class length to
+ *   honor earliestStart, latestEnd and preferredDuration
+ *
+ * DESIGN DECISIONS:
+ * - An interval is one weekly meeting: day, local start and end minutes, the time
+ *   zone they are in, whether it repeats, and the dates it runs between
+ * - Time ranges need a meridiem or a colon on at least one side ("4-5pm", "10-11:30")
+ *   so age ranges ("6-10") are never read as times; a range's meridiem carries to the
+ *   side without one unless that would make it end before it starts, and a bare range
+ *   takes the usual class hours (8am to 8pm)
+ * - A range running past midnight ("11pm-1am") ends at midnight on its listed day
+ * - Each time range meets on the nearest listed days before it ("Mon 4-5pm, Sat
+ *   10-11am"), else the nearest after, else the event's start day
+ * - A start time without an end leaves the end unknown; scorers assume a length
+ * - Timestamps are read in the market's time zone; a midnight-UTC timestamp is a
+ *   date without a time
+ * - Family hours come from time slots (the engine's morning 6-12, afternoon 12-18,
+ *   evening 18-22 boundaries) clipped to earliestStart/latestEnd
+ */
+
+import type { ActivityMetadata } from './recommendation-engine';
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export const DAY_ORDER: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+export const WEEKDAYS: Weekday[] = DAY_ORDER.slice(0, 5);
+export const WEEKEND: Weekday[] = DAY_ORDER.slice(5);
+
+// All markets are in Central Texas today
+export const DEFAULT_TIMEZONE = 'America/Chicago';
+
+// Length scorers assume for a meeting listed without an end time
+export const ASSUMED_SESSION_MINUTES = 60;
+
+export interface ScheduleInterval {
+  day: Weekday;
+  startMinutes: number; // Local minutes after midnight
+  endMinutes?: number; // Unknown when only a start time is listed
+  timezone: string; // IANA zone the minutes are in
+  recurrence: 'weekly' | 'once';
+  dateRange?: { start?: string; end?: string }; // Local YYYY-MM-DD the meetings run between
+}
+
+/**
+ * A stretch of the week the family is available.
+ */
+export interface AvailabilityWindow {
+  day: Weekday;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface ParseScheduleOptions {
+  timezone?: string;
+  recurrence?: ScheduleInterval['recurrence'];
+  dateRange?: ScheduleInterval['dateRange'];
+  defaultDays?: Weekday[]; // Days for times listed without any, e.g. the event's start day
+}
+
+const DAY_ALIASES: Record<string, Weekday[]> = {
+  mon: ['monday'], tue: ['tuesday'], tues: ['tuesday'], wed: ['wednesday'], thu: ['thursday'],
+  thur: ['thursday'], thurs: ['thursday'], fri: ['friday'], sat: ['saturday'], sun: ['sunday'],
+  weekday: WEEKDAYS, weekdays: WEEKDAYS, weekend: WEEKEND, weekends: WEEKEND,
+  'm-f': WEEKDAYS, mwf: ['monday', 'wednesday', 'friday'], tth: ['tuesday', 'thursday'], 't/th': ['tuesday', 'thursday'],
+};
+
+const DAY_WORD = String.raw`(?:mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)s?`;
+const DAY_TOKEN = new RegExp(String.raw`\b(?:(${DAY_WORD})\s*(?:-|to|through|thru)\s*(${DAY_WORD})|(${DAY_WORD})|(weekdays?|weekends?|m-f|mwf|tth|t\/th))\b`, 'g');
+// Text allowed between the days of one list: "Tue/Thu", "Mon, Wed & Fri", "Tuesdays and Thursdays"
+const DAY_JOINER = /^[\s,/]*(?:and|&)?[\s,/]*$/;
+
+const TIME = String.raw`(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?`;
+const TIME_RANGE = new RegExp(String.raw`(?<![\d$.:])(?:from\s+)?(noon|midnight|${TIME})\s*(?:-|to|until|till)\s*(noon|midnight|${TIME})(?![\d%])`, 'g');
+const SINGLE_TIME = new RegExp(String.raw`(?<![\d$.:])(noon|${TIME})(?![\d%])`, 'g');
+
+const SLOT_WINDOWS: Record<string, { days: Weekday[]; start: number; end: number }> = {
+  weekday_morning: { days: WEEKDAYS, start: 6 * 60, end: 12 * 60 },
+  weekday_afternoon: { days: WEEKDAYS, start: 12 * 60, end: 18 * 60 },
+  weekday_evening: { days: WEEKDAYS, start: 18 * 60, end: 22 * 60 },
+  weekend_morning: { days: WEEKEND, start: 7 * 60, end: 12 * 60 },
+  weekend_afternoon: { days: WEEKEND, start: 12 * 60, end: 18 * 60 },
+  weekend_evening: { days: WEEKEND, start: 18 * 60, end: 22 * 60 },
+};
+
+/**
+ * Parse "4pm", "4:30 PM", "16:00" or "noon" into minutes after midnight.
+ */
+export function parseTimeToMinutes(time: string): number | null {
+  const normalized = time.toLowerCase().trim();
+  if (normalized === 'noon') return 12 * 60;
+  if (normalized === 'midnight') return 0;
+
+  const match = normalized.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+  if (!match) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.replace(/\./g, '');
+  if (meridiem === 'pm' && hour !== 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+
+  return hour < 24 && minute < 60 ? hour * 60 + minute : null;
+}
+
+/**
+ * Format minutes after midnight as "4:30 PM".
+ */
+export function formatMinutes(minutes: number): string {
+  const hour24 = Math.floor(minutes / 60) % 24;
+  const minute = minutes % 60;
+  const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+  return `${hour12}:${String(minute).padStart(2, '0')} ${hour24 < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Expand a day name or alias ("tues", "weekends", "MWF") into weekdays.
+ */
+export function normalizeDay(day: string): Weekday[] {
+  const normalized = day.toLowerCase().trim();
+  if ((DAY_ORDER as string[]).includes(normalized)) return [normalized as Weekday];
+  const plural = DAY_ORDER.find(weekday => normalized === `${weekday}s`);
+  if (plural) return [plural];
+  return DAY_ALIASES[normalized] || DAY_ALIASES[normalized.replace(/s$/, '')] || [];
+}
+
+/**
+ * Every day named in text, in week order.
+ */
+export function parseDays(text: string): Weekday[] {
+  return sortDays(findDayGroups(normalize(text)).flatMap(group => group.days));
+}
+
+/**
+ * Parse weekly meetings from free text: "Tue/Thu 4:15-5:30pm", "MWF 9am-noon",
+ * "Mon 4-5pm, Sat 10-11am". Times without a listed day use `defaultDays`.
+ */
+export function parseWeeklySchedule(text: string | null | undefined, options: ParseScheduleOptions = {}): ScheduleInterval[] {
+  if (!text) return [];
+  const normalized = normalize(text);
+  const groups = findDayGroups(normalized);
+  const intervals: ScheduleInterval[] = [];
+
+  for (const time of findTimes(normalized)) {
+    const before = groups.filter(group => group.end <= time.index);
+    const days = before.length > 0
+      ? before[before.length - 1].days
+      : groups.find(group => group.index >= time.index)?.days || options.defaultDays || [];
+
+    for (const day of days) {
+      intervals.push({
+        day,
+        startMinutes: time.startMinutes,
+        endMinutes: time.endMinutes,
+        timezone: options.timezone || DEFAULT_TIMEZONE,
+        recurrence: options.recurrence || 'weekly',
+        dateRange: options.dateRange,
+      });
+    }
+  }
+
+  return dedupeIntervals(intervals);
+}
+
+/**
+ * Build an event's schedule from its start/end timestamps, title and description.
+ *
+ * Text times win because they carry end times; otherwise the start timestamp's local
+ * time is the start. Days come from the text, else the start date's weekday.
+ */
+export function scheduleFromEvent(
+  event: {
+    title?: string | null;
+    description?: string | null;
+    startDate?: Date | string | null;
+    endDate?: Date | string | null;
+    recurring?: boolean | null;
+  } | null | undefined,
+  timezone: string = DEFAULT_TIMEZONE
+): ActivityMetadata['schedule'] | null {
+  if (!event) return null;
+
+  const start = localDateTime(event.startDate, timezone);
+  const end = localDateTime(event.endDate, timezone);
+  const options: ParseScheduleOptions = {
+    timezone,
+    recurrence: event.recurring ? 'weekly' : 'once',
+    dateRange: start || end ? { start: start?.date, end: end?.date } : undefined,
+    defaultDays: start ? [start.day] : [],
+  };
+
+  const text = `${event.title || ''} ${event.description || ''}`;
+  let intervals = parseWeeklySchedule(text, options);
+  if (intervals.length === 0 && start?.minutes !== undefined) {
+    const days = parseDays(text);
+    intervals = (days.length > 0 ? days : [start.day]).map(day => ({
+      day,
+      startMinutes: start.minutes!,
+      timezone,
+      recurrence: options.recurrence!,
+      dateRange: options.dateRange,
+    }));
+  }
+
+  const days = intervals.length > 0 ? sortDays(intervals.map(interval => interval.day)) : parseDays(text);
+  return {
+    days: days.length > 0 ? days : start ? [start.day] : [],
+    times: [...new Set(intervals.map(interval => formatMinutes(interval.startMinutes)))],
+    recurring: event.recurring || false,
+    flexibility: 'fixed',
+    intervals,
+  };
+}
+
+/**
+ * Build a schedule from vector payload text fields (`time`, `schedule`, title,
+ * description), with the date range when the payload has one.
+ */
+export function scheduleFromText(
+  texts: Array<string | null | undefined>,
+  options: ParseScheduleOptions = {}
+): ActivityMetadata['schedule'] {
+  const fields = texts.filter((text): text is string => typeof text === 'string' && text.length > 0);
+  const intervals = fields.map(text => parseWeeklySchedule(text, options)).find(parsed => parsed.length > 0) || [];
+  const days = intervals.length > 0
+    ? sortDays(intervals.map(interval => interval.day))
+    : fields.map(parseDays).find(parsed => parsed.length > 0) || [];
+
+  return {
+    days,
+    times: [...new Set(intervals.map(interval => formatMinutes(interval.startMinutes)))],
+    recurring: options.recurrence ? options.recurrence === 'weekly' : undefined,
+    flexibility: intervals.length > 0 ? 'fixed' : days.length > 0 ? 'flexible' : 'very_flexible',
+    intervals,
+  };
+}
+
+/**
+ * The family's available hours as weekly windows: their time slots (every day when
+ * none are given) clipped to earliestStart/latestEnd, each widened by `slackMinutes`.
+ *
+ * @returns null when the family states no hours at all
+ */
+export function availabilityWindows(
+  slots: string[],
+  specificTimes?: { earliestStart?: string; latestEnd?: string },
+  slackMinutes = 0
+): AvailabilityWindow[] | null {
+  const earliest = specificTimes?.earliestStart ? parseTimeToMinutes(specificTimes.earliestStart) : null;
+  const latest = specificTimes?.latestEnd ? parseTimeToMinutes(specificTimes.latestEnd) : null;
+  const known = slots.map(slot => SLOT_WINDOWS[slot]).filter(Boolean);
+  if (known.length === 0 && earliest === null && latest === null) return null;
+
+  const base = known.length > 0 ? known : [{ days: DAY_ORDER, start: 0, end: 24 * 60 }];
+  return base.flatMap(({ days, start, end }) => days.map(day => ({
+    day,
+    startMinutes: Math.max(start, earliest !== null ? earliest - slackMinutes : 0),
+    endMinutes: Math.min(end, latest !== null ? latest + slackMinutes : 24 * 60),
+  }))).filter(window => window.endMinutes > window.startMinutes);
+}
+
+/**
+ * Minutes of an interval inside the family's windows.
+ */
+export function overlapMinutes(interval: { day: Weekday; startMinutes: number; endMinutes: number }, windows: AvailabilityWindow[]): number {
+  return windows
+    .filter(window => window.day === interval.day)
+    .reduce((sum, window) => sum + Math.max(0, Math.min(window.endMinutes, interval.endMinutes) - Math.max(window.startMinutes, interval.startMinutes)), 0);
+}
+
+/**
+ * The engine's time slot for a meeting's start, e.g. "weekday_afternoon".
+ */
+export function timeSlotFor(interval: { day: Weekday; startMinutes: number }): string | null {
+  const period = periodFor(interval.startMinutes);
+  if (!period) return null;
+  return `${WEEKEND.includes(interval.day) ? 'weekend' : 'weekday'}_${period}`;
+}
+
+/**
+ * Morning 6-12, afternoon 12-18, evening 18-22.
+ */
+export function periodFor(startMinutes: number): 'morning' | 'afternoon' | 'evening' | null {
+  const hour = Math.floor(startMinutes / 60);
+  if (hour >= 6 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 18) return 'afternoon';
+  if (hour >= 18 && hour < 22) return 'evening';
+  return null;
+}
+
+/**
+ * Format an interval for parents, e.g. "Tuesday 4:15 PM-5:30 PM".
+ */
+export function formatInterval(interval: ScheduleInterval): string {
+  const day = interval.day.charAt(0).toUpperCase() + interval.day.slice(1);
+  const end = interval.endMinutes !== undefined ? `-${formatMinutes(interval.endMinutes)}` : '';
+  return `${day} ${formatMinutes(interval.startMinutes)}${end}`;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[–—]/g, '-').replace(/\s+/g, ' ');
+}
+
+function findDayGroups(text: string): Array<{ days: Weekday[]; index: number; end: number }> {
+  const groups: Array<{ days: Weekday[]; index: number; end: number }> = [];
+
+  for (const match of text.matchAll(DAY_TOKEN)) {
+    const [token, rangeStart, rangeEnd, single, alias] = match;
+    const days = rangeStart ? dayRange(rangeStart, rangeEnd) : normalizeDay(single || alias);
+    if (days.length === 0) continue;
+
+    const index = match.index!;
+    const previous = groups[groups.length - 1];
+    if (previous && DAY_JOINER.test(text.slice(previous.end, index))) {
+      previous.days = sortDays([...previous.days, ...days]);
+      previous.end = index + token.length;
+    } else {
+      groups.push({ days, index, end: index + token.length });
+    }
+  }
+
+  return groups;
+}
+
+function dayRange(from: string, to: string): Weekday[] {
+  const start = DAY_ORDER.indexOf(normalizeDay(from)[0]);
+  const end = DAY_ORDER.indexOf(normalizeDay(to)[0]);
+  if (start < 0 || end < 0) return [];
+  // "Fri-Sun" wraps; "Sat-Mon" wraps past Sunday
+  return end >= start ? DAY_ORDER.slice(start, end + 1) : [...DAY_ORDER.slice(start), ...DAY_ORDER.slice(0, end + 1)];
+}
+
+function findTimes(text: string): Array<{ index: number; startMinutes: number; endMinutes?: number }> {
+  const times: Array<{ index: number; startMinutes: number; endMinutes?: number }> = [];
+  const covered: Array<[number, number]> = [];
+
+  for (const match of text.matchAll(TIME_RANGE)) {
+    // Ends of a range that doesn't resolve aren't separate start times either
+    covered.push([match.index!, match.index! + match[0].length]);
+    const range = resolveRange(match[1], match.slice(2, 5), match[5], match.slice(6, 9));
+    if (range) times.push({ index: match.index!, ...range });
+  }
+
+  for (const match of text.matchAll(SINGLE_TIME)) {
+    const index = match.index!;
+    if (covered.some(([from, to]) => index >= from && index < to)) continue;
+    const [, token, hour, minute, meridiem] = match;
+    const word = token === 'noon' ? token : undefined;
+    // A lone number is only a time with a meridiem, or as a 24-hour clock ("16:00")
+    if (!word && !meridiem && !(minute && parseInt(hour, 10) >= 13)) continue;
+    const minutes = word ? parseTimeToMinutes(word) : clockMinutes(hour, minute, meridiem);
+    if (minutes !== null) times.push({ index, startMinutes: minutes });
+  }
+
+  return times.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Resolve both ends of a time range, carrying the stated meridiem to the other side.
+ */
+function resolveRange(
+  startWord: string,
+  [startHour, startMinute, startMeridiem]: string[],
+  endWord: string,
+  [endHour, endMinute, endMeridiem]: string[]
+): { startMinutes: number; endMinutes: number } | null {
+  const isWord = (word: string) => word === 'noon' || word === 'midnight';
+  const stated = Boolean(startMeridiem || endMeridiem || isWord(startWord) || isWord(endWord) || startMinute || endMinute);
+  if (!stated) return null;
+
+  const clock = (word: string, hour: string, minute: string | undefined, meridiem: string | undefined) =>
+    isWord(word) ? parseTimeToMinutes(word) : clockMinutes(hour, minute, meridiem);
+
+  const end = clock(endWord, endHour, endMinute, endMeridiem || (isWord(endWord) ? undefined : startMeridiem));
+  let start = clock(startWord, startHour, startMinute, startMeridiem || endMeridiem);
+  if (start === null || end === null) return null;
+
+  // "11-1pm" starts in the morning; "4:15-5:30pm" does not
+  if (!startMeridiem && endMeridiem && start > end) start = clock(startWord, startHour, startMinute, 'am');
+  if (start === null) return null;
+
+  let endMinutes = end;
+  // "10am-2" ends later the same day
+  if (!endMeridiem && !isWord(endWord) && startMeridiem && endMinutes <= start) endMinutes += 12 * 60;
+  if (!startMeridiem && !endMeridiem && !isWord(startWord) && !isWord(endWord)) {
+    // A bare 12-hour clock range takes the usual class hours: "4:15-5:30" in the
+    // afternoon, "10-11:30" in the morning, "11:30-1" across noon
+    if (endMinutes <= start) {
+      endMinutes += 12 * 60;
+    } else if (end < 8 * 60) {
+      start += 12 * 60;
+      endMinutes += 12 * 60;
+    }
+  }
+
+  // "11pm-1am" and "10pm-midnight" run past midnight; clamp them there so the
+  // meeting stays on its listed day
+  const pastMidnight = endMinutes <= start ? endMinutes + 24 * 60 : endMinutes;
+  if (pastMidnight >= 24 * 60 && pastMidnight - 24 * 60 < 6 * 60) endMinutes = 24 * 60;
+
+  if (endMinutes <= start || endMinutes > 24 * 60) return null;
+  return { startMinutes: start, endMinutes };
+}
+
+function clockMinutes(hour: string, minute: string | undefined, meridiem: string | undefined): number | null {
+  return parseTimeToMinutes(`${hour}:${minute || '00'} ${meridiem?.replace(/\./g, '') || ''}`.trim());
+}
+
+function dedupeIntervals(intervals: ScheduleInterval[]): ScheduleInterval[] {
+  const seen = new Set<string>();
+  return intervals
+    .filter(interval => {
+      const key = `${interval.day}:${interval.startMinutes}:${interval.endMinutes ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => DAY_ORDER.indexOf(a.day) - DAY_ORDER.indexOf(b.day) || a.startMinutes - b.startMinutes);
+}
+
+function sortDays(days: Weekday[]): Weekday[] {
+  return [...new Set(days)].sort((a, b) => DAY_ORDER.indexOf(a) - DAY_ORDER.indexOf(b));
+}
+
+/**
+ * A timestamp's local date, weekday and time. Midnight UTC is a date without a time.
+ */
+function localDateTime(value: Date | string | null | undefined, timezone: string): { date: string; day: Weekday; minutes?: number } | null {
+  if (!value) return null;
+  const instant = value instanceof Date ? value : new Date(value);
+  if (isNaN(instant.getTime())) return null;
+
+  const dateOnly = instant.getUTCHours() === 0 && instant.getUTCMinutes() === 0 && instant.getUTCSeconds() === 0;
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone: dateOnly ? 'UTC' : timezone,
+    year: 'numeric', month: '2-digit', day: '2-digit', weekday: 'long', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(instant).map(part => [part.type, part.value]));
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: parts.weekday.toLowerCase() as Weekday,
+    minutes: dateOnly ? undefined : parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Sibling co-scheduling: combine per-child recommendations into drop-off plans.
+ *
+ * WHY: Co-scheduling plans because:
+ * - Parents with several kids want one drop-off, not two activities across town
+ * - A ranked list per child hides which activities line up with each other
+ * - The best plan is often two good fits at the same place, not the two best fits
+ *
+ * DESIGN DECISIONS:
+ * - Plans take one activity per child from that child's own ranked list, so every
+ *   activity still fits its child's age and interests
+ * - Plan score blends the children's mean match score with a logistics score
+ *   (shared provider/address, overlapping or back-to-back times)
+ * - Siblings may share the same event; that is the ideal plan when it fits both ages
+ * - Only the top candidates per child are combined, capped so large families stay fast
+ * - Missing schedule or location data scores as uncertain rather than disqualifying
+ * - A plan is one household's spend, so its activities are totaled (with sibling
+ *   discounts at a shared provider) and plans over the budget are demoted
+ */
+
+import type { BudgetPeriod, Preferences, SiblingPlanOptions } from '@/types/ai';
+import type { ActivityMetadata, ScoredRecommendation } from './recommendation-engine';
+import { priceForPeriod, siblingPrice, spendScore, formatSpend } from './household-budget';
+import { parseTimeToMinutes } from './schedule-parser';
+import { haversineMiles } from './travel-time';
+
+/**
+ * A child's ranked recommendations, scored for that child only.
+ */
+export interface ChildRecommendations {
+  childName: string;
+  recommendations: ScoredRecommendation[];
+}
+
+export type SiblingTimingRelation = 'overlapping' | 'adjacent' | 'same_day' | 'different_days' | 'unknown';
+
+export interface SiblingPlan {
+  activities: Array<{ childName: string; recommendation: ScoredRecommendation }>;
+  planScore: number; // 0-1
+  fitScore: number; // 0-1, mean of the children's match scores
+  logisticsScore: number; // 0-1
+  colocation: {
+    score: number;
+    sameProvider: boolean;
+    distanceMiles?: number; // Largest distance between any two activities, when known
+  };
+  timing: {
+    score: number;
+    relation: SiblingTimingRelation;
+    sharedDays: string[];
+  };
+  budget?: {
+    householdCost?: number; // Undefined when any activity's price is unknown
+    period?: BudgetPeriod;
+    siblingSavings: number;
+    budgetMax?: number;
+    score: number; // 1 when within budget or unknown
+  };
+  reasons: string[];
+  concerns: string[];
+}
+
+// Combinations evaluated at most; candidates per child shrink for larger families
+const MAX_COMBINATIONS = 5000;
+
+const TIMING_SCORES: Record<SiblingTimingRelation, number> = {
+  overlapping: 1.0,
+  adjacent: 0.85,
+  same_day: 0.5,
+  unknown: 0.4,
+  different_days: 0.1,
+};
+
+/**
+ * Build ranked sibling plans from each child's recommendations.
+ */
+export function buildSiblingPlans(
+  children: ChildRecommendations[],
+  options: SiblingPlanOptions,
+  budget?: Preferences['budget']
+): SiblingPlan[] {
+  if (children.length < 2) return [];
+
+  const perChild = Math.max(
+    2,
+    Math.min(options.candidatesPerChild, Math.floor(Math.pow(MAX_COMBINATIONS, 1 / children.length)))
+  );
+
+  const candidates = children.map(child => ({
+    childName: child.childName,
+    recommendations: child.recommendations
+      .filter(rec => rec.ranking.age >= options.minAgeScore)
+      .slice(0, perChild),
+  }));
+
+  if (candidates.some(child => child.recommendations.length === 0)) {
+    console.log(`Sibling plans: no age-appropriate candidates for ${candidates.filter(c => c.recommendations.length === 0).map(c => c.childName).join(', ')}`);
+    return [];
+  }
+
+  const plans: SiblingPlan[] = [];
+  for (const combination of cartesianProduct(candidates.map(child => child.recommendations))) {
+    plans.push(scoreSiblingPlan(
+      combination.map((recommendation, index) => ({ childName: candidates[index].childName, recommendation })),
+      options,
+      budget
+    ));
+  }
+
+  return plans
+    .sort((a, b) => b.planScore - a.planScore)
+    .slice(0, options.limit);
+}
+
+/**
+ * Score one combination of activities (one per child).
+ */
+export function scoreSiblingPlan(
+  activities: SiblingPlan['activities'],
+  options: SiblingPlanOptions,
+  budget?: Preferences['budget']
+): SiblingPlan {
+  const metadata = activities.map(activity => activity.recommendation.metadata);
+  const fitScore = activities.reduce((sum, activity) => sum + activity.recommendation.matchScore, 0) / activities.length;
+  const colocation = scoreColocation(metadata, options.nearbyMiles);
+  const timing = scoreTiming(metadata, options);
+  const spend = scoreSpend(metadata, budget);
+
+  const logisticsScore = (colocation.score + timing.score) / 2;
+  const planScore = (fitScore * (1 - options.logisticsWeight) + logisticsScore * options.logisticsWeight) * spend.score;
+
+  const reasons: string[] = [];
+  const concerns: string[] = [];
+
+  const sameEvent = new Set(activities.map(a => `${a.recommendation.providerId}-${a.recommendation.programId}`)).size === 1;
+  if (sameEvent) {
+    reasons.push('Siblings can attend the same activity together');
+  } else if (colocation.sameProvider) {
+    reasons.push(`All activities at ${metadata[0].provider.name}`);
+  } else if (colocation.distanceMiles !== undefined && colocation.distanceMiles < 0.1) {
+    reasons.push('Activities at the same location');
+  } else if (colocation.distanceMiles !== undefined && colocation.distanceMiles <= options.nearbyMiles) {
+    reasons.push(`Activities within ${colocation.distanceMiles.toFixed(1)} miles of each other`);
+  } else if (colocation.distanceMiles !== undefined) {
+    concerns.push(`Activities are ${colocation.distanceMiles.toFixed(1)} miles apart`);
+  } else if (colocation.score <= 0.2) {
+    concerns.push('Locations could not be compared');
+  }
+
+  const days = timing.sharedDays.map(capitalize).join('/');
+  switch (timing.relation) {
+    case 'overlapping':
+      if (!sameEvent) reasons.push(`Overlapping times on ${days}`);
+      break;
+    case 'adjacent':
+      reasons.push(`Back-to-back on ${days}`);
+      break;
+    case 'same_day':
+      concerns.push(`Same day (${days}) but not back-to-back`);
+      break;
+    case 'different_days':
+      concerns.push('Activities are on different days');
+      break;
+    case 'unknown':
+      concerns.push('Schedule details unavailable for some activities');
+      break;
+  }
+
+  if (spend.householdCost && spend.budgetMax) {
+    const savings = spend.siblingSavings > 0 ? ` after ${formatSpend(spend.siblingSavings, spend.period)} in sibling discounts` : '';
+    const total = `${formatSpend(spend.householdCost, spend.period)} total${savings}`;
+    if (spend.score >= 1) {
+      reasons.push(`${total}, within budget`);
+    } else {
+      concerns.push(`${total}, over the ${formatSpend(spend.budgetMax, spend.period)} budget`);
+    }
+  }
+
+  return {
+    activities,
+    planScore,
+    fitScore,
+    logisticsScore,
+    colocation,
+    timing,
+    budget: budget?.max ? spend : undefined,
+    reasons,
+    concerns,
+  };
+}
+
+/**
+ * Total the plan's household spend; siblings at the same provider get its sibling discount.
+ */
+function scoreSpend(
+  metadata: ActivityMetadata[],
+  budget?: Preferences['budget']
+): NonNullable<SiblingPlan['budget']> {
+  const period = budget?.period;
+  const costs = metadata.map(m => priceForPeriod(m.pricing, m.schedule, period));
+  if (costs.some(cost => cost === undefined)) {
+    return { period, siblingSavings: 0, budgetMax: budget?.max, score: 1 };
+  }
+
+  // The first child at each provider pays full price
+  const seenProviders = new Set<string>();
+  let householdCost = 0;
+  let siblingSavings = 0;
+  metadata.forEach((m, index) => {
+    const cost = costs[index] as number;
+    const paid = seenProviders.has(m.providerId)
+      ? siblingPrice(cost, m.pricing.siblingDiscount, m.pricing.amount || m.pricing.range?.max)
+      : cost;
+    seenProviders.add(m.providerId);
+    householdCost += paid;
+    siblingSavings += cost - paid;
+  });
+
+  return {
+    householdCost,
+    period,
+    siblingSavings,
+    budgetMax: budget?.max,
+    score: budget?.max ? spendScore(householdCost, budget.max) : 1,
+  };
+}
+
+/**
+ * Score how easy it is to drop everyone off at once.
+ */
+function scoreColocation(
+  metadata: ActivityMetadata[],
+  nearbyMiles: number
+): SiblingPlan['colocation'] {
+  const sameProvider = new Set(metadata.map(m => m.providerId)).size === 1;
+  if (sameProvider) {
+    return { score: 1.0, sameProvider: true, distanceMiles: 0 };
+  }
+
+  const coordinates = metadata.map(m => m.location.coordinates);
+  if (coordinates.every((c): c is { lat: number; lng: number } => Boolean(c))) {
+    let distanceMiles = 0;
+    for (let i = 0; i < coordinates.length; i++) {
+      for (let j = i + 1; j < coordinates.length; j++) {
+        distanceMiles = Math.max(distanceMiles, haversineMiles(coordinates[i], coordinates[j]));
+      }
+    }
+
+    const score = distanceMiles <= 0.25 ? 0.9 :
+                  distanceMiles <= nearbyMiles ? 0.7 :
+                  distanceMiles <= nearbyMiles * 3 ? 0.4 : 0.1;
+    return { score, sameProvider: false, distanceMiles };
+  }
+
+  // No coordinates: fall back to address and ZIP code comparison
+  const addresses = metadata.map(m => m.location.address?.toLowerCase().replace(/\s+/g, ' ').trim());
+  if (addresses.every(Boolean) && new Set(addresses).size === 1) {
+    return { score: 0.9, sameProvider: false };
+  }
+
+  const zipCodes = metadata.map(m => m.location.zipCode?.slice(0, 5));
+  if (zipCodes.every(Boolean) && new Set(zipCodes).size === 1) {
+    return { score: 0.5, sameProvider: false };
+  }
+
+  return { score: 0.2, sameProvider: false };
+}
+
+/**
+ * Score how well the activity times line up.
+ *
+ * Compares the activities' meetings on each shared day and keeps the best day. Parsed
+ * intervals give per-day start and end times; without them, every listed day uses the
+ * first parseable start time. Meetings without an end last `defaultDurationMinutes`.
+ */
+function scoreTiming(
+  metadata: ActivityMetadata[],
+  options: Pick<SiblingPlanOptions, 'adjacentGapMinutes' | 'defaultDurationMinutes'>
+): SiblingPlan['timing'] {
+  const daySets = metadata.map(m => m.schedule.intervals && m.schedule.intervals.length > 0
+    ? new Set<string>(m.schedule.intervals.map(interval => interval.day))
+    : new Set(m.schedule.days.map(day => day.toLowerCase())));
+  if (daySets.some(days => days.size === 0)) {
+    return { score: TIMING_SCORES.unknown, relation: 'unknown', sharedDays: [] };
+  }
+
+  const sharedDays = [...daySets[0]].filter(day => daySets.every(days => days.has(day)));
+  if (sharedDays.length === 0) {
+    return { score: TIMING_SCORES.different_days, relation: 'different_days', sharedDays };
+  }
+
+  let relation: SiblingTimingRelation = 'same_day';
+  for (const day of sharedDays) {
+    const meetings = metadata.map(m => meetingsOn(m.schedule, day, options.defaultDurationMinutes));
+    if (meetings.some(dayMeetings => dayMeetings.length === 0)) continue;
+
+    // One meeting per activity; an activity meeting twice that day can line up either time
+    for (const combination of cartesianProduct(meetings)) {
+      const dayRelation = relateMeetings(combination, options.adjacentGapMinutes);
+      if (TIMING_SCORES[dayRelation] > TIMING_SCORES[relation]) relation = dayRelation;
+    }
+  }
+
+  return { score: TIMING_SCORES[relation], relation, sharedDays };
+}
+
+/**
+ * An activity's meetings on one day, as minutes after midnight.
+ */
+function meetingsOn(
+  schedule: ActivityMetadata['schedule'],
+  day: string,
+  defaultDurationMinutes: number
+): Array<{ start: number; end: number }> {
+  if (schedule.intervals && schedule.intervals.length > 0) {
+    return schedule.intervals
+      .filter(interval => interval.day === day)
+      .map(interval => ({
+        start: interval.startMinutes,
+        end: interval.endMinutes ?? interval.startMinutes + defaultDurationMinutes,
+      }));
+  }
+
+  const start = schedule.times.map(parseTimeToMinutes).find((minutes): minutes is number => minutes !== null);
+  return start === undefined ? [] : [{ start, end: start + defaultDurationMinutes }];
+}
+
+/**
+ * Walk the meetings in start order and classify the largest gap between them.
+ */
+function relateMeetings(meetings: Array<{ start: number; end: number }>, adjacentGapMinutes: number): SiblingTimingRelation {
+  const sorted = [...meetings].sort((a, b) => a.start - b.start);
+
+  let latestEnd = sorted[0].end;
+  let largestGap = -Infinity;
+  for (const meeting of sorted.slice(1)) {
+    largestGap = Math.max(largestGap, meeting.start - latestEnd);
+    latestEnd = Math.max(latestEnd, meeting.end);
+  }
+
+  return largestGap < 0 ? 'overlapping' :
+         largestGap <= adjacentGapMinutes ? 'adjacent' : 'same_day';
+}
+
+function cartesianProduct<T>(lists: T[][]): T[][] {
+  return lists.reduce<T[][]>(
+    (combinations, list) => combinations.flatMap(combination => list.map(item => [...combination, item])),
+    [[]]
+  );
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,299 @@
+/**
+ * Travel time estimates between activity locations.
+ *
+ * WHY: Travel time because:
+ * - Two back-to-back activities are only possible if the family can get between them
+ * - Straight-line distance alone doesn't say whether a 15-minute gap is enough
+ * - A 5-mile highway hop and a 5-mile crosstown drive are not the same trip, and a
+ *   family without a car experiences distance very differently
+ *
+ * DESIGN DECISIONS:
+ * - Schedule gaps between activities go through the same estimator and travel mode
+ *   as location scoring, so a calendar and a ranking never disagree about a trip
+ * - Falls back to address and ZIP code comparison when coordinates are missing, and
+ *   assumes a typical crosstown trip when nothing can be compared
+ * - Location scoring goes through a TravelTimeEstimator: one origin to many
+ *   destinations per call, so a routing server answers a whole candidate list at once
+ * - The default estimator is a per-mode heuristic (faster beyond city streets when
+ *   driving, fixed overhead for parking, waiting and transfers) with a rush-hour
+ *   multiplier for weekday slots that start in commute hours
+ * - The OSRM adapter talks to a self-hosted server's table service; modes it has no
+ *   profile for (transit) and failed requests fall back to the heuristic
+ */
+
+import type { TravelMode } from '@/types/ai';
+import type { ActivityMetadata } from './recommendation-engine';
+import { parseTimeToMinutes } from './schedule-parser';
+
+export type ActivityLocation = ActivityMetadata['location'];
+
+/**
+ * Estimate travel minutes between two locations.
+ */
+export type TravelTimeFunction = (from: ActivityLocation, to: ActivityLocation) => number;
+
+const SAME_ZIP_MINUTES = 10;
+const UNKNOWN_TRIP_MINUTES = 20;
+
+/**
+ * Heuristic travel minutes between two activity locations (driving by default).
+ */
+export function estimateTravelMinutes(from: ActivityLocation, to: ActivityLocation, mode: TravelMode = 'driving'): number {
+  if (isSameAddress(from, to)) return 0;
+
+  if (from.coordinates && to.coordinates) {
+    return estimateHeuristicTrip(from.coordinates, { coordinates: to.coordinates }, mode).minutes;
+  }
+
+  if (from.zipCode && to.zipCode && from.zipCode.slice(0, 5) === to.zipCode.slice(0, 5)) {
+    return SAME_ZIP_MINUTES;
+  }
+
+  return UNKNOWN_TRIP_MINUTES;
+}
+
+export interface TravelPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface TravelDestination {
+  coordinates: TravelPoint;
+  rushHour?: boolean; // Departure falls in weekday commute hours
+}
+
+export interface TravelTimeEstimate {
+  minutes: number;
+  distanceMiles: number; // Route distance when routed, straight-line otherwise
+  mode: TravelMode;
+  source: 'heuristic' | 'osrm';
+  rushHour: boolean;
+}
+
+/**
+ * Estimates one-way travel times from one origin to many destinations.
+ */
+export interface TravelTimeEstimator {
+  name: string;
+  estimate(origin: TravelPoint, destinations: TravelDestination[], mode: TravelMode): Promise<TravelTimeEstimate[]>;
+}
+
+interface ModeProfile {
+  mph: number;
+  fastMph?: number; // Speed beyond CITY_STREET_MILES (highways, arterials)
+  overheadMinutes: number; // Parking, waiting, transfers, locking up
+  rushHourMultiplier: number;
+}
+
+const MODE_PROFILES: Record<TravelMode, ModeProfile> = {
+  driving: { mph: 22, fastMph: 40, overheadMinutes: 5, rushHourMultiplier: 1.4 },
+  transit: { mph: 12, overheadMinutes: 10, rushHourMultiplier: 1.2 },
+  cycling: { mph: 10, overheadMinutes: 2, rushHourMultiplier: 1 },
+  walking: { mph: 3, overheadMinutes: 0, rushHourMultiplier: 1 },
+};
+
+const ROUTE_DETOUR_FACTOR = 1.3; // Route distance vs straight line, all modes
+const CITY_STREET_MILES = 3; // Trips start and end on city streets
+const RUSH_HOUR_WINDOWS: Array<[number, number]> = [[7 * 60, 9 * 60 + 30], [15 * 60 + 30, 18 * 60 + 30]];
+const WEEKDAY_PATTERN = /^(mon|tue|wed|thu|fri|weekday)/;
+const OSRM_TABLE_SIZE = 100; // osrm-routed --max-table-size default
+
+/**
+ * Heuristic estimator: straight-line distance with a detour factor at mode-specific speeds.
+ */
+export function createHeuristicTravelTimeEstimator(): TravelTimeEstimator {
+  return {
+    name: 'heuristic',
+    async estimate(origin, destinations, mode) {
+      return destinations.map(destination => estimateHeuristicTrip(origin, destination, mode));
+    },
+  };
+}
+
+/**
+ * Adapter for a self-hosted OSRM-compatible server (osrm-routed's /table service).
+ *
+ * A server is built for one routing profile; `profiles` maps travel modes to the
+ * profile name in the request path. Road times from OSRM are free-flow, so the
+ * rush-hour multiplier still applies.
+ */
+export function createOsrmTravelTimeEstimator(options: {
+  baseUrl: string;
+  profiles?: Partial<Record<TravelMode, string>>;
+  timeoutMs?: number;
+  fallback?: TravelTimeEstimator;
+}): TravelTimeEstimator {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const profiles = options.profiles || { driving: 'driving' };
+  const timeoutMs = options.timeoutMs ?? 1500;
+  const fallback = options.fallback || createHeuristicTravelTimeEstimator();
+
+  return {
+    name: 'osrm',
+    async estimate(origin, destinations, mode) {
+      const profile = profiles[mode];
+      if (!profile || destinations.length === 0) return fallback.estimate(origin, destinations, mode);
+
+      const estimates: TravelTimeEstimate[] = [];
+      for (let start = 0; start < destinations.length; start += OSRM_TABLE_SIZE - 1) {
+        const chunk = destinations.slice(start, start + OSRM_TABLE_SIZE - 1);
+        try {
+          const routed = await fetchOsrmTable(baseUrl, profile, origin, chunk, timeoutMs);
+          const unrouted = await fallback.estimate(origin, chunk.filter((_, index) => routed[index] === null), mode);
+          estimates.push(...chunk.map((destination, index) => {
+            const route = routed[index];
+            if (!route) return unrouted.shift()!;
+            const rushHour = Boolean(destination.rushHour);
+            return {
+              minutes: Math.round((route.seconds / 60) * (rushHour ? MODE_PROFILES[mode].rushHourMultiplier : 1)),
+              distanceMiles: route.meters / 1609.344,
+              mode,
+              source: 'osrm' as const,
+              rushHour,
+            };
+          }));
+        } catch (error) {
+          console.warn('OSRM table request failed, using heuristic travel times:', error);
+          estimates.push(...await fallback.estimate(origin, chunk, mode));
+        }
+      }
+      return estimates;
+    },
+  };
+}
+
+/**
+ * Travel times between activity locations from an estimator, one call per origin,
+ * as a lookup for the schedule optimizer. Pairs the estimator didn't answer (no
+ * coordinates, failed request) use the heuristic for the same mode.
+ */
+export async function createTravelTimeFunction(
+  estimator: TravelTimeEstimator,
+  locations: ActivityLocation[],
+  mode: TravelMode
+): Promise<TravelTimeFunction> {
+  const points = new Map<string, TravelPoint>();
+  for (const location of locations) {
+    if (location.coordinates) points.set(pointKey(location.coordinates), location.coordinates);
+  }
+
+  const minutes = new Map<string, number>();
+  for (const [originKey, origin] of points) {
+    const destinations = [...points].filter(([key]) => key !== originKey);
+    if (destinations.length === 0) continue;
+    try {
+      const estimates = await estimator.estimate(origin, destinations.map(([, coordinates]) => ({ coordinates })), mode);
+      destinations.forEach(([key], index) => minutes.set(`${originKey}>${key}`, estimates[index].minutes));
+    } catch (error) {
+      console.warn(`Travel time estimation (${estimator.name}) failed, using heuristic schedule gaps:`, error);
+    }
+  }
+
+  return (from, to) => {
+    const routed = from.coordinates && to.coordinates && !isSameAddress(from, to)
+      ? minutes.get(`${pointKey(from.coordinates)}>${pointKey(to.coordinates)}`)
+      : undefined;
+    return routed ?? estimateTravelMinutes(from, to, mode);
+  };
+}
+
+let defaultEstimator: TravelTimeEstimator | null = null;
+
+/**
+ * Shared estimator: OSRM for driving when OSRM_URL is set, otherwise the heuristic.
+ */
+export function getTravelTimeEstimator(): TravelTimeEstimator {
+  if (!defaultEstimator) {
+    const osrmUrl = process.env.OSRM_URL;
+    defaultEstimator = osrmUrl
+      ? createOsrmTravelTimeEstimator({ baseUrl: osrmUrl })
+      : createHeuristicTravelTimeEstimator();
+  }
+  return defaultEstimator;
+}
+
+/**
+ * Whether an activity's slot starts in weekday commute hours.
+ */
+export function isRushHourSlot(schedule: Pick<ActivityMetadata['schedule'], 'days' | 'times'>): boolean {
+  const weekday = schedule.days.some(day => WEEKDAY_PATTERN.test(day.toLowerCase().trim()));
+  if (!weekday) return false;
+
+  return schedule.times.some(time => {
+    if (/after school|before school/i.test(time)) return true;
+    const minutes = parseTimeToMinutes(time);
+    return minutes !== null && RUSH_HOUR_WINDOWS.some(([start, end]) => minutes >= start && minutes <= end);
+  });
+}
+
+function estimateHeuristicTrip(origin: TravelPoint, destination: TravelDestination, mode: TravelMode): TravelTimeEstimate {
+  const profile = MODE_PROFILES[mode];
+  const distanceMiles = haversineMiles(origin, destination.coordinates);
+  const routeMiles = distanceMiles * ROUTE_DETOUR_FACTOR;
+  const streetMiles = profile.fastMph ? Math.min(routeMiles, CITY_STREET_MILES) : routeMiles;
+  const movingMinutes = (streetMiles / profile.mph) * 60 +
+    (profile.fastMph ? ((routeMiles - streetMiles) / profile.fastMph) * 60 : 0);
+
+  const rushHour = Boolean(destination.rushHour);
+  const minutes = distanceMiles < 0.1
+    ? 0
+    : (movingMinutes + profile.overheadMinutes) * (rushHour ? profile.rushHourMultiplier : 1);
+
+  return { minutes: Math.round(minutes), distanceMiles, mode, source: 'heuristic', rushHour };
+}
+
+/**
+ * One row of an OSRM duration/distance table; null where the server found no route.
+ */
+async function fetchOsrmTable(
+  baseUrl: string,
+  profile: string,
+  origin: TravelPoint,
+  destinations: TravelDestination[],
+  timeoutMs: number
+): Promise<Array<{ seconds: number; meters: number } | null>> {
+  const coordinates = [origin, ...destinations.map(destination => destination.coordinates)]
+    .map(point => `${point.lng.toFixed(6)},${point.lat.toFixed(6)}`)
+    .join(';');
+  const url = `${baseUrl}/table/v1/${encodeURIComponent(profile)}/${coordinates}?sources=0&annotations=duration,distance`;
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!response.ok) throw new Error(`OSRM responded ${response.status}`);
+
+  const body = await response.json() as {
+    code: string;
+    message?: string;
+    durations?: Array<Array<number | null>>;
+    distances?: Array<Array<number | null>>;
+  };
+  if (body.code !== 'Ok' || !body.durations) throw new Error(`OSRM error: ${body.message || body.code}`);
+
+  return destinations.map((destination, index) => {
+    const seconds = body.durations![0][index + 1];
+    const meters = body.distances?.[0][index + 1] ?? haversineMiles(origin, destination.coordinates) * 1609.344;
+    return seconds === null || seconds === undefined ? null : { seconds, meters };
+  });
+}
+
+/**
+ * Great-circle distance in miles.
+ */
+export function haversineMiles(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const R = 3959; // Earth's radius in miles
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+
+  const h = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function pointKey(point: TravelPoint): string {
+  return `${point.lat.toFixed(5)},${point.lng.toFixed(5)}`;
+}
+
+function isSameAddress(a: ActivityLocation, b: ActivityLocation): boolean {
+  const normalize = (address?: string) => address?.toLowerCase().replace(/\s+/g, ' ').trim();
+  return Boolean(a.address) && normalize(a.address) === normalize(b.address);
+}
@@ -0,0 +1,85 @@
+import { db } from '../client';
+import { marketTable, neighborhoodTable } from '../schema/markets';
+import { eq, sql } from 'drizzle-orm';
+
+/**
+ * Fetches active markets with their center coordinates.
+ *
+ * WHY: Location scoring assigns families and providers to markets, so
+ * "same metro area" works in every market instead of one hard-coded city.
+ *
+ * DESIGN DECISION: Only the columns geocoding needs; latitude/longitude stay
+ * numeric strings as Drizzle returns them and are parsed by the caller.
+ *
+ * PERFORMANCE: A handful of rows, loaded once and cached by the geocoder.
+ *
+ * @returns Promise resolving to active markets
+ */
+export async function getActiveMarkets(): Promise<Array<{
+  id: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  latitude: string | null;
+  longitude: string | null;
+}>> {
+  try {
+    const marketsPromise = db
+      .select({
+        id: marketTable.id,
+        name: marketTable.name,
+        city: marketTable.city,
+        state: marketTable.state,
+        latitude: marketTable.latitude,
+        longitude: marketTable.longitude,
+      })
+      .from(marketTable)
+      .where(eq(marketTable.active, true));
+
+    return await Promise.race([
+      marketsPromise,
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Database query timeout: market lookup exceeded 3 seconds')), 3000)
+      )
+    ]);
+  } catch (error) {
+    console.error('Error fetching active markets:', error);
+    throw new Error('Failed to fetch markets');
+  }
+}
+
+/**
+ * Fetches neighborhood names with their market's city.
+ *
+ * WHY: Parents name their neighborhood ("we're in Mueller"), and the rule-based
+ * family parser matches descriptions against the names the platform knows.
+ *
+ * DESIGN DECISION: market.id is a varchar while neighborhood.market_id is an integer,
+ * so the join compares them as text. Neighborhoods of inactive markets are kept;
+ * a family can live there even if we don't serve it yet.
+ *
+ * PERFORMANCE: A few hundred rows, loaded once and cached by the parser.
+ *
+ * @returns Promise resolving to neighborhood names and cities
+ */
+export async function getNeighborhoodNames(): Promise<Array<{ name: string; city: string | null }>> {
+  try {
+    const neighborhoodsPromise = db
+      .select({
+        name: neighborhoodTable.name,
+        city: marketTable.city,
+      })
+      .from(neighborhoodTable)
+      .leftJoin(marketTable, sql`${marketTable.id} = ${neighborhoodTable.marketId}::text`);
+
+    return await Promise.race([
+      neighborhoodsPromise,
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Database query timeout: neighborhood lookup exceeded 3 seconds')), 3000)
+      )
+    ]);
+  } catch (error) {
+    console.error('Error fetching neighborhoods:', error);
+    throw new Error('Failed to fetch neighborhoods');
+  }
+}
@@ -5,7 +5,7 @@ import {
   type Provider,
   type Event,
 } from '../schema/providers';
-import { eq, and, or, ilike, sql, inArray } from 'drizzle-orm';
+import { eq, and, or, ilike, sql, inArray, desc } from 'drizzle-orm';
 
 /**
  * Fetches all active providers from the database.
@@ -427,3 +427,118 @@ export async function getRecommendationProviders(
     throw new Error('Failed to fetch provider data for recommendations');
   }
 }
+
+/**
+ * Provider/event match from full-text keyword search.
+ */
+export interface LexicalSearchResult {
+  providerId: string;
+  providerName: string;
+  eventId: string | null;
+  eventTitle: string | null;
+  category: string | null;
+  minAge: number | null;
+  maxAge: number | null;
+  price: string | null;
+  city: string | null;
+  zipCode: string | null;
+  rank: number; // PostgreSQL ts_rank, higher is better
+}
+
+/**
+ * Full-text keyword search over provider and event text.
+ *
+ * WHY: Complements vector search for exact terms because:
+ * - Embeddings blur rare or specific terms ("Suzuki violin", "BJJ")
+ * - Provider names carry little semantic signal but are exactly what parents type
+ *
+ * DESIGN DECISIONS:
+ * - websearch_to_tsquery: Safe with arbitrary user input, supports quoted phrases and OR
+ * - Terms are OR-ed so any matching interest or keyword qualifies a provider
+ * - Weighted document: provider name and event title (A) > category (B) > descriptions (C)
+ * - One row per provider/event so the best-matching event can be scored
+ *
+ * PERFORMANCE: Documents are built per query. Add a GIN index on the
+ * weighted tsvector if the provider catalog grows beyond a few thousand rows.
+ *
+ * @param terms Keywords or phrases to search for
+ * @param limit Maximum number of rows to return
+ * @returns Matches ordered by text rank
+ */
+export async function searchProvidersFullText(
+  terms: string[],
+  limit: number = 50
+): Promise<LexicalSearchResult[]> {
+  const searchQuery = buildWebSearchQuery(terms);
+  if (!searchQuery) {
+    return [];
+  }
+
+  try {
+    const tsQuery = sql`websearch_to_tsquery('english', ${searchQuery})`;
+    const document = sql`(
+      setweight(to_tsvector('english', coalesce(${providerTable.name}, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(${eventTable.title}, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(${eventTable.category}, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(${providerTable.description}, '') || ' ' || coalesce(${eventTable.description}, '')), 'C')
+    )`;
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery})`;
+
+    const searchPromise = db
+      .select({
+        providerId: providerTable.id,
+        providerName: providerTable.name,
+        eventId: eventTable.id,
+        eventTitle: eventTable.title,
+        category: eventTable.category,
+        minAge: eventTable.minAge,
+        maxAge: eventTable.maxAge,
+        price: eventTable.price,
+        city: providerTable.city,
+        zipCode: providerTable.zipCode,
+        rank,
+      })
+      .from(providerTable)
+      .leftJoin(
+        eventTable,
+        and(eq(eventTable.providerId, providerTable.id), eq(eventTable.active, true))
+      )
+      .where(
+        and(
+          eq(providerTable.active, true),
+          sql`${document} @@ ${tsQuery}`
+        )
+      )
+      .orderBy(desc(rank))
+      .limit(Math.floor(Math.max(1, limit)));
+
+    const rows = await Promise.race([
+      searchPromise,
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Database query timeout: full-text search exceeded 3 seconds')), 3000)
+      )
+    ]);
+
+    console.log(`Full-text search for "${searchQuery}" found ${rows.length} matches`);
+
+    return rows.map(row => ({ ...row, rank: Number(row.rank) }));
+  } catch (error) {
+    console.error('Error running full-text provider search:', error);
+    throw new Error('Failed to run full-text provider search');
+  }
+}
+
+/**
+ * Build a websearch_to_tsquery string: multi-word terms become quoted phrases, joined with OR.
+ */
+function buildWebSearchQuery(terms: string[]): string {
+  const cleaned = [...new Set(
+    terms
+      .map(term => term.replace(/["()\-]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase())
+      .filter(term => term.length > 1 && term !== 'or')
+  )];
+
+  return cleaned
+    .map(term => (term.includes(' ') ? `"${term}"` : term))
+    .join(' OR ');
+}
@@ -7,6 +7,34 @@
  * - Can be reused by other embedding generators if needed
  */
 
+import { lookupPostalCentroid } from '../geo/geocoder';
+import { parsePrice, formatPrice } from '../ai/price-parser';
+import { parseAgeRange, formatAgeRange } from '../ai/age-range-parser';
+import { parseAccommodations } from '../ai/accommodations';
+import type { QdrantGeoPoint } from './qdrant-client';
+
+/**
+ * Build the geo point payload for a provider or event.
+ *
+ * Stored coordinates win; otherwise the postal-code centroid, so providers without
+ * geocoded addresses still take part in radius searches. Returns undefined when
+ * neither is usable, leaving the point without a geo field.
+ */
+export function createGeoPayload(
+  latitude: string | number | null | undefined,
+  longitude: string | number | null | undefined,
+  postalCode?: string | null
+): QdrantGeoPoint | undefined {
+  const lat = latitude !== null && latitude !== undefined ? parseFloat(String(latitude)) : NaN;
+  const lon = longitude !== null && longitude !== undefined ? parseFloat(String(longitude)) : NaN;
+  if (Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180 && (lat !== 0 || lon !== 0)) {
+    return { lat, lon };
+  }
+
+  const centroid = lookupPostalCentroid(postalCode);
+  return centroid ? { lat: centroid.lat, lon: centroid.lng } : undefined;
+}
+
 /**
  * Extract neighborhood information from provider data.
  */
@@ -19,25 +47,12 @@ export function extractNeighborhoodInfo(provider: any): string {
 
 /**
  * Format price information consistently.
+ *
+ * Unreadable prices ("Call for rates") are kept as written.
  */
 export function formatPriceInfo(price: string | number): string {
-  if (!price) return 'Contact for pricing';
-  
-  const priceStr = price.toString().toLowerCase();
-  if (priceStr.includes('free') || priceStr === '0') {
-    return 'Free';
-  }
-  if (priceStr.includes('month')) {
-    return `${price}/month`;
-  }
-  if (priceStr.includes('week')) {
-    return `${price}/week`;
-  }
-  if (priceStr.includes('session') || priceStr.includes('class')) {
-    return `${price}/session`;
-  }
-  
-  return price.toString();
+  if (!price && price !== 0) return 'Contact for pricing';
+  return formatPrice(parsePrice(price), price.toString());
 }
 
 /**
@@ -59,29 +74,43 @@ export function formatCategoryInfo(category: string): string {
 }
 
 /**
- * Format age information consistently.
+ * Format age information consistently, e.g. "Ages 5-11, K-5".
+ *
+ * @param field Whether the text is an age field ("6-10") or a grade field ("6-12")
  */
-export function formatAgeInfo(grades: string): string {
-  if (!grades) return 'All ages';
-  
-  const gradesStr = grades.toLowerCase();
-  if (gradesStr.includes('k') || gradesStr.includes('kindergarten')) {
-    return `Kindergarten and up, ${grades}`;
-  }
-  if (gradesStr.includes('pre') || gradesStr.includes('3') || gradesStr.includes('4') || gradesStr.includes('5')) {
-    return `Ages 3-5 years, ${grades}`;
-  }
-  if (gradesStr.includes('6') || gradesStr.includes('7') || gradesStr.includes('8')) {
-    return `Middle school ages, ${grades}`;
-  }
-  if (gradesStr.includes('9') || gradesStr.includes('high') || gradesStr.includes('teen')) {
-    return `High school ages, ${grades}`;
-  }
-  if (gradesStr.includes('adult')) {
-    return `Adult programs, ${grades}`;
-  }
-  
-  return grades;
+export function formatAgeInfo(text: string, field: 'ages' | 'grades' = 'grades'): string {
+  if (!text) return 'All ages';
+
+  const parsed = parseAgeRange(text, { field });
+  return parsed ? `${formatAgeRange(parsed.range)}, ${text}` : text;
+}
+
+/**
+ * Age payload fields for a camp or session, parsed from its age or grade text.
+ *
+ * The lightweight scorer reads these instead of re-parsing text whose field it no
+ * longer knows; empty when the text states no ages.
+ */
+export function createAgePayload(
+  text: string | null | undefined,
+  field: 'ages' | 'grades'
+): { age_min?: number; age_max?: number; age_confidence?: number } {
+  const parsed = text ? parseAgeRange(String(text), { field }) : null;
+  if (!parsed) return {};
+  return { age_min: parsed.range.min, age_max: parsed.range.max, age_confidence: parsed.confidence };
+}
+
+/**
+ * Accommodation payload fields for a provider, camp or session, parsed from its text.
+ *
+ * Always present (possibly empty) so `specialNeeds` filters can match on them and
+ * the lightweight scorer knows the point was indexed with accommodations.
+ */
+export function createAccommodationsPayload(
+  ...texts: Array<string | null | undefined>
+): { accommodations: string[]; languages: string[]; language_program?: string } {
+  const parsed = parseAccommodations(...texts);
+  return { accommodations: parsed.features, languages: parsed.languages, language_program: parsed.languageProgram };
 }
 
 /**
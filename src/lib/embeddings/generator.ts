@@ -34,17 +34,25 @@ import {
   QdrantClient,
   createQdrantClient,
   DEFAULT_EMBEDDING_CONFIG,
+  GEO_PAYLOAD_KEY,
 } from './qdrant-client';
 import { getOpenAIEmbeddingsClient, createEmbeddingCacheKey } from '../ai/openai-embeddings-client';
 import { getAIClient } from '../ai/openai-client';
 import { getLocalEmbeddingsClient } from './local-embeddings-client';
+import { invalidateProviderRecommendations } from '../ai/recommendation-cache';
+import { parsePrice, toActivityPricing } from '../ai/price-parser';
 import {
   extractNeighborhoodInfo,
   formatPriceInfo,
   formatCategoryInfo,
   formatAgeInfo,
-  createProviderOfferingsText
+  createProviderOfferingsText,
+  createGeoPayload,
+  createAgePayload,
+  createAccommodationsPayload
 } from './generator-helpers';
+import { formatAccommodations, parseAccommodations } from '../ai/accommodations';
+import { formatLanguages, parseInstructionLanguages } from '../ai/instruction-languages';
 
 /**
  * Main class for generating and managing embeddings.
@@ -114,6 +122,20 @@ export class EmbeddingGenerator {
       console.log(`✓ Using existing collection: ${this.config.qdrant_collection} (${info.result.points_count} points)`);
     }
 
+    // Geo index for radius-filtered recommendation search
+    try {
+      await this.qdrantClient.createPayloadIndex(this.config.qdrant_collection, GEO_PAYLOAD_KEY, 'geo');
+    } catch (error) {
+      console.warn(`Failed to create geo payload index, radius filters will scan points:`, error);
+    }
+
+    // Keyword index for the instruction languages filter
+    try {
+      await this.qdrantClient.createPayloadIndex(this.config.qdrant_collection, 'languages', 'keyword');
+    } catch (error) {
+      console.warn(`Failed to create languages payload index, language filters will scan points:`, error);
+    }
+
     // Check for embedding capabilities (prefer local, then OpenAI direct, then OpenRouter)
     try {
       const localClient = getLocalEmbeddingsClient();
@@ -427,10 +449,30 @@ export class EmbeddingGenerator {
         }
       }
     }
+
+    // Cached recommendations may now hold stale provider details or rankings
+    if (successCount > 0) {
+      await this.invalidateRecommendationCache(items, type);
+    }
     
     return successCount;
   }
 
+  /**
+   * Invalidate cached recommendation results for the providers touched by a batch.
+   */
+  private async invalidateRecommendationCache(items: any[], type: 'provider' | 'camp' | 'session'): Promise<void> {
+    const providerIds = new Set<string>();
+    for (const item of items) {
+      const providerId = type === 'provider' ? item.id : item.providerId;
+      if (providerId) providerIds.add(String(providerId));
+    }
+
+    for (const providerId of providerIds) {
+      await invalidateProviderRecommendations(providerId);
+    }
+  }
+
   /**
    * Generate embeddings for a batch of texts using OpenAI API.
    */
@@ -604,6 +646,16 @@ export class EmbeddingGenerator {
       parts.push(`FEATURES: ${features.join(', ')}`);
     }
 
+    const accommodations = formatAccommodations(parseAccommodations(provider.description, provider.blurb));
+    if (accommodations) {
+      parts.push(`ACCOMMODATIONS: ${accommodations}`);
+    }
+
+    const instruction = parseInstructionLanguages(provider.description, provider.blurb);
+    if (instruction.languages.length > 0) {
+      parts.push(`LANGUAGES: ${formatLanguages(instruction.languages, instruction.program)}`);
+    }
+
     // Enhanced session/camp information with comprehensive offerings
     if (provider.camps && provider.camps.length > 0) {
       const offerings = createProviderOfferingsText(provider.camps);
@@ -662,7 +714,17 @@ export class EmbeddingGenerator {
 
     // Structured age information
     if (camp.grades) {
-      parts.push(`AGES: ${formatAgeInfo(camp.grades)}`);
+      parts.push(`AGES: ${formatAgeInfo(camp.grades, 'ages')}`);
+    }
+
+    const accommodations = formatAccommodations(parseAccommodations(camp.title, camp.description));
+    if (accommodations) {
+      parts.push(`ACCOMMODATIONS: ${accommodations}`);
+    }
+
+    const instruction = parseInstructionLanguages(camp.title, camp.description);
+    if (instruction.languages.length > 0) {
+      parts.push(`LANGUAGES: ${formatLanguages(instruction.languages, instruction.program)}`);
     }
 
     // Structured price information
@@ -745,6 +807,16 @@ export class EmbeddingGenerator {
       parts.push(`AGES: ${formatAgeInfo(session.grades)}`);
     }
 
+    const accommodations = formatAccommodations(parseAccommodations(session.title, session.description));
+    if (accommodations) {
+      parts.push(`ACCOMMODATIONS: ${accommodations}`);
+    }
+
+    const instruction = parseInstructionLanguages(session.title, session.description);
+    if (instruction.languages.length > 0) {
+      parts.push(`LANGUAGES: ${formatLanguages(instruction.languages, instruction.program)}`);
+    }
+
     // Structured pricing information
     if (session.price) {
       parts.push(`PRICE: ${formatPriceInfo(session.price)}`);
@@ -785,6 +857,7 @@ export class EmbeddingGenerator {
         latitude: provider.latitude,
         longitude: provider.longitude,
       },
+      [GEO_PAYLOAD_KEY]: createGeoPayload(provider.latitude, provider.longitude, provider.postalCode || provider.zip_code),
       contact: {
         website: provider.website,
         phone: provider.phone,
@@ -795,7 +868,9 @@ export class EmbeddingGenerator {
         instant_booking: provider.instantBooking,
         not_a_fit: provider.notAFit,
       },
-      pricing: provider.price,
+      ...createAccommodationsPayload(provider.description, provider.blurb),
+      price: provider.price,
+      pricing: provider.price ? toActivityPricing(parsePrice(provider.price)) : undefined,
       created_at: provider.createdAt?.toISOString() || provider.created_at,
       updated_at: provider.updatedAt?.toISOString() || provider.updated_at,
     };
@@ -812,8 +887,13 @@ export class EmbeddingGenerator {
       date: camp.date instanceof Date ? camp.date.toISOString() : camp.date,
       date_range: camp.dateRange,
       location: camp.location,
+      [GEO_PAYLOAD_KEY]: createGeoPayload(camp.latitude, camp.longitude, camp.zipCode),
       price: camp.price,
+      pricing: camp.price ? toActivityPricing(parsePrice(camp.price), { unit: 'program' }) : undefined,
       grades: camp.grades,
+      ...createAgePayload(camp.grades, 'ages'), // Camp grades hold event ages ("6-10")
+      time: camp.time,
+      ...createAccommodationsPayload(camp.title, camp.description),
       status: camp.status,
       spots_left: camp.spotsLeft,
       spots_total: camp.spotsTotal,
@@ -834,10 +914,14 @@ export class EmbeddingGenerator {
       description: session.description,
       location: session.location,
       provider_location: session.providerLocation,
+      [GEO_PAYLOAD_KEY]: createGeoPayload(session.providerLatitude, session.providerLongitude, session.providerPostalCode),
       grades: session.grades,
+      ...createAgePayload(session.grades, 'grades'),
       time: session.time,
       date_range: session.dateRange,
+      ...createAccommodationsPayload(session.title, session.description),
       price: session.price,
+      pricing: session.price ? toActivityPricing(parsePrice(session.price)) : undefined,
       spots_left: session.spotsLeft,
       spots_total: session.spotsTotal,
       status: session.status,
@@ -973,7 +1057,7 @@ export class EmbeddingGenerator {
         SELECT 
           id, provider_id, title, description, category,
           min_age, max_age, start_date, end_date, price,
-          address, city, state, zip_code, active, created_at
+          address, city, state, zip_code, latitude, longitude, capacity, enrolled, active, created_at
         FROM event 
         WHERE active = true AND title IS NOT NULL
       `);
@@ -990,6 +1074,12 @@ export class EmbeddingGenerator {
           `${row.start_date} to ${row.end_date}` : null,
         price: row.price,
         location: [row.address, row.city, row.state].filter(Boolean).join(', '),
+        zipCode: row.zip_code,
+        latitude: row.latitude,
+        longitude: row.longitude,
+        // Capacity 0 means not recorded, same as the recommendation engine
+        spotsLeft: row.capacity ? String(Math.max(0, row.capacity - (row.enrolled || 0))) : undefined,
+        spotsTotal: row.capacity ? String(row.capacity) : undefined,
         status: row.active ? 'active' : 'inactive',
         createdAt: row.created_at
       }));
@@ -1044,7 +1134,7 @@ export class EmbeddingGenerator {
           pc.metadata, pc.status, pc.price, pc.spots_left, pc.spots_total,
           pc.created_at,
           p.company_name as provider_name,
-          p.municipality, p.administrative_area, p.postal_code
+          p.municipality, p.administrative_area, p.postal_code, p.latitude, p.longitude
         FROM provider_camps pc
         LEFT JOIN provider p ON pc.provider_id = p.id
         WHERE pc.title IS NOT NULL
@@ -1069,6 +1159,10 @@ export class EmbeddingGenerator {
         providerName: row.provider_name,
         providerLocation: [row.municipality, row.administrative_area, row.postal_code]
           .filter(Boolean).join(', '),
+        // Sessions have no coordinates of their own; they happen at the provider
+        providerLatitude: row.latitude,
+        providerLongitude: row.longitude,
+        providerPostalCode: row.postal_code,
       }));
     }
 
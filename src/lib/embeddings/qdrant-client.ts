@@ -29,6 +29,17 @@ export interface QdrantCollection {
   distance: 'Cosine' | 'Euclid' | 'Dot';
 }
 
+/**
+ * Geo point as Qdrant stores it in a payload (note `lon`, not `lng`).
+ */
+export interface QdrantGeoPoint {
+  lat: number;
+  lon: number;
+}
+
+// Payload field holding each point's location, indexed for geo_radius filtering
+export const GEO_PAYLOAD_KEY = 'geo';
+
 export interface QdrantSearchResult {
   id: number;
   score: number;
@@ -117,6 +128,26 @@ export class QdrantClient {
     console.log(`Created Qdrant collection: ${collection.name}`);
   }
 
+  /**
+   * Create a payload index so filters on a field don't scan every point.
+   * Qdrant treats re-creating an existing index as a no-op.
+   * 
+   * @param collectionName Name of the collection
+   * @param fieldName Payload field to index
+   * @param fieldSchema Index type for the field
+   */
+  async createPayloadIndex(
+    collectionName: string,
+    fieldName: string,
+    fieldSchema: 'keyword' | 'integer' | 'float' | 'geo'
+  ): Promise<void> {
+    await this.makeRequest('PUT', `/collections/${collectionName}/index`, {
+      field_name: fieldName,
+      field_schema: fieldSchema,
+    });
+    console.log(`Ensured ${fieldSchema} payload index on ${collectionName}.${fieldName}`);
+  }
+
   /**
    * Check if a collection exists.
    * 
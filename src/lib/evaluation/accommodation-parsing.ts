@@ -0,0 +1,65 @@
+/**
+ * Offline accuracy check for reading children's needs and what listings offer.
+ *
+ * WHY: Accommodation fixtures because:
+ * - Needs, allergies and listings are free text, and a loose pattern reads one word
+ *   inside another ("egg" in "eggplant", "nut" in "nutmeg")
+ * - Each need demotes listings that don't mention it, so a misread need quietly
+ *   reorders every result for that family
+ * - `specialNeeds` filters keep only listings that offer the accommodation, so an offer
+ *   read from "not wheelchair accessible" sends a wheelchair user somewhere they can't go
+ *
+ * DESIGN DECISIONS:
+ * - Compares the accommodations needed as a set; the reasons are the parent's own text
+ * - Fixtures include text that must not ask for anything, since a false need costs
+ *   matches while a missed one only drops a concern
+ */
+
+import { childAccommodationNeeds, parseAccommodations } from '@/lib/ai/accommodations';
+import accommodationStrings from './fixtures/accommodation-strings.json';
+import { evaluateFixtures, formatFixtureEvaluation, loadFixtureSet } from './harness';
+import type { AccommodationFixtureSet, AccommodationParsingEvaluation } from './types';
+
+/**
+ * Load and validate an accommodation fixture set (defaults to the bundled fixtures).
+ */
+export function loadAccommodationFixtures(raw: unknown = accommodationStrings): AccommodationFixtureSet {
+  return loadFixtureSet<AccommodationFixtureSet>(raw, 'accommodation');
+}
+
+/**
+ * Read every fixture as one listing's offers or one child's needs and compare the
+ * accommodations.
+ */
+export function evaluateAccommodationParsing(
+  fixtures: AccommodationFixtureSet = loadAccommodationFixtures()
+): AccommodationParsingEvaluation {
+  return evaluateFixtures(
+    fixtures.cases,
+    fixture => fixture.listing !== undefined
+      ? parseAccommodations(fixture.listing).features
+      : childAccommodationNeeds([{
+        name: 'Child',
+        age: 8,
+        interests: [],
+        specialNeeds: fixture.specialNeeds,
+        allergies: fixture.allergies ?? [],
+      }]).map(need => need.accommodation),
+    (fixture, accommodations) => ({
+      input: describeFixture(fixture),
+      expected: [...fixture.expected].sort(),
+      actual: [...accommodations].sort(),
+    })
+  );
+}
+
+/**
+ * Format an accommodation parsing evaluation as plain text, failures last.
+ */
+export function formatAccommodationParsingEvaluation(evaluation: AccommodationParsingEvaluation): string {
+  return formatFixtureEvaluation('Accommodation parsing', evaluation);
+}
+
+function describeFixture(fixture: AccommodationFixtureSet['cases'][number]): string {
+  return [fixture.listing, fixture.specialNeeds, ...(fixture.allergies ?? [])].filter(Boolean).join('; ');
+}
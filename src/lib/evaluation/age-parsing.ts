@@ -0,0 +1,47 @@
+/**
+ * Offline accuracy check for the age and grade range parser.
+ *
+ * WHY: Age fixtures because:
+ * - Ages are written as ages, months, grades and open ranges, and a pattern added for
+ *   one phrasing can start reading times or prices as ages
+ * - Age fit is a large share of every score, so a misread range hides good matches
+ *
+ * DESIGN DECISIONS:
+ * - Fixtures include text that must not parse, since false ranges are the costly error
+ * - Reports per-field accuracy so a grade offset change shows up apart from basis changes
+ */
+
+import { parseAgeRange } from '@/lib/ai/age-range-parser';
+import ageStrings from './fixtures/age-strings.json';
+import { evaluateFixtures, formatFixtureEvaluation, loadFixtureSet } from './harness';
+import { AGE_FIELDS, type AgeFixtureSet, type AgeParsingEvaluation } from './types';
+
+/**
+ * Load and validate an age fixture set (defaults to the bundled fixtures).
+ */
+export function loadAgeFixtures(raw: unknown = ageStrings): AgeFixtureSet {
+  return loadFixtureSet<AgeFixtureSet>(raw, 'age');
+}
+
+/**
+ * Parse every fixture and compare it field by field.
+ */
+export function evaluateAgeParsing(fixtures: AgeFixtureSet = loadAgeFixtures()): AgeParsingEvaluation {
+  return evaluateFixtures(
+    fixtures.cases,
+    fixture => parseAgeRange(fixture.input, { field: fixture.field }),
+    (fixture, parsed) => ({
+      input: fixture.input,
+      expected: { ...fixture.expected },
+      actual: parsed ? { min: parsed.range.min, max: parsed.range.max, basis: parsed.basis } : {},
+    }),
+    AGE_FIELDS
+  );
+}
+
+/**
+ * Format an age parsing evaluation as plain text, failures last.
+ */
+export function formatAgeParsingEvaluation(evaluation: AgeParsingEvaluation): string {
+  return formatFixtureEvaluation('Age parsing', evaluation);
+}
@@ -0,0 +1,95 @@
+/**
+ * Regression check that default lightweight ranking keeps its recorded order.
+ *
+ * WHY: Default ordering fixtures because:
+ * - /api/v1/ai/recommendations ranks with the lightweight scorer and the default profile,
+ *   so a weight change there reorders every family's results
+ * - The golden-case metrics only cover the full path and can stay flat while the order
+ *   parents actually see changes
+ *
+ * DESIGN DECISIONS:
+ * - Fixtures were recorded with the original lightweight formula (vector .4, practical .6:
+ *   age .3, location .25, budget .2, interests .15, schedule .1, no quality term)
+ * - Compares provider/event order and match scores to 4 decimals; re-record a case only
+ *   when a request deliberately changes default ranking
+ */
+
+import type { RecommendationEngine } from '@/lib/ai/recommendation-engine';
+import defaultOrdering from './fixtures/default-ordering.json';
+import { loadFixtureSet } from './harness';
+import type { GoldenCase, OrderingEvaluation, OrderingFixtureSet } from './types';
+
+/**
+ * Load and validate an ordering fixture set (defaults to the bundled fixtures).
+ */
+export function loadOrderingFixtures(raw: unknown = defaultOrdering): OrderingFixtureSet {
+  return loadFixtureSet<OrderingFixtureSet>(raw, 'ordering');
+}
+
+/**
+ * Rank every golden case on the lightweight path with default options and compare it
+ * to the recorded order.
+ */
+export async function evaluateDefaultOrdering(
+  engine: RecommendationEngine,
+  cases: GoldenCase[],
+  fixtures: OrderingFixtureSet = loadOrderingFixtures()
+): Promise<OrderingEvaluation> {
+  const failures: OrderingEvaluation['failures'] = [];
+  const goldenCases = new Map(cases.map(goldenCase => [goldenCase.id, goldenCase]));
+  let passed = 0;
+
+  for (const fixture of fixtures.cases) {
+    const goldenCase = goldenCases.get(fixture.caseId);
+    if (!goldenCase) {
+      failures.push({ caseId: fixture.caseId, position: -1, expected: 'golden case', actual: 'missing' });
+      continue;
+    }
+
+    const result = await engine.generateLightweightRecommendations(goldenCase.familyProfile, {
+      includeScore: false,
+      cacheResults: false,
+      recommendationType: goldenCase.recommendationType,
+    });
+    const actual = result.recommendations.map(recommendation => ({
+      providerId: recommendation.providerId,
+      ...(recommendation.eventId ? { eventId: recommendation.eventId } : {}),
+      matchScore: Math.round(recommendation.matchScore * 10000) / 10000,
+    }));
+
+    const length = Math.max(actual.length, fixture.ranked.length);
+    const mismatch = Array.from({ length }, (_, position) => position)
+      .find(position => JSON.stringify(actual[position]) !== JSON.stringify(fixture.ranked[position]));
+    if (mismatch === undefined) {
+      passed++;
+    } else {
+      failures.push({ caseId: fixture.caseId, position: mismatch, expected: fixture.ranked[mismatch], actual: actual[mismatch] });
+    }
+  }
+
+  const total = fixtures.cases.length;
+  return {
+    createdAt: new Date().toISOString(),
+    total,
+    passed,
+    accuracy: total > 0 ? passed / total : 0,
+    failures,
+  };
+}
+
+/**
+ * Format an ordering evaluation as plain text, failures last.
+ */
+export function formatOrderingEvaluation(evaluation: OrderingEvaluation): string {
+  const lines = [
+    `Default ordering: ${evaluation.passed}/${evaluation.total} cases unchanged (${(evaluation.accuracy * 100).toFixed(1)}%)`,
+  ];
+
+  if (evaluation.failures.length > 0) {
+    lines.push(`Changed (${evaluation.failures.length}):`, ...evaluation.failures.map(failure =>
+      `  ${failure.caseId} #${failure.position + 1}: expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`
+    ));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,91 @@
+/**
+ * Offline accuracy check for the rule-based family description parser.
+ *
+ * WHY: Family description fixtures because:
+ * - The parser answers demo mode and model outages on its own and drafts the profile the
+ *   model refines, so a misread here reaches every parse-family response
+ * - Descriptions mix names, ages, interests, places, prices and times in one sentence, and
+ *   a pattern added for one field can start reading another field's text
+ *
+ * DESIGN DECISIONS:
+ * - Fixtures carry their own neighborhood list so results don't depend on the database
+ * - Fields a fixture leaves out must not be found; a wrong guess is worse than no answer
+ * - Interests and time slots are compared as sets, since their order carries no meaning
+ */
+
+import { parseFamilyDescription, type ParsedFamilyDescription } from '@/lib/ai/family-parser';
+import familyDescriptions from './fixtures/family-descriptions.json';
+import { evaluateFixtures, formatFixtureEvaluation, loadFixtureSet } from './harness';
+import {
+  FAMILY_FIELDS,
+  type FamilyField,
+  type FamilyFixtureExpectation,
+  type FamilyFixtureSet,
+  type FamilyParsingEvaluation,
+} from './types';
+
+/**
+ * Load and validate a family description fixture set (defaults to the bundled fixtures).
+ */
+export function loadFamilyFixtures(raw: unknown = familyDescriptions): FamilyFixtureSet {
+  const fixtures = loadFixtureSet<FamilyFixtureSet>(raw, 'family');
+  return { ...fixtures, neighborhoods: fixtures.neighborhoods ?? [] };
+}
+
+/**
+ * Parse every fixture and compare it field by field.
+ */
+export function evaluateFamilyParsing(fixtures: FamilyFixtureSet = loadFamilyFixtures()): FamilyParsingEvaluation {
+  return evaluateFixtures(
+    fixtures.cases,
+    fixture => parseFamilyDescription(fixture.input, { neighborhoods: fixtures.neighborhoods }),
+    (fixture, parsed) => ({ input: fixture.input, expected: comparable(fixture.expected), actual: fromParsed(parsed) }),
+    FAMILY_FIELDS
+  );
+}
+
+/**
+ * Format a family parsing evaluation as plain text, failures last.
+ */
+export function formatFamilyParsingEvaluation(evaluation: FamilyParsingEvaluation): string {
+  return formatFixtureEvaluation('Family parsing', evaluation, input => JSON.stringify(input.slice(0, 60)));
+}
+
+type ComparableFields = Record<FamilyField, unknown>;
+type DescriptionFields = Omit<FamilyFixtureExpectation, 'budget'> & {
+  budget?: Partial<NonNullable<FamilyFixtureExpectation['budget']>>;
+};
+
+function fromParsed({ profile }: ParsedFamilyDescription): ComparableFields {
+  const { zipCode, neighborhood, city } = profile.location;
+  const budget = profile.preferences.budget;
+  return comparable({
+    parent: profile.adults[0]?.name,
+    children: profile.children.map(child => ({ name: child.name, age: child.age, interests: child.interests })),
+    location: { zipCode, neighborhood, city },
+    budget: budget && { min: budget.min, max: budget.max, period: budget.period },
+    schedule: profile.preferences.schedule,
+  });
+}
+
+/**
+ * Reduce both sides to the same shape: key order fixed, empty values undefined, sets sorted.
+ */
+function comparable(fields: DescriptionFields): ComparableFields {
+  const children = fields.children ?? [];
+  const location = fields.location && (fields.location.zipCode || fields.location.neighborhood || fields.location.city)
+    ? { zipCode: fields.location.zipCode, neighborhood: fields.location.neighborhood, city: fields.location.city }
+    : undefined;
+
+  return {
+    parent: fields.parent,
+    children: children.length > 0 ? children.map(child => child.name) : undefined,
+    ages: children.length > 0 ? children.map(child => child.age ?? null) : undefined,
+    interests: children.some(child => child.interests?.length)
+      ? children.map(child => [...(child.interests ?? [])].sort())
+      : undefined,
+    location,
+    budget: fields.budget && { min: fields.budget.min, max: fields.budget.max, period: fields.budget.period },
+    schedule: fields.schedule?.length ? [...fields.schedule].sort() : undefined,
+  };
+}
@@ -0,0 +1,457 @@
+/**
+ * Offline ranking evaluation harness for the recommendation engine.
+ *
+ * WHY: Evaluation harness because:
+ * - Scoring changes were shipped on intuition with no way to tell better from worse
+ * - Golden family profiles with labelled providers make ranking quality measurable
+ * - Diffing two runs surfaces regressions before deploy, per component and per case
+ *
+ * DESIGN DECISIONS:
+ * - Runs the real RecommendationEngine full path; only its backing services are swapped
+ * - 'in-memory' backend is deterministic and needs no services; 'local' uses the normal
+ *   clients, so pointing QDRANT_HOST/DATABASE_URL at a local stand-in evaluates real data
+ * - Results are deduplicated to one entry per provider, since labels are per provider
+ * - Component metrics re-rank the engine's candidates by a single factor, showing
+ *   which scorer pulls relevant providers up and which pulls them down
+ * - Result caching is always disabled so runs never read stale rankings
+ * - Parser accuracy checks share one fixture runner; each parser module supplies only
+ *   how to run its parser and what to compare
+ */
+
+import {
+  FamilyProfileSchema,
+  type RankingProfileName,
+  type RankingWeights,
+  type RetrievalMode,
+  type RerankOptions,
+} from '@/types/ai';
+import { RecommendationEngine, type ScoredRecommendation } from '@/lib/ai/recommendation-engine';
+import goldenFamilies from './fixtures/golden-families.json';
+import { createInMemoryDependencies } from './in-memory-backend';
+import {
+  computeRankingMetrics,
+  averageRankingMetrics,
+  flattenRankingMetrics,
+  isHigherBetter,
+} from './metrics';
+import {
+  RANKING_COMPONENTS,
+  type GoldenCase,
+  type GoldenFixtureSet,
+  type RankingComponent,
+  type RankingMetrics,
+  type CaseEvaluation,
+  type EvaluationRun,
+  type EvaluationDiff,
+  type MetricChange,
+  type FixtureComparison,
+  type FixtureEvaluation,
+  type FieldFixtureEvaluation,
+} from './types';
+
+export const DEFAULT_EVALUATION_K = [1, 3, 5, 10];
+
+export type EvaluationBackend = 'in-memory' | 'local';
+
+/**
+ * Load and validate a golden fixture set (defaults to the bundled fixtures).
+ */
+export function loadGoldenFixtures(raw: unknown = goldenFamilies): GoldenFixtureSet {
+  const fixtures = raw as GoldenFixtureSet;
+
+  if (!Array.isArray(fixtures?.catalog) || !Array.isArray(fixtures?.cases)) {
+    throw new Error('Invalid golden fixtures: expected catalog and cases arrays');
+  }
+
+  const catalogIds = new Set(fixtures.catalog.map(provider => provider.id));
+
+  return {
+    ...fixtures,
+    cases: fixtures.cases.map(goldenCase => {
+      const labelled = [...Object.keys(goldenCase.relevant), ...goldenCase.irrelevant];
+      const unknown = labelled.filter(id => !catalogIds.has(id));
+      if (unknown.length > 0) {
+        console.warn(`Golden case ${goldenCase.id} labels providers missing from the catalog: ${unknown.join(', ')}`);
+      }
+
+      return {
+        ...goldenCase,
+        familyProfile: FamilyProfileSchema.parse(goldenCase.familyProfile),
+      };
+    }),
+  };
+}
+
+/**
+ * Load and validate a parser fixture set: anything with a cases array.
+ */
+export function loadFixtureSet<T extends { cases: unknown[] }>(raw: unknown, name: string): T {
+  const fixtures = raw as T;
+
+  if (!Array.isArray(fixtures?.cases)) {
+    throw new Error(`Invalid ${name} fixtures: expected a cases array`);
+  }
+
+  return fixtures;
+}
+
+/**
+ * Run a parser over fixture cases and compare each result, whole or field by field.
+ *
+ * @param parse Runs the parser on one case
+ * @param compare Reduces a case and its parse to comparable values; with `fields`,
+ *   both sides are keyed by field
+ * @param fields Compare these fields separately and report per-field accuracy
+ */
+export function evaluateFixtures<Case, Parsed, Input, Field extends string>(
+  cases: Case[],
+  parse: (fixture: Case) => Parsed,
+  compare: (fixture: Case, parsed: Parsed) => FixtureComparison<Input, Partial<Record<NoInfer<Field>, unknown>>>,
+  fields: readonly Field[]
+): FieldFixtureEvaluation<Field, Input>;
+export function evaluateFixtures<Case, Parsed, Input, Value>(
+  cases: Case[],
+  parse: (fixture: Case) => Parsed,
+  compare: (fixture: Case, parsed: Parsed) => FixtureComparison<Input, Value>
+): FixtureEvaluation<Input, Value>;
+export function evaluateFixtures<Case, Parsed, Input>(
+  cases: Case[],
+  parse: (fixture: Case) => Parsed,
+  compare: (fixture: Case, parsed: Parsed) => FixtureComparison<Input, unknown>,
+  fields?: readonly string[]
+): FixtureEvaluation<Input, unknown> | FieldFixtureEvaluation<string, Input> {
+  const failures: Array<FixtureComparison<Input, unknown> & { field?: string }> = [];
+  const fieldMisses = new Map((fields ?? []).map(field => [field, 0]));
+  let passed = 0;
+
+  for (const fixture of cases) {
+    const comparison = compare(fixture, parse(fixture));
+    if (!fields) {
+      if (sameValue(comparison.expected, comparison.actual)) passed++;
+      else failures.push(comparison);
+      continue;
+    }
+
+    const expected = comparison.expected as Record<string, unknown>;
+    const actual = comparison.actual as Record<string, unknown>;
+    const missed = fields.filter(field => !sameValue(expected[field], actual[field]));
+    for (const field of missed) {
+      fieldMisses.set(field, fieldMisses.get(field)! + 1);
+      failures.push({ input: comparison.input, field, expected: expected[field], actual: actual[field] });
+    }
+    if (missed.length === 0) passed++;
+  }
+
+  const total = cases.length;
+  const summary = {
+    createdAt: new Date().toISOString(),
+    total,
+    passed,
+    accuracy: total > 0 ? passed / total : 0,
+  };
+  if (!fields) return { ...summary, failures };
+
+  return {
+    ...summary,
+    fieldAccuracy: Object.fromEntries(fields.map(field => [field, total > 0 ? 1 - fieldMisses.get(field)! / total : 0])),
+    failures: failures as FieldFixtureEvaluation<string, Input>['failures'],
+  };
+}
+
+/**
+ * Create a recommendation engine for evaluation.
+ *
+ * @param backend 'in-memory' for the bundled fake services, 'local' for the configured clients
+ * @param fixtures Catalog for the in-memory backend
+ */
+export function createEvaluationEngine(
+  backend: EvaluationBackend = 'in-memory',
+  fixtures: GoldenFixtureSet = loadGoldenFixtures(),
+  collectionName: string = process.env.QDRANT_COLLECTION || 'recess_embeddings'
+): RecommendationEngine {
+  if (backend === 'local') {
+    return new RecommendationEngine(collectionName);
+  }
+
+  return new RecommendationEngine('evaluation', {
+    dependencies: createInMemoryDependencies(fixtures.catalog, fixtures.markets),
+  });
+}
+
+/**
+ * Run every golden case through the engine and compute ranking metrics.
+ */
+export async function runEvaluation(
+  engine: RecommendationEngine,
+  cases: GoldenCase[],
+  options: {
+    label?: string;
+    k?: number[];
+    limit?: number;
+    diversityWeight?: number;
+    rankingProfile?: RankingProfileName;
+    rankingWeights?: Partial<RankingWeights>;
+    retrievalMode?: RetrievalMode;
+    rerank?: Partial<RerankOptions>;
+  } = {}
+): Promise<EvaluationRun> {
+  const {
+    label = options.rankingProfile || 'default',
+    k = DEFAULT_EVALUATION_K,
+    limit = 20,
+    diversityWeight = 0.3,
+    rankingProfile,
+    rankingWeights,
+    retrievalMode,
+    rerank,
+  } = options;
+
+  const caseResults: CaseEvaluation[] = [];
+
+  for (const goldenCase of cases) {
+    try {
+      const result = await engine.generateRecommendations(goldenCase.familyProfile, {
+        limit,
+        diversityWeight,
+        includeScore: false,
+        cacheResults: false,
+        recommendationType: goldenCase.recommendationType,
+        rankingProfile,
+        rankingWeights,
+        retrievalMode,
+        rerank,
+      });
+
+      caseResults.push(evaluateCase(goldenCase, result.recommendations, k));
+    } catch (error) {
+      console.error(`Evaluation case ${goldenCase.id} failed:`, error);
+      caseResults.push({
+        ...evaluateCase(goldenCase, [], k),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const aggregate = Object.fromEntries(
+    RANKING_COMPONENTS.map(component => [
+      component,
+      averageRankingMetrics(caseResults.map(result => result.components[component]), k),
+    ])
+  ) as Record<RankingComponent, RankingMetrics>;
+
+  return {
+    label,
+    createdAt: new Date().toISOString(),
+    k,
+    config: { limit, diversityWeight, rankingProfile, rankingWeights, retrievalMode, rerank },
+    cases: caseResults,
+    aggregate,
+  };
+}
+
+/**
+ * Compute metrics for one case, overall and per ranking component.
+ */
+function evaluateCase(goldenCase: GoldenCase, recommendations: ScoredRecommendation[], k: number[]): CaseEvaluation {
+  // Keep the best-placed entry per provider; labels are per provider, not per event
+  const byProvider = new Map<string, ScoredRecommendation[]>();
+  for (const recommendation of recommendations) {
+    const entries = byProvider.get(recommendation.providerId) || [];
+    entries.push(recommendation);
+    byProvider.set(recommendation.providerId, entries);
+  }
+  const rankedProviderIds = [...byProvider.keys()];
+
+  const components = Object.fromEntries(
+    RANKING_COMPONENTS.map(component => {
+      const ranked = component === 'overall'
+        ? rankedProviderIds
+        : rankByComponent(byProvider, component);
+      return [
+        component,
+        computeRankingMetrics(ranked, goldenCase.relevant, goldenCase.irrelevant, k),
+      ];
+    })
+  ) as Record<RankingComponent, RankingMetrics>;
+
+  return { caseId: goldenCase.id, rankedProviderIds, components };
+}
+
+/**
+ * Re-rank providers by a single component score (best entry per provider).
+ * Ties keep the engine's order so a flat component reads as "no effect".
+ */
+function rankByComponent(
+  byProvider: Map<string, ScoredRecommendation[]>,
+  component: Exclude<RankingComponent, 'overall'>
+): string[] {
+  const componentScore = (recommendation: ScoredRecommendation) =>
+    component === 'vector' ? recommendation.vectorSimilarity : recommendation.ranking[component];
+
+  return [...byProvider.entries()]
+    .map(([providerId, entries], index) => ({
+      providerId,
+      index,
+      score: Math.max(...entries.map(componentScore)),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.providerId);
+}
+
+/**
+ * Compare two evaluation runs and flag metric regressions.
+ *
+ * @param tolerance Changes smaller than this are ignored as noise
+ */
+export function diffEvaluationRuns(
+  baseline: EvaluationRun,
+  candidate: EvaluationRun,
+  options: { tolerance?: number } = {}
+): EvaluationDiff {
+  const { tolerance = 0.01 } = options;
+  const changes: MetricChange[] = [];
+
+  for (const component of RANKING_COMPONENTS) {
+    changes.push(...compareMetrics(
+      component,
+      baseline.aggregate[component],
+      candidate.aggregate[component],
+      tolerance
+    ));
+  }
+
+  const baselineCases = new Map(baseline.cases.map(result => [result.caseId, result]));
+  for (const candidateCase of candidate.cases) {
+    const baselineCase = baselineCases.get(candidateCase.caseId);
+    if (!baselineCase) continue;
+
+    for (const component of RANKING_COMPONENTS) {
+      changes.push(...compareMetrics(
+        component,
+        baselineCase.components[component],
+        candidateCase.components[component],
+        tolerance,
+        candidateCase.caseId
+      ));
+    }
+  }
+
+  const regressions = changes.filter(change => isRegression(change));
+  const improvements = changes.filter(change => !isRegression(change));
+
+  return {
+    baselineLabel: baseline.label,
+    candidateLabel: candidate.label,
+    tolerance,
+    changes,
+    regressions,
+    improvements,
+    hasRegressions: regressions.length > 0,
+  };
+}
+
+function compareMetrics(
+  component: RankingComponent,
+  baseline: RankingMetrics,
+  candidate: RankingMetrics,
+  tolerance: number,
+  caseId?: string
+): MetricChange[] {
+  const baselineFlat = flattenRankingMetrics(baseline);
+  const candidateFlat = flattenRankingMetrics(candidate);
+
+  return Object.keys(baselineFlat)
+    .filter(metric => metric in candidateFlat)
+    .map(metric => ({
+      component,
+      metric,
+      baseline: baselineFlat[metric],
+      candidate: candidateFlat[metric],
+      delta: candidateFlat[metric] - baselineFlat[metric],
+      caseId,
+    }))
+    .filter(change => Math.abs(change.delta) > tolerance);
+}
+
+function isRegression(change: MetricChange): boolean {
+  return isHigherBetter(change.metric) ? change.delta < 0 : change.delta > 0;
+}
+
+/**
+ * Format a run as a plain-text table of aggregate metrics.
+ */
+export function formatEvaluationRun(run: EvaluationRun): string {
+  const metricNames = Object.keys(flattenRankingMetrics(run.aggregate.overall));
+  const lines = [
+    `Evaluation: ${run.label} (${run.cases.length} cases, ${run.createdAt})`,
+    ['component', ...metricNames].map(cell => cell.padEnd(14)).join(''),
+  ];
+
+  for (const component of RANKING_COMPONENTS) {
+    const flat = flattenRankingMetrics(run.aggregate[component]);
+    lines.push([component, ...metricNames.map(metric => flat[metric].toFixed(3))].map(cell => cell.padEnd(14)).join(''));
+  }
+
+  const failed = run.cases.filter(result => result.error);
+  if (failed.length > 0) {
+    lines.push(`Failed cases: ${failed.map(result => `${result.caseId} (${result.error})`).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a parser fixture evaluation as plain text, failures last.
+ *
+ * @param label Names the check, e.g. "Price parsing"
+ * @param describeInput Shows a failing case's input; defaults to its JSON
+ */
+export function formatFixtureEvaluation<Input>(
+  label: string,
+  evaluation: FixtureEvaluation<Input, unknown> | FieldFixtureEvaluation<string, Input>,
+  describeInput: (input: Input) => string = input => JSON.stringify(input)
+): string {
+  const lines = [
+    `${label}: ${evaluation.passed}/${evaluation.total} cases correct (${(evaluation.accuracy * 100).toFixed(1)}%)`,
+  ];
+  if ('fieldAccuracy' in evaluation) {
+    lines.push(Object.entries(evaluation.fieldAccuracy).map(([field, accuracy]) => `${field} ${accuracy.toFixed(3)}`).join('  '));
+  }
+
+  const failures: Array<FixtureComparison<Input, unknown> & { field?: string }> = evaluation.failures;
+  if (failures.length > 0) {
+    lines.push(`Failures (${failures.length}):`, ...failures.map(failure =>
+      `  ${describeInput(failure.input)}${failure.field ? ` ${failure.field}` : ''}: ` +
+      `expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a diff as plain text, regressions first.
+ */
+export function formatEvaluationDiff(diff: EvaluationDiff): string {
+  const formatChange = (change: MetricChange) =>
+    `  ${change.caseId ? `[${change.caseId}] ` : ''}${change.component} ${change.metric}: ` +
+    `${change.baseline.toFixed(3)} -> ${change.candidate.toFixed(3)} (${change.delta > 0 ? '+' : ''}${change.delta.toFixed(3)})`;
+
+  const lines = [`Evaluation diff: ${diff.baselineLabel} -> ${diff.candidateLabel} (tolerance ${diff.tolerance})`];
+
+  if (diff.regressions.length > 0) {
+    lines.push(`Regressions (${diff.regressions.length}):`, ...diff.regressions.map(formatChange));
+  }
+  if (diff.improvements.length > 0) {
+    lines.push(`Improvements (${diff.improvements.length}):`, ...diff.improvements.map(formatChange));
+  }
+  if (diff.changes.length === 0) {
+    lines.push('No metric changes beyond tolerance');
+  }
+
+  return lines.join('\n');
+}
+
+function sameValue(expected: unknown, actual: unknown): boolean {
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
@@ -0,0 +1,359 @@
+/**
+ * In-memory stand-ins for Qdrant, the embedding clients and Postgres.
+ *
+ * WHY: Offline backend because:
+ * - Ranking changes must be comparable without network, API keys or a seeded database
+ * - Results must be deterministic so two runs differ only because the ranking changed
+ * - The engine's real retrieval and scoring code still runs end to end
+ *
+ * DESIGN DECISIONS:
+ * - Hashed bag-of-words vectors: Deterministic, dependency-free and good enough to
+ *   separate "robotics" from "ballet"; absolute similarity is not meaningful
+ * - Similarities are mapped from [-1, 1] to [0, 1] so the engine's vector thresholds
+ *   behave like they do with real embeddings
+ * - One point per provider, matching how provider embeddings are stored in Qdrant
+ * - Search honors the native Qdrant filter conditions the engine sends (geo radius,
+ *   is_empty, match, match any, range) so radius- and language-limited retrieval
+ *   behaves as in production
+ */
+
+import { GEO_PAYLOAD_KEY, type QdrantSearchParams, type QdrantSearchResult } from '@/lib/embeddings/qdrant-client';
+import { createAccommodationsPayload, createGeoPayload } from '@/lib/embeddings/generator-helpers';
+import type { LocalEmbeddingUsageMetrics } from '@/lib/embeddings/local-embeddings-client';
+import type { RecommendationProvider, LexicalSearchResult } from '@/lib/db/queries/providers';
+import type { RecommendationEngineDependencies } from '@/lib/ai/recommendation-engine';
+import type { Reranker } from '@/lib/ai/reranker';
+import { createHeuristicTravelTimeEstimator, haversineMiles } from '@/lib/ai/travel-time';
+import type { MarketRecord } from '@/lib/geo/geocoder';
+import type { GoldenCatalogProvider } from './types';
+
+const EMBEDDING_DIMENSIONS = 1536; // Matches the production collection
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'for', 'in', 'is', 'of', 'on', 'or', 'the', 'to', 'with',
+  'year', 'years', 'old', 'ages', 'age', 'kids', 'child', 'children', 'family',
+]);
+
+/**
+ * Create a deterministic, L2-normalized hashed bag-of-words embedding.
+ */
+export function createHashedEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const token of tokenize(text)) {
+    vector[hashToken(token) % dimensions] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Convert catalog fixtures into the shape returned by getRecommendationProviders.
+ */
+export function toRecommendationProviders(catalog: GoldenCatalogProvider[]): RecommendationProvider[] {
+  return catalog.map(provider => ({
+    ...provider,
+    events: provider.events.map(event => ({
+      providerId: provider.id,
+      description: null,
+      category: null,
+      minAge: null,
+      maxAge: null,
+      recurring: false,
+      price: null,
+      capacity: null,
+      enrolled: 0,
+      address: null,
+      city: provider.city ?? null,
+      state: provider.state ?? null,
+      zipCode: provider.zipCode ?? null,
+      latitude: null,
+      longitude: null,
+      imageFileName: null,
+      active: true,
+      ...event,
+      startDate: event.startDate ? new Date(event.startDate) : null,
+      endDate: event.endDate ? new Date(event.endDate) : null,
+      createdAt: null,
+      updatedAt: null,
+    })),
+  }));
+}
+
+/**
+ * Text that represents a provider in the vector index.
+ */
+function providerDocument(provider: RecommendationProvider): string {
+  return [
+    provider.name,
+    provider.description,
+    provider.city,
+    ...provider.events.flatMap(event => [event.title, event.description, event.category]),
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Vector index over catalog providers with the Qdrant client's search interface.
+ */
+export class InMemoryVectorIndex implements NonNullable<RecommendationEngineDependencies['qdrantClient']> {
+  private points: Array<{ id: number; vector: number[]; payload: Record<string, any> }>;
+
+  constructor(providers: RecommendationProvider[]) {
+    this.points = providers.map(provider => ({
+      id: parseInt(provider.id, 10),
+      vector: createHashedEmbedding(providerDocument(provider)),
+      payload: {
+        provider_id: parseInt(provider.id, 10),
+        name: provider.name,
+        city: provider.city,
+        location: { // Same shape as production provider payloads
+          municipality: provider.city,
+          administrative_area: provider.state,
+          postal_code: provider.zipCode,
+          latitude: provider.latitude,
+          longitude: provider.longitude,
+        },
+        [GEO_PAYLOAD_KEY]: createGeoPayload(provider.latitude, provider.longitude, provider.zipCode),
+        ...createAccommodationsPayload(providerDocument(provider)), // Stands in for the provider's event points too
+      },
+    }));
+  }
+
+  async search(params: QdrantSearchParams): Promise<QdrantSearchResult[]> {
+    return this.points
+      .filter(point => !params.filter || matchesFilter(params.filter, point.payload))
+      .map(point => ({
+        id: point.id,
+        score: 0.5 + 0.5 * cosineSimilarity(params.vector, point.vector),
+        payload: point.payload,
+      }))
+      .filter(result => params.score_threshold === undefined || result.score >= params.score_threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.max(1, Math.floor(params.limit)));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  async collectionExists(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Build engine dependencies backed entirely by the given catalog.
+ */
+export function createInMemoryDependencies(
+  catalog: GoldenCatalogProvider[],
+  markets: MarketRecord[] = []
+): Required<RecommendationEngineDependencies> {
+  const providers = toRecommendationProviders(catalog);
+
+  return {
+    qdrantClient: new InMemoryVectorIndex(providers),
+    localEmbeddingsClient: {
+      async createOpenAICompatibleEmbedding(text: string) {
+        const startTime = Date.now();
+        const embedding = createHashedEmbedding(text);
+        const usage: LocalEmbeddingUsageMetrics = {
+          requestId: `eval-${hashToken(text).toString(16)}`,
+          model: 'hashed-bag-of-words',
+          inputTokens: Math.ceil(text.length / 4),
+          totalTokens: Math.ceil(text.length / 4),
+          estimatedCost: 0,
+          processTimeMs: Date.now() - startTime,
+          timestamp: new Date(),
+          success: true,
+          cacheHit: false,
+        };
+        return { embedding, usage };
+      },
+      async isAvailable() {
+        return true;
+      },
+      async cleanup() {},
+    },
+    aiClient: {
+      async createEmbedding(): Promise<never> {
+        throw new Error('Remote embeddings are not available in offline evaluation');
+      },
+      async createChatCompletion(): Promise<never> {
+        throw new Error('Chat completions are not available in offline evaluation');
+      },
+      async cleanup() {},
+    },
+    getProviders: async (providerIds: string[], eventIds?: string[]) => {
+      const wanted = new Set(providerIds);
+      const wantedEvents = eventIds ? new Set(eventIds) : null;
+      return providers
+        .filter(provider => provider.active && wanted.has(provider.id))
+        .map(provider => ({
+          ...provider,
+          events: provider.events.filter(event => event.active && (!wantedEvents || wantedEvents.has(event.id))),
+        }));
+    },
+    searchFullText: async (terms: string[], limit: number = 50) => searchCatalogText(providers, terms, limit),
+    getMarkets: async () => markets,
+    travelTimeEstimator: createHeuristicTravelTimeEstimator(), // Never a routing server, even if OSRM_URL is set
+    rerankers: {
+      'cross-encoder': createOverlapReranker('cross-encoder'),
+      'llm': createOverlapReranker('llm'),
+    },
+  };
+}
+
+/**
+ * Evaluate a native Qdrant filter (must / should / must_not) against a payload.
+ */
+function matchesFilter(filter: Record<string, any>, payload: Record<string, any>): boolean {
+  const must: Array<Record<string, any>> = filter.must || [];
+  const should: Array<Record<string, any>> = filter.should || [];
+  const mustNot: Array<Record<string, any>> = filter.must_not || [];
+  return must.every(condition => matchesCondition(condition, payload)) &&
+         (should.length === 0 || should.some(condition => matchesCondition(condition, payload))) &&
+         !mustNot.some(condition => matchesCondition(condition, payload));
+}
+
+function matchesCondition(condition: Record<string, any>, payload: Record<string, any>): boolean {
+  if (condition.must || condition.should || condition.must_not) return matchesFilter(condition, payload);
+
+  if (condition.is_empty) {
+    const value = readPayloadPath(payload, condition.is_empty.key);
+    return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+  }
+
+  const value = readPayloadPath(payload, condition.key);
+  if (condition.geo_radius) {
+    if (!value || typeof value.lat !== 'number' || typeof value.lon !== 'number') return false;
+    const { center, radius } = condition.geo_radius;
+    return haversineMiles({ lat: value.lat, lng: value.lon }, { lat: center.lat, lng: center.lon }) * 1609.344 <= radius;
+  }
+  if (condition.match) {
+    const expected: unknown[] = condition.match.any ?? [condition.match.value];
+    return Array.isArray(value) ? value.some(item => expected.includes(item)) : expected.includes(value);
+  }
+  if (condition.range) {
+    if (typeof value !== 'number') return false;
+    const { gt, gte, lt, lte } = condition.range;
+    return (gt === undefined || value > gt) && (gte === undefined || value >= gte) &&
+           (lt === undefined || value < lt) && (lte === undefined || value <= lte);
+  }
+
+  return true; // Conditions this stand-in doesn't model don't filter
+}
+
+function readPayloadPath(payload: Record<string, any>, key: string): any {
+  return key.split('.').reduce<any>((value, part) => (value === undefined || value === null ? undefined : value[part]), payload);
+}
+
+/**
+ * Reranker stand-in: share of query tokens that appear in the candidate text.
+ * Exercises the rerank stage deterministically; it says nothing about model quality.
+ */
+function createOverlapReranker(method: Reranker['method']): Reranker {
+  return {
+    method,
+    async score(query: string, documents: string[]): Promise<number[]> {
+      const queryTokens = new Set(tokenize(query));
+      if (queryTokens.size === 0) return documents.map(() => 0);
+
+      return documents.map(document => {
+        const documentTokens = new Set(tokenize(document));
+        const overlap = [...queryTokens].filter(token => documentTokens.has(token)).length;
+        return overlap / queryTokens.size;
+      });
+    },
+  };
+}
+
+/**
+ * Keyword search over the catalog, standing in for PostgreSQL full-text search.
+ * Rank is the share of query terms found in the provider/event text; phrases must
+ * match all of their words.
+ */
+function searchCatalogText(
+  providers: RecommendationProvider[],
+  terms: string[],
+  limit: number
+): LexicalSearchResult[] {
+  const queryTerms = terms.map(term => tokenize(term)).filter(tokens => tokens.length > 0);
+  if (queryTerms.length === 0) return [];
+
+  const results: LexicalSearchResult[] = [];
+
+  for (const provider of providers.filter(p => p.active)) {
+    const events = provider.events.length > 0 ? provider.events : [null];
+
+    for (const event of events) {
+      const tokens = new Set(tokenize([
+        provider.name,
+        provider.description,
+        event?.title,
+        event?.category,
+        event?.description,
+      ].filter(Boolean).join(' ')));
+
+      const matched = queryTerms.filter(termTokens => termTokens.every(token => tokens.has(token))).length;
+      if (matched === 0) continue;
+
+      results.push({
+        providerId: provider.id,
+        providerName: provider.name,
+        eventId: event?.id ?? null,
+        eventTitle: event?.title ?? null,
+        category: event?.category ?? null,
+        minAge: event?.minAge ?? null,
+        maxAge: event?.maxAge ?? null,
+        price: event?.price ?? null,
+        city: provider.city ?? null,
+        zipCode: provider.zipCode ?? null,
+        rank: matched / queryTerms.length,
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * Crude plural stemming so "classes"/"class" and "robots"/"robot" share a bucket.
+ */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('es') && /(ss|sh|ch|x)es$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * FNV-1a string hash.
+ */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
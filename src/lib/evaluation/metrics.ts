@@ -0,0 +1,141 @@
+/**
+ * Information retrieval metrics for ranking evaluation.
+ *
+ * WHY: Standard IR metrics because:
+ * - Precision/recall@k answer "are the first k results worth showing?"
+ * - nDCG rewards putting the best matches at the top, not just somewhere in the list
+ * - MRR captures how far a parent has to scroll to the first good result
+ *
+ * All functions are pure and operate on ranked provider IDs plus labels.
+ */
+
+import type { RankingMetrics } from './types';
+
+/**
+ * Fraction of the top-k results that are relevant.
+ * Uses k as the denominator even when fewer than k results were returned.
+ */
+export function precisionAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  if (k <= 0) return 0;
+  const hits = ranked.slice(0, k).filter(id => (relevant[id] || 0) > 0).length;
+  return hits / k;
+}
+
+/**
+ * Fraction of all relevant providers found in the top-k results.
+ */
+export function recallAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const totalRelevant = Object.values(relevant).filter(grade => grade > 0).length;
+  if (totalRelevant === 0) return 0;
+  const hits = ranked.slice(0, k).filter(id => (relevant[id] || 0) > 0).length;
+  return hits / totalRelevant;
+}
+
+/**
+ * Normalized discounted cumulative gain at k using graded relevance.
+ */
+export function ndcgAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const dcg = ranked
+    .slice(0, k)
+    .reduce((sum, id, index) => sum + gain(relevant[id] || 0) / Math.log2(index + 2), 0);
+
+  const idealGrades = Object.values(relevant)
+    .filter(grade => grade > 0)
+    .sort((a, b) => b - a)
+    .slice(0, k);
+  const idcg = idealGrades.reduce((sum, grade, index) => sum + gain(grade) / Math.log2(index + 2), 0);
+
+  return idcg > 0 ? dcg / idcg : 0;
+}
+
+/**
+ * Reciprocal rank of the first relevant result (0 if none).
+ */
+export function reciprocalRank(ranked: string[], relevant: Record<string, number>): number {
+  const index = ranked.findIndex(id => (relevant[id] || 0) > 0);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Fraction of the top-k results that were explicitly labelled irrelevant.
+ */
+export function irrelevantAtK(ranked: string[], irrelevant: string[], k: number): number {
+  if (k <= 0) return 0;
+  const irrelevantSet = new Set(irrelevant);
+  return ranked.slice(0, k).filter(id => irrelevantSet.has(id)).length / k;
+}
+
+/**
+ * Compute all ranking metrics for one ranked list.
+ */
+export function computeRankingMetrics(
+  ranked: string[],
+  relevant: Record<string, number>,
+  irrelevant: string[],
+  kValues: number[]
+): RankingMetrics {
+  const metrics: RankingMetrics = {
+    precisionAtK: {},
+    recallAtK: {},
+    ndcgAtK: {},
+    irrelevantAtK: {},
+    mrr: reciprocalRank(ranked, relevant),
+  };
+
+  for (const k of kValues) {
+    metrics.precisionAtK[k] = precisionAtK(ranked, relevant, k);
+    metrics.recallAtK[k] = recallAtK(ranked, relevant, k);
+    metrics.ndcgAtK[k] = ndcgAtK(ranked, relevant, k);
+    metrics.irrelevantAtK[k] = irrelevantAtK(ranked, irrelevant, k);
+  }
+
+  return metrics;
+}
+
+/**
+ * Average metrics across cases (macro average).
+ */
+export function averageRankingMetrics(metrics: RankingMetrics[], kValues: number[]): RankingMetrics {
+  const count = Math.max(metrics.length, 1);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / count;
+
+  const averaged: RankingMetrics = {
+    precisionAtK: {},
+    recallAtK: {},
+    ndcgAtK: {},
+    irrelevantAtK: {},
+    mrr: mean(metrics.map(m => m.mrr)),
+  };
+
+  for (const k of kValues) {
+    averaged.precisionAtK[k] = mean(metrics.map(m => m.precisionAtK[k] || 0));
+    averaged.recallAtK[k] = mean(metrics.map(m => m.recallAtK[k] || 0));
+    averaged.ndcgAtK[k] = mean(metrics.map(m => m.ndcgAtK[k] || 0));
+    averaged.irrelevantAtK[k] = mean(metrics.map(m => m.irrelevantAtK[k] || 0));
+  }
+
+  return averaged;
+}
+
+/**
+ * Flatten metrics into 'metric@k' -> value pairs for reporting and diffing.
+ */
+export function flattenRankingMetrics(metrics: RankingMetrics): Record<string, number> {
+  const flat: Record<string, number> = { mrr: metrics.mrr };
+  for (const [k, value] of Object.entries(metrics.precisionAtK)) flat[`precision@${k}`] = value;
+  for (const [k, value] of Object.entries(metrics.recallAtK)) flat[`recall@${k}`] = value;
+  for (const [k, value] of Object.entries(metrics.ndcgAtK)) flat[`ndcg@${k}`] = value;
+  for (const [k, value] of Object.entries(metrics.irrelevantAtK)) flat[`irrelevant@${k}`] = value;
+  return flat;
+}
+
+/**
+ * Whether a higher value is better for a flattened metric name.
+ */
+export function isHigherBetter(metric: string): boolean {
+  return !metric.startsWith('irrelevant@');
+}
+
+function gain(grade: number): number {
+  return Math.pow(2, grade) - 1;
+}
@@ -0,0 +1,46 @@
+/**
+ * Offline accuracy check for the free-text price parser.
+ *
+ * WHY: Price fixtures because:
+ * - Price text is written by hundreds of providers and every change to the parser
+ *   can fix one phrasing while breaking another
+ * - Budget scoring trusts the parsed unit and amount, so a misread price silently
+ *   mis-ranks activities
+ *
+ * DESIGN DECISIONS:
+ * - Fixtures list real-world phrasings with the fields a parent would read from them
+ * - Every field is compared, so a fixture also pins down what must stay undefined
+ * - Reports per-field accuracy alongside whole-case accuracy to show which part of
+ *   the parser regressed
+ */
+
+import { parsePrice } from '@/lib/ai/price-parser';
+import priceStrings from './fixtures/price-strings.json';
+import { evaluateFixtures, formatFixtureEvaluation, loadFixtureSet } from './harness';
+import { PRICE_FIELDS, type PriceFixtureSet, type PriceParsingEvaluation } from './types';
+
+/**
+ * Load and validate a price fixture set (defaults to the bundled fixtures).
+ */
+export function loadPriceFixtures(raw: unknown = priceStrings): PriceFixtureSet {
+  return loadFixtureSet<PriceFixtureSet>(raw, 'price');
+}
+
+/**
+ * Parse every fixture and compare it field by field.
+ */
+export function evaluatePriceParsing(fixtures: PriceFixtureSet = loadPriceFixtures()): PriceParsingEvaluation {
+  return evaluateFixtures(
+    fixtures.cases,
+    fixture => parsePrice(fixture.input),
+    (fixture, parsed) => ({ input: fixture.input, expected: { currency: 'USD', ...fixture.expected }, actual: parsed }),
+    PRICE_FIELDS
+  );
+}
+
+/**
+ * Format a price parsing evaluation as plain text, failures last.
+ */
+export function formatPriceParsingEvaluation(evaluation: PriceParsingEvaluation): string {
+  return formatFixtureEvaluation('Price parsing', evaluation);
+}
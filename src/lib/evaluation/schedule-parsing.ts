@@ -0,0 +1,46 @@
+/**
+ * Offline accuracy check for the weekly schedule parser.
+ *
+ * WHY: Schedule fixtures because:
+ * - Listings write times as ranges with and without meridiems, 24-hour clocks and
+ *   words ("noon", "midnight"), and a rule added for one phrasing can shift another
+ *   into the wrong half of the day
+ * - Schedule scoring divides by meeting length, so a range read backwards or across
+ *   midnight turns into a bad or empty interval
+ *
+ * DESIGN DECISIONS:
+ * - Intervals are compared as parents see them ("Tuesday 4:15 PM-5:30 PM"), in the
+ *   parser's day and start order, so a fixture reads like the listing it came from
+ * - Fixtures include text that must not parse (age and price ranges), since a false
+ *   time is worse than no time
+ */
+
+import { formatInterval, parseWeeklySchedule } from '@/lib/ai/schedule-parser';
+import scheduleStrings from './fixtures/schedule-strings.json';
+import { evaluateFixtures, formatFixtureEvaluation, loadFixtureSet } from './harness';
+import type { ScheduleFixtureSet, ScheduleParsingEvaluation } from './types';
+
+/**
+ * Load and validate a schedule fixture set (defaults to the bundled fixtures).
+ */
+export function loadScheduleFixtures(raw: unknown = scheduleStrings): ScheduleFixtureSet {
+  return loadFixtureSet<ScheduleFixtureSet>(raw, 'schedule');
+}
+
+/**
+ * Parse every fixture and compare its intervals.
+ */
+export function evaluateScheduleParsing(fixtures: ScheduleFixtureSet = loadScheduleFixtures()): ScheduleParsingEvaluation {
+  return evaluateFixtures(
+    fixtures.cases,
+    fixture => parseWeeklySchedule(fixture.input),
+    (fixture, intervals) => ({ input: fixture.input, expected: fixture.expected, actual: intervals.map(formatInterval) })
+  );
+}
+
+/**
+ * Format a schedule parsing evaluation as plain text, failures last.
+ */
+export function formatScheduleParsingEvaluation(evaluation: ScheduleParsingEvaluation): string {
+  return formatFixtureEvaluation('Schedule parsing', evaluation);
+}
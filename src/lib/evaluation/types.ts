@@ -0,0 +1,278 @@
+/**
+ * TypeScript types for the offline ranking evaluation harness.
+ *
+ * WHY: Shared evaluation types because:
+ * - Golden fixtures, metric calculation and run diffs must agree on one shape
+ * - Runs are serialized to JSON and compared across branches, so the format is a contract
+ *
+ * DESIGN DECISIONS:
+ * - Graded relevance (1-3) so nDCG can reward putting the best match first
+ * - Explicit irrelevant labels so "confidently wrong" results are visible, not just misses
+ * - Metrics keyed by ranking component to show which scorer helps or hurts
+ */
+
+import type { Accommodation, BudgetPeriod, FamilyProfile } from '@/types/ai';
+import type { RecommendationProvider } from '@/lib/db/queries/providers';
+import type { MarketRecord } from '@/lib/geo/geocoder';
+import type { ParsedPrice } from '@/lib/ai/price-parser';
+import type { AgeRangeBasis } from '@/lib/ai/age-range-parser';
+import type { FamilyParseField, KnownNeighborhood } from '@/lib/ai/family-parser';
+
+/**
+ * Relevance grade for a labelled provider: 3 = ideal, 2 = good, 1 = acceptable.
+ */
+export type RelevanceGrade = 1 | 2 | 3;
+
+/**
+ * One golden family profile with labelled providers.
+ */
+export interface GoldenCase {
+  id: string;
+  description: string;
+  familyProfile: FamilyProfile;
+  recommendationType?: string;
+  relevant: Record<string, RelevanceGrade>; // providerId -> grade
+  irrelevant: string[]; // providerIds that should not be recommended
+}
+
+/**
+ * Provider catalog entry used by the in-memory backend.
+ * Event dates are ISO strings in fixtures and revived to Dates on load.
+ */
+export type GoldenCatalogProvider = Omit<RecommendationProvider, 'events'> & {
+  events: Array<Partial<RecommendationProvider['events'][0]> & { id: string; title: string }>;
+};
+
+export interface GoldenFixtureSet {
+  version: number;
+  markets?: MarketRecord[]; // Active market rows for geocoding
+  catalog: GoldenCatalogProvider[];
+  cases: GoldenCase[];
+}
+
+/**
+ * Ranking components that can be evaluated independently.
+ * 'overall' is the engine's final order; the rest re-sort the same candidates by one factor.
+ */
+export const RANKING_COMPONENTS = [
+  'overall',
+  'vector',
+  'age',
+  'interests',
+  'location',
+  'schedule',
+  'budget',
+  'quality',
+] as const;
+
+export type RankingComponent = typeof RANKING_COMPONENTS[number];
+
+export interface RankingMetrics {
+  precisionAtK: Record<number, number>;
+  recallAtK: Record<number, number>;
+  ndcgAtK: Record<number, number>;
+  irrelevantAtK: Record<number, number>; // Share of top-k labelled irrelevant
+  mrr: number;
+}
+
+export interface CaseEvaluation {
+  caseId: string;
+  rankedProviderIds: string[]; // Engine order
+  components: Record<RankingComponent, RankingMetrics>;
+  error?: string;
+}
+
+export interface EvaluationRun {
+  label: string;
+  createdAt: string;
+  k: number[];
+  config: Record<string, unknown>;
+  cases: CaseEvaluation[];
+  aggregate: Record<RankingComponent, RankingMetrics>;
+}
+
+export interface MetricChange {
+  component: RankingComponent;
+  metric: string; // e.g. 'ndcg@5', 'mrr'
+  baseline: number;
+  candidate: number;
+  delta: number;
+  caseId?: string; // Present for per-case changes
+}
+
+export interface EvaluationDiff {
+  baselineLabel: string;
+  candidateLabel: string;
+  tolerance: number;
+  changes: MetricChange[];
+  regressions: MetricChange[];
+  improvements: MetricChange[];
+  hasRegressions: boolean;
+}
+
+/**
+ * One fixture's input with the expected and actual values a parser check compares,
+ * whole or keyed by field.
+ */
+export interface FixtureComparison<Input, Value> {
+  input: Input;
+  expected: Value;
+  actual: Value;
+}
+
+/**
+ * Parser accuracy against a fixture set, each case compared whole.
+ */
+export interface FixtureEvaluation<Input, Value> {
+  createdAt: string;
+  total: number;
+  passed: number; // Cases with exactly the expected value
+  accuracy: number;
+  failures: Array<FixtureComparison<Input, Value>>;
+}
+
+/**
+ * Parser accuracy against a fixture set, each case compared field by field.
+ */
+export interface FieldFixtureEvaluation<Field extends string, Input> {
+  createdAt: string;
+  total: number;
+  passed: number; // Cases with every field correct
+  accuracy: number;
+  fieldAccuracy: Record<Field, number>;
+  failures: Array<{ input: Input; field: Field; expected: unknown; actual: unknown }>;
+}
+
+/**
+ * Price fields checked against fixtures.
+ */
+export const PRICE_FIELDS = ['free', 'amount', 'range', 'currency', 'unit', 'sessions', 'weeks'] as const;
+
+export type PriceField = typeof PRICE_FIELDS[number];
+
+/**
+ * One price as providers write it, with what the parser should read.
+ * Fields left out of `expected` must parse as undefined; currency defaults to USD.
+ */
+export interface PriceFixtureCase {
+  input: string | number;
+  expected: Partial<Pick<ParsedPrice, PriceField>>;
+}
+
+export interface PriceFixtureSet {
+  version: number;
+  cases: PriceFixtureCase[];
+}
+
+export type PriceParsingEvaluation = FieldFixtureEvaluation<PriceField, string | number>;
+
+/**
+ * Age range fields checked against fixtures.
+ */
+export const AGE_FIELDS = ['min', 'max', 'basis'] as const;
+
+export type AgeField = typeof AGE_FIELDS[number];
+
+/**
+ * One age or grade phrasing, with the range the parser should read.
+ * `field` marks text from a dedicated age or grade field; `expected: null` means no ages.
+ */
+export interface AgeFixtureCase {
+  input: string;
+  field?: 'ages' | 'grades';
+  expected: { min: number; max: number; basis: AgeRangeBasis } | null;
+}
+
+export interface AgeFixtureSet {
+  version: number;
+  cases: AgeFixtureCase[];
+}
+
+export type AgeParsingEvaluation = FieldFixtureEvaluation<AgeField, string>;
+
+/**
+ * One schedule phrasing, with the weekly meetings the parser should read, formatted
+ * as parents see them ("Tuesday 4:15 PM-5:30 PM"). An empty list means no times.
+ */
+export interface ScheduleFixtureCase {
+  input: string;
+  expected: string[];
+}
+
+export interface ScheduleFixtureSet {
+  version: number;
+  cases: ScheduleFixtureCase[];
+}
+
+export type ScheduleParsingEvaluation = FixtureEvaluation<string, string[]>;
+
+/**
+ * One listing's text with the accommodations it offers, or one child's special needs
+ * and allergies with the accommodations they ask for. An empty list means none.
+ */
+export interface AccommodationFixtureCase {
+  listing?: string;
+  specialNeeds?: string;
+  allergies?: string[];
+  expected: Accommodation[];
+}
+
+export interface AccommodationFixtureSet {
+  version: number;
+  cases: AccommodationFixtureCase[];
+}
+
+export type AccommodationParsingEvaluation = FixtureEvaluation<string, Accommodation[]>;
+
+/**
+ * Family description fields checked against fixtures.
+ */
+export const FAMILY_FIELDS = ['parent', 'children', 'ages', 'interests', 'location', 'budget', 'schedule'] as const satisfies readonly FamilyParseField[];
+
+export type FamilyField = typeof FAMILY_FIELDS[number];
+
+/**
+ * What the parser should read from one description. Omitted fields must not be found;
+ * unnamed children are expected as "Child 1", "Child 2", ...
+ */
+export interface FamilyFixtureExpectation {
+  parent?: string;
+  children?: Array<{ name: string; age?: number; interests?: string[] }>;
+  location?: { zipCode?: string; neighborhood?: string; city?: string };
+  budget?: { min?: number; max: number; period: BudgetPeriod };
+  schedule?: string[]; // Time slots, in any order
+}
+
+export interface FamilyFixtureCase {
+  input: string;
+  expected: FamilyFixtureExpectation;
+}
+
+export interface FamilyFixtureSet {
+  version: number;
+  neighborhoods: KnownNeighborhood[]; // Stands in for the neighborhood table
+  cases: FamilyFixtureCase[];
+}
+
+export type FamilyParsingEvaluation = FieldFixtureEvaluation<FamilyField, string>;
+
+/**
+ * Recorded lightweight-path ranking for one golden case under default options.
+ */
+export interface OrderingFixtureCase {
+  caseId: string;
+  ranked: Array<{ providerId: string; eventId?: string; matchScore: number }>;
+}
+
+export interface OrderingFixtureSet {
+  version: number;
+  cases: OrderingFixtureCase[];
+}
+
+export interface OrderingEvaluation {
+  createdAt: string;
+  total: number;
+  passed: number; // Cases ranked exactly as recorded
+  accuracy: number;
+  failures: Array<{ caseId: string; position: number; expected: unknown; actual: unknown }>;
+}
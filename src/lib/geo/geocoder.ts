@@ -0,0 +1,218 @@
+/**
+ * Offline geocoding for family and provider locations in any market.
+ *
+ * WHY: Market-agnostic geocoding because:
+ * - Location scoring only worked for the handful of Austin ZIP codes it knew about
+ * - "Same metro area" and "same state" were hard-wired to Austin and Texas
+ * - Every active market row already carries a center latitude/longitude
+ *
+ * DESIGN DECISIONS:
+ * - Bundled centroids for every US ZIP code (postal-centroids.json: Census ZCTA
+ *   internal points, with city and state per ZIP): no network call or API key per
+ *   lookup, deterministic in evaluation
+ * - Coordinates precedence: explicit coordinates > postal-code centroid > the center of
+ *   the location's market, only for a ZIP the dataset doesn't know (new or mistyped);
+ *   city names alone are never turned into coordinates, since a city center says
+ *   little about distance
+ * - Markets come from the market table through an injected loader so this module stays
+ *   free of database imports (the demo map uses the postal lookup client-side)
+ * - A location belongs to the nearest active market within MARKET_RADIUS_MILES of its
+ *   center, or to the market with the same city name when it has no coordinates
+ * - Results are cached per distinct location; the cache resets when markets reload
+ */
+
+import postalCentroids from './postal-centroids.json';
+import { haversineMiles } from '@/lib/ai/travel-time';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface PostalCentroid extends GeoPoint {
+  postalCode: string;
+  city: string;
+  state: string;
+}
+
+/**
+ * Active market row as loaded from the market table (numeric columns arrive as strings).
+ */
+export interface MarketRecord {
+  id: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  latitude: string | null;
+  longitude: string | null;
+}
+
+export interface MarketArea {
+  id: string;
+  name: string;
+  city?: string;
+  state?: string;
+  center?: GeoPoint;
+}
+
+export interface GeocodeInput {
+  coordinates?: GeoPoint;
+  zipCode?: string;
+  city?: string;
+  state?: string;
+}
+
+export type GeocodeSource = 'coordinates' | 'postal_code' | 'market_center' | 'none';
+
+export interface GeocodedLocation {
+  coordinates?: GeoPoint;
+  source: GeocodeSource;
+  city?: string;
+  state?: string;
+  market?: MarketArea;
+}
+
+// A market covers its metro area: suburbs 30+ miles from the center still belong to it
+const MARKET_RADIUS_MILES = 40;
+const MARKET_REFRESH_MS = 10 * 60 * 1000;
+const MAX_CACHED_LOCATIONS = 5000;
+
+const POSTAL_CODES = postalCentroids.postalCodes as unknown as Record<string, [number, number, string, string]>;
+
+/**
+ * Normalize a postal code to its dataset key (US: first 5 digits of a ZIP or ZIP+4).
+ */
+export function normalizePostalCode(postalCode?: string | null): string | null {
+  const match = postalCode?.trim().match(/^(\d{5})(?:-?\d{4})?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Look up a postal code's centroid in the bundled dataset.
+ */
+export function lookupPostalCentroid(postalCode?: string | null): PostalCentroid | null {
+  const key = normalizePostalCode(postalCode);
+  const row = key ? POSTAL_CODES[key] : undefined;
+  if (!key || !row) return null;
+
+  const [lat, lng, city, state] = row;
+  return { postalCode: key, lat, lng, city, state };
+}
+
+/**
+ * Resolves locations to coordinates, state and market.
+ */
+export class Geocoder {
+  private markets: MarketArea[] = [];
+  private marketsLoadedAt = 0;
+  private marketsLoading: Promise<void> | null = null;
+  private cache = new Map<string, GeocodedLocation>();
+
+  constructor(private loadMarkets: () => Promise<MarketRecord[]>) {}
+
+  /**
+   * Load active markets if they are missing or stale. Failures keep the previous list,
+   * so scoring degrades to postal and state comparisons instead of failing.
+   */
+  async ensureMarkets(): Promise<void> {
+    if (Date.now() - this.marketsLoadedAt < MARKET_REFRESH_MS) return;
+    if (!this.marketsLoading) {
+      this.marketsLoading = this.refreshMarkets().finally(() => {
+        this.marketsLoading = null;
+      });
+    }
+    await this.marketsLoading;
+  }
+
+  /**
+   * Resolve a location. Synchronous so scorers can call it per activity; markets must
+   * have been loaded with ensureMarkets() for market assignment.
+   */
+  geocode(location: GeocodeInput): GeocodedLocation {
+    const key = JSON.stringify([
+      location.coordinates?.lat,
+      location.coordinates?.lng,
+      normalizePostalCode(location.zipCode),
+      normalizeName(location.city),
+      normalizeName(location.state),
+    ]);
+
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const resolved = this.resolve(location);
+    if (this.cache.size >= MAX_CACHED_LOCATIONS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, resolved);
+    return resolved;
+  }
+
+  private resolve(location: GeocodeInput): GeocodedLocation {
+    const centroid = lookupPostalCentroid(location.zipCode);
+    const coordinates = location.coordinates || (centroid ? { lat: centroid.lat, lng: centroid.lng } : undefined);
+    const city = location.city || centroid?.city;
+    const market = this.findMarket(coordinates, city, location.state || centroid?.state);
+    // A ZIP the dataset doesn't know still places the location somewhere in its market
+    const marketCenter = !coordinates && normalizePostalCode(location.zipCode) ? market?.center : undefined;
+    const source: GeocodeSource = location.coordinates ? 'coordinates' :
+                                  centroid ? 'postal_code' :
+                                  marketCenter ? 'market_center' : 'none';
+
+    return {
+      coordinates: coordinates || marketCenter,
+      source,
+      city,
+      state: (location.state || centroid?.state || market?.state)?.toUpperCase(),
+      market,
+    };
+  }
+
+  private findMarket(coordinates: GeoPoint | undefined, city?: string, state?: string): MarketArea | undefined {
+    if (coordinates) {
+      let nearest: { market: MarketArea; miles: number } | undefined;
+      for (const market of this.markets) {
+        if (!market.center) continue;
+        const miles = haversineMiles(coordinates, market.center);
+        if (miles <= MARKET_RADIUS_MILES && (!nearest || miles < nearest.miles)) {
+          nearest = { market, miles };
+        }
+      }
+      if (nearest) return nearest.market;
+    }
+
+    const cityName = normalizeName(city);
+    if (!cityName) return undefined;
+    return this.markets.find(market =>
+      normalizeName(market.city) === cityName &&
+      (!state || !market.state || normalizeName(market.state) === normalizeName(state))
+    );
+  }
+
+  private async refreshMarkets(): Promise<void> {
+    try {
+      const records = await this.loadMarkets();
+      this.markets = records.map(record => {
+        const lat = record.latitude !== null ? parseFloat(record.latitude) : NaN;
+        const lng = record.longitude !== null ? parseFloat(record.longitude) : NaN;
+        return {
+          id: record.id,
+          name: record.name,
+          city: record.city || undefined,
+          state: record.state || undefined,
+          center: Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined,
+        };
+      });
+      console.log(`Geocoder loaded ${this.markets.length} active markets`);
+    } catch (error) {
+      console.warn('Failed to load markets for geocoding, keeping previous list:', error);
+    }
+
+    this.marketsLoadedAt = Date.now();
+    this.cache.clear();
+  }
+}
+
+function normalizeName(value?: string | null): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+}
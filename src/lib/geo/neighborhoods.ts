@@ -0,0 +1,207 @@
+/**
+ * Neighborhood boundaries with point-in-polygon and adjacency lookups.
+ *
+ * WHY: Neighborhood polygons because:
+ * - Parents describe where they live by neighborhood ("Hyde Park"), not coordinates
+ * - The neighborhood table stores names only, so "same neighborhood" was a string
+ *   comparison that never matched providers (they carry coordinates, not names)
+ * - "Near me" usually means my neighborhood or the one next door, not a radius
+ *
+ * DESIGN DECISIONS:
+ * - Boundaries are a GeoJSON FeatureCollection imported from a local file
+ *   (neighborhood-boundaries.json); feature names match the neighborhood table's names,
+ *   with optional aliases for what parents type
+ * - The bundled Austin shapes are rough rectangles marked `approximate` until surveyed
+ *   boundaries are imported for the table's rows; they place families and soften
+ *   location scores, but the neighborhood filter doesn't exclude anything by them
+ * - Polygon and MultiPolygon geometries; holes are honored by ray casting over all rings
+ * - Two neighborhoods are adjacent when their boundaries touch within ADJACENCY_TOLERANCE_MILES,
+ *   computed once per neighborhood and cached
+ * - A neighborhood's centroid (vertex average) stands in for a family location that
+ *   only names a neighborhood
+ */
+
+import neighborhoodBoundaries from './neighborhood-boundaries.json';
+import { haversineMiles } from '@/lib/ai/travel-time';
+import type { GeoPoint } from './geocoder';
+
+export interface NeighborhoodFeatureCollection {
+  type: 'FeatureCollection';
+  features: Array<{
+    type: 'Feature';
+    properties: { name: string; city?: string; state?: string; aliases?: string[]; approximate?: boolean };
+    geometry:
+      | { type: 'Polygon'; coordinates: number[][][] }
+      | { type: 'MultiPolygon'; coordinates: number[][][][] };
+  }>;
+}
+
+export interface Neighborhood {
+  name: string;
+  city?: string;
+  state?: string;
+  aliases: string[];
+  approximate: boolean; // A placeholder shape, not a surveyed boundary
+  polygons: GeoPoint[][][]; // polygon -> rings (outer first) -> points
+  centroid: GeoPoint;
+}
+
+/**
+ * Where an activity sits relative to a family's neighborhood.
+ */
+export type NeighborhoodRelation = 'inside' | 'adjacent' | 'outside' | 'unknown';
+
+// Boundaries drawn by hand rarely share exact vertices
+const ADJACENCY_TOLERANCE_MILES = 0.15;
+
+/**
+ * Ray-casting point-in-polygon test; points inside a hole are outside.
+ */
+export function pointInPolygon(point: GeoPoint, rings: GeoPoint[][]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+          point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Lookup index over a set of neighborhood boundaries.
+ */
+export class NeighborhoodIndex {
+  private neighborhoods: Neighborhood[];
+  private adjacency = new Map<Neighborhood, Neighborhood[]>();
+
+  constructor(collection: NeighborhoodFeatureCollection) {
+    this.neighborhoods = collection.features.map(feature => {
+      const polygons = (feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates)
+        .map(polygon => polygon.map(ring => ring.map(([lng, lat]) => ({ lat, lng }))));
+      const points = polygons.flatMap(polygon => polygon[0]);
+
+      return {
+        name: feature.properties.name,
+        city: feature.properties.city,
+        state: feature.properties.state,
+        aliases: feature.properties.aliases || [],
+        approximate: feature.properties.approximate === true,
+        polygons,
+        centroid: {
+          lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+          lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+        },
+      };
+    });
+  }
+
+  /**
+   * Find a neighborhood by name or alias, optionally within a city.
+   */
+  find(name?: string | null, city?: string | null): Neighborhood | undefined {
+    const wanted = normalizeName(name);
+    if (!wanted) return undefined;
+
+    const matches = this.neighborhoods.filter(neighborhood =>
+      [neighborhood.name, ...neighborhood.aliases].some(candidate => normalizeName(candidate) === wanted)
+    );
+    const cityName = normalizeName(city);
+    return matches.find(neighborhood => !cityName || !neighborhood.city || normalizeName(neighborhood.city) === cityName);
+  }
+
+  /**
+   * The first neighborhood named in free text ("we're in Hyde Park"), by name or alias.
+   * Longer names win so "Travis Heights" isn't read as another "Heights".
+   */
+  mention(text?: string | null): Neighborhood | undefined {
+    const normalized = ` ${normalizeName(text)} `;
+    if (normalized.trim().length === 0) return undefined;
+
+    const candidates = this.neighborhoods
+      .flatMap(neighborhood => [neighborhood.name, ...neighborhood.aliases].map(name => ({ neighborhood, name: normalizeName(name) })))
+      .sort((a, b) => b.name.length - a.name.length);
+    return candidates.find(candidate => normalized.includes(` ${candidate.name} `))?.neighborhood;
+  }
+
+  /**
+   * The neighborhood containing a point, if any.
+   */
+  locate(point?: GeoPoint): Neighborhood | undefined {
+    if (!point) return undefined;
+    return this.neighborhoods.find(neighborhood =>
+      neighborhood.polygons.some(polygon => pointInPolygon(point, polygon))
+    );
+  }
+
+  /**
+   * Neighborhoods whose boundaries touch this one.
+   */
+  adjacentTo(neighborhood: Neighborhood): Neighborhood[] {
+    let adjacent = this.adjacency.get(neighborhood);
+    if (!adjacent) {
+      adjacent = this.neighborhoods.filter(other => other !== neighborhood && boundariesTouch(neighborhood, other));
+      this.adjacency.set(neighborhood, adjacent);
+    }
+    return adjacent;
+  }
+
+  /**
+   * Relate a point to a home neighborhood.
+   */
+  relate(point: GeoPoint | undefined, home: Neighborhood | undefined): NeighborhoodRelation {
+    if (!point || !home) return 'unknown';
+    if (home.polygons.some(polygon => pointInPolygon(point, polygon))) return 'inside';
+    return this.adjacentTo(home).some(neighborhood => neighborhood.polygons.some(polygon => pointInPolygon(point, polygon)))
+      ? 'adjacent'
+      : 'outside';
+  }
+}
+
+let defaultIndex: NeighborhoodIndex | null = null;
+
+/**
+ * Index over the bundled neighborhood boundaries.
+ */
+export function getNeighborhoodIndex(): NeighborhoodIndex {
+  if (!defaultIndex) {
+    defaultIndex = new NeighborhoodIndex(neighborhoodBoundaries as NeighborhoodFeatureCollection);
+  }
+  return defaultIndex;
+}
+
+function boundariesTouch(a: Neighborhood, b: Neighborhood): boolean {
+  const edgesA = outerEdges(a);
+  const edgesB = outerEdges(b);
+  const near = (points: GeoPoint[], edges: Array<[GeoPoint, GeoPoint]>) =>
+    points.some(point => edges.some(([start, end]) => distanceToSegmentMiles(point, start, end) <= ADJACENCY_TOLERANCE_MILES));
+
+  // Touching or overlapping edges always put a vertex of one boundary on the other
+  return near(edgesA.map(([start]) => start), edgesB) || near(edgesB.map(([start]) => start), edgesA);
+}
+
+function outerEdges(neighborhood: Neighborhood): Array<[GeoPoint, GeoPoint]> {
+  return neighborhood.polygons.flatMap(polygon =>
+    polygon[0].slice(1).map((point, index) => [polygon[0][index], point] as [GeoPoint, GeoPoint])
+  );
+}
+
+function distanceToSegmentMiles(point: GeoPoint, start: GeoPoint, end: GeoPoint): number {
+  // Project in a local equirectangular frame; fine at neighborhood scale
+  const scale = Math.cos((point.lat * Math.PI) / 180);
+  const dx = (end.lng - start.lng) * scale;
+  const dy = end.lat - start.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1,
+    (((point.lng - start.lng) * scale) * dx + (point.lat - start.lat) * dy) / lengthSquared
+  ));
+  return haversineMiles(point, { lat: start.lat + t * dy, lng: start.lng + (t * dx) / scale });
+}
+
+function normalizeName(value?: string | null): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+}
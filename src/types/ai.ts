@@ -38,11 +38,17 @@ export const ChildSchema = z.object({
   allergies: z.array(z.string()).max(10),
 });
 
+/**
+ * How the family gets to activities; travel times are estimated per mode.
+ */
+export const TravelModeSchema = z.enum(['driving', 'transit', 'cycling', 'walking']);
+
 export const LocationSchema = z.object({
   neighborhood: z.string().optional(),
   zipCode: z.string().optional(),
   city: z.string().optional(),
-  transportationNeeds: z.boolean().default(false),
+  transportationNeeds: z.boolean().default(false), // No car: travel is scored by transit unless travelMode says otherwise
+  travelMode: TravelModeSchema.optional(),
 });
 
 export const ScheduleConstraintSchema = z.object({
@@ -59,11 +65,15 @@ export const ScheduleConstraintSchema = z.object({
   flexibility: z.enum(['strict', 'somewhat_flexible', 'very_flexible']).default('somewhat_flexible'),
 });
 
+// The period a budget covers; prices are normalized to it before scoring
+export const BudgetPeriodSchema = z.enum(['month', 'week', 'session']);
+
 export const PreferencesSchema = z.object({
   budget: z.object({
     min: z.number().optional(),
-    max: z.number().optional(),
+    max: z.number().optional(), // For the whole household
     currency: z.string().default('USD'),
+    period: BudgetPeriodSchema.optional(),
   }).optional(),
   schedule: z.array(z.enum([
     'weekday_morning', 'weekday_afternoon', 'weekday_evening',
@@ -87,12 +97,102 @@ export type Child = z.infer<typeof ChildSchema>;
 export type Location = z.infer<typeof LocationSchema>;
 export type ScheduleConstraint = z.infer<typeof ScheduleConstraintSchema>;
 export type Preferences = z.infer<typeof PreferencesSchema>;
+export type BudgetPeriod = z.infer<typeof BudgetPeriodSchema>;
 export type FamilyProfile = z.infer<typeof FamilyProfileSchema>;
 
+/**
+ * Where a parsed profile field came from: read from the description, inferred by
+ * the parser, filled with a default, or rewritten by automatic profile fixes.
+ */
+export const FieldOriginSchema = z.enum(['stated', 'inferred', 'defaulted', 'corrected']);
+
+export const FieldProvenanceSchema = z.object({
+  confidence: z.number().min(0).max(1),
+  origin: FieldOriginSchema,
+  span: z.object({ // The part of the description the value came from
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    text: z.string(),
+  }).optional(),
+  note: z.string().optional(), // Why the field needs attention, for the parent
+  needsReview: z.boolean(),
+});
+
+// Keyed by field path: "children.0.age", "location.zipCode", "preferences.schedule.1"
+export const ProfileProvenanceSchema = z.record(z.string(), FieldProvenanceSchema);
+
+export type FieldOrigin = z.infer<typeof FieldOriginSchema>;
+export type FieldProvenance = z.infer<typeof FieldProvenanceSchema>;
+export type ProfileProvenance = z.infer<typeof ProfileProvenanceSchema>;
+
+// ============================================================================
+// FAMILY INTAKE TYPES
+// ============================================================================
+
+/**
+ * A family profile while intake is still collecting it: children may lack ages and
+ * nothing is required yet.
+ */
+export const IntakeChildSchema = ChildSchema.extend({
+  age: ChildSchema.shape.age.optional(),
+});
+
+export const IntakeProfileSchema = z.object({
+  adults: z.array(AdultSchema).max(4).default([]),
+  children: z.array(IntakeChildSchema).max(8).default([]),
+  location: LocationSchema.default({}),
+  preferences: PreferencesSchema.partial().default({}),
+  notes: z.string().optional(),
+});
+
+export const IntakeFieldSchema = z.enum(['children', 'age', 'location', 'budget', 'schedule']);
+
+export const IntakeQuestionSchema = z.object({
+  id: z.string(), // "children", "children.1.age", "location", "budget", "schedule"
+  field: IntakeFieldSchema,
+  prompt: z.string(),
+  reason: z.enum(['missing', 'unconfirmed', 'unrecognized']),
+  required: z.boolean(), // Required questions block recommendations until answered
+  suggestedValue: z.union([z.string(), z.number()]).optional(), // What we inferred, for "is this right?"
+  childName: z.string().optional(),
+});
+
+export const IntakeSessionSchema = z.object({
+  id: z.string(),
+  status: z.enum(['collecting', 'ready', 'complete']),
+  profile: IntakeProfileSchema,
+  questions: z.array(IntakeQuestionSchema), // Open questions, required first
+  unconfirmed: z.array(z.string()), // Question IDs whose values were inferred, not stated
+  skipped: z.array(z.string()), // Optional question IDs the parent passed on
+  turns: z.number().int().min(0),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type IntakeChild = z.infer<typeof IntakeChildSchema>;
+export type IntakeProfile = z.infer<typeof IntakeProfileSchema>;
+export type IntakeField = z.infer<typeof IntakeFieldSchema>;
+export type IntakeQuestion = z.infer<typeof IntakeQuestionSchema>;
+export type IntakeSession = z.infer<typeof IntakeSessionSchema>;
+
 // ============================================================================
 // RECOMMENDATION TYPES
 // ============================================================================
 
+/**
+ * Accessibility, special-needs and allergy accommodations an activity offers.
+ */
+export const AccommodationSchema = z.enum([
+  'sensory_friendly', 'wheelchair_accessible', 'one_on_one_aide',
+  'nut_free', 'allergy_aware', 'inclusive',
+]);
+
+export const ActivityAccommodationsSchema = z.object({
+  features: z.array(AccommodationSchema),
+  languages: z.array(z.string()), // Languages of instruction, e.g. "Spanish"; none listed means English
+  languageProgram: z.enum(['immersion', 'bilingual']).optional(),
+});
+
 export const ActivityMetadataSchema = z.object({
   providerId: z.number().int().positive(),
   programId: z.number().int().positive().optional(),
@@ -120,7 +220,16 @@ export const ActivityMetadataSchema = z.object({
     times: z.array(z.string()),
     recurring: z.boolean().optional(),
     flexibility: z.enum(['fixed', 'flexible', 'very_flexible']).optional(),
+    intervals: z.array(z.object({
+      day: z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']),
+      startMinutes: z.number(), // Local minutes after midnight
+      endMinutes: z.number().optional(),
+      timezone: z.string(),
+      recurrence: z.enum(['weekly', 'once']),
+      dateRange: z.object({ start: z.string().optional(), end: z.string().optional() }).optional(),
+    })).optional(),
   }),
+  accommodations: ActivityAccommodationsSchema.optional(),
   pricing: z.object({
     type: z.enum(['per_session', 'per_month', 'per_program', 'free']),
     amount: z.number().optional(),
@@ -169,8 +278,35 @@ export const RecommendationSchema = z.object({
   metadata: z.any().optional(), // For additional dynamic data
 });
 
+/**
+ * Keep only activities inside (or next to) a neighborhood, by boundary.
+ */
+export const NeighborhoodFilterSchema = z.object({
+  name: z.string().optional(), // Defaults to the family's neighborhood
+  includeAdjacent: z.boolean().optional().default(true),
+});
+
+/**
+ * When the family needs activities: explicit dates (YYYY-MM-DD, inclusive) or a phrase
+ * such as "summer break 2027" or "next two weeks". Explicit dates win.
+ */
+export const DateWindowFilterSchema = z.object({
+  start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  description: z.string().max(100).optional(),
+  strict: z.boolean().optional(), // Drop activities outside the window instead of demoting them
+}).refine(window => Boolean(window.start || window.end || window.description), {
+  message: 'A date window needs a start, an end or a description',
+}).refine(window => !window.start || !window.end || window.start <= window.end, {
+  message: 'A date window must not end before it starts',
+});
+
+export const SeasonSchema = z.enum(['spring', 'summer', 'fall', 'winter']);
+
 export const RecommendationFiltersSchema = z.object({
   maxDistance: z.number().positive().max(50).optional(),
+  maxTravelMinutes: z.number().int().positive().max(120).optional(), // One-way, in the travel mode below
+  travelMode: TravelModeSchema.optional(), // Overrides the family's travel mode
   budgetRange: z.object({
     min: z.number().min(0).optional(),
     max: z.number().min(0).optional(),
@@ -188,11 +324,275 @@ export const RecommendationFiltersSchema = z.object({
   languages: z.array(z.string()).max(5).optional(),
   specialNeeds: z.array(z.string()).max(10).optional(),
   transportationRequired: z.boolean().optional(),
+  keywords: z.array(z.string()).max(10).optional(), // Exact terms for hybrid retrieval, e.g. provider names
+  neighborhood: NeighborhoodFilterSchema.optional(),
+  onlyAvailable: z.boolean().optional(), // Hide full and waitlisted programs
+  dateWindow: DateWindowFilterSchema.optional(),
+});
+
+/**
+ * Weights used to combine scoring factors into the overall match score.
+ * `vector` blends Qdrant similarity with the practical score; the remaining
+ * weights are normalized against each other to produce the practical score.
+ */
+export const RankingWeightsSchema = z.object({
+  vector: z.number().min(0).max(1),
+  age: z.number().min(0).max(1),
+  interests: z.number().min(0).max(1),
+  location: z.number().min(0).max(1),
+  schedule: z.number().min(0).max(1),
+  budget: z.number().min(0).max(1),
+  quality: z.number().min(0).max(1),
+});
+
+export const RankingThresholdsSchema = z.object({
+  minVectorSimilarity: z.number().min(0).max(1), // Skip candidates below this similarity
+  minAgeScore: z.number().min(0).max(1),         // Skip clearly age-inappropriate candidates
+  minMatchScore: z.number().min(0).max(1),       // Drop candidates below this overall score
+  detailedExplanationScore: z.number().min(0).max(1), // Generate full explanations above this score
+});
+
+export const RankingProfileNameSchema = z.enum(['balanced', 'closest-first', 'budget-first', 'interest-first']);
+
+/**
+ * Candidate retrieval: vector similarity only, or vector plus full-text keyword search
+ * fused with reciprocal rank fusion.
+ */
+export const RetrievalModeSchema = z.enum(['vector', 'hybrid']);
+
+/**
+ * Optional reranking of the top candidates against the search query text.
+ * `weight` blends the rerank score with the original match score (1 = rerank score only).
+ */
+export const RerankMethodSchema = z.enum(['cross-encoder', 'llm']);
+
+export const RerankOptionsSchema = z.object({
+  method: RerankMethodSchema.default('cross-encoder'),
+  topN: z.number().int().min(2).max(50).default(10),
+  timeoutMs: z.number().int().min(50).max(10000).default(1500), // Latency budget; original order on timeout
+  weight: z.number().min(0).max(1).default(0.5),
+});
+
+/**
+ * Outcome of a rerank attempt, reported in search metadata.
+ */
+export const RerankSummarySchema = z.object({
+  method: RerankMethodSchema,
+  status: z.enum(['applied', 'timeout', 'failed']),
+  candidates: z.number().int().min(0),
+  latencyMs: z.number().min(0),
+  error: z.string().optional(),
+});
+
+/**
+ * Cross-list deduplication for grouped (per-child + whole family) recommendations.
+ * - none: a provider may appear in every list it qualifies for
+ * - family-first: providers in the whole-family list are removed from the child lists
+ * - exclusive: family-first, and each remaining provider is kept only in the child
+ *   list where it scores highest
+ */
+export const BundleDedupeModeSchema = z.enum(['none', 'family-first', 'exclusive']);
+
+export const RecommendationBundleOptionsSchema = z.object({
+  dedupe: BundleDedupeModeSchema.default('family-first'),
+  familyMinChildren: z.number().int().min(2).max(10).default(2), // Children an activity must fit to join the family list
+});
+
+/**
+ * Sibling co-scheduling: combine one activity per child into drop-off plans.
+ * `logisticsWeight` blends shared location/time with the children's own match scores.
+ */
+export const SiblingPlanOptionsSchema = z.object({
+  limit: z.number().int().min(1).max(20).default(5),
+  candidatesPerChild: z.number().int().min(2).max(15).default(8), // Top activities per child to combine
+  logisticsWeight: z.number().min(0).max(1).default(0.4),
+  nearbyMiles: z.number().min(0.1).max(10).default(1), // Different addresses within this count as nearby
+  adjacentGapMinutes: z.number().int().min(0).max(180).default(45), // Back-to-back if the gap is at most this
+  defaultDurationMinutes: z.number().int().min(15).max(240).default(60), // Assumed when an event has no end time
+  minAgeScore: z.number().min(0).max(1).default(0.7), // Each activity must fit its own child at least this well
+});
+
+/**
+ * Weekly schedule optimizer: pick a conflict-free set of activities for the week.
+ */
+export const WeeklyScheduleOptionsSchema = z.object({
+  calendars: z.number().int().min(1).max(5).default(3), // Alternative calendars to return
+  maxActivities: z.number().int().min(1).max(14).default(5), // Activities per week across the family
+  maxActivitiesPerChild: z.number().int().min(1).max(7).default(2),
+  candidatesPerChild: z.number().int().min(2).max(20).default(8),
+  defaultDurationMinutes: z.number().int().min(15).max(240).default(60), // Assumed length of meetings listed without an end time
+  singleDriver: z.boolean().default(true), // One adult drives, so activities at different places can't overlap
+  minAgeScore: z.number().min(0).max(1).default(0.7), // Candidates must fit their child at least this well
+});
+
+/**
+ * Where a scored age range came from, most to least reliable.
+ * Category sources are keyword inference ("teen", "preschool"), not explicit ages.
+ */
+export const AgeRangeSourceSchema = z.enum([
+  'event_fields', 'event_text', 'event_category',
+  'provider_text', 'provider_category',
+  'vector_metadata', 'default',
+]);
+
+const ScoringCoordinatesSchema = z.object({ lat: z.number(), lng: z.number() });
+
+/**
+ * Enrollment availability derived from capacity/enrollment or spots left.
+ */
+export const AvailabilitySchema = z.object({
+  status: z.enum(['open', 'limited', 'waitlist', 'full', 'unknown']),
+  spotsLeft: z.number().int().min(0).optional(),
+  spotsTotal: z.number().int().min(0).optional(),
+});
+
+/**
+ * Raw inputs and intermediate values behind one recommendation's scores, for
+ * debugging a match without reproducing it. `scorer` says which scoring path ran:
+ * the full path scores database records, the lightweight path vector payloads only.
+ */
+export const ScoringExplanationSchema = z.object({
+  scorer: z.enum(['full', 'lightweight']),
+  vector: z.object({
+    similarity: z.number(),
+    lexicalScore: z.number().optional(),
+  }),
+  age: z.object({
+    range: z.object({ min: z.number(), max: z.number() }),
+    source: AgeRangeSourceSchema,
+    confidence: z.number().optional(), // 0-1; 1 for explicit min/max fields, lowest for keyword inference
+    children: z.array(z.object({ name: z.string(), age: z.number() })), // Children the range was scored against
+    score: z.number(),
+  }),
+  interests: z.object({
+    activityInterests: z.array(z.string()),
+    familyInterests: z.array(z.string()),
+    matched: z.array(z.string()),
+    score: z.number(),
+  }),
+  location: z.object({
+    method: z.enum(['travel_time', 'distance', 'neighborhood', 'adjacent_neighborhood', 'city', 'metro_area', 'state', 'none']),
+    distanceMiles: z.number().optional(),
+    travel: z.object({
+      mode: TravelModeSchema,
+      minutes: z.number(), // One-way estimate from the family's location
+      source: z.enum(['heuristic', 'osrm']),
+      rushHour: z.boolean(), // Estimated for a weekday rush-hour start
+    }).optional(),
+    activity: z.object({
+      city: z.string().optional(),
+      zipCode: z.string().optional(),
+      neighborhood: z.string().optional(),
+      coordinates: ScoringCoordinatesSchema.optional(),
+    }),
+    coordinateSource: z.enum(['event', 'provider', 'zip_lookup', 'market_center', 'none']),
+    familyCoordinates: ScoringCoordinatesSchema.optional(),
+    familyCoordinateSource: z.enum(['profile', 'zip_lookup', 'neighborhood', 'market_center', 'none']),
+    neighborhood: z.object({
+      family: z.string().optional(), // Family's neighborhood, when its boundary is known
+      activity: z.string().optional(), // Neighborhood containing the activity
+      relation: z.enum(['inside', 'adjacent', 'outside', 'unknown']),
+    }).optional(),
+    score: z.number(),
+  }),
+  schedule: z.object({
+    assumed: z.boolean(), // Score is a fixed default, not derived from the schedule
+    days: z.array(z.string()),
+    times: z.array(z.string()),
+    timeSlots: z.array(z.string()),
+    familySlots: z.array(z.string()),
+    matchedSlots: z.array(z.string()),
+    flexibility: z.string().optional(),
+    intervals: z.array(z.string()).optional(), // "Tuesday 4:15 PM-5:30 PM"
+    availableShare: z.number().optional(), // Share of meeting time inside the family's hours
+    durationMinutes: z.number().optional(),
+    preferredDuration: z.number().optional(),
+    score: z.number(),
+  }),
+  budget: z.object({
+    pricingType: z.string().optional(),
+    priceUsed: z.number().optional(),
+    priceSource: z.enum(['event', 'vector_metadata', 'none']),
+    priceConfidence: z.number().optional(), // 0-1, how clearly the price text stated it
+    budgetMax: z.number().optional(),
+    budgetSource: z.enum(['profile', 'filters', 'none']),
+    period: BudgetPeriodSchema.optional(),
+    perChildCost: z.number().optional(), // Price normalized to the budget period
+    children: z.number().int().optional(), // Children the activity would enroll
+    householdCost: z.number().optional(), // After any sibling discount
+    budgetShare: z.number().optional(), // Part of the budget those children get
+    runningHouseholdSpend: z.number().optional(), // With the higher-ranked picks, see HouseholdSpendSchema
+    householdBudgetExceeded: z.boolean().optional(),
+    siblingDiscount: z.string().optional(), // As published by the provider
+    score: z.number(),
+  }),
+  quality: z.object({
+    source: z.enum(['provider', 'vector_similarity']),
+    verified: z.boolean().optional(),
+    rating: z.number().optional(),
+    reviewCount: z.number().optional(),
+    experience: z.number().optional(),
+    score: z.number(),
+  }),
+  availability: AvailabilitySchema.extend({
+    multiplier: z.number(), // Applied to the match score; full and waitlisted programs are demoted
+  }),
+  accommodations: z.object({ // Only when children have needs or the request requires accommodations
+    offered: z.array(AccommodationSchema),
+    needs: z.array(z.object({
+      accommodation: AccommodationSchema,
+      children: z.array(z.string()),
+      reason: z.string(),
+    })),
+    met: z.array(AccommodationSchema),
+    missing: z.array(AccommodationSchema),
+    required: z.array(AccommodationSchema), // From the specialNeeds filter; all are met or the activity is dropped
+    multiplier: z.number(),
+  }).optional(),
+  languages: z.object({ // Only when the activity names languages or the family has non-English ones
+    offered: z.array(z.string()),
+    program: z.enum(['immersion', 'bilingual']).optional(),
+    familyLanguages: z.array(z.string()),
+    matched: z.array(z.string()),
+    multiplier: z.number(), // Above 1 for programs taught in a family language
+  }).optional(),
+  dateWindow: z.object({ // Only when the request sets a date window
+    window: z.object({ start: z.string(), end: z.string().optional(), label: z.string() }),
+    activityStart: z.string().optional(),
+    activityEnd: z.string().optional(),
+    recurring: z.boolean().optional(),
+    relation: z.enum(['inside', 'overlaps', 'outside', 'unknown']),
+    multiplier: z.number(),
+  }).optional(),
+  weights: RankingWeightsSchema,
+  practicalScore: z.number(),
+  matchScore: z.number(),
 });
 
 export type ActivityMetadata = z.infer<typeof ActivityMetadataSchema>;
 export type Recommendation = z.infer<typeof RecommendationSchema>;
 export type RecommendationFilters = z.infer<typeof RecommendationFiltersSchema>;
+export type NeighborhoodFilter = z.infer<typeof NeighborhoodFilterSchema>;
+export type TravelMode = z.infer<typeof TravelModeSchema>;
+export type Availability = z.infer<typeof AvailabilitySchema>;
+export type Accommodation = z.infer<typeof AccommodationSchema>;
+export type ActivityAccommodations = z.infer<typeof ActivityAccommodationsSchema>;
+export type DateWindowFilter = z.infer<typeof DateWindowFilterSchema>;
+export type Season = z.infer<typeof SeasonSchema>;
+export type AvailabilityStatus = Availability['status'];
+export type RankingWeights = z.infer<typeof RankingWeightsSchema>;
+export type RankingThresholds = z.infer<typeof RankingThresholdsSchema>;
+export type RankingProfileName = z.infer<typeof RankingProfileNameSchema>;
+export type RetrievalMode = z.infer<typeof RetrievalModeSchema>;
+export type RerankMethod = z.infer<typeof RerankMethodSchema>;
+export type RerankOptions = z.infer<typeof RerankOptionsSchema>;
+export type RerankSummary = z.infer<typeof RerankSummarySchema>;
+export type BundleDedupeMode = z.infer<typeof BundleDedupeModeSchema>;
+export type RecommendationBundleOptions = z.infer<typeof RecommendationBundleOptionsSchema>;
+export type SiblingPlanOptions = z.infer<typeof SiblingPlanOptionsSchema>;
+export type WeeklyScheduleOptions = z.infer<typeof WeeklyScheduleOptionsSchema>;
+export type AgeRangeSource = z.infer<typeof AgeRangeSourceSchema>;
+export type ScoringExplanation = z.infer<typeof ScoringExplanationSchema>;
 
 // ============================================================================
 // LIGHTWEIGHT RECOMMENDATION TYPES (FOR ENGINE OUTPUT)
@@ -203,11 +603,24 @@ export type RecommendationFilters = z.infer<typeof RecommendationFiltersSchema>;
  * Used by the recommendation engine to avoid duplication issues.
  * The API route will deduplicate these IDs and fetch full data separately.
  */
+/**
+ * What a recommendation costs the household, and what the family would spend in total
+ * taking it with the higher-ranked picks (about one activity per child).
+ */
+export const HouseholdSpendSchema = z.object({
+  cost: z.number(), // In the budget period, after any sibling discount
+  period: BudgetPeriodSchema.optional(),
+  children: z.number().int(), // Children the activity would enroll
+  runningTotal: z.number().optional(), // Set for picks in the family's likely set
+  overBudget: z.boolean().optional(), // The running total exceeds the household budget
+});
+
 export const LightweightRecommendationSchema = z.object({
   providerId: z.string(),
   programId: z.string().optional(),
   eventId: z.string().optional(),
   vectorSimilarity: z.number().min(0).max(1),
+  lexicalScore: z.number().min(0).max(1).optional(), // Normalized full-text rank, hybrid retrieval only
   practicalScore: z.number().min(0).max(1),
   matchScore: z.number().min(0).max(1),
   matchReasons: z.array(z.string()),
@@ -220,7 +633,12 @@ export const LightweightRecommendationSchema = z.object({
     schedule: z.number().min(0).max(1),
     budget: z.number().min(0).max(1),
     quality: z.number().min(0).max(1),
+    rerank: z.number().min(0).max(1).optional(), // From the reranking stage, top candidates only
   }),
+  availability: AvailabilitySchema.optional(),
+  householdSpend: HouseholdSpendSchema.optional(), // With a budget and a known price
+  fitsChildren: z.array(z.string()).optional(), // Children the activity fits, whole-family bundle only
+  scoring: ScoringExplanationSchema.optional(), // Raw scorer inputs, only when explain is requested
 });
 
 /**
@@ -236,17 +654,54 @@ export const LightweightRecommendationResultSchema = z.object({
     filtersApplied: z.array(z.string()),
     searchQuery: z.string(),
     embedding: z.array(z.number()).optional(),
+    ranking: z.object({
+      profile: z.string(),
+      customized: z.boolean(),
+      weights: RankingWeightsSchema,
+      thresholds: RankingThresholdsSchema,
+    }).optional(),
+    retrieval: z.object({
+      mode: RetrievalModeSchema,
+      vectorResults: z.number().int().min(0),
+      lexicalResults: z.number().int().min(0),
+      fusedResults: z.number().int().min(0),
+    }).optional(),
+    rerank: RerankSummarySchema.optional(),
   }),
   performance: z.object({
     vectorSearchMs: z.number().int().min(0),
     scoringMs: z.number().int().min(0),
+    rerankMs: z.number().min(0).optional(),
     totalMs: z.number().int().min(0),
     cacheHit: z.boolean(),
   }),
 });
 
+/**
+ * Grouped lightweight result: one ranked list per child plus a whole-family list,
+ * all scored from a single embedding and candidate retrieval.
+ */
+export const LightweightRecommendationBundlesResultSchema = z.object({
+  children: z.array(z.object({
+    childName: z.string(),
+    recommendations: z.array(LightweightRecommendationSchema),
+    totalMatches: z.number().int().min(0),
+  })),
+  family: z.object({
+    recommendations: z.array(LightweightRecommendationSchema),
+    totalMatches: z.number().int().min(0),
+    minChildren: z.number().int().min(2),
+  }),
+  searchMetadata: LightweightRecommendationResultSchema.shape.searchMetadata
+    .omit({ totalMatches: true })
+    .extend({ dedupe: BundleDedupeModeSchema }),
+  performance: LightweightRecommendationResultSchema.shape.performance,
+});
+
+export type HouseholdSpend = z.infer<typeof HouseholdSpendSchema>;
 export type LightweightRecommendation = z.infer<typeof LightweightRecommendationSchema>;
 export type LightweightRecommendationResult = z.infer<typeof LightweightRecommendationResultSchema>;
+export type LightweightRecommendationBundlesResult = z.infer<typeof LightweightRecommendationBundlesResultSchema>;
 
 // ============================================================================
 // EMAIL PROCESSING TYPES